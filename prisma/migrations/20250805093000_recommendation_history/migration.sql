@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "recommendations_user_created_idx" ON "recommendations"("user_id", "created_at");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "recommendation_feedback" (
+    "id" TEXT NOT NULL,
+    "recommendation_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "action" VARCHAR(20) NOT NULL,
+    "comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recommendation_feedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recommendation_feedback_recommendation_action_key" ON "recommendation_feedback"("recommendation_id", "action");
+
+-- CreateIndex
+CREATE INDEX "recommendation_feedback_user_created_idx" ON "recommendation_feedback"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "recommendation_feedback" ADD CONSTRAINT "recommendation_feedback_recommendation_id_fkey" FOREIGN KEY ("recommendation_id") REFERENCES "recommendations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recommendation_feedback" ADD CONSTRAINT "recommendation_feedback_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
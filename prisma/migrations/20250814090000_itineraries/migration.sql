@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "itineraries" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "title" TEXT,
+    "mood" VARCHAR(50) NOT NULL,
+    "date" DATE NOT NULL,
+    "start_time" VARCHAR(5) NOT NULL,
+    "duration" DOUBLE PRECISION NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "stops" JSONB NOT NULL,
+    "alternatives" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "itineraries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "itineraries_user_created_idx" ON "itineraries"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "itineraries" ADD CONSTRAINT "itineraries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
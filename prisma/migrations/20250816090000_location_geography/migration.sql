@@ -0,0 +1,36 @@
+-- PostGIS is optional: without it the column, index and trigger are skipped and
+-- LocationRepository.findNearby keeps using bounding-box queries.
+DO $$
+BEGIN
+    BEGIN
+        CREATE EXTENSION IF NOT EXISTS postgis;
+    EXCEPTION WHEN OTHERS THEN
+        RAISE NOTICE 'PostGIS is not available (%), skipping locations.geog', SQLERRM;
+        RETURN;
+    END;
+
+    -- AddColumn
+    ALTER TABLE "locations" ADD COLUMN IF NOT EXISTS "geog" geography(Point, 4326);
+
+    -- Backfill
+    UPDATE "locations"
+    SET "geog" = ST_SetSRID(ST_MakePoint("longitude", "latitude"), 4326)::geography
+    WHERE "geog" IS NULL;
+
+    -- CreateIndex
+    CREATE INDEX IF NOT EXISTS "locations_geog_idx" ON "locations" USING GIST ("geog");
+
+    -- Keep geog in sync with the coordinates Prisma writes
+    CREATE OR REPLACE FUNCTION locations_sync_geog() RETURNS trigger AS $fn$
+    BEGIN
+        NEW."geog" := ST_SetSRID(ST_MakePoint(NEW."longitude", NEW."latitude"), 4326)::geography;
+        RETURN NEW;
+    END;
+    $fn$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS "locations_sync_geog" ON "locations";
+    CREATE TRIGGER "locations_sync_geog"
+        BEFORE INSERT OR UPDATE OF "latitude", "longitude" ON "locations"
+        FOR EACH ROW EXECUTE FUNCTION locations_sync_geog();
+END
+$$;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "location_tiles" (
+    "id" TEXT NOT NULL,
+    "provider" VARCHAR(20) NOT NULL,
+    "geohash" VARCHAR(12) NOT NULL,
+    "category_key" VARCHAR(64) NOT NULL,
+    "places" JSONB NOT NULL,
+    "place_count" INTEGER NOT NULL,
+    "fetched_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "location_tiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "location_tiles_key" ON "location_tiles"("provider", "geohash", "category_key");
+
+-- CreateIndex
+CREATE INDEX "location_tiles_expires_idx" ON "location_tiles"("expires_at");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "provider_usage" (
+    "id" TEXT NOT NULL,
+    "provider" VARCHAR(20) NOT NULL,
+    "date" DATE NOT NULL,
+    "calls" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "provider_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_usage_provider_date_key" ON "provider_usage"("provider", "date");
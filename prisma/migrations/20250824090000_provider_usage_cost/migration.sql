@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "provider_usage" ADD COLUMN "cost" DECIMAL(10,4) NOT NULL DEFAULT 0;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "place_matches" (
+    "id" TEXT NOT NULL,
+    "location_id" TEXT,
+    "osm_id" VARCHAR(255) NOT NULL,
+    "google_place_id" VARCHAR(255) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "origin" VARCHAR(20) NOT NULL DEFAULT 'auto',
+    "confidence" DECIMAL(3,2),
+    "distance" DOUBLE PRECISION,
+    "name_similarity" DOUBLE PRECISION,
+    "osm_snapshot" JSONB NOT NULL,
+    "google_snapshot" JSONB NOT NULL,
+    "decided_by" TEXT,
+    "decided_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "place_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "place_matches_osm_google_key" ON "place_matches"("osm_id", "google_place_id");
+
+-- CreateIndex
+CREATE INDEX "place_matches_status_created_at_idx" ON "place_matches"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "place_matches_google_place_id_idx" ON "place_matches"("google_place_id");
+
+-- AddForeignKey
+ALTER TABLE "place_matches" ADD CONSTRAINT "place_matches_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "location_aliases" (
+    "id" TEXT NOT NULL,
+    "location_id" TEXT NOT NULL,
+    "snapshot" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "location_aliases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "location_aliases_location_id_idx" ON "location_aliases"("location_id");
+
+-- AddForeignKey
+ALTER TABLE "location_aliases" ADD CONSTRAINT "location_aliases_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- pg_trgm is optional: without it the indexes are skipped and
+-- LocationRepository.searchText falls back to substring matching.
+DO $$
+BEGIN
+    BEGIN
+        CREATE EXTENSION IF NOT EXISTS pg_trgm;
+    EXCEPTION WHEN OTHERS THEN
+        RAISE NOTICE 'pg_trgm is not available (%), skipping text search indexes', SQLERRM;
+        RETURN;
+    END;
+
+    -- CreateIndex
+    CREATE INDEX IF NOT EXISTS "locations_name_trgm_idx" ON "locations" USING GIN ("name" gin_trgm_ops);
+    CREATE INDEX IF NOT EXISTS "locations_address_trgm_idx" ON "locations" USING GIN ("address" gin_trgm_ops);
+
+    -- Must match the expression LocationRepository.searchText queries
+    CREATE INDEX IF NOT EXISTS "locations_osm_tags_trgm_idx" ON "locations" USING GIN (("metadata" #>> '{osm,tags}') gin_trgm_ops);
+END
+$$;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "location_tiles" ADD COLUMN "truncated" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,18 @@
+-- Active jobs sharing a key were possible before this index; keep one of each (a running one
+-- first, then the oldest) so the index can be built
+WITH "ranked" AS (
+    SELECT "id", ROW_NUMBER() OVER (
+        PARTITION BY "type", "key"
+        ORDER BY ("status" = 'running') DESC, "created_at", "id"
+    ) AS "rank"
+    FROM "jobs"
+    WHERE "key" IS NOT NULL AND "status" IN ('pending', 'running')
+)
+UPDATE "jobs"
+SET "status" = 'failed', "last_error" = 'Duplicate of an equivalent queued job',
+    "locked_at" = NULL, "locked_by" = NULL, "completed_at" = NOW(), "updated_at" = NOW()
+FROM "ranked"
+WHERE "jobs"."id" = "ranked"."id" AND "ranked"."rank" > 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "jobs_type_key_active_key" ON "jobs"("type", "key") WHERE "status" IN ('pending', 'running');
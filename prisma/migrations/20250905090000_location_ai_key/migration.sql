@@ -0,0 +1,6 @@
+-- Existing AI rows keep a NULL key; new suggestions are still matched to them by name and distance
+-- AlterTable
+ALTER TABLE "locations" ADD COLUMN "ai_key" VARCHAR(255);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "locations_ai_key_key" ON "locations"("ai_key");
@@ -0,0 +1,26 @@
+#!/usr/bin/env bash
+# Downloads the timezone-boundary-builder GeoJSON that TimezoneService loads at startup.
+# TIMEZONE_BOUNDARIES_VERSION picks the release, TIMEZONE_BOUNDARIES_PATH where the file goes.
+set -euo pipefail
+
+version="${TIMEZONE_BOUNDARIES_VERSION:-2025b}"
+target="${TIMEZONE_BOUNDARIES_PATH:-data/timezones.geojson}"
+# The "now" variant merges zones that keep the same time from today on, which is all a current-time lookup needs
+url="https://github.com/evansiroky/timezone-boundary-builder/releases/download/${version}/timezones-now.geojson.zip"
+
+workdir="$(mktemp -d)"
+trap 'rm -rf "$workdir"' EXIT
+
+echo "Downloading timezone boundaries ${version}..."
+curl -fsSL -o "$workdir/timezones.zip" "$url"
+unzip -q "$workdir/timezones.zip" -d "$workdir/extracted"
+
+geojson="$(find "$workdir/extracted" -name '*.json' | head -n 1)"
+if [ -z "$geojson" ]; then
+  echo "No GeoJSON found in ${url}" >&2
+  exit 1
+fi
+
+mkdir -p "$(dirname "$target")"
+mv "$geojson" "$target"
+echo "Saved $(du -h "$target" | cut -f1) of timezone boundaries to ${target}"
@@ -0,0 +1,148 @@
+import { FastifyInstance } from 'fastify';
+import { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
+import {
+  ItineraryGenerateRequestSchema,
+  ItinerarySchema,
+  ItineraryListQuerySchema,
+  ItineraryListResponseSchema,
+  ItineraryParamsSchema,
+  ItineraryStopParamsSchema,
+  ItineraryReorderRequestSchema,
+  ItinerarySwapRequestSchema,
+  ItineraryResponse
+} from '@shared/schemas/itinerary.schema';
+import { itineraryService } from '@shared/services';
+import { Itinerary } from '@shared/services/itinerary';
+import { requireAuth } from '@shared/middleware';
+
+// Convert a stored itinerary into its JSON response shape
+function toItineraryResponse(itinerary: Itinerary): ItineraryResponse {
+  return {
+    id: itinerary.id,
+    title: itinerary.title,
+    mood: itinerary.mood,
+    date: itinerary.date,
+    startTime: itinerary.startTime,
+    endTime: itinerary.endTime,
+    duration: itinerary.duration,
+    start: itinerary.start,
+    stops: itinerary.stops,
+    alternatives: itinerary.alternatives.map(candidate => ({
+      placeId: candidate.placeId,
+      name: candidate.name,
+      category: candidate.category
+    })),
+    totals: itinerary.totals,
+    createdAt: itinerary.createdAt.toISOString(),
+    updatedAt: itinerary.updatedAt.toISOString()
+  };
+}
+
+async function itinerariesRoutes(fastify: FastifyInstance): Promise<void> {
+  const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
+
+  // Build and save an ordered day plan from nearby places
+  server.post('/api/itineraries/generate', {
+    preHandler: requireAuth(),
+    schema: {
+      body: ItineraryGenerateRequestSchema,
+      response: {
+        201: ItinerarySchema
+      }
+    }
+  }, async (request, reply) => {
+    const itinerary = await itineraryService.generate(request.user!.id, request.body);
+
+    fastify.log.info({
+      userId: request.user!.id,
+      itineraryId: itinerary.id,
+      stops: itinerary.totals.stops,
+      walkingMeters: itinerary.totals.walkingMeters
+    }, 'Itinerary generated');
+
+    reply.status(201);
+    return toItineraryResponse(itinerary);
+  });
+
+  // List the current user's itineraries, newest first
+  server.get('/api/itineraries', {
+    preHandler: requireAuth(),
+    schema: {
+      querystring: ItineraryListQuerySchema,
+      response: {
+        200: ItineraryListResponseSchema
+      }
+    }
+  }, async (request) => {
+    const page = await itineraryService.list(request.user!.id, request.query);
+
+    return {
+      items: page.items.map(toItineraryResponse),
+      pagination: page.pagination
+    };
+  });
+
+  // Get a single itinerary
+  server.get('/api/itineraries/:id', {
+    preHandler: requireAuth(),
+    schema: {
+      params: ItineraryParamsSchema,
+      response: {
+        200: ItinerarySchema
+      }
+    }
+  }, async (request) => {
+    return toItineraryResponse(await itineraryService.getById(request.user!.id, request.params.id));
+  });
+
+  // Put the stops in a new order - times and walking legs are recomputed
+  server.put('/api/itineraries/:id/stops', {
+    preHandler: requireAuth(),
+    schema: {
+      params: ItineraryParamsSchema,
+      body: ItineraryReorderRequestSchema,
+      response: {
+        200: ItinerarySchema
+      }
+    }
+  }, async (request) => {
+    const itinerary = await itineraryService.reorderStops(request.user!.id, request.params.id, request.body.order);
+    return toItineraryResponse(itinerary);
+  });
+
+  // Drop a stop from the plan
+  server.delete('/api/itineraries/:id/stops/:placeId', {
+    preHandler: requireAuth(),
+    schema: {
+      params: ItineraryStopParamsSchema,
+      response: {
+        200: ItinerarySchema
+      }
+    }
+  }, async (request) => {
+    const itinerary = await itineraryService.removeStop(request.user!.id, request.params.id, request.params.placeId);
+    return toItineraryResponse(itinerary);
+  });
+
+  // Replace a stop with one of the alternatives, or the best-fitting one when none is given
+  server.post('/api/itineraries/:id/stops/:placeId/swap', {
+    preHandler: requireAuth(),
+    schema: {
+      params: ItineraryStopParamsSchema,
+      body: ItinerarySwapRequestSchema,
+      response: {
+        200: ItinerarySchema
+      }
+    }
+  }, async (request) => {
+    const itinerary = await itineraryService.swapStop(
+      request.user!.id,
+      request.params.id,
+      request.params.placeId,
+      request.body.replacementPlaceId
+    );
+    return toItineraryResponse(itinerary);
+  });
+}
+
+export default itinerariesRoutes;
@@ -0,0 +1,86 @@
+import { FastifyInstance } from 'fastify';
+import { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
+import { Job } from '@prisma/client';
+import {
+  JobSchema,
+  JobListQuerySchema,
+  JobListResponseSchema,
+  JobParamsSchema,
+  JobResponse
+} from '@shared/schemas/job.schema';
+import { jobQueue } from '@shared/services/jobs';
+import { requireAdmin } from '@shared/middleware';
+
+function toJobResponse(job: Job): JobResponse {
+  return {
+    id: job.id,
+    type: job.type,
+    key: job.key,
+    status: job.status as JobResponse['status'],
+    payload: job.payload,
+    result: job.result,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    runAt: job.runAt.toISOString(),
+    lockedBy: job.lockedBy,
+    lastError: job.lastError,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null
+  };
+}
+
+async function jobsRoutes(fastify: FastifyInstance): Promise<void> {
+  const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
+
+  // Queue status, newest jobs first
+  server.get('/api/admin/jobs', {
+    preHandler: requireAdmin(),
+    schema: {
+      querystring: JobListQuerySchema,
+      response: {
+        200: JobListResponseSchema
+      }
+    }
+  }, async (request) => {
+    const { status, type, page, limit } = request.query;
+    const result = await jobQueue.listJobs(
+      { ...(status && { status }), ...(type && { type }) },
+      page,
+      limit
+    );
+
+    return {
+      items: result.items.map(toJobResponse),
+      counts: result.counts,
+      pagination: result.pagination
+    };
+  });
+
+  server.get('/api/admin/jobs/:id', {
+    preHandler: requireAdmin(),
+    schema: {
+      params: JobParamsSchema,
+      response: {
+        200: JobSchema
+      }
+    }
+  }, async (request) => {
+    return toJobResponse(await jobQueue.getJob(request.params.id));
+  });
+
+  // Give a permanently failed job another full set of attempts
+  server.post('/api/admin/jobs/:id/retry', {
+    preHandler: requireAdmin(),
+    schema: {
+      params: JobParamsSchema,
+      response: {
+        200: JobSchema
+      }
+    }
+  }, async (request) => {
+    return toJobResponse(await jobQueue.retry(request.params.id));
+  });
+}
+
+export default jobsRoutes;
@@ -3,10 +3,20 @@ import { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 import {
   LocationSearchRequestSchema,
   LocationSearchResponseSchema,
-  PlaceDetailsResponseSchema
+  PlaceDetailsQuerySchema,
+  PlaceDetailsResponseSchema,
+  TextSearchQuerySchema,
+  TextSearchResponseSchema
 } from '@shared/schemas/location.schema';
-import { locationService } from '@shared/services';
-import { requireAuth } from '@shared/middleware';
+import { locationService, providerUsageService, timezoneService } from '@shared/services';
+import { deduplicationService, describePlaceProvenance, textSearchService } from '@shared/services/location';
+import { requireAuth, requireAdmin } from '@shared/middleware';
+import {
+  GoogleEnrichmentResponseSchema,
+  LocationDedupeRequestSchema,
+  LocationDedupeResponseSchema,
+  LocationRefreshResponseSchema
+} from '@shared/schemas/job.schema';
 import { AppError } from '@shared/errors';
 import { config } from '@shared/config';
 import { POICategory } from '@shared/services/location/types';
@@ -32,7 +42,11 @@ async function locationsRoutes(fastify: FastifyInstance): Promise<void> {
         categories,
         mood,
         limit,
-        excludeChains
+        excludeChains,
+        openNow,
+        openAt,
+        timezone,
+        includeUnknownHours
       } = request.body;
 
       // Build service request with proper defaults to avoid undefined values
@@ -47,7 +61,14 @@ async function locationsRoutes(fastify: FastifyInstance): Promise<void> {
         ...(excludeChains !== undefined && { excludeChains })
       };
 
-      const searchResult = await locationService.searchNearby(serviceRequest);
+      const openingHours = {
+        ...(openNow !== undefined && { openNow }),
+        ...(openAt !== undefined && { openAt }),
+        ...(timezone !== undefined && { timezone }),
+        ...(includeUnknownHours !== undefined && { includeUnknown: includeUnknownHours })
+      };
+
+      const searchResult = await locationService.searchNearby(serviceRequest, request.user!.id, openingHours);
 
       // Convert service response to match schema exactly
       const response = {
@@ -91,11 +112,13 @@ async function locationsRoutes(fastify: FastifyInstance): Promise<void> {
           searchRadius: searchResult.metadata.searchRadius,
           categoriesSearched: searchResult.metadata.categoriesSearched,
           ...(searchResult.metadata.cached !== undefined && { cached: searchResult.metadata.cached }),
+          ...(searchResult.metadata.localContext && { localContext: searchResult.metadata.localContext }),
           // ADDED: Include hybrid-specific metadata if available
           ...(searchResult.metadata.osmPlaces !== undefined && { osmPlaces: searchResult.metadata.osmPlaces }),
           ...(searchResult.metadata.googleEnrichments !== undefined && { googleEnrichments: searchResult.metadata.googleEnrichments }),
           ...(searchResult.metadata.costOptimization !== undefined && { costOptimization: searchResult.metadata.costOptimization }),
-          ...(searchResult.metadata.fallbackReason !== undefined && { fallbackReason: searchResult.metadata.fallbackReason })
+          ...(searchResult.metadata.fallbackReason !== undefined && { fallbackReason: searchResult.metadata.fallbackReason }),
+          ...(searchResult.metadata.openingHours !== undefined && { openingHours: searchResult.metadata.openingHours })
         }
       };
 
@@ -130,6 +153,88 @@ async function locationsRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  // Find places by name, address or tags
+  server.get('/api/locations/search/text', {
+    preHandler: requireAuth(),
+    schema: {
+      querystring: TextSearchQuerySchema,
+      response: {
+        200: TextSearchResponseSchema
+      }
+    }
+  }, async (request) => {
+    const { q, lat, lng, radius, categories, limit, fallback } = request.query;
+
+    if ((lat === undefined) !== (lng === undefined)) {
+      throw new AppError('lat and lng must be given together', 400);
+    }
+
+    try {
+      const searchResult = await textSearchService.search({
+        query: q.trim(),
+        ...(lat !== undefined && lng !== undefined && { latitude: lat, longitude: lng }),
+        ...(radius !== undefined && { radius }),
+        ...(categories !== undefined && { categories: categories.map(cat => cat as POICategory) }),
+        ...(limit !== undefined && { limit })
+      }, {
+        ...(fallback !== undefined && { fallback })
+      });
+
+      const response = {
+        places: searchResult.results.map(({ place, relevance, score }) => {
+          const validSource = place.metadata?.source;
+          const schemaSource: 'osm' | 'google' | 'manual' =
+            validSource === 'osm' || validSource === 'google' || validSource === 'manual'
+              ? validSource
+              : 'manual';
+
+          return {
+            id: place.id,
+            name: place.name,
+            category: place.category,
+            subcategory: place.subcategory,
+            coordinates: place.coordinates,
+            ...(typeof place.distance === 'number' && { distance: place.distance }),
+            ...(place.description && { description: place.description }),
+            ...(place.address && { address: place.address }),
+            metadata: {
+              source: schemaSource,
+              externalId: place.metadata?.externalId || place.id,
+              // Stored rows carry it as a JSON string
+              lastUpdated: new Date(place.metadata?.lastUpdated ?? Date.now()).toISOString(),
+              verified: place.metadata?.verified || false,
+              ...(place.metadata?.osm && { osm: place.metadata.osm }),
+              ...(place.metadata?.google && { google: place.metadata.google }),
+              ...(place.metadata?.contact && { contact: place.metadata.contact }),
+              ...(place.metadata?.hours && { hours: place.metadata.hours }),
+              ...(place.metadata?.features && { features: place.metadata.features })
+            },
+            relevance,
+            score
+          };
+        }),
+        metadata: searchResult.metadata
+      };
+
+      fastify.log.info({
+        userId: request.user?.id,
+        query: q,
+        localResults: searchResult.metadata.localResults,
+        externalResults: searchResult.metadata.externalResults,
+        ...(searchResult.metadata.externalProvider && { externalProvider: searchResult.metadata.externalProvider })
+      }, 'Location text search');
+
+      return response;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      fastify.log.error({ error, query: q }, 'Location text search failed');
+      throw new AppError('Location text search failed', 500);
+    }
+  });
+
   // Get place details by ID
   server.get('/api/locations/:id', {
     preHandler: requireAuth(),
@@ -141,12 +246,14 @@ async function locationsRoutes(fastify: FastifyInstance): Promise<void> {
         },
         required: ['id']
       },
+      querystring: PlaceDetailsQuerySchema,
       response: {
         200: PlaceDetailsResponseSchema
       }
     }
   }, async (request) => {
     const { id } = request.params as { id: string };
+    const { provenance } = request.query;
 
     try {
       const place = await locationService.getPlaceDetails(id);
@@ -194,7 +301,15 @@ async function locationsRoutes(fastify: FastifyInstance): Promise<void> {
           provider: schemaSource,
           lastUpdated: place.metadata?.lastUpdated?.toISOString() || new Date().toISOString(),
           verified: place.metadata?.verified || false
-        }
+        },
+        ...(provenance && {
+          provenance: Object.fromEntries(
+            Object.entries(describePlaceProvenance(place)).map(([field, entry]) => [field, {
+              ...entry,
+              fetchedAt: new Date(entry.fetchedAt).toISOString() // A string once stored as JSON
+            }])
+          )
+        })
       };
     } catch (error) {
       if (error instanceof AppError) {
@@ -294,7 +409,8 @@ async function locationsRoutes(fastify: FastifyInstance): Promise<void> {
           // ADDED: Include hybrid-specific metadata
           ...(searchResult.metadata.osmPlaces !== undefined && { osmPlaces: searchResult.metadata.osmPlaces }),
           ...(searchResult.metadata.googleEnrichments !== undefined && { googleEnrichments: searchResult.metadata.googleEnrichments }),
-          ...(searchResult.metadata.costOptimization !== undefined && { costOptimization: searchResult.metadata.costOptimization })
+          ...(searchResult.metadata.costOptimization !== undefined && { costOptimization: searchResult.metadata.costOptimization }),
+          ...(searchResult.metadata.fallbackReason !== undefined && { fallbackReason: searchResult.metadata.fallbackReason })
         }
       };
 
@@ -324,7 +440,8 @@ async function locationsRoutes(fastify: FastifyInstance): Promise<void> {
       currentProvider: locationService.getCurrentProvider(),
       availableProviders: locationService.getAvailableProviders(),
       providerStatus: locationService.getProviderStatus(),
-      cacheStats: locationService.getCacheStats()
+      timezoneBoundaries: timezoneService.getStatus(),
+      cacheStats: await locationService.getCacheStats()
     };
   });
 
@@ -434,7 +551,7 @@ async function locationsRoutes(fastify: FastifyInstance): Promise<void> {
       preHandler: requireAuth()
     }, async () => {
       return {
-        location: locationService.getCacheStats(),
+        location: await locationService.getCacheStats(),
         currentProvider: locationService.getCurrentProvider(),
         availableProviders: locationService.getAvailableProviders()
       };
@@ -444,22 +561,67 @@ async function locationsRoutes(fastify: FastifyInstance): Promise<void> {
     server.delete('/api/locations/cache', {
       preHandler: requireAuth()
     }, async () => {
-      locationService.clearCache();
-      return { message: 'Location cache cleared successfully' };
+      const removed = await locationService.clearCache();
+      return { message: 'Location cache cleared successfully', removed };
     });
+  }
 
-    // Refresh stale location data
-    server.post('/api/locations/refresh', {
-      preHandler: requireAuth()
-    }, async () => {
-      // Trigger background refresh (non-blocking)
-      locationService.refreshStaleData().catch(error => {
-        fastify.log.error('Background location refresh failed:', error);
-      });
+  // Queue refresh jobs for stale locations now instead of waiting for the worker's next sweep
+  server.post('/api/locations/refresh', {
+    preHandler: requireAdmin(),
+    schema: {
+      response: {
+        202: LocationRefreshResponseSchema
+      }
+    }
+  }, async (_request, reply) => {
+    const queued = await locationService.refreshStaleData();
 
-      return { message: 'Background location refresh initiated' };
-    });
-  }
+    reply.status(202);
+    return { message: 'Stale location refresh queued', queued };
+  });
+
+  // Queue a Google enrichment batch now instead of waiting for the worker's next sweep
+  server.post('/api/locations/enrich', {
+    preHandler: requireAdmin(),
+    schema: {
+      response: {
+        202: GoogleEnrichmentResponseSchema
+      }
+    }
+  }, async (_request, reply) => {
+    const queued = await locationService.queueGoogleEnrichment();
+    const { date, used, budget, remaining } = await providerUsageService.getDailyStatus('google');
+    const { month, spent, cap, degraded } = await providerUsageService.getMonthlyStatus('google');
+
+    reply.status(202);
+    return {
+      message: queued ? 'Google enrichment queued' : 'Google enrichment not queued',
+      queued,
+      budget: { date, used, budget, remaining },
+      monthlySpend: { month, spent, cap, degraded }
+    };
+  });
+
+  // Queue a pass that merges duplicate locations and leaves aliases for the removed IDs
+  server.post('/api/locations/dedupe', {
+    preHandler: requireAdmin(),
+    schema: {
+      body: LocationDedupeRequestSchema,
+      response: {
+        202: LocationDedupeResponseSchema
+      }
+    }
+  }, async (request, reply) => {
+    const job = await deduplicationService.queue(request.body);
+
+    reply.status(202);
+    return {
+      message: job ? 'Location deduplication queued' : 'Location deduplication already queued',
+      queued: job !== null,
+      jobId: job?.id ?? null
+    };
+  });
 
   // Health check for location service
   server.get('/api/locations/health', {
@@ -0,0 +1,113 @@
+import { FastifyInstance } from 'fastify';
+import { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
+import { PlaceMatch } from '@prisma/client';
+import {
+  PlaceMatchSchema,
+  PlaceMatchListQuerySchema,
+  PlaceMatchListResponseSchema,
+  PlaceMatchParamsSchema,
+  PlaceMatchLinkSchema,
+  PlaceMatchResponse
+} from '@shared/schemas/place-match.schema';
+import { placeMatchService } from '@shared/services';
+import { requireAdmin } from '@shared/middleware';
+
+function toPlaceMatchResponse(match: PlaceMatch): PlaceMatchResponse {
+  return {
+    id: match.id,
+    locationId: match.locationId,
+    osmId: match.osmId,
+    googlePlaceId: match.googlePlaceId,
+    status: match.status as PlaceMatchResponse['status'],
+    origin: match.origin as PlaceMatchResponse['origin'],
+    confidence: match.confidence === null ? null : Number(match.confidence),
+    distance: match.distance,
+    nameSimilarity: match.nameSimilarity,
+    osmSnapshot: match.osmSnapshot,
+    googleSnapshot: match.googleSnapshot,
+    decidedBy: match.decidedBy,
+    decidedAt: match.decidedAt?.toISOString() ?? null,
+    createdAt: match.createdAt.toISOString(),
+    updatedAt: match.updatedAt.toISOString()
+  };
+}
+
+async function placeMatchesRoutes(fastify: FastifyInstance): Promise<void> {
+  const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
+
+  // OSM/Google pairs the matcher wasn't sure about, most likely matches first
+  server.get('/api/admin/place-matches', {
+    preHandler: requireAdmin(),
+    schema: {
+      querystring: PlaceMatchListQuerySchema,
+      response: {
+        200: PlaceMatchListResponseSchema
+      }
+    }
+  }, async (request) => {
+    const { status, page, limit } = request.query;
+    const result = await placeMatchService.list(status, page, limit);
+
+    return {
+      items: result.items.map(toPlaceMatchResponse),
+      counts: result.counts,
+      pagination: result.pagination
+    };
+  });
+
+  server.get('/api/admin/place-matches/:id', {
+    preHandler: requireAdmin(),
+    schema: {
+      params: PlaceMatchParamsSchema,
+      response: {
+        200: PlaceMatchSchema
+      }
+    }
+  }, async (request) => {
+    return toPlaceMatchResponse(await placeMatchService.get(request.params.id));
+  });
+
+  // Merge the Google place into the OSM location; later searches keep them merged
+  server.post('/api/admin/place-matches/:id/accept', {
+    preHandler: requireAdmin(),
+    schema: {
+      params: PlaceMatchParamsSchema,
+      response: {
+        200: PlaceMatchSchema
+      }
+    }
+  }, async (request) => {
+    return toPlaceMatchResponse(await placeMatchService.accept(request.params.id, request.user!.id));
+  });
+
+  // Keep the two places apart; the pair won't be matched again
+  server.post('/api/admin/place-matches/:id/reject', {
+    preHandler: requireAdmin(),
+    schema: {
+      params: PlaceMatchParamsSchema,
+      response: {
+        200: PlaceMatchSchema
+      }
+    }
+  }, async (request) => {
+    return toPlaceMatchResponse(await placeMatchService.reject(request.params.id, request.user!.id));
+  });
+
+  server.post('/api/admin/place-matches/link', {
+    preHandler: requireAdmin(),
+    schema: {
+      body: PlaceMatchLinkSchema,
+      response: {
+        201: PlaceMatchSchema
+      }
+    }
+  }, async (request, reply) => {
+    const { locationId, googlePlaceId } = request.body;
+    const match = await placeMatchService.link(locationId, googlePlaceId, request.user!.id);
+
+    reply.status(201);
+    return toPlaceMatchResponse(match);
+  });
+}
+
+export default placeMatchesRoutes;
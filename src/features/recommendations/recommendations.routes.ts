@@ -2,13 +2,46 @@ import { FastifyInstance } from 'fastify';
 import { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 import {
   RecommendationRequestSchema,
-  RecommendationResponseSchema
+  RecommendationResponseSchema,
+  RecommendationHistoryQuerySchema,
+  RecommendationHistoryResponseSchema,
+  RecommendationParamsSchema,
+  StoredRecommendationSchema,
+  StoredRecommendationResponse,
+  RecommendationFeedbackRequestSchema,
+  RecommendationFeedbackResponseSchema
 } from '@shared/schemas/recommendation.schema';
-import { aiService } from '@shared/services';
+import { aiService, recommendationHistoryService, recommendationFeedbackService, usageService } from '@shared/services';
+import { StoredRecommendation } from '@shared/services/recommendation-history.service';
+import { AIRecommendation } from '@shared/services/ai';
 import { requireAuth } from '@shared/middleware';
 import { AppError } from '@shared/errors';
 import { config } from '@shared/config'; // Add this import
 
+// Convert a stored recommendation into its JSON response shape
+function toStoredRecommendationResponse(item: StoredRecommendation): StoredRecommendationResponse {
+  return {
+    id: item.id,
+    createdAt: item.createdAt.toISOString(),
+    generationId: item.generationId,
+    rank: item.rank,
+    recommendation: item.recommendation,
+    request: item.request,
+    provider: item.provider,
+    model: item.model,
+    location: {
+      id: item.location.id,
+      name: item.location.name,
+      category: item.location.category,
+      coordinates: {
+        latitude: item.location.latitude,
+        longitude: item.location.longitude
+      },
+      ...(item.location.address && { address: item.location.address })
+    }
+  };
+}
+
 async function recommendationsRoutes(fastify: FastifyInstance): Promise<void> {
   const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
 
@@ -22,8 +55,19 @@ async function recommendationsRoutes(fastify: FastifyInstance): Promise<void> {
       }
     }
   }, async (request) => { // Remove 'reply' parameter since it's unused
+    // Rejects with 429 before spending anything once the user's budget is gone
+    const reservation = await usageService.reserve(request.user!.id);
+
     try {
-      const recommendations = await aiService.generateRecommendations(request.body);
+      const generated = await aiService.generateRecommendations(request.body, request.user!.id);
+      await usageService.settle(reservation, generated.metadata);
+
+      // Store the generation in the user's history (attaches stored IDs)
+      const recommendations = await recommendationHistoryService.saveGeneration(
+        request.user!.id,
+        request.body,
+        generated
+      );
 
       // Log successful generation for monitoring
       fastify.log.info({
@@ -36,6 +80,8 @@ async function recommendationsRoutes(fastify: FastifyInstance): Promise<void> {
 
       return recommendations;
     } catch (error) {
+      await usageService.release(reservation);
+
       fastify.log.error({
         userId: request.user?.id,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -50,6 +96,111 @@ async function recommendationsRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  // Stream AI recommendations as Server-Sent Events while the model generates them
+  server.post('/api/recommendations/stream', {
+    preHandler: requireAuth(),
+    schema: {
+      body: RecommendationRequestSchema
+    }
+  }, async (request, reply) => {
+    const userId = request.user!.id;
+
+    // Checked before hijacking so an exhausted budget still gets a normal 429 response
+    const reservation = await usageService.reserve(userId);
+
+    // Take over the raw response - headers set by plugins (CORS, helmet) are carried over
+    reply.hijack();
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) {
+        reply.raw.setHeader(name, value);
+      }
+    }
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    let clientClosed = false;
+    reply.raw.on('close', () => {
+      clientClosed = true;
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      if (!clientClosed) {
+        reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    const recommendations: AIRecommendation[] = [];
+
+    try {
+      for await (const event of aiService.streamRecommendations(request.body, userId)) {
+        if (clientClosed) break;
+
+        if (event.type === 'recommendation') {
+          recommendations.push(event.recommendation);
+          sendEvent('recommendation', event.recommendation);
+          continue;
+        }
+
+        await usageService.settle(reservation, event.metadata);
+
+        // Store the completed generation so streamed results show up in history too
+        const saved = await recommendationHistoryService.saveGeneration(userId, request.body, {
+          recommendations,
+          metadata: event.metadata
+        });
+
+        sendEvent('metadata', {
+          ...event.metadata,
+          recommendationIds: saved.recommendations.map(rec => rec.id ?? null)
+        });
+
+        fastify.log.info({
+          userId,
+          provider: event.metadata.provider,
+          responseTime: event.metadata.responseTime,
+          cached: event.metadata.cached,
+          recommendationCount: recommendations.length
+        }, 'AI recommendations streamed');
+      }
+    } catch (error) {
+      fastify.log.error({
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        requestBody: request.body
+      }, 'Failed to stream recommendations');
+
+      sendEvent('error', {
+        message: error instanceof AppError ? error.message : 'Failed to generate recommendations'
+      });
+    } finally {
+      // Nothing to settle when the stream failed or the client left before the metadata
+      await usageService.release(reservation);
+      reply.raw.end();
+    }
+  });
+
+  // Paginated history of the user's past recommendations
+  server.get('/api/recommendations/history', {
+    preHandler: requireAuth(),
+    schema: {
+      querystring: RecommendationHistoryQuerySchema,
+      response: {
+        200: RecommendationHistoryResponseSchema
+      }
+    }
+  }, async (request) => {
+    const history = await recommendationHistoryService.getHistory(request.user!.id, request.query);
+
+    return {
+      items: history.items.map(toStoredRecommendationResponse),
+      pagination: history.pagination
+    };
+  });
+
   // Get available AI providers (useful for debugging/admin)
   server.get('/api/recommendations/providers', {
     preHandler: requireAuth()
@@ -57,7 +208,53 @@ async function recommendationsRoutes(fastify: FastifyInstance): Promise<void> {
     return {
       current: aiService.getCurrentProvider(),
       available: aiService.getAvailableProviders(),
-      cacheStats: aiService.getCacheStats()
+      cacheStats: await aiService.getCacheStats(),
+      parseStats: aiService.getParseStats()
+    };
+  });
+
+  // Get a single stored recommendation
+  server.get('/api/recommendations/:id', {
+    preHandler: requireAuth(),
+    schema: {
+      params: RecommendationParamsSchema,
+      response: {
+        200: StoredRecommendationSchema
+      }
+    }
+  }, async (request) => {
+    const item = await recommendationHistoryService.getById(request.user!.id, request.params.id);
+    return toStoredRecommendationResponse(item);
+  });
+
+  // Record what the user did with a recommendation - shapes their future generations
+  server.post('/api/recommendations/:id/feedback', {
+    preHandler: requireAuth(),
+    schema: {
+      params: RecommendationParamsSchema,
+      body: RecommendationFeedbackRequestSchema,
+      response: {
+        201: RecommendationFeedbackResponseSchema
+      }
+    }
+  }, async (request, reply) => {
+    const feedback = await recommendationFeedbackService.submitFeedback(
+      request.user!.id,
+      request.params.id,
+      request.body.action,
+      request.body.comment
+    );
+
+    fastify.log.info({
+      userId: request.user!.id,
+      recommendationId: feedback.recommendationId,
+      action: feedback.action
+    }, 'Recommendation feedback recorded');
+
+    reply.status(201);
+    return {
+      ...feedback,
+      createdAt: feedback.createdAt.toISOString()
     };
   });
 
@@ -66,8 +263,8 @@ async function recommendationsRoutes(fastify: FastifyInstance): Promise<void> {
     server.delete('/api/recommendations/cache', {
       preHandler: requireAuth()
     }, async () => {
-      aiService.clearCache();
-      return { message: 'Cache cleared successfully' };
+      const removed = await aiService.clearCache();
+      return { message: 'Cache cleared successfully', removed };
     });
   }
 }
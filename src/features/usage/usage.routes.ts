@@ -0,0 +1,23 @@
+import { FastifyInstance } from 'fastify';
+import { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
+import { UsageResponseSchema } from '@shared/schemas/usage.schema';
+import { usageService } from '@shared/services';
+import { requireAuth } from '@shared/middleware';
+
+async function usageRoutes(fastify: FastifyInstance): Promise<void> {
+  const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
+
+  // Current user's AI consumption against their tier's budgets
+  server.get('/api/usage', {
+    preHandler: requireAuth(),
+    schema: {
+      response: {
+        200: UsageResponseSchema
+      }
+    }
+  }, async (request) => {
+    return usageService.getUsage(request.user!.id);
+  });
+}
+
+export default usageRoutes;
@@ -0,0 +1,43 @@
+import { FastifyInstance } from 'fastify';
+import { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
+import { UserPreferencesSchema } from '@shared/schemas/user.schema';
+import { userPreferencesService } from '@shared/services';
+import { requireAuth } from '@shared/middleware';
+
+async function usersRoutes(fastify: FastifyInstance): Promise<void> {
+  const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
+
+  // Get the current user's preference profile
+  server.get('/api/users/me/preferences', {
+    preHandler: requireAuth(),
+    schema: {
+      response: {
+        200: UserPreferencesSchema
+      }
+    }
+  }, async (request) => {
+    return userPreferencesService.getPreferences(request.user!.id);
+  });
+
+  // Replace the current user's preference profile
+  server.put('/api/users/me/preferences', {
+    preHandler: requireAuth(),
+    schema: {
+      body: UserPreferencesSchema,
+      response: {
+        200: UserPreferencesSchema
+      }
+    }
+  }, async (request) => {
+    const preferences = await userPreferencesService.updatePreferences(request.user!.id, request.body);
+
+    fastify.log.info({
+      userId: request.user!.id,
+      fields: Object.keys(preferences)
+    }, 'User preferences updated');
+
+    return preferences;
+  });
+}
+
+export default usersRoutes;
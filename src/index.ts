@@ -2,10 +2,16 @@ import Fastify from 'fastify';
 import { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 import { config } from '@shared/config';
 import { registerErrorHandler } from '@shared/errors';
+import { timezoneService } from '@shared/services';
 import healthRoutes from './features/health/health.routes'; // FIX: Remove .js
 import authRoutes from './features/auth/auth.routes'; // FIX: Remove .js
 import recommendationsRoutes from './features/recommendations/recommendations.routes'; // FIX: Remove .js
 import locationsRoutes from './features/locations/locations.routes'; // FIX: Remove .js
+import usageRoutes from './features/usage/usage.routes';
+import usersRoutes from './features/users/users.routes';
+import itinerariesRoutes from './features/itineraries/itineraries.routes';
+import jobsRoutes from './features/jobs/jobs.routes';
+import placeMatchesRoutes from './features/place-matches/place-matches.routes';
 
 const fastify = Fastify({
   logger: {
@@ -58,12 +64,22 @@ const setupServer = async () => {
   await fastify.register(authRoutes);
   await fastify.register(recommendationsRoutes);
   await fastify.register(locationsRoutes);
+  await fastify.register(usageRoutes);
+  await fastify.register(usersRoutes);
+  await fastify.register(itinerariesRoutes);
+  await fastify.register(jobsRoutes);
+  await fastify.register(placeMatchesRoutes);
 };
 
 const start = async (): Promise<void> => {
   try {
     await setupServer();
 
+    // Without real zone borders local times can be hours off, breaking opening hours and scheduling
+    if (!await timezoneService.load() && config.timezone.requireBoundaries) {
+      throw new Error(`Timezone boundaries missing at ${config.timezone.boundariesPath}; run \`npm run timezones:fetch\``);
+    }
+
     await fastify.listen({
       port: config.server.port,
       host: config.server.host
@@ -78,9 +94,17 @@ const start = async (): Promise<void> => {
     console.log('\n📡 Available API Endpoints:');
     console.log('  Health: GET /health');
     console.log('  Auth: POST /api/auth/register, /api/auth/login, /api/auth/refresh');
-    console.log('  AI: POST /api/recommendations/generate');
-    console.log('  Locations: POST /api/locations/search, GET /api/locations/:id');
+    console.log('  AI: POST /api/recommendations/generate, POST /api/recommendations/stream (SSE)');
+    console.log('  History: GET /api/recommendations/history, GET /api/recommendations/:id');
+    console.log('  Feedback: POST /api/recommendations/:id/feedback');
+    console.log('  Locations: POST /api/locations/search, GET /api/locations/search/text, GET /api/locations/:id');
     console.log('  Location Mood: GET /api/locations/nearby/:mood');
+    console.log('  Usage: GET /api/usage');
+    console.log('  Preferences: GET/PUT /api/users/me/preferences');
+    console.log('  Itineraries: POST /api/itineraries/generate, GET /api/itineraries, GET /api/itineraries/:id');
+    console.log('  Itinerary Edits: PUT /api/itineraries/:id/stops, DELETE /api/itineraries/:id/stops/:placeId, POST /api/itineraries/:id/stops/:placeId/swap');
+    console.log('  Admin Jobs: GET /api/admin/jobs, GET /api/admin/jobs/:id, POST /api/admin/jobs/:id/retry, POST /api/locations/refresh, POST /api/locations/enrich, POST /api/locations/dedupe');
+    console.log('  Admin Place Matches: GET /api/admin/place-matches, GET /api/admin/place-matches/:id, POST /api/admin/place-matches/:id/accept, POST /api/admin/place-matches/:id/reject, POST /api/admin/place-matches/link');
   } catch (err) {
     console.error('Server failed to start:', err);
     process.exit(1);
@@ -1,6 +1,30 @@
 // src/shared/config.ts - UPDATED WITH HYBRID SUPPORT
 import 'dotenv/config';
 
+export type UsageTier = 'free' | 'pro';
+
+// 0 disables a limit
+export interface UsageLimits {
+  dailyTokens: number;
+  monthlyTokens: number;
+  dailyCost: number; // USD
+  monthlyCost: number; // USD
+}
+
+// How much Google a hybrid search may use; overrides per category or mood replace single fields
+export interface GoogleCostPolicy {
+  enabled: boolean; // Whether searches call Google at all
+  maxGoogleEnrichments: number; // Google places requested per search
+  minReviewsForEnrichment: number; // Google-only places with fewer reviews are left out
+  popularPlaceRadius: number; // meters; wider searches stay OSM-only
+}
+
+export type ProvenanceSource = 'osm' | 'google' | 'manual';
+export type ProvenanceField = 'name' | 'address' | 'description' | 'hours' | 'phone' | 'website' | 'email';
+
+// Sources a merged place takes each field from, most trusted first
+export type SourcePrecedence = Record<ProvenanceField, ProvenanceSource[]>;
+
 interface Config {
   server: {
     port: number;
@@ -15,20 +39,68 @@ interface Config {
     accessTokenExpiry: string;
     refreshTokenExpiry: string;
     saltRounds: number;
+    adminEmails: string[]; // Users allowed to call /api/admin endpoints
   };
   apis: {
     openai: string | undefined;
+    anthropic: string | undefined;
     mapbox: string | undefined;
     gemini: string | undefined;
     googlePlaces: string | undefined;
   };
   ai: {
-    provider: 'gemini' | 'openai' | 'claude';
-    fallbackProvider?: 'gemini' | 'openai' | 'claude';
+    provider: 'gemini' | 'openai' | 'claude' | 'local';
+    fallbackProvider?: 'gemini' | 'openai' | 'claude' | 'local';
     enableCaching: boolean;
     cacheTimeout: number;
     maxRetries: number;
     timeout: number;
+    unmatchedRecommendations: 'drop' | 'flag';
+    semanticCache: {
+      enabled: boolean;
+      threshold: number; // 0-1 similarity needed to reuse a cached response
+      maxDistance: number; // meters
+    };
+    openai: {
+      baseUrl: string;
+      model: 'gpt-4o' | 'gpt-4o-mini' | 'gpt-3.5-turbo';
+    };
+    claude: {
+      baseUrl: string;
+      model: 'claude-3-5-sonnet' | 'claude-3-haiku';
+    };
+    local: {
+      endpoint?: string; // OpenAI-compatible server (llama.cpp, Ollama); deterministic mode when unset
+      model: string;
+    };
+  };
+  usage: {
+    enabled: boolean;
+    tiers: Record<UsageTier, UsageLimits>;
+    reservation: { // Booked against the budget when a generation starts, settled to the real usage when it ends
+      tokens: number;
+      cost: number; // USD
+    };
+  };
+  cache: {
+    backend: 'memory' | 'redis';
+    redisUrl?: string; // redis:// or rediss:// URL, required for the redis backend
+    maxEntries: number;
+    keyPrefix: string;
+  };
+  jobs: {
+    pollInterval: number; // ms between queue polls when idle
+    maxAttempts: number;
+    backoffBase: number; // ms before the first retry, doubled for each later one
+    backoffMax: number; // ms
+    lockTimeout: number; // ms before a running job is considered abandoned
+    staleAfterHours: number; // Provider data older than this is refreshed
+    refreshBatchSize: number; // Stale locations queued per sweep and provider
+    sweepInterval: number; // ms between stale-location sweeps in the worker
+  };
+  timezone: {
+    boundariesPath: string; // GeoJSON timezone boundaries (timezone-boundary-builder format)
+    requireBoundaries: boolean; // Refuse to start without them instead of guessing zones from longitude
   };
   location: {
     primaryProvider: 'osm' | 'google' | 'hybrid'; // ADDED hybrid
@@ -40,7 +112,51 @@ interface Config {
     resultsPerCategory: number;
     osmEndpoint: string;
     osmUserAgent: string;
+    googleEndpoint: string; // Places API (New) base URL
+    nominatimEndpoint: string;
     timeout: number;
+    tiles: {
+      enabled: boolean;
+      precision: number; // geohash length; 6 is roughly 1.2km x 0.6km
+      maxPerSearch: number; // coarser tiles are used when a search would need more
+      ttl: number; // seconds a fetched tile is reused
+      fetchLimit: number; // places requested from a provider per tile
+      fetchConcurrency: number; // tiles fetched from a provider at the same time
+    };
+    googleEnrichment: {
+      mode: 'inline' | 'async'; // async leaves Google matching to the worker so searches return OSM data right away
+      dailyCallBudget: number; // Google calls per UTC day after which the worker stops enriching, 0 disables it
+      batchSize: number; // Locations matched per worker job
+      retryAfterDays: number; // Before looking up a place that had no Google match again
+      matchRadius: number; // meters searched around a place for its Google counterpart
+    };
+    googleCost: {
+      policy: GoogleCostPolicy;
+      categoryOverrides: Record<string, Partial<GoogleCostPolicy>>;
+      moodOverrides: Record<string, Partial<GoogleCostPolicy>>;
+      searchCost: number; // USD per Nearby Search request
+      detailsCost: number; // USD per Place Details request
+      monthlySpendCap: number; // USD per calendar month (UTC), 0 disables the cap
+      degradeAt: number; // Share of the cap (0-1) after which Google is no longer called
+    };
+    mergeReview: {
+      autoMergeConfidence: number; // OSM/Google matches above this are merged without review
+      conflictConfidence: number; // Matches from here up to autoMergeConfidence are queued for review
+    };
+    sourcePrecedence: {
+      fields: SourcePrecedence;
+      categoryOverrides: Record<string, Partial<SourcePrecedence>>; // Replace single fields per category
+    };
+    textSearch: {
+      fallback: 'osm' | 'google' | 'none'; // Provider asked when stored locations don't match enough
+      minLocalResults: number; // Fewer stored matches than this fall through to the provider
+      distanceWeight: number; // 0-1 share of the ranking decided by distance rather than text relevance
+    };
+    dedupe: {
+      minConfidence: number; // Stored locations scoring at least this against each other are merged
+      maxDistance: number; // meters
+      cellSize: number; // degrees; the pass loads and clusters one cell of this size at a time
+    };
   };
 }
 
@@ -56,6 +172,98 @@ function getOptionalEnvVar(name: string): string | undefined {
   return process.env[name];
 }
 
+// JSON object of category or mood name to policy fields, e.g. {"restaurant":{"maxGoogleEnrichments":20}}
+function getPolicyOverrides(
+  name: string,
+  defaults: Record<string, Partial<GoogleCostPolicy>>
+): Record<string, Partial<GoogleCostPolicy>> {
+  const value = getOptionalEnvVar(name);
+  if (!value) return defaults;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error(`Invalid ${name}: must be a JSON object`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Invalid ${name}: must be a JSON object`);
+  }
+
+  const fieldTypes: Record<keyof GoogleCostPolicy, 'boolean' | 'number'> = {
+    enabled: 'boolean',
+    maxGoogleEnrichments: 'number',
+    minReviewsForEnrichment: 'number',
+    popularPlaceRadius: 'number'
+  };
+
+  for (const [key, override] of Object.entries(parsed)) {
+    if (typeof override !== 'object' || override === null) {
+      throw new Error(`Invalid ${name}: '${key}' must map to an object`);
+    }
+    for (const [field, fieldValue] of Object.entries(override)) {
+      const expected = fieldTypes[field as keyof GoogleCostPolicy];
+      if (!expected || typeof fieldValue !== expected) {
+        throw new Error(`Invalid ${name}: '${key}.${field}' is not a known ${expected ?? 'policy'} field`);
+      }
+    }
+  }
+
+  return parsed as Record<string, Partial<GoogleCostPolicy>>;
+}
+
+// JSON object of field name to source list, e.g. {"hours":["osm","google"]}
+function parseSourcePrecedence(name: string, value: unknown): Partial<SourcePrecedence> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid ${name}: must be a JSON object`);
+  }
+
+  const fields: ProvenanceField[] = ['name', 'address', 'description', 'hours', 'phone', 'website', 'email'];
+  const sources: ProvenanceSource[] = ['osm', 'google', 'manual'];
+  for (const [field, order] of Object.entries(value)) {
+    if (!fields.includes(field as ProvenanceField)) {
+      throw new Error(`Invalid ${name}: '${field}' is not a known field`);
+    }
+    if (!Array.isArray(order) || order.some(source => !sources.includes(source))) {
+      throw new Error(`Invalid ${name}: '${field}' must be a list of ${sources.join(', ')}`);
+    }
+  }
+
+  return value as Partial<SourcePrecedence>;
+}
+
+function parseJsonEnvVar(name: string): unknown {
+  const value = getOptionalEnvVar(name);
+  if (!value) return undefined;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`Invalid ${name}: must be a JSON object`);
+  }
+}
+
+function getSourcePrecedence(defaults: SourcePrecedence): SourcePrecedence {
+  const value = parseJsonEnvVar('SOURCE_PRECEDENCE');
+  return value === undefined ? defaults : { ...defaults, ...parseSourcePrecedence('SOURCE_PRECEDENCE', value) };
+}
+
+// JSON object of category to field overrides, e.g. {"museum":{"hours":["osm","google"]}}
+function getSourcePrecedenceOverrides(
+  defaults: Record<string, Partial<SourcePrecedence>>
+): Record<string, Partial<SourcePrecedence>> {
+  const name = 'SOURCE_PRECEDENCE_CATEGORY_OVERRIDES';
+  const value = parseJsonEnvVar(name);
+  if (value === undefined) return defaults;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid ${name}: must be a JSON object`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([category, overrides]) => [category, parseSourcePrecedence(`${name} '${category}'`, overrides)])
+  );
+}
+
 export const config: Config = {
   server: {
     port: parseInt(getEnvVar('PORT', '3000'), 10),
@@ -69,10 +277,15 @@ export const config: Config = {
     jwtSecret: getEnvVar('JWT_SECRET'),
     accessTokenExpiry: '15m',
     refreshTokenExpiry: '7d',
-    saltRounds: 10
+    saltRounds: 10,
+    adminEmails: (getOptionalEnvVar('ADMIN_EMAILS') ?? '')
+      .split(',')
+      .map(email => email.trim().toLowerCase())
+      .filter(email => email.length > 0)
   },
   apis: {
     openai: getOptionalEnvVar('OPENAI_API_KEY'),
+    anthropic: getOptionalEnvVar('ANTHROPIC_API_KEY'),
     mapbox: getOptionalEnvVar('MAPBOX_API_KEY'),
     gemini: getOptionalEnvVar('GEMINI_API_KEY'),
     googlePlaces: getOptionalEnvVar('GOOGLE_PLACES_API_KEY')
@@ -81,7 +294,7 @@ export const config: Config = {
     const provider = getEnvVar('AI_PROVIDER', 'gemini');
     const fallbackProvider = getOptionalEnvVar('AI_FALLBACK_PROVIDER');
 
-    const validProviders = ['gemini', 'openai', 'claude'] as const;
+    const validProviders = ['gemini', 'openai', 'claude', 'local'] as const;
     if (!validProviders.includes(provider as any)) {
       throw new Error(`Invalid AI_PROVIDER: ${provider}. Must be one of: ${validProviders.join(', ')}`);
     }
@@ -90,15 +303,114 @@ export const config: Config = {
       throw new Error(`Invalid AI_FALLBACK_PROVIDER: ${fallbackProvider}. Must be one of: ${validProviders.join(', ')}`);
     }
 
+    const openaiModel = getEnvVar('OPENAI_MODEL', 'gpt-4o-mini');
+    const validOpenAIModels = ['gpt-4o', 'gpt-4o-mini', 'gpt-3.5-turbo'] as const;
+    if (!(validOpenAIModels as readonly string[]).includes(openaiModel)) {
+      throw new Error(`Invalid OPENAI_MODEL: ${openaiModel}. Must be one of: ${validOpenAIModels.join(', ')}`);
+    }
+
+    const claudeModel = getEnvVar('CLAUDE_MODEL', 'claude-3-haiku');
+    const validClaudeModels = ['claude-3-5-sonnet', 'claude-3-haiku'] as const;
+    if (!(validClaudeModels as readonly string[]).includes(claudeModel)) {
+      throw new Error(`Invalid CLAUDE_MODEL: ${claudeModel}. Must be one of: ${validClaudeModels.join(', ')}`);
+    }
+
+    const localEndpoint = getOptionalEnvVar('AI_LOCAL_ENDPOINT');
+
+    const semanticThreshold = parseFloat(getEnvVar('AI_SEMANTIC_CACHE_THRESHOLD', '0.8'));
+    if (isNaN(semanticThreshold) || semanticThreshold < 0 || semanticThreshold > 1) {
+      throw new Error(`Invalid AI_SEMANTIC_CACHE_THRESHOLD: must be a number between 0 and 1`);
+    }
+
     return {
-      provider: provider as 'gemini' | 'openai' | 'claude',
-      ...(fallbackProvider && { fallbackProvider: fallbackProvider as 'gemini' | 'openai' | 'claude' }),
+      provider: provider as 'gemini' | 'openai' | 'claude' | 'local',
+      ...(fallbackProvider && { fallbackProvider: fallbackProvider as 'gemini' | 'openai' | 'claude' | 'local' }),
       enableCaching: getEnvVar('AI_ENABLE_CACHING', 'true') === 'true',
       cacheTimeout: parseInt(getEnvVar('AI_CACHE_TIMEOUT', '300'), 10),
       maxRetries: parseInt(getEnvVar('AI_MAX_RETRIES', '3'), 10),
       timeout: parseInt(getEnvVar('AI_TIMEOUT', '30000'), 10),
+      // What to do with recommendations that don't match a real nearby place
+      unmatchedRecommendations: getEnvVar('AI_UNMATCHED_RECOMMENDATIONS', 'drop') === 'flag' ? 'flag' as const : 'drop' as const,
+      // Reuse responses for nearby requests with similar preferences
+      semanticCache: {
+        enabled: getEnvVar('AI_SEMANTIC_CACHE_ENABLED', 'true') === 'true',
+        threshold: semanticThreshold,
+        maxDistance: parseInt(getEnvVar('AI_SEMANTIC_CACHE_MAX_DISTANCE', '500'), 10),
+      },
+      openai: {
+        // Override to point at a compatible server or a local stub in tests
+        baseUrl: getEnvVar('OPENAI_BASE_URL', 'https://api.openai.com/v1'),
+        model: openaiModel as 'gpt-4o' | 'gpt-4o-mini' | 'gpt-3.5-turbo',
+      },
+      claude: {
+        // Override to point at a local mock server in tests
+        baseUrl: getEnvVar('CLAUDE_BASE_URL', 'https://api.anthropic.com'),
+        model: claudeModel as 'claude-3-5-sonnet' | 'claude-3-haiku',
+      },
+      local: {
+        ...(localEndpoint && { endpoint: localEndpoint }),
+        model: getEnvVar('AI_LOCAL_MODEL', 'llama3.1'),
+      },
+    };
+  })(),
+  usage: {
+    enabled: getEnvVar('USAGE_LIMITS_ENABLED', 'true') === 'true',
+    tiers: {
+      free: {
+        dailyTokens: parseInt(getEnvVar('USAGE_FREE_DAILY_TOKENS', '50000'), 10),
+        monthlyTokens: parseInt(getEnvVar('USAGE_FREE_MONTHLY_TOKENS', '500000'), 10),
+        dailyCost: parseFloat(getEnvVar('USAGE_FREE_DAILY_COST', '0.05')),
+        monthlyCost: parseFloat(getEnvVar('USAGE_FREE_MONTHLY_COST', '0.5')),
+      },
+      pro: {
+        dailyTokens: parseInt(getEnvVar('USAGE_PRO_DAILY_TOKENS', '500000'), 10),
+        monthlyTokens: parseInt(getEnvVar('USAGE_PRO_MONTHLY_TOKENS', '10000000'), 10),
+        dailyCost: parseFloat(getEnvVar('USAGE_PRO_DAILY_COST', '1')),
+        monthlyCost: parseFloat(getEnvVar('USAGE_PRO_MONTHLY_COST', '20')),
+      },
+    },
+    reservation: {
+      tokens: parseInt(getEnvVar('USAGE_RESERVED_TOKENS', '3000'), 10),
+      cost: parseFloat(getEnvVar('USAGE_RESERVED_COST', '0.002')),
+    },
+  },
+  cache: (() => {
+    const backend = getEnvVar('CACHE_BACKEND', 'memory');
+    const redisUrl = getOptionalEnvVar('REDIS_URL');
+
+    const validBackends = ['memory', 'redis'] as const;
+    if (!(validBackends as readonly string[]).includes(backend)) {
+      throw new Error(`Invalid CACHE_BACKEND: ${backend}. Must be one of: ${validBackends.join(', ')}`);
+    }
+
+    if (backend === 'redis' && !redisUrl) {
+      throw new Error('REDIS_URL is required when CACHE_BACKEND is redis');
+    }
+
+    return {
+      backend: backend as 'memory' | 'redis',
+      ...(redisUrl && { redisUrl }),
+      maxEntries: parseInt(getEnvVar('CACHE_MAX_ENTRIES', '1000'), 10),
+      keyPrefix: getEnvVar('CACHE_KEY_PREFIX', 'travelcurator:'),
     };
   })(),
+  jobs: {
+    pollInterval: parseInt(getEnvVar('JOB_POLL_INTERVAL', '5000'), 10),
+    maxAttempts: parseInt(getEnvVar('JOB_MAX_ATTEMPTS', '5'), 10),
+    backoffBase: parseInt(getEnvVar('JOB_BACKOFF_BASE', '30000'), 10), // 30 seconds
+    backoffMax: parseInt(getEnvVar('JOB_BACKOFF_MAX', '3600000'), 10), // 1 hour
+    lockTimeout: parseInt(getEnvVar('JOB_LOCK_TIMEOUT', '600000'), 10), // 10 minutes
+    staleAfterHours: parseInt(getEnvVar('LOCATION_STALE_AFTER_HOURS', '24'), 10),
+    refreshBatchSize: parseInt(getEnvVar('LOCATION_REFRESH_BATCH_SIZE', '100'), 10),
+    sweepInterval: parseInt(getEnvVar('LOCATION_REFRESH_SWEEP_INTERVAL', '3600000'), 10), // 1 hour
+  },
+  timezone: {
+    boundariesPath: getEnvVar('TIMEZONE_BOUNDARIES_PATH', 'data/timezones.geojson'),
+    requireBoundaries: getEnvVar(
+      'TIMEZONE_BOUNDARIES_REQUIRED',
+      process.env.NODE_ENV === 'production' ? 'true' : 'false'
+    ) === 'true',
+  },
   location: (() => {
     const provider = getEnvVar('LOCATION_PROVIDER', 'hybrid'); // CHANGED DEFAULT to hybrid
     const fallbackProvider = getOptionalEnvVar('LOCATION_FALLBACK_PROVIDER');
@@ -112,6 +424,42 @@ export const config: Config = {
       throw new Error(`Invalid LOCATION_FALLBACK_PROVIDER: ${fallbackProvider}. Must be one of: ${validProviders.join(', ')}`);
     }
 
+    const enrichmentMode = getEnvVar('GOOGLE_ENRICHMENT_MODE', 'async');
+    if (enrichmentMode !== 'inline' && enrichmentMode !== 'async') {
+      throw new Error(`Invalid GOOGLE_ENRICHMENT_MODE: ${enrichmentMode}. Must be one of: inline, async`);
+    }
+
+    const degradeAt = parseFloat(getEnvVar('GOOGLE_SPEND_DEGRADE_AT', '0.9'));
+    if (isNaN(degradeAt) || degradeAt < 0 || degradeAt > 1) {
+      throw new Error(`Invalid GOOGLE_SPEND_DEGRADE_AT: must be a number between 0 and 1`);
+    }
+
+    const autoMergeConfidence = parseFloat(getEnvVar('MERGE_AUTO_CONFIDENCE', '0.7'));
+    const conflictConfidence = parseFloat(getEnvVar('MERGE_CONFLICT_CONFIDENCE', '0.4'));
+    if (isNaN(autoMergeConfidence) || isNaN(conflictConfidence) || conflictConfidence < 0 || autoMergeConfidence > 1 || conflictConfidence > autoMergeConfidence) {
+      throw new Error('Invalid MERGE_CONFLICT_CONFIDENCE/MERGE_AUTO_CONFIDENCE: must satisfy 0 <= conflict <= auto <= 1');
+    }
+
+    const dedupeCellSize = parseFloat(getEnvVar('DEDUPE_CELL_SIZE', '0.05'));
+    if (isNaN(dedupeCellSize) || dedupeCellSize <= 0 || dedupeCellSize > 1) {
+      throw new Error(`Invalid DEDUPE_CELL_SIZE: must be a number of degrees above 0 and at most 1`);
+    }
+
+    const textSearchFallback = getEnvVar('LOCATION_TEXT_SEARCH_FALLBACK', 'osm');
+    if (!['osm', 'google', 'none'].includes(textSearchFallback)) {
+      throw new Error(`Invalid LOCATION_TEXT_SEARCH_FALLBACK: must be one of osm, google, none`);
+    }
+
+    const distanceWeight = parseFloat(getEnvVar('LOCATION_TEXT_SEARCH_DISTANCE_WEIGHT', '0.3'));
+    if (isNaN(distanceWeight) || distanceWeight < 0 || distanceWeight > 1) {
+      throw new Error(`Invalid LOCATION_TEXT_SEARCH_DISTANCE_WEIGHT: must be a number between 0 and 1`);
+    }
+
+    const tilePrecision = parseInt(getEnvVar('LOCATION_TILE_PRECISION', '6'), 10);
+    if (isNaN(tilePrecision) || tilePrecision < 1 || tilePrecision > 9) {
+      throw new Error(`Invalid LOCATION_TILE_PRECISION: must be an integer between 1 and 9`);
+    }
+
     return {
       primaryProvider: provider as 'osm' | 'google' | 'hybrid', // UPDATED type
       ...(fallbackProvider && { fallbackProvider: fallbackProvider as 'osm' | 'google' | 'hybrid' }), // UPDATED type
@@ -122,7 +470,78 @@ export const config: Config = {
       resultsPerCategory: parseInt(getEnvVar('LOCATION_RESULTS_PER_CATEGORY', '10'), 10),
       osmEndpoint: getEnvVar('OSM_ENDPOINT', 'https://overpass-api.de/api/interpreter'),
       osmUserAgent: getEnvVar('OSM_USER_AGENT', 'TravelCurator/1.0'),
+      // Override to point at a local fixture server in tests
+      googleEndpoint: getEnvVar('GOOGLE_PLACES_BASE_URL', 'https://places.googleapis.com/v1'),
+      nominatimEndpoint: getEnvVar('NOMINATIM_ENDPOINT', 'https://nominatim.openstreetmap.org'),
       timeout: parseInt(getEnvVar('LOCATION_TIMEOUT', '10000'), 10), // 10 seconds
+      // Provider results are fetched and cached per geohash tile so overlapping searches share them
+      tiles: {
+        enabled: getEnvVar('LOCATION_TILES_ENABLED', 'true') === 'true',
+        precision: tilePrecision,
+        maxPerSearch: parseInt(getEnvVar('LOCATION_TILE_MAX_PER_SEARCH', '9'), 10),
+        ttl: parseInt(getEnvVar('LOCATION_TILE_TTL', '86400'), 10), // 24 hours
+        fetchLimit: parseInt(getEnvVar('LOCATION_TILE_FETCH_LIMIT', '100'), 10),
+        fetchConcurrency: Math.max(1, parseInt(getEnvVar('LOCATION_TILE_FETCH_CONCURRENCY', '3'), 10) || 1),
+      },
+      googleEnrichment: {
+        mode: enrichmentMode,
+        dailyCallBudget: parseInt(getEnvVar('GOOGLE_ENRICHMENT_DAILY_BUDGET', '500'), 10),
+        batchSize: parseInt(getEnvVar('GOOGLE_ENRICHMENT_BATCH_SIZE', '50'), 10),
+        retryAfterDays: parseInt(getEnvVar('GOOGLE_ENRICHMENT_RETRY_AFTER_DAYS', '30'), 10),
+        matchRadius: parseInt(getEnvVar('GOOGLE_ENRICHMENT_MATCH_RADIUS', '150'), 10),
+      },
+      // What hybrid searches may spend on Google; actual spend is tracked in provider_usage
+      googleCost: {
+        policy: {
+          enabled: true,
+          maxGoogleEnrichments: parseInt(getEnvVar('GOOGLE_MAX_ENRICHMENTS_PER_SEARCH', '10'), 10),
+          minReviewsForEnrichment: parseInt(getEnvVar('GOOGLE_MIN_REVIEWS_FOR_ENRICHMENT', '5'), 10),
+          popularPlaceRadius: parseInt(getEnvVar('GOOGLE_POPULAR_PLACE_RADIUS', '5000'), 10), // 5km
+        },
+        categoryOverrides: getPolicyOverrides('GOOGLE_COST_CATEGORY_OVERRIDES', {
+          restaurant: { enabled: true }
+        }),
+        // Curious searches are about discovery rather than ratings
+        moodOverrides: getPolicyOverrides('GOOGLE_COST_MOOD_OVERRIDES', {
+          curious: { enabled: false }
+        }),
+        searchCost: parseFloat(getEnvVar('GOOGLE_SEARCH_COST', '0.032')),
+        detailsCost: parseFloat(getEnvVar('GOOGLE_DETAILS_COST', '0.017')),
+        monthlySpendCap: parseFloat(getEnvVar('GOOGLE_MONTHLY_SPEND_CAP', '200')),
+        degradeAt,
+      },
+      mergeReview: {
+        autoMergeConfidence,
+        conflictConfidence,
+      },
+      // Manual edits win everywhere; otherwise Google keeps business details current and OSM names things
+      sourcePrecedence: {
+        fields: getSourcePrecedence({
+          name: ['manual', 'osm', 'google'],
+          address: ['manual', 'google', 'osm'],
+          description: ['manual', 'osm', 'google'],
+          hours: ['manual', 'google', 'osm'],
+          phone: ['manual', 'google', 'osm'],
+          website: ['manual', 'google', 'osm'],
+          email: ['manual', 'google', 'osm'],
+        }),
+        // Each entry replaces single fields for one category
+        categoryOverrides: getSourcePrecedenceOverrides({
+          museum: { hours: ['manual', 'osm', 'google'] }
+        }),
+      },
+      // Nominatim is free, so it's the default fall-through; Google text search is billed per page
+      textSearch: {
+        fallback: textSearchFallback as 'osm' | 'google' | 'none',
+        minLocalResults: parseInt(getEnvVar('LOCATION_TEXT_SEARCH_MIN_LOCAL', '5'), 10),
+        distanceWeight,
+      },
+      // Merging deletes rows and moves recommendations, so it asks for more certainty than search-time matching
+      dedupe: {
+        minConfidence: parseFloat(getEnvVar('DEDUPE_MIN_CONFIDENCE', '0.85')),
+        maxDistance: parseInt(getEnvVar('DEDUPE_MAX_DISTANCE', '100'), 10),
+        cellSize: dedupeCellSize,
+      },
     };
   })(),
 };
@@ -0,0 +1,106 @@
+// src/shared/database/repositories/ai-usage.repository.ts
+
+import { PrismaClient, Prisma } from '@prisma/client';
+
+export interface RecordUsageData {
+  userId: string;
+  date: Date; // UTC day the usage belongs to
+  tokensUsed: number;
+  cost: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  tokensUsed: number;
+  cost: number;
+}
+
+// Queries that also run inside the reservation transaction
+type UsageClient = PrismaClient | Prisma.TransactionClient;
+
+export class AIUsageRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Books usage against today's row once `check` accepts the current day and month totals.
+   * A per-user advisory lock serializes concurrent reservations, so each one sees the others' bookings.
+   * `check` throws to refuse the reservation.
+   */
+  async reserve(
+    data: RecordUsageData,
+    monthStart: Date,
+    check: (daily: UsageTotals, monthly: UsageTotals) => void
+  ): Promise<void> {
+    await this.prisma.$transaction(async tx => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`ai_usage:${data.userId}`}))`;
+
+      const [daily, monthly] = await Promise.all([
+        this.sumTotals(tx, data.userId, data.date, data.date),
+        this.sumTotals(tx, data.userId, monthStart, data.date)
+      ]);
+      check(daily, monthly);
+
+      await this.increment(tx, data, 1);
+    });
+  }
+
+  // Corrects a reserved booking by the difference to the real usage; `requests` is -1 to take a booking back
+  async adjust(data: RecordUsageData, requests: number) {
+    return this.increment(this.prisma, data, requests);
+  }
+
+  // Sums every ledger row between two UTC days, inclusive
+  async getTotals(userId: string, from: Date, to: Date): Promise<UsageTotals> {
+    return this.sumTotals(this.prisma, userId, from, to);
+  }
+
+  async findDaily(userId: string, from: Date, to: Date) {
+    return this.prisma.aiUsage.findMany({
+      where: {
+        userId,
+        date: { gte: from, lte: to }
+      },
+      orderBy: { date: 'desc' }
+    });
+  }
+
+  private async increment(client: UsageClient, data: RecordUsageData, requests: number) {
+    return client.aiUsage.upsert({
+      where: {
+        userId_date: { userId: data.userId, date: data.date }
+      },
+      create: {
+        userId: data.userId,
+        date: data.date,
+        requests: Math.max(requests, 0),
+        tokensUsed: Math.max(data.tokensUsed, 0),
+        cost: new Prisma.Decimal(Math.max(data.cost, 0))
+      },
+      update: {
+        requests: { increment: requests },
+        tokensUsed: { increment: data.tokensUsed },
+        cost: { increment: new Prisma.Decimal(data.cost) }
+      }
+    });
+  }
+
+  private async sumTotals(client: UsageClient, userId: string, from: Date, to: Date): Promise<UsageTotals> {
+    const result = await client.aiUsage.aggregate({
+      where: {
+        userId,
+        date: { gte: from, lte: to }
+      },
+      _sum: {
+        requests: true,
+        tokensUsed: true,
+        cost: true
+      }
+    });
+
+    return {
+      requests: result._sum.requests ?? 0,
+      tokensUsed: result._sum.tokensUsed ?? 0,
+      cost: Number(result._sum.cost ?? 0)
+    };
+  }
+}
@@ -2,16 +2,40 @@ import { PrismaClient } from '@prisma/client'
 import { UserRepository } from '@shared/database'
 import { UserSessionRepository } from '@shared/database'
 import { LocationRepository } from '@shared/database'
+import { RecommendationRepository } from '@shared/database'
+import { AIUsageRepository } from '@shared/database'
+import { RecommendationFeedbackRepository } from '@shared/database'
+import { ItineraryRepository } from '@shared/database'
+import { LocationTileRepository } from '@shared/database'
+import { JobRepository } from '@shared/database'
+import { ProviderUsageRepository } from '@shared/database'
+import { PlaceMatchRepository } from '@shared/database'
 
 export class DatabaseRepositories {
   public readonly user: UserRepository
   public readonly userSession: UserSessionRepository
   public readonly location: LocationRepository
+  public readonly recommendation: RecommendationRepository
+  public readonly aiUsage: AIUsageRepository
+  public readonly recommendationFeedback: RecommendationFeedbackRepository
+  public readonly itinerary: ItineraryRepository
+  public readonly locationTile: LocationTileRepository
+  public readonly job: JobRepository
+  public readonly providerUsage: ProviderUsageRepository
+  public readonly placeMatch: PlaceMatchRepository
 
   constructor(private prisma: PrismaClient) {
     this.user = new UserRepository(prisma)
     this.userSession = new UserSessionRepository(prisma)
     this.location = new LocationRepository(prisma)
+    this.recommendation = new RecommendationRepository(prisma)
+    this.aiUsage = new AIUsageRepository(prisma)
+    this.recommendationFeedback = new RecommendationFeedbackRepository(prisma)
+    this.itinerary = new ItineraryRepository(prisma)
+    this.locationTile = new LocationTileRepository(prisma)
+    this.job = new JobRepository(prisma)
+    this.providerUsage = new ProviderUsageRepository(prisma)
+    this.placeMatch = new PlaceMatchRepository(prisma)
   }
 
   async disconnect(): Promise<void> {
@@ -30,4 +54,12 @@ export class DatabaseRepositories {
 
 export * from './user.repository'
 export * from './user-session.repository'
-export * from './location.repository'
\ No newline at end of file
+export * from './location.repository'
+export * from './recommendation.repository'
+export * from './ai-usage.repository'
+export * from './recommendation-feedback.repository'
+export * from './itinerary.repository'
+export * from './location-tile.repository'
+export * from './job.repository'
+export * from './provider-usage.repository'
+export * from './place-match.repository'
\ No newline at end of file
@@ -0,0 +1,80 @@
+// src/shared/database/repositories/itinerary.repository.ts
+
+import { PrismaClient, Prisma } from '@prisma/client';
+
+export interface CreateItineraryData {
+  userId: string;
+  title?: string;
+  mood: string;
+  date: Date;
+  startTime: string;
+  duration: number;
+  latitude: number;
+  longitude: number;
+  stops: Prisma.InputJsonValue;
+  alternatives: Prisma.InputJsonValue;
+}
+
+export interface UpdateItineraryStopsData {
+  stops: Prisma.InputJsonValue;
+  alternatives: Prisma.InputJsonValue;
+}
+
+export class ItineraryRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: CreateItineraryData) {
+    return this.prisma.itinerary.create({
+      data: {
+        userId: data.userId,
+        title: data.title ?? null,
+        mood: data.mood,
+        date: data.date,
+        startTime: data.startTime,
+        duration: data.duration,
+        latitude: data.latitude,
+        longitude: data.longitude,
+        stops: data.stops,
+        alternatives: data.alternatives
+      }
+    });
+  }
+
+  // Scoped to the owner so one user can never read or edit another's plan
+  async findByIdForUser(id: string, userId: string) {
+    return this.prisma.itinerary.findFirst({
+      where: { id, userId }
+    });
+  }
+
+  async findByUser(userId: string, limit: number = 20, offset: number = 0) {
+    return this.prisma.itinerary.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset
+    });
+  }
+
+  async countByUser(userId: string): Promise<number> {
+    return this.prisma.itinerary.count({
+      where: { userId }
+    });
+  }
+
+  async updateStops(id: string, data: UpdateItineraryStopsData) {
+    return this.prisma.itinerary.update({
+      where: { id },
+      data: {
+        stops: data.stops,
+        alternatives: data.alternatives
+      }
+    });
+  }
+
+  async delete(id: string) {
+    return this.prisma.itinerary.delete({
+      where: { id }
+    });
+  }
+}
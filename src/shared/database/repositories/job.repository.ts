@@ -0,0 +1,186 @@
+// src/shared/database/repositories/job.repository.ts
+
+import { PrismaClient, Prisma } from '@prisma/client';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface CreateJobData {
+  type: string;
+  key?: string;
+  payload: Prisma.InputJsonValue;
+  maxAttempts: number;
+  runAt?: Date;
+}
+
+export interface JobListFilter {
+  status?: JobStatus;
+  type?: string;
+}
+
+export class JobRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: CreateJobData) {
+    return this.prisma.job.create({
+      data: {
+        type: data.type,
+        key: data.key ?? null,
+        payload: data.payload,
+        maxAttempts: data.maxAttempts,
+        ...(data.runAt && { runAt: data.runAt })
+      }
+    });
+  }
+
+  async findById(id: string) {
+    return this.prisma.job.findUnique({ where: { id } });
+  }
+
+  // Work for the same target that hasn't finished yet
+  async findActiveByKey(type: string, key: string) {
+    return this.prisma.job.findFirst({
+      where: {
+        type,
+        key,
+        status: { in: ['pending', 'running'] }
+      }
+    });
+  }
+
+  /**
+   * Atomically takes the next due job of the given types. Running jobs whose lock is older than
+   * `lockExpiredBefore` belong to a worker that died and are taken over while they have attempts left.
+   */
+  async claimNext(types: string[], workerId: string, lockExpiredBefore: Date) {
+    if (types.length === 0) return null;
+
+    const rows = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      UPDATE "jobs"
+      SET "status" = 'running', "locked_at" = NOW(), "locked_by" = ${workerId},
+          "attempts" = "attempts" + 1, "updated_at" = NOW()
+      WHERE "id" = (
+        SELECT "id" FROM "jobs"
+        WHERE "type" IN (${Prisma.join(types)})
+          AND (
+            ("status" = 'pending' AND "run_at" <= NOW())
+            OR ("status" = 'running' AND "locked_at" < ${lockExpiredBefore} AND "attempts" < "max_attempts")
+          )
+        ORDER BY "run_at" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id"
+    `;
+
+    const [row] = rows;
+    return row ? this.findById(row.id) : null;
+  }
+
+  // Abandoned jobs whose last attempt died with its worker; they would otherwise stay running forever
+  async failAbandoned(types: string[], lockExpiredBefore: Date): Promise<number> {
+    if (types.length === 0) return 0;
+
+    const result = await this.prisma.job.updateMany({
+      where: {
+        type: { in: types },
+        status: 'running',
+        lockedAt: { lt: lockExpiredBefore },
+        attempts: { gte: this.prisma.job.fields.maxAttempts }
+      },
+      data: {
+        status: 'failed',
+        lastError: 'Worker stopped responding during the last attempt',
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date()
+      }
+    });
+    return result.count;
+  }
+
+  /**
+   * Completion and failure only apply while `workerId` still holds the lock; false means another
+   * worker took the job over and its outcome wins.
+   */
+  async markCompleted(id: string, workerId: string, result: Prisma.InputJsonValue | null): Promise<boolean> {
+    const { count } = await this.prisma.job.updateMany({
+      where: { id, status: 'running', lockedBy: workerId },
+      data: {
+        status: 'completed',
+        result: result ?? Prisma.DbNull,
+        lastError: null,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date()
+      }
+    });
+    return count > 0;
+  }
+
+  // Puts the job back in the queue for another attempt, or fails it for good when retryAt is null
+  async markFailed(id: string, workerId: string, error: string, retryAt: Date | null): Promise<boolean> {
+    const { count } = await this.prisma.job.updateMany({
+      where: { id, status: 'running', lockedBy: workerId },
+      data: {
+        status: retryAt ? 'pending' : 'failed',
+        lastError: error,
+        lockedAt: null,
+        lockedBy: null,
+        ...(retryAt ? { runAt: retryAt } : { completedAt: new Date() })
+      }
+    });
+    return count > 0;
+  }
+
+  // Gives a failed job a fresh set of attempts
+  async requeue(id: string) {
+    return this.prisma.job.update({
+      where: { id },
+      data: {
+        status: 'pending',
+        attempts: 0,
+        runAt: new Date(),
+        completedAt: null
+      }
+    });
+  }
+
+  async list(filter: JobListFilter, limit: number, offset: number) {
+    return this.prisma.job.findMany({
+      where: this.buildWhere(filter),
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset
+    });
+  }
+
+  async count(filter: JobListFilter): Promise<number> {
+    return this.prisma.job.count({ where: this.buildWhere(filter) });
+  }
+
+  async countByStatus(): Promise<Record<string, number>> {
+    const groups = await this.prisma.job.groupBy({
+      by: ['status'],
+      _count: { status: true }
+    });
+
+    return Object.fromEntries(groups.map(group => [group.status, group._count.status]));
+  }
+
+  async deleteFinishedBefore(before: Date): Promise<number> {
+    const result = await this.prisma.job.deleteMany({
+      where: {
+        status: { in: ['completed', 'failed'] },
+        completedAt: { lt: before }
+      }
+    });
+    return result.count;
+  }
+
+  private buildWhere(filter: JobListFilter): Prisma.JobWhereInput {
+    return {
+      ...(filter.status && { status: filter.status }),
+      ...(filter.type && { type: filter.type })
+    };
+  }
+}
@@ -0,0 +1,67 @@
+// src/shared/database/repositories/location-tile.repository.ts
+
+import { PrismaClient, Prisma } from '@prisma/client';
+
+export interface SaveTileData {
+  provider: string;
+  geohash: string;
+  categoryKey: string;
+  places: unknown[];
+  truncated: boolean;
+  expiresAt: Date;
+}
+
+export class LocationTileRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // Tiles that haven't expired yet, for any of the given geohashes
+  async findFresh(provider: string, geohashes: string[], categoryKey: string) {
+    if (geohashes.length === 0) return [];
+
+    return this.prisma.locationTile.findMany({
+      where: {
+        provider,
+        categoryKey,
+        geohash: { in: geohashes },
+        expiresAt: { gt: new Date() }
+      }
+    });
+  }
+
+  async save(data: SaveTileData) {
+    const places = data.places as Prisma.InputJsonValue;
+
+    return this.prisma.locationTile.upsert({
+      where: {
+        provider_geohash_categoryKey: {
+          provider: data.provider,
+          geohash: data.geohash,
+          categoryKey: data.categoryKey
+        }
+      },
+      create: {
+        provider: data.provider,
+        geohash: data.geohash,
+        categoryKey: data.categoryKey,
+        places,
+        placeCount: data.places.length,
+        truncated: data.truncated,
+        expiresAt: data.expiresAt
+      },
+      update: {
+        places,
+        placeCount: data.places.length,
+        truncated: data.truncated,
+        fetchedAt: new Date(),
+        expiresAt: data.expiresAt
+      }
+    });
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await this.prisma.locationTile.deleteMany({
+      where: { expiresAt: { lte: new Date() } }
+    });
+    return result.count;
+  }
+}
@@ -1,6 +1,7 @@
 // src/shared/database/repositories/location.repository.ts - FIXED VERSION
 
-import { PrismaClient } from '@prisma/client';
+import { Location, Prisma, PrismaClient } from '@prisma/client';
+import { distanceInMeters } from '@shared/services/location/geo';
 
 export interface LocationSearchParams {
   latitude: number;
@@ -53,17 +54,47 @@ export interface CreateLocationData {
   // Enhanced multi-provider fields
   osmId?: string | null;
   googlePlaceId?: string | null;
+  aiKey?: string | null; // Stands in for a provider ID on AI-suggested places
   rating?: number | null;
   reviewCount?: number | null;
   priceLevel?: number | null;
   qualityScore?: number | null;
   mergeStatus?: string | null; // Allow null explicitly
+  verified?: boolean; // Defaults to true for provider-backed data
+}
+
+export interface LocationBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface LocationTextSearchParams {
+  query: string;
+  bounds?: LocationBounds;
+  categories?: string[];
+  limit: number;
+}
+
+// relevance is 0-1; name matches score higher than address or OSM tag matches
+export type LocationTextMatch = Location & { relevance: number };
+
+// Grid cell of `cellSize` degrees, numbered from the origin
+export interface LocationCell {
+  row: number;
+  column: number;
 }
 
 export class LocationRepository {
+  // Resolved on first nearby search; the geography column only exists where PostGIS is installed
+  private postgisAvailable: Promise<boolean> | null = null;
+  // Resolved on first text search; fuzzy matching needs the pg_trgm extension
+  private trigramAvailable: Promise<boolean> | null = null;
+
   constructor(private prisma: PrismaClient) {}
 
-  async create(data: any) {
+  async create(data: Prisma.LocationCreateInput) {
     return this.prisma.location.create({ data });
   }
 
@@ -78,6 +109,15 @@ export class LocationRepository {
     });
   }
 
+  // Stored rows for a batch of OSM element ids ("node/123")
+  async findManyByOsmIds(osmIds: string[]) {
+    if (osmIds.length === 0) return [];
+
+    return this.prisma.location.findMany({
+      where: { osmId: { in: osmIds } }
+    });
+  }
+
   async findByGooglePlaceId(googlePlaceId: string) {
     return this.prisma.location.findFirst({
       where: { googlePlaceId }
@@ -97,8 +137,121 @@ export class LocationRepository {
     });
   }
 
-  // FIXED: Updated findNearby to include externalId in the return mapping
+  // Resolve a Place id as produced by the location providers ('osm_node_123', 'google_abc' or a row id)
+  async findByPlaceId(placeId: string) {
+    const osmMatch = placeId.match(/^osm_(node|way|relation)_(\d+)$/);
+    if (osmMatch) {
+      return this.findByOsmId(`${osmMatch[1]}/${osmMatch[2]}`);
+    }
+
+    if (placeId.startsWith('google_')) {
+      return this.findByGooglePlaceId(placeId.replace('google_', ''));
+    }
+
+    return this.findById(placeId);
+  }
+
+  // Match places that carry no provider IDs (e.g. AI suggestions) by name and proximity
+  async findByNameNear(name: string, latitude: number, longitude: number, radius: number = 250) {
+    const boundingBox = this.calculateBoundingBox(latitude, longitude, radius);
+
+    const candidates = await this.prisma.location.findMany({
+      where: {
+        name: { equals: name, mode: 'insensitive' },
+        latitude: { gte: boundingBox.minLat, lte: boundingBox.maxLat },
+        longitude: { gte: boundingBox.minLng, lte: boundingBox.maxLng }
+      }
+    });
+
+    let closest: (typeof candidates)[number] | null = null;
+    let closestDistance = Infinity;
+
+    for (const candidate of candidates) {
+      const distance = distanceInMeters(latitude, longitude, candidate.latitude, candidate.longitude);
+      if (distance <= radius && distance < closestDistance) {
+        closest = candidate;
+        closestDistance = distance;
+      }
+    }
+
+    return closest;
+  }
+
+  // Nearest locations within the radius, closest first
   async findNearby(params: LocationSearchParams): Promise<NearbyLocation[]> {
+    if (await this.hasPostgis()) {
+      try {
+        return await this.findNearbyWithPostgis(params);
+      } catch (error) {
+        // The extension can disappear under us (restored dump, dropped column) - stop trying until restart
+        console.warn('⚠️ PostGIS nearby query failed, falling back to bounding box:', error instanceof Error ? error.message : error);
+        this.postgisAvailable = Promise.resolve(false);
+      }
+    }
+
+    return this.findNearbyWithBoundingBox(params);
+  }
+
+  async hasPostgis(): Promise<boolean> {
+    if (!this.postgisAvailable) {
+      this.postgisAvailable = this.detectPostgis();
+    }
+    return this.postgisAvailable;
+  }
+
+  private async detectPostgis(): Promise<boolean> {
+    try {
+      const [row] = await this.prisma.$queryRaw<Array<{ available: boolean }>>`
+        SELECT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_schema = current_schema() AND table_name = 'locations' AND column_name = 'geog'
+        ) AS available
+      `;
+      const available = row?.available ?? false;
+      console.log(available ? '🌐 Using PostGIS for nearby location queries' : '📦 PostGIS not installed, using bounding-box nearby queries');
+      return available;
+    } catch (error) {
+      console.warn('⚠️ Could not detect PostGIS:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  // True radius query on the GiST-indexed geography column, ordered by distance in the database
+  private async findNearbyWithPostgis(params: LocationSearchParams): Promise<NearbyLocation[]> {
+    const { latitude, longitude, radius, categories, limit = 50, source } = params;
+    const point = Prisma.sql`ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326)::geography`;
+
+    const filters = [Prisma.sql`ST_DWithin("geog", ${point}, ${radius})`];
+    if (categories && categories.length > 0) {
+      filters.push(Prisma.sql`"category" IN (${Prisma.join(categories)})`);
+    }
+    if (source) {
+      filters.push(Prisma.sql`"source" = ${source}`);
+    }
+
+    const rows = await this.prisma.$queryRaw<Array<Omit<NearbyLocation, 'externalId'>>>`
+      SELECT
+        "id", "name", "latitude", "longitude", "category", "created_at" AS "createdAt", "source",
+        "osm_id" AS "osmId", "google_place_id" AS "googlePlaceId",
+        "osm_last_updated" AS "osmLastUpdated", "google_last_updated" AS "googleLastUpdated",
+        "last_updated" AS "lastUpdated", "rating"::float8 AS "rating", "review_count" AS "reviewCount",
+        "price_level" AS "priceLevel", "quality_score"::float8 AS "qualityScore", "merge_status" AS "mergeStatus",
+        COALESCE("verified", false) AS "verified", "address", "description", "metadata",
+        ST_Distance("geog", ${point}) AS "distance"
+      FROM "locations"
+      WHERE ${Prisma.join(filters, ' AND ')}
+      ORDER BY "distance" ASC, "quality_score" DESC NULLS LAST
+      LIMIT ${limit}
+    `;
+
+    return rows.map(row => ({
+      ...row,
+      externalId: row.osmId || row.googlePlaceId || row.id
+    }));
+  }
+
+  // Used when PostGIS isn't installed
+  private async findNearbyWithBoundingBox(params: LocationSearchParams): Promise<NearbyLocation[]> {
     const { latitude, longitude, radius, categories, limit = 50, source } = params;
 
     // Calculate bounding box for efficient initial filtering
@@ -137,7 +290,7 @@ export class LocationRepository {
     const locationsWithDistance = locations
       .map((location: any) => ({
         ...location,
-        distance: this.calculateDistance(
+        distance: distanceInMeters(
           latitude, longitude,
           location.latitude, location.longitude
         ),
@@ -151,8 +304,132 @@ export class LocationRepository {
     return locationsWithDistance;
   }
 
+  /**
+   * Locations whose name, address or OSM tags match the query, best match first. Typo-tolerant
+   * through the trigram indexes when pg_trgm is installed, plain substring matching otherwise.
+   */
+  async searchText(params: LocationTextSearchParams): Promise<LocationTextMatch[]> {
+    let matches: Array<{ id: string; relevance: number }> | null = null;
+
+    if (await this.hasTrigramSearch()) {
+      try {
+        matches = await this.matchTextWithTrigrams(params);
+      } catch (error) {
+        console.warn('⚠️ Trigram text search failed, falling back to substring matching:', error instanceof Error ? error.message : error);
+        this.trigramAvailable = Promise.resolve(false);
+      }
+    }
+    matches ??= await this.matchTextWithSubstrings(params);
+
+    if (matches.length === 0) return [];
+
+    const locations = await this.prisma.location.findMany({
+      where: { id: { in: matches.map(match => match.id) } }
+    });
+    const byId = new Map(locations.map(location => [location.id, location]));
+
+    return matches.flatMap(match => {
+      const location = byId.get(match.id);
+      return location ? [{ ...location, relevance: match.relevance }] : [];
+    });
+  }
+
+  private async hasTrigramSearch(): Promise<boolean> {
+    if (!this.trigramAvailable) {
+      this.trigramAvailable = this.detectTrigramSearch();
+    }
+    return this.trigramAvailable;
+  }
+
+  private async detectTrigramSearch(): Promise<boolean> {
+    try {
+      const [row] = await this.prisma.$queryRaw<Array<{ available: boolean }>>`
+        SELECT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_trgm') AS available
+      `;
+      const available = row?.available ?? false;
+      console.log(available ? '🔤 Using pg_trgm for location text search' : '📦 pg_trgm not installed, using substring text search');
+      return available;
+    } catch (error) {
+      console.warn('⚠️ Could not detect pg_trgm:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  // word_similarity scores how well the query matches any part of the text, so "louvre" finds "Musée du Louvre"
+  private async matchTextWithTrigrams(params: LocationTextSearchParams) {
+    const query = Prisma.sql`${params.query}::text`;
+    // Same expression as the locations_osm_tags_trgm_idx index
+    const tags = Prisma.sql`("metadata" #>> '{osm,tags}')`;
+
+    return this.prisma.$queryRaw<Array<{ id: string; relevance: number }>>`
+      SELECT "id", GREATEST(
+        word_similarity(${query}, "name"),
+        word_similarity(${query}, COALESCE("address", '')) * 0.6,
+        word_similarity(${query}, COALESCE(${tags}, '')) * 0.5
+      )::float8 AS "relevance"
+      FROM "locations"
+      WHERE (${query} <% "name" OR ${query} <% "address" OR ${query} <% ${tags})
+        ${this.textSearchFilters(params)}
+      ORDER BY "relevance" DESC, "quality_score" DESC NULLS LAST
+      LIMIT ${params.limit}
+    `;
+  }
+
+  private async matchTextWithSubstrings(params: LocationTextSearchParams) {
+    const escaped = params.query.replace(/[\\%_]/g, '\\$&');
+    const contains = `%${escaped}%`;
+
+    return this.prisma.$queryRaw<Array<{ id: string; relevance: number }>>`
+      SELECT "id", (CASE
+        WHEN LOWER("name") = LOWER(${params.query}) THEN 1
+        WHEN "name" ILIKE ${`${escaped}%`} THEN 0.9
+        WHEN "name" ILIKE ${contains} THEN 0.8
+        WHEN "address" ILIKE ${contains} THEN 0.5
+        ELSE 0.4
+      END)::float8 AS "relevance"
+      FROM "locations"
+      WHERE ("name" ILIKE ${contains} OR "address" ILIKE ${contains} OR ("metadata" #>> '{osm,tags}') ILIKE ${contains})
+        ${this.textSearchFilters(params)}
+      ORDER BY "relevance" DESC, "quality_score" DESC NULLS LAST
+      LIMIT ${params.limit}
+    `;
+  }
+
+  private textSearchFilters(params: LocationTextSearchParams): Prisma.Sql {
+    const filters: Prisma.Sql[] = [];
+    if (params.bounds) {
+      filters.push(Prisma.sql`"latitude" BETWEEN ${params.bounds.minLat} AND ${params.bounds.maxLat}`);
+      filters.push(Prisma.sql`"longitude" BETWEEN ${params.bounds.minLng} AND ${params.bounds.maxLng}`);
+    }
+    if (params.categories && params.categories.length > 0) {
+      filters.push(Prisma.sql`"category" IN (${Prisma.join(params.categories)})`);
+    }
+
+    return filters.length > 0 ? Prisma.sql`AND ${Prisma.join(filters, ' AND ')}` : Prisma.empty;
+  }
+
   // Enhanced upsert method for multi-provider data
   async upsertLocation(data: CreateLocationData) {
+    // The AI key is unique, so concurrent saves of the same suggestion land on one row
+    if (data.aiKey) {
+      return this.prisma.location.upsert({
+        where: { aiKey: data.aiKey },
+        create: {
+          aiKey: data.aiKey,
+          name: data.name,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          category: data.category,
+          address: data.address || null,
+          description: data.description || null,
+          metadata: data.metadata,
+          source: data.source,
+          verified: data.verified ?? false
+        },
+        update: { lastUpdated: new Date() }
+      });
+    }
+
     // Try to find existing location by provider-specific IDs
     let existing = null;
 
@@ -216,7 +493,7 @@ export class LocationRepository {
           priceLevel: data.priceLevel || null,
           qualityScore: data.qualityScore || null,
           mergeStatus: data.mergeStatus || 'pending',
-          verified: true,
+          verified: data.verified ?? true,
 
           // Set appropriate timestamp fields
           ...(data.osmId && { osmLastUpdated: new Date() }),
@@ -237,7 +514,7 @@ export class LocationRepository {
   }
 
   // Enhanced stale data detection for multi-provider refresh
-  async findStaleLocations(olderThanHours: number = 24, provider?: 'osm' | 'google') {
+  async findStaleLocations(olderThanHours: number = 24, provider?: 'osm' | 'google', limit?: number) {
     const cutoffDate = new Date();
     cutoffDate.setHours(cutoffDate.getHours() - olderThanHours);
 
@@ -272,17 +549,34 @@ export class LocationRepository {
 
     return this.prisma.location.findMany({
       where: whereClause,
-      orderBy: { qualityScore: 'desc' }
+      orderBy: { qualityScore: 'desc' },
+      ...(limit !== undefined && { take: limit })
+    });
+  }
+
+  // Stores data re-fetched from one provider and stamps that provider's freshness
+  async markRefreshed(id: string, provider: 'osm' | 'google', data: Prisma.LocationUpdateInput) {
+    const now = new Date();
+
+    return this.prisma.location.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(provider === 'osm' ? { osmLastUpdated: now } : { googleLastUpdated: now }),
+        lastUpdated: now
+      }
     });
   }
 
   // Find locations that could benefit from Google enrichment
-  async findLocationsForGoogleEnrichment(limit: number = 50) {
+  async findLocationsForGoogleEnrichment(limit: number = 50, checkedBefore?: Date) {
     return this.prisma.location.findMany({
       where: {
         AND: [
           { googlePlaceId: null }, // Not yet enriched with Google data
           { source: { in: ['osm', 'manual'] } }, // OSM or manual locations
+          // Places Google had no match for are only looked up again once checkedBefore has passed
+          ...(checkedBefore ? [{ OR: [{ googleLastUpdated: null }, { googleLastUpdated: { lt: checkedBefore } }] }] : []),
           {
             OR: [
               { category: { in: ['restaurant', 'cafe', 'bar', 'attraction'] } },
@@ -299,6 +593,98 @@ export class LocationRepository {
     });
   }
 
+  async updateMergeStatus(id: string, mergeStatus: string) {
+    return this.prisma.location.update({
+      where: { id },
+      data: { mergeStatus }
+    });
+  }
+
+  // Records a Google lookup that found no match, so the place isn't looked up again right away
+  async markGoogleChecked(id: string, mergeStatus?: string) {
+    return this.prisma.location.update({
+      where: { id },
+      data: {
+        googleLastUpdated: new Date(),
+        ...(mergeStatus && { mergeStatus })
+      }
+    });
+  }
+
+  // Grid cells that contain at least one location, optionally only within bounds
+  async findOccupiedCells(cellSize: number, bounds?: LocationBounds): Promise<LocationCell[]> {
+    const where = bounds
+      ? Prisma.sql`WHERE "latitude" BETWEEN ${bounds.minLat} AND ${bounds.maxLat}
+          AND "longitude" BETWEEN ${bounds.minLng} AND ${bounds.maxLng}`
+      : Prisma.empty;
+
+    return this.prisma.$queryRaw<LocationCell[]>`
+      SELECT DISTINCT
+        FLOOR("latitude" / ${cellSize})::int AS "row",
+        FLOOR("longitude" / ${cellSize})::int AS "column"
+      FROM "locations"
+      ${where}
+      ORDER BY "row", "column"
+    `;
+  }
+
+  async findInBounds(bounds: LocationBounds) {
+    return this.prisma.location.findMany({
+      where: {
+        latitude: { gte: bounds.minLat, lte: bounds.maxLat },
+        longitude: { gte: bounds.minLng, lte: bounds.maxLng }
+      },
+      include: {
+        _count: { select: { recommendations: true } }
+      },
+      orderBy: { latitude: 'asc' }
+    });
+  }
+
+  /**
+   * Folds duplicate rows into the canonical one in a single transaction: recommendations, place
+   * matches and earlier aliases move over, and each duplicate id becomes an alias.
+   */
+  async mergeDuplicates(
+    canonicalId: string,
+    duplicates: Array<{ id: string; snapshot: Prisma.InputJsonValue }>,
+    data: Prisma.LocationUpdateInput
+  ) {
+    const duplicateIds = duplicates.map(duplicate => duplicate.id);
+
+    const [canonical] = await this.prisma.$transaction([
+      this.prisma.location.update({
+        where: { id: canonicalId },
+        data: { ...data, lastUpdated: new Date() }
+      }),
+      this.prisma.recommendation.updateMany({
+        where: { locationId: { in: duplicateIds } },
+        data: { locationId: canonicalId }
+      }),
+      this.prisma.placeMatch.updateMany({
+        where: { locationId: { in: duplicateIds } },
+        data: { locationId: canonicalId }
+      }),
+      this.prisma.locationAlias.updateMany({
+        where: { locationId: { in: duplicateIds } },
+        data: { locationId: canonicalId }
+      }),
+      this.prisma.locationAlias.createMany({
+        data: duplicates.map(duplicate => ({ id: duplicate.id, locationId: canonicalId, snapshot: duplicate.snapshot }))
+      }),
+      this.prisma.location.deleteMany({
+        where: { id: { in: duplicateIds } }
+      })
+    ]);
+
+    return canonical;
+  }
+
+  // Current id of a location that may have been merged into another
+  async findAlias(id: string) {
+    return this.prisma.locationAlias.findUnique({ where: { id } });
+  }
+
   async deleteByExternalId(externalId: string, source: string): Promise<void> {
     const location = await this.findByExternalId(externalId, source);
 
@@ -346,19 +732,4 @@ export class LocationRepository {
       maxLng: lng + lngDelta
     };
   }
-
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    // Haversine formula for distance calculation
-    const R = 6371000; // Earth's radius in meters
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLng / 2) * Math.sin(dLng / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c; // Distance in meters
-  }
 }
\ No newline at end of file
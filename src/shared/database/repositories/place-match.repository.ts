@@ -0,0 +1,157 @@
+// src/shared/database/repositories/place-match.repository.ts
+
+import { PrismaClient, Prisma } from '@prisma/client';
+
+export type PlaceMatchStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface PlaceMatchCandidateData {
+  osmId: string;
+  googlePlaceId: string;
+  locationId?: string | null;
+  confidence: number;
+  distance: number;
+  nameSimilarity: number;
+  osmSnapshot: Prisma.InputJsonValue;
+  googleSnapshot: Prisma.InputJsonValue;
+}
+
+export interface PlaceMatchDecisionData {
+  status: Exclude<PlaceMatchStatus, 'pending'>;
+  decidedBy: string;
+  origin?: 'auto' | 'manual';
+  locationId?: string | null;
+  googleSnapshot?: Prisma.InputJsonValue;
+}
+
+export class PlaceMatchRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string) {
+    return this.prisma.placeMatch.findUnique({ where: { id } });
+  }
+
+  async findPair(osmId: string, googlePlaceId: string) {
+    return this.prisma.placeMatch.findUnique({
+      where: {
+        osmId_googlePlaceId: { osmId, googlePlaceId }
+      }
+    });
+  }
+
+  /**
+   * Stores an uncertain match for review. A pair that was already decided is left alone, and a
+   * pending one gets fresh snapshots.
+   */
+  async recordCandidate(data: PlaceMatchCandidateData) {
+    const existing = await this.findPair(data.osmId, data.googlePlaceId);
+    if (existing && existing.status !== 'pending') {
+      return existing;
+    }
+
+    const fields = {
+      ...(data.locationId && { locationId: data.locationId }),
+      confidence: data.confidence,
+      distance: data.distance,
+      nameSimilarity: data.nameSimilarity,
+      osmSnapshot: data.osmSnapshot,
+      googleSnapshot: data.googleSnapshot
+    };
+
+    return this.prisma.placeMatch.upsert({
+      where: {
+        osmId_googlePlaceId: { osmId: data.osmId, googlePlaceId: data.googlePlaceId }
+      },
+      create: { osmId: data.osmId, googlePlaceId: data.googlePlaceId, ...fields },
+      update: fields
+    });
+  }
+
+  // Accepted and rejected pairs for a batch of OSM places
+  async findDecisions(osmIds: string[]) {
+    if (osmIds.length === 0) return [];
+
+    return this.prisma.placeMatch.findMany({
+      where: {
+        osmId: { in: osmIds },
+        status: { in: ['accepted', 'rejected'] }
+      }
+    });
+  }
+
+  async decide(id: string, data: PlaceMatchDecisionData) {
+    return this.prisma.placeMatch.update({
+      where: { id },
+      data: {
+        status: data.status,
+        decidedBy: data.decidedBy,
+        decidedAt: new Date(),
+        ...(data.origin && { origin: data.origin }),
+        ...(data.locationId !== undefined && { locationId: data.locationId }),
+        ...(data.googleSnapshot !== undefined && { googleSnapshot: data.googleSnapshot })
+      }
+    });
+  }
+
+  // Linking an OSM place by hand records the pair as accepted straight away
+  async createDecided(data: Omit<PlaceMatchCandidateData, 'confidence' | 'distance' | 'nameSimilarity'> & PlaceMatchDecisionData) {
+    return this.prisma.placeMatch.create({
+      data: {
+        osmId: data.osmId,
+        googlePlaceId: data.googlePlaceId,
+        locationId: data.locationId ?? null,
+        status: data.status,
+        origin: data.origin ?? 'manual',
+        osmSnapshot: data.osmSnapshot,
+        googleSnapshot: data.googleSnapshot,
+        decidedBy: data.decidedBy,
+        decidedAt: new Date()
+      }
+    });
+  }
+
+  // Once an OSM place has its Google match, the other candidates for it are settled too
+  async rejectOtherPending(osmId: string, acceptedId: string, decidedBy: string): Promise<number> {
+    const result = await this.prisma.placeMatch.updateMany({
+      where: {
+        osmId,
+        status: 'pending',
+        id: { not: acceptedId }
+      },
+      data: {
+        status: 'rejected',
+        decidedBy,
+        decidedAt: new Date()
+      }
+    });
+    return result.count;
+  }
+
+  async countPending(osmId: string): Promise<number> {
+    return this.prisma.placeMatch.count({ where: { osmId, status: 'pending' } });
+  }
+
+  async list(status: PlaceMatchStatus | undefined, limit: number, offset: number) {
+    return this.prisma.placeMatch.findMany({
+      where: status ? { status } : {},
+      orderBy: [
+        { confidence: 'desc' },
+        { createdAt: 'desc' }
+      ],
+      take: limit,
+      skip: offset
+    });
+  }
+
+  async count(status?: PlaceMatchStatus): Promise<number> {
+    return this.prisma.placeMatch.count({ where: status ? { status } : {} });
+  }
+
+  async countByStatus(): Promise<Record<string, number>> {
+    const groups = await this.prisma.placeMatch.groupBy({
+      by: ['status'],
+      _count: { status: true }
+    });
+
+    return Object.fromEntries(groups.map(group => [group.status, group._count.status]));
+  }
+}
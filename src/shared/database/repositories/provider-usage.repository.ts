@@ -0,0 +1,41 @@
+// src/shared/database/repositories/provider-usage.repository.ts
+
+import { PrismaClient } from '@prisma/client';
+
+export class ProviderUsageRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async recordCalls(provider: string, date: Date, calls: number, cost: number) {
+    return this.prisma.providerUsage.upsert({
+      where: {
+        provider_date: { provider, date }
+      },
+      create: { provider, date, calls, cost },
+      update: {
+        calls: { increment: calls },
+        cost: { increment: cost }
+      }
+    });
+  }
+
+  async getCalls(provider: string, date: Date): Promise<number> {
+    const row = await this.prisma.providerUsage.findUnique({
+      where: {
+        provider_date: { provider, date }
+      }
+    });
+    return row?.calls ?? 0;
+  }
+
+  // Spend over an inclusive range of UTC days
+  async getCost(provider: string, from: Date, to: Date): Promise<number> {
+    const result = await this.prisma.providerUsage.aggregate({
+      where: {
+        provider,
+        date: { gte: from, lte: to }
+      },
+      _sum: { cost: true }
+    });
+    return Number(result._sum.cost ?? 0);
+  }
+}
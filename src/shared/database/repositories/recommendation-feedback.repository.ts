@@ -0,0 +1,50 @@
+// src/shared/database/repositories/recommendation-feedback.repository.ts
+
+import { PrismaClient } from '@prisma/client';
+
+export interface CreateFeedbackData {
+  recommendationId: string;
+  userId: string;
+  action: string;
+  comment?: string;
+}
+
+export class RecommendationFeedbackRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // Repeating an action refreshes it instead of stacking duplicates
+  async upsert(data: CreateFeedbackData) {
+    return this.prisma.recommendationFeedback.upsert({
+      where: {
+        recommendationId_action: {
+          recommendationId: data.recommendationId,
+          action: data.action
+        }
+      },
+      create: {
+        recommendationId: data.recommendationId,
+        userId: data.userId,
+        action: data.action,
+        comment: data.comment ?? null
+      },
+      update: {
+        comment: data.comment ?? null,
+        createdAt: new Date()
+      }
+    });
+  }
+
+  // Most recent feedback with the place each recommendation pointed at
+  async findRecentForUser(userId: string, limit: number = 200) {
+    return this.prisma.recommendationFeedback.findMany({
+      where: { userId },
+      include: {
+        recommendation: {
+          include: { location: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+  }
+}
@@ -0,0 +1,73 @@
+// src/shared/database/repositories/recommendation.repository.ts
+
+import { PrismaClient, Prisma } from '@prisma/client';
+
+export interface RecommendationHistoryParams {
+  userId: string;
+  page: number;
+  limit: number;
+  mood?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface CreateRecommendationData {
+  userId: string;
+  locationId: string;
+  aiContext: Prisma.InputJsonValue;
+}
+
+export class RecommendationRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: CreateRecommendationData) {
+    return this.prisma.recommendation.create({
+      data: {
+        userId: data.userId,
+        locationId: data.locationId,
+        aiContext: data.aiContext
+      }
+    });
+  }
+
+  async findByIdForUser(id: string, userId: string) {
+    return this.prisma.recommendation.findFirst({
+      where: { id, userId },
+      include: { location: true }
+    });
+  }
+
+  async findHistory(params: RecommendationHistoryParams) {
+    const { userId, page, limit, mood, from, to } = params;
+
+    const whereClause: Prisma.RecommendationWhereInput = { userId };
+
+    // Mood lives inside the stored AI context alongside the original request
+    if (mood) {
+      whereClause.aiContext = {
+        path: ['request', 'mood'],
+        equals: mood
+      };
+    }
+
+    if (from || to) {
+      whereClause.createdAt = {
+        ...(from && { gte: from }),
+        ...(to && { lte: to })
+      };
+    }
+
+    const [items, total] = await this.prisma.$transaction([
+      this.prisma.recommendation.findMany({
+        where: whereClause,
+        include: { location: true },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.recommendation.count({ where: whereClause })
+    ]);
+
+    return { items, total };
+  }
+}
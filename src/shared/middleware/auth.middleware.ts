@@ -1,7 +1,8 @@
 import { FastifyRequest } from 'fastify'
 import { jwtService } from '@shared/services'
 import { db } from '@shared/database'
-import { AppError } from '@shared/errors'
+import { config } from '@shared/config'
+import { AppError, ForbiddenError } from '@shared/errors'
 
 // Extend Fastify request to include user
 declare module 'fastify' {
@@ -50,4 +51,15 @@ export async function authMiddleware(
 // Helper function for easier usage
 export function requireAuth() {
   return authMiddleware
-}
\ No newline at end of file
+}
+
+// Authenticated users listed in ADMIN_EMAILS only
+export function requireAdmin() {
+  return async (request: FastifyRequest): Promise<void> => {
+    await authMiddleware(request)
+
+    if (!config.auth.adminEmails.includes(request.user!.email.toLowerCase())) {
+      throw new ForbiddenError('Admin access required')
+    }
+  }
+}
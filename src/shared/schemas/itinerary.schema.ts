@@ -0,0 +1,116 @@
+import { Type, Static } from '@sinclair/typebox'
+import { MoodEnum, POICategoryEnum } from './location.schema'
+
+const ClockTimeSchema = Type.String({ pattern: '^([01]\\d|2[0-3]):[0-5]\\d$', description: 'Local time as HH:MM' })
+
+const CoordinatesSchema = Type.Object({
+  latitude: Type.Number(),
+  longitude: Type.Number()
+})
+
+export const ItineraryGenerateRequestSchema = Type.Object({
+  latitude: Type.Number({ minimum: -90, maximum: 90, description: 'Where the day starts' }),
+  longitude: Type.Number({ minimum: -180, maximum: 180, description: 'Where the day starts' }),
+  mood: MoodEnum,
+  title: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  date: Type.Optional(Type.String({ format: 'date', description: 'Day of the plan, defaults to today' })),
+  startTime: Type.Optional(ClockTimeSchema),
+  timeOfDay: Type.Optional(Type.Union([
+    Type.Literal('morning'),
+    Type.Literal('afternoon'),
+    Type.Literal('evening'),
+    Type.Literal('night')
+  ], { description: 'Used to pick a start time when startTime is omitted' })),
+  duration: Type.Optional(Type.Number({ minimum: 0.5, maximum: 16, default: 4, description: 'Available hours' })),
+  radius: Type.Optional(Type.Number({ minimum: 100, maximum: 10000, description: 'Search radius in meters' })),
+  categories: Type.Optional(Type.Array(POICategoryEnum, { minItems: 1, maxItems: 10 })),
+  maxStops: Type.Optional(Type.Integer({ minimum: 1, maximum: 12, default: 6 }))
+})
+
+export const ItineraryStopSchema = Type.Object({
+  placeId: Type.String(),
+  name: Type.String(),
+  category: Type.String(),
+  coordinates: CoordinatesSchema,
+  address: Type.Optional(Type.String()),
+  arrivalTime: ClockTimeSchema,
+  departureTime: ClockTimeSchema,
+  visitMinutes: Type.Integer(),
+  waitMinutes: Type.Integer({ description: 'Time spent waiting for the place to open' }),
+  openStatus: Type.Union([
+    Type.Literal('open'),
+    Type.Literal('unknown'),
+    Type.Literal('closed')
+  ], { description: 'Whether the place is open for the whole visit' }),
+  hoursToday: Type.Optional(Type.String({ description: 'Opening hours as reported by the provider' })),
+  leg: Type.Object({
+    distanceMeters: Type.Integer({ description: 'Straight-line walking distance from the previous stop' }),
+    walkingMinutes: Type.Integer()
+  }),
+  exceedsDuration: Type.Boolean({ description: 'Visit ends after the available time' })
+})
+
+export const ItinerarySchema = Type.Object({
+  id: Type.String(),
+  title: Type.Union([Type.String(), Type.Null()]),
+  mood: Type.String(),
+  date: Type.String({ format: 'date' }),
+  startTime: ClockTimeSchema,
+  endTime: ClockTimeSchema,
+  duration: Type.Number(),
+  start: CoordinatesSchema,
+  stops: Type.Array(ItineraryStopSchema),
+  alternatives: Type.Array(Type.Object({
+    placeId: Type.String(),
+    name: Type.String(),
+    category: Type.String()
+  }), { description: 'Places that can be swapped in' }),
+  totals: Type.Object({
+    stops: Type.Integer(),
+    walkingMeters: Type.Integer(),
+    walkingMinutes: Type.Integer(),
+    visitMinutes: Type.Integer(),
+    waitMinutes: Type.Integer()
+  }),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' })
+})
+
+export const ItineraryListQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 50, default: 20 }))
+})
+
+export const ItineraryListResponseSchema = Type.Object({
+  items: Type.Array(ItinerarySchema),
+  pagination: Type.Object({
+    page: Type.Number(),
+    limit: Type.Number(),
+    total: Type.Number(),
+    totalPages: Type.Number()
+  })
+})
+
+export const ItineraryParamsSchema = Type.Object({
+  id: Type.String({ description: 'Itinerary ID' })
+})
+
+export const ItineraryStopParamsSchema = Type.Object({
+  id: Type.String({ description: 'Itinerary ID' }),
+  placeId: Type.String({ description: 'Place ID of the stop' })
+})
+
+export const ItineraryReorderRequestSchema = Type.Object({
+  order: Type.Array(Type.String(), { minItems: 1, description: 'Every stop placeId in the new visiting order' })
+})
+
+export const ItinerarySwapRequestSchema = Type.Object({
+  replacementPlaceId: Type.Optional(Type.String({ description: 'Alternative to swap in, defaults to the best fit' }))
+})
+
+export type ItineraryGenerateRequest = Static<typeof ItineraryGenerateRequestSchema>
+export type ItineraryResponse = Static<typeof ItinerarySchema>
+export type ItineraryListQuery = Static<typeof ItineraryListQuerySchema>
+export type ItineraryListResponse = Static<typeof ItineraryListResponseSchema>
+export type ItineraryReorderRequest = Static<typeof ItineraryReorderRequestSchema>
+export type ItinerarySwapRequest = Static<typeof ItinerarySwapRequestSchema>
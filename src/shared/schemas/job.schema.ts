@@ -0,0 +1,91 @@
+import { Type, Static } from '@sinclair/typebox'
+
+export const JobStatusEnum = Type.Union([
+  Type.Literal('pending'),
+  Type.Literal('running'),
+  Type.Literal('completed'),
+  Type.Literal('failed')
+])
+
+export const JobSchema = Type.Object({
+  id: Type.String(),
+  type: Type.String(),
+  key: Type.Union([Type.String(), Type.Null()]),
+  status: JobStatusEnum,
+  payload: Type.Unknown(),
+  result: Type.Union([Type.Unknown(), Type.Null()]),
+  attempts: Type.Integer(),
+  maxAttempts: Type.Integer(),
+  runAt: Type.String({ format: 'date-time', description: 'When the job is next due' }),
+  lockedBy: Type.Union([Type.String(), Type.Null()], { description: 'Worker running the job' }),
+  lastError: Type.Union([Type.String(), Type.Null()]),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+  completedAt: Type.Union([Type.String({ format: 'date-time' }), Type.Null()])
+})
+
+export const JobListQuerySchema = Type.Object({
+  status: Type.Optional(JobStatusEnum),
+  type: Type.Optional(Type.String({ maxLength: 50 })),
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 }))
+})
+
+export const JobListResponseSchema = Type.Object({
+  items: Type.Array(JobSchema),
+  counts: Type.Record(Type.String(), Type.Integer(), { description: 'Jobs per status across the whole queue' }),
+  pagination: Type.Object({
+    page: Type.Number(),
+    limit: Type.Number(),
+    total: Type.Number(),
+    totalPages: Type.Number()
+  })
+})
+
+export const JobParamsSchema = Type.Object({
+  id: Type.String({ description: 'Job ID' })
+})
+
+export const LocationRefreshResponseSchema = Type.Object({
+  message: Type.String(),
+  queued: Type.Object({
+    osm: Type.Integer(),
+    google: Type.Integer()
+  })
+})
+
+export const GoogleEnrichmentResponseSchema = Type.Object({
+  message: Type.String(),
+  queued: Type.Boolean(),
+  budget: Type.Object({
+    date: Type.String(),
+    used: Type.Integer(),
+    budget: Type.Integer(),
+    remaining: Type.Integer()
+  }),
+  monthlySpend: Type.Object({
+    month: Type.String(),
+    spent: Type.Number(),
+    cap: Type.Union([Type.Number(), Type.Null()]),
+    degraded: Type.Boolean()
+  })
+})
+
+export const LocationDedupeRequestSchema = Type.Object({
+  region: Type.Optional(Type.Object({
+    latitude: Type.Number({ minimum: -90, maximum: 90 }),
+    longitude: Type.Number({ minimum: -180, maximum: 180 }),
+    radius: Type.Number({ minimum: 1, maximum: 100000, description: 'Meters around the center to deduplicate' })
+  }, { description: 'Limit the pass to one area; the whole table when omitted' })),
+  dryRun: Type.Optional(Type.Boolean({ description: 'Count duplicate clusters without merging them' }))
+})
+
+export const LocationDedupeResponseSchema = Type.Object({
+  message: Type.String(),
+  queued: Type.Boolean(),
+  jobId: Type.Union([Type.String(), Type.Null()])
+})
+
+export type JobResponse = Static<typeof JobSchema>
+export type JobListQuery = Static<typeof JobListQuerySchema>
+export type LocationDedupeRequest = Static<typeof LocationDedupeRequestSchema>
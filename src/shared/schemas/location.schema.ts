@@ -2,7 +2,7 @@
 import { Type, Static } from '@sinclair/typebox';
 
 // Enums for validation
-const POICategoryEnum = Type.Union([
+export const POICategoryEnum = Type.Union([
   // Food & Dining
   Type.Literal('restaurant'),
   Type.Literal('cafe'),
@@ -64,7 +64,7 @@ const POICategoryEnum = Type.Union([
   Type.Literal('parking')
 ]);
 
-const MoodEnum = Type.Union([
+export const MoodEnum = Type.Union([
   Type.Literal('energetic'),
   Type.Literal('relaxed'),
   Type.Literal('curious'),
@@ -86,6 +86,24 @@ export const CoordinatesSchema = Type.Object({
   })
 });
 
+// Local clock and calendar at the search coordinates
+export const LocalContextSchema = Type.Object({
+  timezone: Type.String({ description: 'IANA timezone at the coordinates' }),
+  source: Type.Union([Type.Literal('boundaries'), Type.Literal('longitude')], {
+    description: 'Whether the timezone came from the boundary dataset or was estimated from the longitude'
+  }),
+  utcOffsetMinutes: Type.Number(),
+  localDate: Type.String({ format: 'date' }),
+  localTime: Type.String({ description: 'HH:MM' }),
+  dayOfWeek: Type.String(),
+  timeOfDay: Type.Union([
+    Type.Literal('morning'),
+    Type.Literal('afternoon'),
+    Type.Literal('evening'),
+    Type.Literal('night')
+  ])
+});
+
 export const PlaceMetadataSchema = Type.Object({
   source: Type.Union([
     Type.Literal('osm'),
@@ -165,6 +183,20 @@ export const LocationSearchRequestSchema = Type.Object({
   excludeChains: Type.Optional(Type.Boolean({
     default: false,
     description: 'Exclude chain stores and restaurants'
+  })),
+  openNow: Type.Optional(Type.Boolean({
+    description: 'Only return places open right now, in local time at the search center'
+  })),
+  openAt: Type.Optional(Type.String({
+    pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:\\d{2})?$',
+    description: 'Only return places open at this time; without an offset it is read as local time'
+  })),
+  timezone: Type.Optional(Type.String({
+    description: 'IANA timezone of the search area, e.g. "Europe/Paris"'
+  })),
+  includeUnknownHours: Type.Optional(Type.Boolean({
+    default: false,
+    description: 'Keep places without known opening hours when filtering by openNow/openAt'
   }))
 });
 
@@ -177,16 +209,73 @@ export const LocationSearchResponseSchema = Type.Object({
     totalResults: Type.Number({ description: 'Total number of results found' }),
     searchRadius: Type.Number({ description: 'Actual search radius used' }),
     categoriesSearched: Type.Array(Type.String()),
-    cached: Type.Optional(Type.Boolean({ description: 'Whether result was cached' }))
+    cached: Type.Optional(Type.Boolean({ description: 'Whether result was cached' })),
+    fallbackReason: Type.Optional(Type.String({ description: 'Why results came from fewer providers than usual, e.g. the Google spend cap' })),
+    localContext: Type.Optional(LocalContextSchema),
+    openingHours: Type.Optional(Type.Object({
+      localDate: Type.String({ format: 'date' }),
+      localTime: Type.String({ description: 'Local time the places were checked at (HH:MM)' }),
+      timezone: Type.String({ description: 'IANA timezone the time was evaluated in' }),
+      utcOffsetMinutes: Type.Number(),
+      excludedClosed: Type.Number({ description: 'Places dropped because they were closed' }),
+      excludedUnknown: Type.Number({ description: 'Places dropped because their hours are unknown' })
+    }, { description: 'Present when results were filtered by opening hours' }))
   })
 });
 
+export const PlaceDetailsQuerySchema = Type.Object({
+  provenance: Type.Optional(Type.Boolean({ default: false, description: 'Include where each field came from' }))
+});
+
+export const FieldProvenanceSchema = Type.Object({
+  source: Type.Union([Type.Literal('osm'), Type.Literal('google'), Type.Literal('manual')]),
+  fetchedAt: Type.String({ format: 'date-time' }),
+  confidence: Type.Number({ minimum: 0, maximum: 1 })
+});
+
 export const PlaceDetailsResponseSchema = Type.Object({
   place: PlaceSchema,
   metadata: Type.Object({
     provider: Type.String(),
     lastUpdated: Type.String({ format: 'date-time' }),
     verified: Type.Boolean()
+  }),
+  // Keyed by field: name, address, description, hours, phone, website, email
+  provenance: Type.Optional(Type.Record(Type.String(), FieldProvenanceSchema))
+});
+
+export const TextSearchQuerySchema = Type.Object({
+  q: Type.String({ minLength: 1, maxLength: 200, description: 'Free text matched against names, addresses and OSM tags' }),
+  lat: Type.Optional(Type.Number({ minimum: -90, maximum: 90, description: 'Latitude to rank nearby matches higher' })),
+  lng: Type.Optional(Type.Number({ minimum: -180, maximum: 180, description: 'Longitude to rank nearby matches higher' })),
+  radius: Type.Optional(Type.Number({
+    minimum: 100,
+    maximum: 50000,
+    description: 'Only match places within this many meters of lat/lng'
+  })),
+  categories: Type.Optional(Type.Array(POICategoryEnum)),
+  limit: Type.Optional(Type.Number({ minimum: 1, maximum: 50, default: 10 })),
+  fallback: Type.Optional(Type.Boolean({
+    default: true,
+    description: 'Ask the configured external provider when few stored places match'
+  }))
+});
+
+export const TextSearchResponseSchema = Type.Object({
+  places: Type.Array(Type.Intersect([
+    PlaceSchema,
+    Type.Object({
+      relevance: Type.Number({ minimum: 0, maximum: 1, description: 'How well the text matched' }),
+      score: Type.Number({ description: 'Relevance blended with distance; results are sorted by it' })
+    })
+  ])),
+  metadata: Type.Object({
+    query: Type.String(),
+    responseTime: Type.Number({ description: 'Response time in milliseconds' }),
+    localResults: Type.Number({ description: 'Stored places that matched' }),
+    externalResults: Type.Number({ description: 'Places added from the external provider' }),
+    externalProvider: Type.Optional(Type.Union([Type.Literal('osm'), Type.Literal('google')])),
+    fallbackReason: Type.Optional(Type.String())
   })
 });
 
@@ -237,7 +326,10 @@ export const AILocationResponseSchema = Type.Object({
 // Type exports
 export type LocationSearchRequest = Static<typeof LocationSearchRequestSchema>;
 export type LocationSearchResponse = Static<typeof LocationSearchResponseSchema>;
+export type PlaceDetailsQuery = Static<typeof PlaceDetailsQuerySchema>;
 export type PlaceDetailsResponse = Static<typeof PlaceDetailsResponseSchema>;
+export type TextSearchQuery = Static<typeof TextSearchQuerySchema>;
+export type TextSearchResponse = Static<typeof TextSearchResponseSchema>;
 export type Place = Static<typeof PlaceSchema>;
 export type PlaceMetadata = Static<typeof PlaceMetadataSchema>;
 export type Coordinates = Static<typeof CoordinatesSchema>;
@@ -0,0 +1,55 @@
+import { Type, Static } from '@sinclair/typebox'
+
+export const PlaceMatchStatusEnum = Type.Union([
+  Type.Literal('pending'),
+  Type.Literal('accepted'),
+  Type.Literal('rejected')
+])
+
+export const PlaceMatchSchema = Type.Object({
+  id: Type.String(),
+  locationId: Type.Union([Type.String(), Type.Null()], { description: 'Stored location of the OSM place' }),
+  osmId: Type.String({ description: 'OSM element, e.g. node/123' }),
+  googlePlaceId: Type.String(),
+  status: PlaceMatchStatusEnum,
+  origin: Type.Union([Type.Literal('auto'), Type.Literal('manual')]),
+  confidence: Type.Union([Type.Number(), Type.Null()]),
+  distance: Type.Union([Type.Number(), Type.Null()], { description: 'Meters between the two places' }),
+  nameSimilarity: Type.Union([Type.Number(), Type.Null()]),
+  osmSnapshot: Type.Unknown({ description: 'OSM place as it was when matched' }),
+  googleSnapshot: Type.Unknown({ description: 'Google place as it was when matched' }),
+  decidedBy: Type.Union([Type.String(), Type.Null()]),
+  decidedAt: Type.Union([Type.String({ format: 'date-time' }), Type.Null()]),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' })
+})
+
+export const PlaceMatchListQuerySchema = Type.Object({
+  status: Type.Optional(PlaceMatchStatusEnum),
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 }))
+})
+
+export const PlaceMatchListResponseSchema = Type.Object({
+  items: Type.Array(PlaceMatchSchema),
+  counts: Type.Record(Type.String(), Type.Integer(), { description: 'Matches per status' }),
+  pagination: Type.Object({
+    page: Type.Number(),
+    limit: Type.Number(),
+    total: Type.Number(),
+    totalPages: Type.Number()
+  })
+})
+
+export const PlaceMatchParamsSchema = Type.Object({
+  id: Type.String({ description: 'Place match ID' })
+})
+
+export const PlaceMatchLinkSchema = Type.Object({
+  locationId: Type.String({ description: 'Stored OSM location' }),
+  googlePlaceId: Type.String({ minLength: 1, maxLength: 255, description: 'Google place_id to merge into it' })
+})
+
+export type PlaceMatchResponse = Static<typeof PlaceMatchSchema>
+export type PlaceMatchListQuery = Static<typeof PlaceMatchListQuerySchema>
+export type PlaceMatchLinkRequest = Static<typeof PlaceMatchLinkSchema>
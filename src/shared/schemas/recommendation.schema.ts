@@ -36,10 +36,18 @@ export const RecommendationRequestSchema = Type.Object({
     minimum: 0.5,
     maximum: 24,
     description: 'Available hours'
+  })),
+  radius: Type.Optional(Type.Number({
+    minimum: 100,
+    maximum: 10000,
+    description: 'Radius in meters used to find real places nearby'
   }))
 });
 
 export const RecommendationSchema = Type.Object({
+  id: Type.Optional(Type.String({ description: 'Stored recommendation ID (for history and feedback)' })),
+  placeId: Type.Optional(Type.String({ description: 'ID of the matching known place' })),
+  verified: Type.Optional(Type.Boolean({ description: 'Whether the recommendation matched a known place' })),
   name: Type.String({ description: 'Name of the place or activity' }),
   category: Type.String({ description: 'Category (restaurant, attraction, etc.)' }),
   description: Type.String({ description: 'Description of the recommendation' }),
@@ -59,12 +67,97 @@ export const RecommendationResponseSchema = Type.Object({
     model: Type.String({ description: 'AI model used' }),
     responseTime: Type.Number({ description: 'Response time in milliseconds' }),
     cached: Type.Optional(Type.Boolean({ description: 'Whether result was cached' })),
+    cacheMatch: Type.Optional(Type.Object({
+      key: Type.String({ description: 'Cache key of the entry that served the request' }),
+      type: Type.Union([Type.Literal('exact'), Type.Literal('semantic')]),
+      similarity: Type.Number({ minimum: 0, maximum: 1, description: 'Similarity to the cached request' }),
+      distance: Type.Number({ description: 'Meters between the cached request and this one' }),
+      cachedAt: Type.String({ format: 'date-time' })
+    })),
     tokensUsed: Type.Optional(Type.Number({ description: 'Tokens consumed' })),
-    cost: Type.Optional(Type.Number({ description: 'Estimated cost in USD' }))
+    cost: Type.Optional(Type.Number({ description: 'Estimated cost in USD' })),
+    grounding: Type.Optional(Type.Object({
+      candidates: Type.Number({ description: 'Nearby places offered to the model' }),
+      matched: Type.Number({ description: 'Recommendations matched to a known place' }),
+      unmatched: Type.Number({ description: 'Recommendations dropped or flagged as unverified' })
+    }))
+  })
+});
+
+// Recommendation history schemas
+export const RecommendationHistoryQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({ minimum: 1, default: 1, description: 'Page number' })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 50, default: 20, description: 'Items per page' })),
+  mood: Type.Optional(Type.Union([
+    Type.Literal('energetic'),
+    Type.Literal('relaxed'),
+    Type.Literal('curious'),
+    Type.Literal('hungry'),
+    Type.Literal('cultural')
+  ], { description: 'Only include recommendations generated for this mood' })),
+  from: Type.Optional(Type.String({ format: 'date-time', description: 'Earliest creation time (inclusive)' })),
+  to: Type.Optional(Type.String({ format: 'date-time', description: 'Latest creation time (inclusive)' }))
+});
+
+export const RecommendationParamsSchema = Type.Object({
+  id: Type.String({ description: 'Stored recommendation ID' })
+});
+
+export const StoredRecommendationSchema = Type.Object({
+  id: Type.String(),
+  createdAt: Type.String({ format: 'date-time' }),
+  generationId: Type.String({ description: 'Groups recommendations produced by the same request' }),
+  rank: Type.Number({ description: 'Position within the generated list' }),
+  recommendation: RecommendationSchema,
+  request: RecommendationRequestSchema,
+  provider: Type.String({ description: 'AI provider used' }),
+  model: Type.String({ description: 'AI model used' }),
+  location: Type.Object({
+    id: Type.String(),
+    name: Type.String(),
+    category: Type.String(),
+    coordinates: Type.Object({
+      latitude: Type.Number(),
+      longitude: Type.Number()
+    }),
+    address: Type.Optional(Type.String())
+  })
+});
+
+export const RecommendationHistoryResponseSchema = Type.Object({
+  items: Type.Array(StoredRecommendationSchema),
+  pagination: Type.Object({
+    page: Type.Number(),
+    limit: Type.Number(),
+    total: Type.Number(),
+    totalPages: Type.Number()
   })
 });
 
+// Feedback schemas
+export const RecommendationFeedbackRequestSchema = Type.Object({
+  action: Type.Union([
+    Type.Literal('liked'),
+    Type.Literal('dismissed'),
+    Type.Literal('visited'),
+    Type.Literal('not_open')
+  ], { description: 'What the user did with the recommendation' }),
+  comment: Type.Optional(Type.String({ maxLength: 500, description: 'Optional free-text note' }))
+});
+
+export const RecommendationFeedbackResponseSchema = Type.Object({
+  id: Type.String(),
+  recommendationId: Type.String(),
+  action: Type.String(),
+  comment: Type.Union([Type.String(), Type.Null()]),
+  createdAt: Type.String({ format: 'date-time' })
+});
+
 // TypeScript types
 export type RecommendationRequest = Static<typeof RecommendationRequestSchema>;
 export type Recommendation = Static<typeof RecommendationSchema>;
-export type RecommendationResponse = Static<typeof RecommendationResponseSchema>;
\ No newline at end of file
+export type RecommendationResponse = Static<typeof RecommendationResponseSchema>;
+export type RecommendationHistoryQuery = Static<typeof RecommendationHistoryQuerySchema>;
+export type StoredRecommendationResponse = Static<typeof StoredRecommendationSchema>;
+export type RecommendationHistoryResponse = Static<typeof RecommendationHistoryResponseSchema>;
+export type RecommendationFeedbackRequest = Static<typeof RecommendationFeedbackRequestSchema>;
@@ -0,0 +1,35 @@
+import { Type, Static } from '@sinclair/typebox'
+
+const UsageTotalsSchema = Type.Object({
+  requests: Type.Integer({ description: 'AI generations requested' }),
+  tokensUsed: Type.Integer({ description: 'Tokens consumed' }),
+  cost: Type.Number({ description: 'Estimated cost in USD' })
+})
+
+const UsagePeriodSchema = Type.Object({
+  start: Type.String({ format: 'date', description: 'First UTC day of the period' }),
+  resetsAt: Type.String({ format: 'date-time' }),
+  used: UsageTotalsSchema,
+  limits: Type.Object({
+    tokens: Type.Union([Type.Integer(), Type.Null()], { description: 'Token limit, null when unlimited' }),
+    cost: Type.Union([Type.Number(), Type.Null()], { description: 'USD limit, null when unlimited' })
+  }),
+  remaining: Type.Object({
+    tokens: Type.Union([Type.Integer(), Type.Null()]),
+    cost: Type.Union([Type.Number(), Type.Null()])
+  })
+})
+
+// Usage Schema
+export const UsageResponseSchema = Type.Object({
+  tier: Type.Union([Type.Literal('free'), Type.Literal('pro')]),
+  enforced: Type.Boolean({ description: 'Whether limits are currently enforced' }),
+  today: UsagePeriodSchema,
+  month: UsagePeriodSchema,
+  daily: Type.Array(Type.Intersect([
+    Type.Object({ date: Type.String({ format: 'date' }) }),
+    UsageTotalsSchema
+  ]), { description: 'Per-day ledger for the current month, newest first' })
+})
+
+export type UsageResponse = Static<typeof UsageResponseSchema>
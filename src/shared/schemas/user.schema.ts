@@ -0,0 +1,42 @@
+import { Type, Static } from '@sinclair/typebox'
+import { POICategoryEnum, MoodEnum } from './location.schema'
+
+// User Preferences Schema
+export const UserPreferencesSchema = Type.Object({
+  dietaryRestrictions: Type.Optional(Type.Array(Type.Union([
+    Type.Literal('vegetarian'),
+    Type.Literal('vegan'),
+    Type.Literal('pescatarian'),
+    Type.Literal('halal'),
+    Type.Literal('kosher'),
+    Type.Literal('gluten_free'),
+    Type.Literal('dairy_free'),
+    Type.Literal('nut_free')
+  ]), {
+    uniqueItems: true,
+    description: 'Dietary restrictions to respect in food recommendations'
+  })),
+  accessibility: Type.Optional(Type.Array(Type.Union([
+    Type.Literal('wheelchair'),
+    Type.Literal('step_free'),
+    Type.Literal('limited_walking'),
+    Type.Literal('visual_impairment'),
+    Type.Literal('hearing_impairment')
+  ]), {
+    uniqueItems: true,
+    description: 'Accessibility needs places must accommodate'
+  })),
+  favouriteCategories: Type.Optional(Type.Array(POICategoryEnum, {
+    uniqueItems: true,
+    maxItems: 20,
+    description: 'Categories searched when a request names no categories or mood'
+  })),
+  budget: Type.Optional(Type.Union([
+    Type.Literal('low'),
+    Type.Literal('medium'),
+    Type.Literal('high')
+  ], { description: 'Budget used when a request does not specify one' })),
+  defaultMood: Type.Optional(MoodEnum)
+}, { additionalProperties: false })
+
+export type UserPreferences = Static<typeof UserPreferencesSchema>
@@ -1,16 +1,18 @@
 import { config } from '@shared/config';
 import { AppError } from '@shared/errors';
-import { AIProvider, AIRecommendationRequest, AIResponse } from './types';
-import { GeminiProvider } from './providers';
-
-interface CacheEntry {
-  data: AIResponse;
-  timestamp: number;
-}
+import { AIProvider, AIRecommendationRequest, AIResponse, AIPlaceCandidate, AIRecommendation, AIStreamEvent, AIFeedbackContext } from './types';
+import { GeminiProvider, OpenAIProvider, ClaudeProvider, LocalProvider } from './providers';
+import { locationService } from '../location';
+import { userPreferencesService } from '../user-preferences.service';
+import { recommendationFeedbackService } from '../recommendation-feedback.service';
+import { timezoneService } from '../timezone';
+import { CacheStats } from '../cache';
+import { recommendationCache } from './recommendation-cache';
+import { parseMetrics, ParseStats } from './parse-metrics';
 
 export class AIService {
   private providers: Map<string, AIProvider> = new Map();
-  private cache: Map<string, CacheEntry> = new Map();
+  private readonly maxCandidates = 20; // Nearby places offered to the model
 
   constructor() {
     this.initializeProviders();
@@ -22,10 +24,18 @@ export class AIService {
       this.providers.set('gemini', new GeminiProvider());
     }
 
-    // Future: Initialize other providers
-    // if (config.apis.openai) {
-    //   this.providers.set('openai', new OpenAIProvider());
-    // }
+    // Initialize OpenAI provider
+    if (config.apis.openai) {
+      this.providers.set('openai', new OpenAIProvider());
+    }
+
+    // Initialize Claude provider
+    if (config.apis.anthropic) {
+      this.providers.set('claude', new ClaudeProvider());
+    }
+
+    // Local provider needs no API key - used for offline development and CI
+    this.providers.set('local', new LocalProvider());
 
     // Validate that primary provider is available
     if (!this.providers.has(config.ai.provider)) {
@@ -33,28 +43,44 @@ export class AIService {
     }
   }
 
-  async generateRecommendations(request: AIRecommendationRequest): Promise<AIResponse> {
-    const cacheKey = this.generateCacheKey(request);
+  async generateRecommendations(request: AIRecommendationRequest, userId?: string): Promise<AIResponse> {
+    request = this.applyLocalContext(request);
+
+    if (userId) {
+      request = await this.applyUserPreferences(request, userId);
+    }
+
+    // Cached responses are shared between users with the same feedback; dismissed names are filtered on the way out
+    return this.suppressDismissed(await this.generateForRequest(request), request.feedback);
+  }
 
+  private async generateForRequest(request: AIRecommendationRequest): Promise<AIResponse> {
     // Check cache first
     if (config.ai.enableCaching) {
-      const cached = this.getFromCache(cacheKey);
+      const cached = await recommendationCache.get(request);
       if (cached) {
         return cached;
       }
     }
 
+    // Ground the prompt in real places around the user
+    const candidates = await this.findCandidates(request);
+    const groundedRequest: AIRecommendationRequest = { ...request, candidates };
+
     // Try primary provider
     const primaryProvider = config.ai.provider;
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= config.ai.maxRetries; attempt++) {
       try {
-        const result = await this.generateWithProvider(primaryProvider, request);
+        const result = this.groundResponse(
+          await this.generateWithProvider(primaryProvider, groundedRequest),
+          candidates
+        );
 
         // Cache successful result
         if (config.ai.enableCaching) {
-          this.setCache(cacheKey, result);
+          await recommendationCache.set(request, result);
         }
 
         return result;
@@ -74,10 +100,13 @@ export class AIService {
     // Try fallback provider if available
     if (config.ai.fallbackProvider && config.ai.fallbackProvider !== primaryProvider) {
       try {
-        const result = await this.generateWithProvider(config.ai.fallbackProvider, request);
+        const result = this.groundResponse(
+          await this.generateWithProvider(config.ai.fallbackProvider, groundedRequest),
+          candidates
+        );
 
         if (config.ai.enableCaching) {
-          this.setCache(cacheKey, result);
+          await recommendationCache.set(request, result);
         }
 
         return result;
@@ -92,6 +121,141 @@ export class AIService {
     );
   }
 
+  // Streams recommendations as the provider produces them, finishing with a metadata event
+  async *streamRecommendations(request: AIRecommendationRequest, userId?: string): AsyncGenerator<AIStreamEvent> {
+    request = this.applyLocalContext(request);
+
+    if (userId) {
+      request = await this.applyUserPreferences(request, userId);
+    }
+
+    if (config.ai.enableCaching) {
+      const cached = await recommendationCache.get(request);
+      if (cached) {
+        yield* this.replayResponse(this.suppressDismissed(cached, request.feedback));
+        return;
+      }
+    }
+
+    const provider = this.providers.get(config.ai.provider);
+    if (!provider?.streamRecommendations) {
+      // Providers without streaming support are replayed as a single burst
+      yield* this.replayResponse(await this.generateRecommendations(request));
+      return;
+    }
+
+    const candidates = await this.findCandidates(request);
+    const candidatesById = new Map(candidates.map(candidate => [candidate.placeId, candidate]));
+    const recommendations: AIRecommendation[] = [];
+    let received = 0;
+
+    try {
+      const stream = this.withIdleTimeout(provider.streamRecommendations({ ...request, candidates }), config.ai.timeout);
+      for await (const event of stream) {
+        if (event.type === 'recommendation') {
+          received++;
+          const grounded = this.groundRecommendation(event.recommendation, candidates, candidatesById);
+          if (grounded) {
+            recommendations.push(grounded);
+            if (!this.isSuppressed(grounded, request.feedback)) {
+              yield { type: 'recommendation', recommendation: grounded };
+            }
+          }
+          continue;
+        }
+
+        const result: AIResponse = {
+          recommendations,
+          metadata: {
+            ...event.metadata,
+            grounding: this.summarizeGrounding(received, recommendations, candidates)
+          }
+        };
+
+        if (config.ai.enableCaching) {
+          await recommendationCache.set(request, result);
+        }
+
+        yield { type: 'metadata', metadata: result.metadata };
+      }
+    } catch (error) {
+      // Events already sent can't be taken back, so only retry a stream that never produced anything
+      if (received > 0) {
+        throw error;
+      }
+
+      console.warn('AI stream failed, falling back to standard generation:', error instanceof Error ? error.message : error);
+      yield* this.replayResponse(await this.generateRecommendations(request));
+    }
+  }
+
+  // Fails a provider stream that goes quiet for longer than a whole non-streamed request may take
+  private async *withIdleTimeout<T>(stream: AsyncIterable<T>, ms: number): AsyncGenerator<T> {
+    const iterator = stream[Symbol.asyncIterator]();
+
+    try {
+      while (true) {
+        let timeoutId: NodeJS.Timeout | undefined;
+        const idle = new Promise<never>((_, reject) => {
+          timeoutId = setTimeout(() => reject(new Error(`AI stream idle for more than ${ms}ms`)), ms);
+        });
+
+        let result: IteratorResult<T>;
+        try {
+          result = await Promise.race([iterator.next(), idle]);
+        } finally {
+          clearTimeout(timeoutId);
+        }
+
+        if (result.done) return;
+        yield result.value;
+      }
+    } finally {
+      // Lets the provider close its request; not awaited, since a stalled stream may never settle
+      iterator.return?.().catch(() => {});
+    }
+  }
+
+  private async *replayResponse(response: AIResponse): AsyncGenerator<AIStreamEvent> {
+    for (const recommendation of response.recommendations) {
+      yield { type: 'recommendation', recommendation };
+    }
+    yield { type: 'metadata', metadata: response.metadata };
+  }
+
+  // Fills gaps in the request from the user's preference profile - explicit request values always win
+  private async applyUserPreferences(request: AIRecommendationRequest, userId: string): Promise<AIRecommendationRequest> {
+    const [profile, feedback] = await Promise.all([
+      userPreferencesService.findPreferences(userId),
+      recommendationFeedbackService.getFeedbackContext(userId)
+    ]);
+
+    const favourites = (profile.favouriteCategories ?? []).map(category => category.replace(/_/g, ' '));
+    const preferences = Array.from(new Set([...(request.preferences ?? []), ...favourites]));
+
+    return {
+      ...request,
+      ...(preferences.length > 0 && { preferences }),
+      ...(!request.budget && profile.budget && { budget: profile.budget }),
+      ...(profile.dietaryRestrictions?.length && { dietaryRestrictions: profile.dietaryRestrictions }),
+      ...(profile.accessibility?.length && { accessibility: profile.accessibility }),
+      feedback
+    };
+  }
+
+  private suppressDismissed(response: AIResponse, feedback: AIFeedbackContext | undefined): AIResponse {
+    const recommendations = response.recommendations.filter(rec => !this.isSuppressed(rec, feedback));
+    return recommendations.length === response.recommendations.length ? response : { ...response, recommendations };
+  }
+
+  // Places the user dismissed (or found closed recently) are never shown to them again
+  private isSuppressed(rec: AIRecommendation, feedback: AIFeedbackContext | undefined): boolean {
+    if (!feedback) return false;
+
+    return (!!rec.placeId && feedback.suppressedPlaceIds.includes(rec.placeId)) ||
+      feedback.suppressedPlaceNames.includes(rec.name.toLowerCase());
+  }
+
   async generateWithProvider(providerName: string, request: AIRecommendationRequest): Promise<AIResponse> {
     const provider = this.providers.get(providerName);
     if (!provider) {
@@ -109,53 +273,123 @@ export class AIService {
     ]);
   }
 
-  private generateCacheKey(request: AIRecommendationRequest): string {
-    // Create a stable cache key from request parameters
-    const keyData = {
-      lat: Math.round(request.latitude * 1000) / 1000, // Round to ~100m precision
-      lng: Math.round(request.longitude * 1000) / 1000,
-      mood: request.mood,
-      preferences: request.preferences?.sort().join(',') || '',
-      budget: request.budget || '',
-      timeOfDay: request.timeOfDay || '',
-      duration: request.duration || 0,
-    };
+  // Fills in the local time at the coordinates and, when the caller didn't say, the time of day it implies
+  private applyLocalContext(request: AIRecommendationRequest): AIRecommendationRequest {
+    if (request.localContext) {
+      return request;
+    }
 
-    return Buffer.from(JSON.stringify(keyData)).toString('base64');
+    const localContext = timezoneService.getLocalContext(request.latitude, request.longitude);
+    return { ...request, localContext, timeOfDay: request.timeOfDay ?? localContext.timeOfDay };
   }
 
-  private getFromCache(key: string): AIResponse | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-
-    const isExpired = Date.now() - entry.timestamp > config.ai.cacheTimeout * 1000;
-    if (isExpired) {
-      this.cache.delete(key);
-      return null;
+  private async findCandidates(request: AIRecommendationRequest): Promise<AIPlaceCandidate[]> {
+    const { localContext } = request;
+    // Only places open right now are useful when the user is going now; a requested time of day may be later
+    const openNow = !!localContext && request.timeOfDay === localContext.timeOfDay;
+
+    try {
+      const result = await locationService.searchNearby(
+        {
+          latitude: request.latitude,
+          longitude: request.longitude,
+          mood: request.mood,
+          radius: request.radius ?? config.location.defaultRadius,
+          limit: this.maxCandidates
+        },
+        undefined,
+        openNow ? { openNow: true, timezone: localContext.timezone, includeUnknown: true } : undefined
+      );
+
+      return result.places
+        .filter(place => !request.feedback?.suppressedPlaceIds.includes(place.id))
+        .slice(0, this.maxCandidates)
+        .map(place => ({
+          placeId: place.id,
+          name: place.name,
+          category: place.category,
+          latitude: place.coordinates.latitude,
+          longitude: place.coordinates.longitude,
+          ...(typeof place.distance === 'number' && { distance: place.distance }),
+          ...(place.address && { address: place.address }),
+          ...(place.metadata?.google?.rating !== undefined && { rating: place.metadata.google.rating })
+        }));
+    } catch (error) {
+      // Recommendations still work without grounding, they just can't be verified
+      console.warn('Failed to load nearby places for AI grounding:', error instanceof Error ? error.message : error);
+      return [];
     }
-
-    // Add cache hit indicator
-    entry.data.metadata.cached = true;
-    return entry.data;
   }
 
-  private setCache(key: string, data: AIResponse): void {
-    // Clone data to avoid mutation
-    const clonedData = JSON.parse(JSON.stringify(data));
-    clonedData.metadata.cached = false;
+  private groundResponse(response: AIResponse, candidates: AIPlaceCandidate[]): AIResponse {
+    const candidatesById = new Map(candidates.map(candidate => [candidate.placeId, candidate]));
 
-    this.cache.set(key, {
-      data: clonedData,
-      timestamp: Date.now(),
-    });
+    const recommendations = response.recommendations
+      .map(rec => this.groundRecommendation(rec, candidates, candidatesById))
+      .filter((rec): rec is AIRecommendation => rec !== null);
 
-    // Simple cache cleanup - remove old entries if cache gets too large
-    if (this.cache.size > 100) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
+    return {
+      recommendations,
+      metadata: {
+        ...response.metadata,
+        grounding: this.summarizeGrounding(response.recommendations.length, recommendations, candidates)
       }
+    };
+  }
+
+  // Returns null when the recommendation should be dropped
+  private groundRecommendation(
+    rec: AIRecommendation,
+    candidates: AIPlaceCandidate[],
+    candidatesById: Map<string, AIPlaceCandidate>
+  ): AIRecommendation | null {
+    // Nothing to verify against - flag everything rather than dropping the whole response
+    if (candidates.length === 0) {
+      return { ...rec, verified: false };
+    }
+
+    const candidate = (rec.placeId && candidatesById.get(rec.placeId)) || this.findCandidateByName(rec.name, candidates);
+
+    if (candidate) {
+      return {
+        ...rec,
+        placeId: candidate.placeId,
+        name: candidate.name,
+        coordinates: {
+          latitude: candidate.latitude,
+          longitude: candidate.longitude
+        },
+        verified: true
+      };
     }
+
+    if (config.ai.unmatchedRecommendations === 'flag') {
+      const flagged: AIRecommendation = { ...rec, verified: false };
+      delete flagged.placeId;
+      delete flagged.coordinates;
+      return flagged;
+    }
+
+    console.log(`🧹 Dropping unmatched AI recommendation: ${rec.name}`);
+    return null;
+  }
+
+  private summarizeGrounding(received: number, kept: AIRecommendation[], candidates: AIPlaceCandidate[]) {
+    const matched = kept.filter(rec => rec.verified).length;
+
+    return {
+      candidates: candidates.length,
+      matched,
+      unmatched: received - matched
+    };
+  }
+
+  private findCandidateByName(name: string, candidates: AIPlaceCandidate[]): AIPlaceCandidate | undefined {
+    const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    const target = normalize(name);
+    if (!target) return undefined;
+
+    return candidates.find(candidate => normalize(candidate.name) === target);
   }
 
   private async timeoutPromise(ms: number): Promise<never> {
@@ -177,15 +411,16 @@ export class AIService {
     return config.ai.provider;
   }
 
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<number> {
+    return recommendationCache.invalidate();
   }
 
-  getCacheStats(): { size: number; keys: string[] } {
-    return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys()),
-    };
+  async getCacheStats(): Promise<CacheStats & { semanticHits: number; similarityThreshold: number }> {
+    return recommendationCache.getStats();
+  }
+
+  getParseStats(): Record<string, ParseStats> {
+    return parseMetrics.getStats();
   }
 }
 
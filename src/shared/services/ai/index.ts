@@ -1,3 +1,4 @@
 export * from './types';
 export * from './ai.service';
-export * from './providers';
\ No newline at end of file
+export * from './providers';
+export * from './parse-metrics';
\ No newline at end of file
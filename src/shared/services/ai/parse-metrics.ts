@@ -0,0 +1,55 @@
+// src/shared/services/ai/parse-metrics.ts - per-provider counters for AI output parsing
+
+export interface ParseStats {
+  responses: number; // model outputs parsed successfully (including after repair)
+  itemsAccepted: number;
+  itemsDropped: number; // individual recommendations that failed schema validation
+  repairAttempts: number;
+  repairSuccesses: number;
+  failures: number; // outputs still unusable after the repair round-trip
+}
+
+export class ParseMetrics {
+  private stats: Map<string, ParseStats> = new Map();
+
+  recordSuccess(provider: string, accepted: number, dropped: number, repaired: boolean = false): void {
+    const stats = this.getOrCreate(provider);
+    stats.responses++;
+    stats.itemsAccepted += accepted;
+    stats.itemsDropped += dropped;
+    if (repaired) {
+      stats.repairSuccesses++;
+    }
+  }
+
+  recordDroppedItems(provider: string, dropped: number): void {
+    this.getOrCreate(provider).itemsDropped += dropped;
+  }
+
+  recordRepairAttempt(provider: string): void {
+    this.getOrCreate(provider).repairAttempts++;
+  }
+
+  recordFailure(provider: string): void {
+    this.getOrCreate(provider).failures++;
+  }
+
+  getStats(): Record<string, ParseStats> {
+    return Object.fromEntries(this.stats);
+  }
+
+  reset(): void {
+    this.stats.clear();
+  }
+
+  private getOrCreate(provider: string): ParseStats {
+    let stats = this.stats.get(provider);
+    if (!stats) {
+      stats = { responses: 0, itemsAccepted: 0, itemsDropped: 0, repairAttempts: 0, repairSuccesses: 0, failures: 0 };
+      this.stats.set(provider, stats);
+    }
+    return stats;
+  }
+}
+
+export const parseMetrics = new ParseMetrics();
@@ -0,0 +1,295 @@
+// src/shared/services/ai/prompt.ts - prompt building and response parsing shared by all AI providers
+
+import { TypeCompiler } from '@sinclair/typebox/compiler';
+import { RecommendationSchema } from '@shared/schemas/recommendation.schema';
+import { AIRecommendationRequest, AIRecommendation } from './types';
+import { parseMetrics } from './parse-metrics';
+
+export function buildRecommendationPrompt(request: AIRecommendationRequest): string {
+  const { latitude, longitude, mood, preferences, budget, timeOfDay, duration, candidates, dietaryRestrictions, accessibility, feedback, localContext } = request;
+
+  return `You are a knowledgeable local travel guide. Generate 5-7 personalized travel recommendations for this location and context.
+
+LOCATION: ${latitude}, ${longitude}
+MOOD: ${mood}
+PREFERENCES: ${preferences?.join(', ') || 'None specified'}
+BUDGET: ${budget || 'Not specified'}
+TIME: ${timeOfDay || 'Not specified'}
+LOCAL TIME: ${localContext ? formatLocalContext(localContext) : 'Not specified'}
+DURATION: ${duration ? `${duration} hours` : 'Not specified'}
+DIETARY RESTRICTIONS: ${formatProfileList(dietaryRestrictions)}
+ACCESSIBILITY NEEDS: ${formatProfileList(accessibility)}
+LIKED BEFORE: ${formatProfileList(feedback?.likedCategories)}
+DISLIKED BEFORE: ${formatProfileList(feedback?.dislikedCategories)}
+
+MOOD CONTEXT:
+- energetic: Active experiences, sports, adventures, hiking
+- relaxed: Peaceful spots, spas, parks, quiet cafes
+- curious: Museums, historical sites, unique local experiences
+- hungry: Restaurants, food markets, cooking classes, local cuisine
+- cultural: Art galleries, theaters, cultural centers, festivals
+${buildCandidatesSection(candidates)}
+REQUIREMENTS:
+1. Focus on experiences that match the mood and preferences
+2. Include mix of well-known and hidden gem locations
+3. Consider the time of day and duration, and only suggest places that are open at that local time
+4. Provide specific, actionable recommendations
+5. Include brief reasoning for each suggestion
+6. Never suggest places that conflict with the dietary restrictions or accessibility needs
+7. Lean towards categories the user liked before and away from ones they disliked
+
+FORMAT YOUR RESPONSE AS JSON:
+{
+  "recommendations": [
+    {
+      "placeId": "ID of the chosen place from NEARBY PLACES (omit if none were listed)",
+      "name": "Specific place or experience name",
+      "category": "restaurant|attraction|activity|shopping|cultural|nature",
+      "description": "2-3 sentence description of what makes this special",
+      "reasoning": "Why this fits their mood and context",
+      "estimatedDuration": "30 minutes|1-2 hours|Half day|etc",
+      "priceRange": "Free|$|$$|$$$"
+    }
+  ]
+}
+
+Generate recommendations that feel authentic and locally-informed. Avoid generic tourist traps unless they truly fit the mood.`;
+}
+
+function formatProfileList(values: string[] | undefined): string {
+  return values && values.length > 0 ? values.map(value => value.replace(/_/g, ' ')).join(', ') : 'None';
+}
+
+// "Saturday 2025-08-16 19:30 (Europe/Berlin)"
+function formatLocalContext(context: NonNullable<AIRecommendationRequest['localContext']>): string {
+  const day = context.dayOfWeek.charAt(0).toUpperCase() + context.dayOfWeek.slice(1);
+  return `${day} ${context.localDate} ${context.localTime} (${context.timezone})`;
+}
+
+function buildCandidatesSection(candidates: AIRecommendationRequest['candidates']): string {
+  if (!candidates || candidates.length === 0) {
+    return '';
+  }
+
+  const lines = candidates.map(candidate => {
+    const details = [
+      candidate.category,
+      candidate.distance !== undefined ? `${Math.round(candidate.distance)}m away` : null,
+      candidate.rating !== undefined ? `rated ${candidate.rating}` : null,
+      candidate.address ?? null
+    ].filter(Boolean).join(', ');
+
+    return `- [${candidate.placeId}] ${candidate.name} (${details})`;
+  });
+
+  return `
+NEARBY PLACES (real places verified by our location data):
+${lines.join('\n')}
+
+Only recommend places from NEARBY PLACES. Copy the ID in brackets into "placeId" and use the exact name.
+`;
+}
+
+export class RecommendationParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecommendationParseError';
+  }
+}
+
+export interface ParsedRecommendations {
+  recommendations: AIRecommendation[];
+  dropped: number; // items that failed schema validation
+}
+
+const recommendationValidator = TypeCompiler.Compile(RecommendationSchema);
+
+// Keep only the fields the model is allowed to set, then validate against the API schema
+export function validateRecommendation(item: unknown): AIRecommendation | null {
+  if (typeof item !== 'object' || item === null) {
+    return null;
+  }
+
+  const rec = item as Record<string, unknown>;
+  const candidate = {
+    ...(typeof rec.placeId === 'string' && { placeId: rec.placeId }),
+    name: typeof rec.name === 'string' ? rec.name.trim() : rec.name,
+    category: rec.category,
+    description: rec.description,
+    reasoning: rec.reasoning,
+    ...(rec.estimatedDuration !== undefined && rec.estimatedDuration !== null && { estimatedDuration: rec.estimatedDuration }),
+    ...(rec.priceRange !== undefined && rec.priceRange !== null && { priceRange: rec.priceRange }),
+  };
+
+  if (!recommendationValidator.Check(candidate) || !candidate.name) {
+    return null;
+  }
+
+  return candidate as AIRecommendation;
+}
+
+// Throws RecommendationParseError when the output holds no usable recommendations
+export function parseRecommendations(response: string): ParsedRecommendations {
+  // Clean the response - remove any markdown formatting and surrounding prose
+  const cleanResponse = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+  const jsonStart = cleanResponse.indexOf('{');
+  const jsonEnd = cleanResponse.lastIndexOf('}');
+
+  if (jsonStart === -1 || jsonEnd <= jsonStart) {
+    throw new RecommendationParseError('Response does not contain a JSON object');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleanResponse.slice(jsonStart, jsonEnd + 1));
+  } catch (error) {
+    throw new RecommendationParseError(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const items = (parsed as { recommendations?: unknown }).recommendations;
+  if (!Array.isArray(items)) {
+    throw new RecommendationParseError('Invalid response format: missing recommendations array');
+  }
+
+  const recommendations: AIRecommendation[] = [];
+  for (const item of items) {
+    const recommendation = validateRecommendation(item);
+    if (recommendation) {
+      recommendations.push(recommendation);
+    }
+  }
+
+  if (recommendations.length === 0) {
+    throw new RecommendationParseError(`None of the ${items.length} recommendations matched the expected schema`);
+  }
+
+  return { recommendations, dropped: items.length - recommendations.length };
+}
+
+export function buildRepairPrompt(invalidOutput: string, problem: string): string {
+  return `Your previous answer could not be used: ${problem}.
+
+PREVIOUS ANSWER:
+${invalidOutput.slice(0, 4000)}
+
+Rewrite it as a single valid JSON object with a "recommendations" array. Every item must have string fields
+"name", "category", "description" and "reasoning", and may have "placeId", "estimatedDuration" and "priceRange".
+Respond with the JSON only.`;
+}
+
+// Parses model output, spending one repair round-trip before giving up
+export async function parseWithRepair(
+  provider: string,
+  output: string,
+  repair: (prompt: string) => Promise<string>
+): Promise<AIRecommendation[]> {
+  try {
+    const result = parseRecommendations(output);
+    parseMetrics.recordSuccess(provider, result.recommendations.length, result.dropped);
+    return result.recommendations;
+  } catch (error) {
+    if (!(error instanceof RecommendationParseError)) {
+      throw error;
+    }
+
+    console.warn(`${provider} output failed validation (${error.message}), requesting a repair`);
+    parseMetrics.recordRepairAttempt(provider);
+
+    try {
+      const result = parseRecommendations(await repair(buildRepairPrompt(output, error.message)));
+      parseMetrics.recordSuccess(provider, result.recommendations.length, result.dropped, true);
+      return result.recommendations;
+    } catch (repairError) {
+      parseMetrics.recordFailure(provider);
+      throw repairError;
+    }
+  }
+}
+
+// Incrementally extracts recommendation objects from a streamed JSON response
+export class RecommendationStreamParser {
+  private buffer = '';
+  private position = 0;
+  private stack: Array<{ char: string; key: string | null }> = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastString: string | null = null; // Most recent string in the top-level object, maybe a key
+  private key: string | null = null; // Key of the top-level value being read
+  private objectStart = -1;
+  dropped = 0; // completed items that failed validation
+
+  // Returns the valid recommendations completed by this chunk
+  push(chunk: string): AIRecommendation[] {
+    this.buffer += chunk;
+    const completed: AIRecommendation[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.stack.length === 1) {
+            this.lastString = this.readString(this.stringStart, this.position);
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+        this.stringStart = this.position;
+      } else if (char === ':' && this.stack.length === 1) {
+        this.key = this.lastString;
+      } else if (char === '{' || char === '[') {
+        // Items of the "recommendations" array sit directly inside { "recommendations": [ ... ] }
+        if (char === '{' && this.isRecommendationsArray()) {
+          this.objectStart = this.position;
+        }
+        this.stack.push({ char, key: this.stack.length === 1 ? this.key : null });
+      } else if (char === '}' || char === ']') {
+        this.stack.pop();
+
+        if (char === '}' && this.objectStart !== -1 && this.isRecommendationsArray()) {
+          const raw = this.buffer.slice(this.objectStart, this.position + 1);
+          this.objectStart = -1;
+
+          let recommendation: AIRecommendation | null = null;
+          try {
+            recommendation = validateRecommendation(JSON.parse(raw));
+          } catch {
+            // Treated the same as an item that fails validation
+          }
+
+          if (recommendation) {
+            completed.push(recommendation);
+          } else {
+            this.dropped++;
+            console.warn('Skipping invalid streamed recommendation:', raw);
+          }
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  private readString(start: number, end: number): string | null {
+    try {
+      return JSON.parse(this.buffer.slice(start, end + 1)) as string;
+    } catch {
+      return null; // Raw control characters; not a key we'd match anyway
+    }
+  }
+
+  // Other top-level arrays ("notes": [...]) hold objects too, so the key has to match
+  private isRecommendationsArray(): boolean {
+    const [root, array] = this.stack;
+    return this.stack.length === 2 && root!.char === '{' && array!.char === '[' && array!.key === 'recommendations';
+  }
+}
@@ -0,0 +1,187 @@
+import { config } from '@shared/config';
+import { AIProvider, AIProviderConfig, AIRecommendationRequest, AIResponse } from '../types';
+import { buildRecommendationPrompt, parseWithRepair } from '../prompt';
+
+type ClaudeModel = NonNullable<AIProviderConfig['claude']>['model'];
+
+interface MessagesResponse {
+  id: string;
+  model: string;
+  content: Array<
+    | { type: 'text'; text: string }
+    | { type: 'tool_use'; id: string; name: string; input: unknown }
+  >;
+  stop_reason: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+// Config names map to pinned Messages API model IDs
+const MODEL_IDS: Record<ClaudeModel, string> = {
+  'claude-3-5-sonnet': 'claude-3-5-sonnet-20241022',
+  'claude-3-haiku': 'claude-3-haiku-20240307',
+};
+
+// USD per 1M tokens
+const MODEL_PRICING: Record<ClaudeModel, { input: number; output: number }> = {
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+};
+
+const API_VERSION = '2023-06-01';
+const RECOMMENDATIONS_TOOL = 'submit_recommendations';
+
+// Forcing a tool call makes the model return arguments matching this JSON schema
+const RECOMMENDATIONS_TOOL_SCHEMA = {
+  type: 'object',
+  properties: {
+    recommendations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          placeId: { type: 'string' },
+          name: { type: 'string' },
+          category: { type: 'string' },
+          description: { type: 'string' },
+          reasoning: { type: 'string' },
+          estimatedDuration: { type: 'string' },
+          priceRange: { type: 'string' },
+        },
+        required: ['name', 'category', 'description', 'reasoning'],
+      },
+    },
+  },
+  required: ['recommendations'],
+};
+
+export class ClaudeProvider implements AIProvider {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly modelName: ClaudeModel;
+
+  constructor(modelName: ClaudeModel = config.ai.claude.model, baseUrl: string = config.ai.claude.baseUrl) {
+    if (!config.apis.anthropic) {
+      throw new Error('ANTHROPIC_API_KEY is required but not configured');
+    }
+
+    this.apiKey = config.apis.anthropic;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.modelName = modelName;
+  }
+
+  async generateRecommendations(request: AIRecommendationRequest): Promise<AIResponse> {
+    const startTime = Date.now();
+
+    try {
+      const usage = { input: 0, output: 0 };
+
+      const complete = async (prompt: string): Promise<string> => {
+        const message = await this.createMessage(prompt);
+        usage.input += message.usage.input_tokens;
+        usage.output += message.usage.output_tokens;
+        return this.extractOutput(message);
+      };
+
+      const output = await complete(buildRecommendationPrompt(request));
+      const recommendations = await parseWithRepair('claude', output, complete);
+
+      return {
+        recommendations,
+        metadata: {
+          provider: 'claude',
+          model: this.modelName,
+          responseTime: Date.now() - startTime,
+          tokensUsed: usage.input + usage.output,
+          cost: this.calculateCost(usage.input, usage.output),
+        },
+      };
+    } catch (error) {
+      throw new Error(`Claude API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private extractOutput(message: MessagesResponse): string {
+    const toolUse = message.content.find(block => block.type === 'tool_use');
+    const textBlock = message.content.find(block => block.type === 'text');
+
+    // Prefer the structured tool input; fall back to any JSON the model wrote as text
+    const output = toolUse
+      ? JSON.stringify(toolUse.input)
+      : textBlock?.text;
+
+    if (!output) {
+      throw new Error(`No recommendations returned (stop reason: ${message.stop_reason})`);
+    }
+
+    return output;
+  }
+
+  private async createMessage(prompt: string): Promise<MessagesResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), config.ai.timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': API_VERSION,
+        },
+        body: JSON.stringify({
+          model: MODEL_IDS[this.modelName],
+          max_tokens: 2048,
+          messages: [{ role: 'user', content: prompt }],
+          tools: [{
+            name: RECOMMENDATIONS_TOOL,
+            description: 'Submit the travel recommendations',
+            input_schema: RECOMMENDATIONS_TOOL_SCHEMA,
+          }],
+          tool_choice: { type: 'tool', name: RECOMMENDATIONS_TOOL },
+        }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`HTTP ${response.status}: ${errorText}`);
+      }
+
+      return await response.json() as MessagesResponse;
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Request timeout');
+      }
+
+      throw error;
+    }
+  }
+
+  private calculateCost(inputTokens: number, outputTokens: number): number {
+    const pricing = MODEL_PRICING[this.modelName];
+
+    const inputCost = (inputTokens / 1_000_000) * pricing.input;
+    const outputCost = (outputTokens / 1_000_000) * pricing.output;
+
+    return inputCost + outputCost;
+  }
+
+  validateConfig(): boolean {
+    return !!this.apiKey && !!this.baseUrl;
+  }
+
+  getProviderName(): string {
+    return 'claude';
+  }
+
+  getModelName(): string {
+    return this.modelName;
+  }
+}
@@ -1,6 +1,8 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { config } from '@shared/config';
-import { AIProvider, AIRecommendationRequest, AIResponse, AIRecommendation } from '../types';
+import { AIProvider, AIRecommendationRequest, AIResponse, AIStreamEvent } from '../types';
+import { buildRecommendationPrompt, parseWithRepair, RecommendationParseError, RecommendationStreamParser } from '../prompt';
+import { parseMetrics } from '../parse-metrics';
 
 export class GeminiProvider implements AIProvider {
   private genAI: GoogleGenerativeAI;
@@ -21,12 +23,17 @@ export class GeminiProvider implements AIProvider {
     const startTime = Date.now();
 
     try {
-      const prompt = this.buildPrompt(request);
+      const prompt = buildRecommendationPrompt(request);
       const result = await this.model.generateContent(prompt);
       const response = await result.response;
-      const text = response.text();
-
-      const recommendations = this.parseResponse(text);
+      let tokensUsed: number = response.usageMetadata?.totalTokenCount || 0;
+
+      const recommendations = await parseWithRepair('gemini', response.text(), async (repairPrompt) => {
+        const repairResult = await this.model.generateContent(repairPrompt);
+        const repairResponse = await repairResult.response;
+        tokensUsed += repairResponse.usageMetadata?.totalTokenCount || 0;
+        return repairResponse.text();
+      });
       const responseTime = Date.now() - startTime;
 
       return {
@@ -35,8 +42,8 @@ export class GeminiProvider implements AIProvider {
           provider: 'gemini',
           model: this.modelName,
           responseTime,
-          tokensUsed: response.usageMetadata?.totalTokenCount,
-          cost: this.calculateCost(response.usageMetadata?.totalTokenCount || 0),
+          tokensUsed,
+          cost: this.calculateCost(tokensUsed),
         },
       };
     } catch (error) {
@@ -44,81 +51,46 @@ export class GeminiProvider implements AIProvider {
     }
   }
 
-  private buildPrompt(request: AIRecommendationRequest): string {
-    const { latitude, longitude, mood, preferences, budget, timeOfDay, duration } = request;
-
-    return `You are a knowledgeable local travel guide. Generate 5-7 personalized travel recommendations for this location and context.
-
-LOCATION: ${latitude}, ${longitude}
-MOOD: ${mood}
-PREFERENCES: ${preferences?.join(', ') || 'None specified'}
-BUDGET: ${budget || 'Not specified'}
-TIME: ${timeOfDay || 'Not specified'}
-DURATION: ${duration ? `${duration} hours` : 'Not specified'}
-
-MOOD CONTEXT:
-- energetic: Active experiences, sports, adventures, hiking
-- relaxed: Peaceful spots, spas, parks, quiet cafes
-- curious: Museums, historical sites, unique local experiences
-- hungry: Restaurants, food markets, cooking classes, local cuisine
-- cultural: Art galleries, theaters, cultural centers, festivals
-
-REQUIREMENTS:
-1. Focus on experiences that match the mood and preferences
-2. Include mix of well-known and hidden gem locations
-3. Consider the time of day and duration
-4. Provide specific, actionable recommendations
-5. Include brief reasoning for each suggestion
-
-FORMAT YOUR RESPONSE AS JSON:
-{
-  "recommendations": [
-    {
-      "name": "Specific place or experience name",
-      "category": "restaurant|attraction|activity|shopping|cultural|nature",
-      "description": "2-3 sentence description of what makes this special",
-      "reasoning": "Why this fits their mood and context",
-      "estimatedDuration": "30 minutes|1-2 hours|Half day|etc",
-      "priceRange": "Free|$|$$|$$$"
-    }
-  ]
-}
-
-Generate recommendations that feel authentic and locally-informed. Avoid generic tourist traps unless they truly fit the mood.`;
-  }
+  async *streamRecommendations(request: AIRecommendationRequest): AsyncGenerator<AIStreamEvent> {
+    const startTime = Date.now();
+    const parser = new RecommendationStreamParser();
 
-  private parseResponse(response: string): AIRecommendation[] {
+    let result;
     try {
-      // Clean the response - remove any markdown formatting
-      const cleanResponse = response.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-
-      const parsed = JSON.parse(cleanResponse);
+      result = await this.model.generateContentStream(buildRecommendationPrompt(request));
+    } catch (error) {
+      throw new Error(`Gemini API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
-      if (!parsed.recommendations || !Array.isArray(parsed.recommendations)) {
-        throw new Error('Invalid response format: missing recommendations array');
+    let accepted = 0;
+    for await (const chunk of result.stream) {
+      for (const recommendation of parser.push(chunk.text())) {
+        accepted++;
+        yield { type: 'recommendation', recommendation };
       }
+    }
 
-      return parsed.recommendations.map((rec: any) => ({
-        name: rec.name || 'Unknown',
-        category: rec.category || 'activity',
-        description: rec.description || '',
-        reasoning: rec.reasoning || '',
-        estimatedDuration: rec.estimatedDuration,
-        priceRange: rec.priceRange,
-      }));
-    } catch (error) {
-      console.error('Failed to parse AI response:', response);
-
-      // Fallback: return a basic recommendation if parsing fails
-      return [{
-        name: 'Explore Local Area',
-        category: 'activity',
-        description: 'Take a walk around the local area and discover what interests you.',
-        reasoning: 'AI response parsing failed, providing fallback recommendation.',
-        estimatedDuration: '1-2 hours',
-        priceRange: 'Free',
-      }];
+    // Nothing usable streamed - let the caller fall back to a (repairable) standard generation
+    if (accepted === 0) {
+      parseMetrics.recordDroppedItems('gemini', parser.dropped);
+      throw new RecommendationParseError('Stream contained no valid recommendations');
     }
+    parseMetrics.recordSuccess('gemini', accepted, parser.dropped);
+
+    // The aggregated response carries the final token usage
+    const response = await result.response;
+    const tokensUsed = response.usageMetadata?.totalTokenCount;
+
+    yield {
+      type: 'metadata',
+      metadata: {
+        provider: 'gemini',
+        model: this.modelName,
+        responseTime: Date.now() - startTime,
+        tokensUsed,
+        cost: this.calculateCost(tokensUsed || 0),
+      },
+    };
   }
 
   private calculateCost(tokens: number): number {
@@ -1,2 +1,4 @@
 export * from './gemini.provider';
-export * from './openai.provider';
\ No newline at end of file
+export * from './openai.provider';
+export * from './claude.provider';
+export * from './local.provider';
@@ -0,0 +1,260 @@
+import { config } from '@shared/config';
+import { db } from '@shared/database';
+import { AIProvider, AIRecommendationRequest, AIResponse, AIRecommendation, AIPlaceCandidate } from '../types';
+import { buildRecommendationPrompt, parseWithRepair } from '../prompt';
+import { POICategory, MOOD_CATEGORY_MAPPING } from '../../location/types';
+
+interface ScoredCandidate {
+  candidate: AIPlaceCandidate;
+  score: number;
+  matchedPreference?: string;
+}
+
+// Useful for navigation but never worth recommending on their own
+const UTILITY_CATEGORIES = new Set<string>([
+  POICategory.ATM, POICategory.TOILETS, POICategory.PHARMACY, POICategory.HOSPITAL,
+  POICategory.BANK, POICategory.FUEL, POICategory.POST_OFFICE, POICategory.PARKING,
+  POICategory.BUS_STATION, POICategory.SUBWAY, POICategory.TAXI, POICategory.CAR_RENTAL
+]);
+
+const OUTDOOR_CATEGORIES = new Set<string>([
+  POICategory.PARK, POICategory.GARDEN, POICategory.BEACH, POICategory.VIEWPOINT,
+  POICategory.NATURE_RESERVE, POICategory.GOLF_COURSE, POICategory.MARINA
+]);
+
+const FREE_CATEGORIES = new Set<string>([
+  POICategory.PARK, POICategory.GARDEN, POICategory.BEACH, POICategory.VIEWPOINT,
+  POICategory.NATURE_RESERVE, POICategory.MONUMENT, POICategory.LIBRARY
+]);
+
+const CATEGORY_DURATION: Partial<Record<string, string>> = {
+  [POICategory.MUSEUM]: '1-2 hours',
+  [POICategory.GALLERY]: '1 hour',
+  [POICategory.CASTLE]: '1-2 hours',
+  [POICategory.THEATRE]: '2-3 hours',
+  [POICategory.CINEMA]: '2-3 hours',
+  [POICategory.RESTAURANT]: '1-2 hours',
+  [POICategory.CAFE]: '30-60 minutes',
+  [POICategory.FAST_FOOD]: '30 minutes',
+  [POICategory.ICE_CREAM]: '30 minutes',
+  [POICategory.SPA]: '2-3 hours',
+  [POICategory.NATURE_RESERVE]: 'Half day',
+  [POICategory.BEACH]: 'Half day'
+};
+
+const MAX_RECOMMENDATIONS = 7;
+const MAX_PER_CATEGORY = 2; // Keep the list varied
+
+export class LocalProvider implements AIProvider {
+  private readonly endpoint: string | undefined;
+  private readonly modelName: string;
+
+  constructor(endpoint: string | undefined = config.ai.local.endpoint, modelName: string = config.ai.local.model) {
+    this.endpoint = endpoint?.replace(/\/$/, '');
+    this.modelName = modelName;
+  }
+
+  async generateRecommendations(request: AIRecommendationRequest): Promise<AIResponse> {
+    const startTime = Date.now();
+    const candidates = request.candidates && request.candidates.length > 0
+      ? request.candidates
+      : await this.loadCandidates(request);
+
+    if (this.endpoint) {
+      try {
+        const recommendations = await this.generateWithLocalModel({ ...request, candidates });
+        return this.buildResponse(recommendations, this.modelName, startTime);
+      } catch (error) {
+        // An unreachable local model should not break offline development
+        console.warn('Local model unavailable, using deterministic recommendations:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    return this.buildResponse(this.rankCandidates(request, candidates), 'deterministic', startTime);
+  }
+
+  private async loadCandidates(request: AIRecommendationRequest): Promise<AIPlaceCandidate[]> {
+    const locations = await db.location.findNearby({
+      latitude: request.latitude,
+      longitude: request.longitude,
+      radius: request.radius ?? config.location.defaultRadius,
+      categories: [...(MOOD_CATEGORY_MAPPING[request.mood] ?? [])],
+      limit: 50
+    });
+
+    return locations.map(location => ({
+      placeId: location.id,
+      name: location.name,
+      category: location.category,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      distance: location.distance,
+      ...(location.address && { address: location.address }),
+      ...(location.rating !== null && { rating: Number(location.rating) })
+    }));
+  }
+
+  private rankCandidates(request: AIRecommendationRequest, candidates: AIPlaceCandidate[]): AIRecommendation[] {
+    const radius = request.radius ?? config.location.defaultRadius;
+    const moodCategories = MOOD_CATEGORY_MAPPING[request.mood] ?? [];
+    const preferences = (request.preferences ?? []).map(pref => pref.toLowerCase());
+
+    const scored: ScoredCandidate[] = candidates
+      .filter(candidate => !UTILITY_CATEGORIES.has(candidate.category))
+      .map(candidate => {
+        // Earlier categories in the mood mapping are the strongest fit
+        const moodIndex = moodCategories.indexOf(candidate.category as POICategory);
+        let moodScore = moodIndex === -1 ? 0 : 1 - moodIndex / moodCategories.length;
+        if (request.timeOfDay === 'night' && OUTDOOR_CATEGORIES.has(candidate.category)) {
+          moodScore *= 0.5;
+        }
+
+        const distanceScore = 1 - Math.min((candidate.distance ?? radius) / radius, 1);
+        const ratingScore = candidate.rating !== undefined ? candidate.rating / 5 : 0.5;
+
+        const haystack = `${candidate.name} ${candidate.category}`.toLowerCase();
+        const matchedPreference = preferences.find(pref => haystack.includes(pref));
+        const preferenceScore = matchedPreference ? 1 : 0;
+
+        let score = moodScore * 0.4 + distanceScore * 0.25 + ratingScore * 0.2 + preferenceScore * 0.15;
+        if (request.budget === 'low' && this.estimatePriceRange(candidate.category) === '$$$') {
+          score *= 0.5;
+        }
+
+        return { candidate, score, ...(matchedPreference && { matchedPreference }) };
+      })
+      // Name tie-break keeps the ordering stable across runs
+      .sort((a, b) => b.score - a.score || a.candidate.name.localeCompare(b.candidate.name));
+
+    const perCategory = new Map<string, number>();
+    const selected: ScoredCandidate[] = [];
+
+    for (const entry of scored) {
+      const count = perCategory.get(entry.candidate.category) ?? 0;
+      if (count >= MAX_PER_CATEGORY) continue;
+
+      perCategory.set(entry.candidate.category, count + 1);
+      selected.push(entry);
+      if (selected.length >= MAX_RECOMMENDATIONS) break;
+    }
+
+    return selected.map(entry => this.toRecommendation(entry, request));
+  }
+
+  private toRecommendation(entry: ScoredCandidate, request: AIRecommendationRequest): AIRecommendation {
+    const { candidate, matchedPreference } = entry;
+    const categoryLabel = candidate.category.replace(/_/g, ' ');
+    const distanceText = candidate.distance !== undefined ? `${Math.round(candidate.distance)}m away` : 'nearby';
+
+    const reasons = [`A ${categoryLabel} ${distanceText} that suits a ${request.mood} mood`];
+    if (matchedPreference) reasons.push(`matches your interest in ${matchedPreference}`);
+    if (candidate.rating !== undefined) reasons.push(`rated ${candidate.rating}/5`);
+
+    return {
+      placeId: candidate.placeId,
+      name: candidate.name,
+      category: candidate.category,
+      description: candidate.address
+        ? `${categoryLabel.charAt(0).toUpperCase()}${categoryLabel.slice(1)} at ${candidate.address}.`
+        : `${categoryLabel.charAt(0).toUpperCase()}${categoryLabel.slice(1)} close to your location.`,
+      reasoning: `${reasons.join(', ')}.`,
+      estimatedDuration: CATEGORY_DURATION[candidate.category] ?? '1 hour',
+      priceRange: this.estimatePriceRange(candidate.category),
+      coordinates: {
+        latitude: candidate.latitude,
+        longitude: candidate.longitude
+      }
+    };
+  }
+
+  private estimatePriceRange(category: string): string {
+    if (FREE_CATEGORIES.has(category)) return 'Free';
+
+    switch (category) {
+      case POICategory.CAFE:
+      case POICategory.FAST_FOOD:
+      case POICategory.ICE_CREAM:
+      case POICategory.MARKETPLACE:
+      case POICategory.MARKET:
+        return '$';
+      case POICategory.SPA:
+      case POICategory.CASINO:
+      case POICategory.GOLF_COURSE:
+        return '$$$';
+      default:
+        return '$$';
+    }
+  }
+
+  private async generateWithLocalModel(request: AIRecommendationRequest): Promise<AIRecommendation[]> {
+    const output = await this.requestCompletion(buildRecommendationPrompt(request));
+    return parseWithRepair('local', output, prompt => this.requestCompletion(prompt));
+  }
+
+  private async requestCompletion(prompt: string): Promise<string> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), config.ai.timeout);
+
+    try {
+      // llama.cpp and Ollama both expose the OpenAI chat-completions API
+      const response = await fetch(`${this.endpoint}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.modelName,
+          messages: [{ role: 'user', content: prompt }],
+          response_format: { type: 'json_object' },
+          temperature: 0.2
+        }),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+      }
+
+      const data = await response.json() as { choices?: Array<{ message?: { content?: string | null } }> };
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error('Empty completion returned');
+      }
+
+      return text;
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Request timeout');
+      }
+
+      throw error;
+    }
+  }
+
+  private buildResponse(recommendations: AIRecommendation[], model: string, startTime: number): AIResponse {
+    return {
+      recommendations,
+      metadata: {
+        provider: 'local',
+        model,
+        responseTime: Date.now() - startTime,
+        tokensUsed: 0,
+        cost: 0
+      }
+    };
+  }
+
+  validateConfig(): boolean {
+    return true;
+  }
+
+  getProviderName(): string {
+    return 'local';
+  }
+
+  getModelName(): string {
+    return this.endpoint ? this.modelName : 'deterministic';
+  }
+}
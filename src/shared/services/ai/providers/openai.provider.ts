@@ -1,17 +1,137 @@
-import { AIProvider, AIRecommendationRequest, AIResponse } from '../types';
+import { config } from '@shared/config';
+import { AIProvider, AIProviderConfig, AIRecommendationRequest, AIResponse } from '../types';
+import { buildRecommendationPrompt, parseWithRepair } from '../prompt';
+
+type OpenAIModel = NonNullable<AIProviderConfig['openai']>['model'];
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{
+    message: {
+      role: string;
+      content: string | null;
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// USD per 1M tokens
+const MODEL_PRICING: Record<OpenAIModel, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
 
 export class OpenAIProvider implements AIProvider {
-  constructor() {
-    // TODO: Implement OpenAI provider
-    throw new Error('OpenAI provider not yet implemented');
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly modelName: OpenAIModel;
+
+  constructor(modelName: OpenAIModel = config.ai.openai.model, baseUrl: string = config.ai.openai.baseUrl) {
+    if (!config.apis.openai) {
+      throw new Error('OPENAI_API_KEY is required but not configured');
+    }
+
+    this.apiKey = config.apis.openai;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.modelName = modelName;
+  }
+
+  async generateRecommendations(request: AIRecommendationRequest): Promise<AIResponse> {
+    const startTime = Date.now();
+
+    try {
+      const usage = { prompt: 0, completion: 0 };
+
+      const complete = async (prompt: string): Promise<string> => {
+        const completion = await this.createChatCompletion(prompt);
+        usage.prompt += completion.usage?.prompt_tokens ?? 0;
+        usage.completion += completion.usage?.completion_tokens ?? 0;
+
+        const text = completion.choices[0]?.message.content;
+        if (!text) {
+          throw new Error('Empty completion returned');
+        }
+        return text;
+      };
+
+      const output = await complete(buildRecommendationPrompt(request));
+      const recommendations = await parseWithRepair('openai', output, complete);
+
+      return {
+        recommendations,
+        metadata: {
+          provider: 'openai',
+          model: this.modelName,
+          responseTime: Date.now() - startTime,
+          tokensUsed: usage.prompt + usage.completion,
+          cost: this.calculateCost(usage.prompt, usage.completion),
+        },
+      };
+    } catch (error) {
+      throw new Error(`OpenAI API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
-  async generateRecommendations(_request: AIRecommendationRequest): Promise<AIResponse> {
-    throw new Error('OpenAI provider not yet implemented');
+  private async createChatCompletion(prompt: string): Promise<ChatCompletionResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), config.ai.timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: this.modelName,
+          messages: [
+            { role: 'system', content: 'You are a travel recommendation engine. Always answer with a single JSON object.' },
+            { role: 'user', content: prompt },
+          ],
+          // JSON mode guarantees the content parses as a JSON object
+          response_format: { type: 'json_object' },
+          temperature: 0.7,
+        }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`HTTP ${response.status}: ${errorText}`);
+      }
+
+      return await response.json() as ChatCompletionResponse;
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Request timeout');
+      }
+
+      throw error;
+    }
+  }
+
+  private calculateCost(inputTokens: number, outputTokens: number): number {
+    const pricing = MODEL_PRICING[this.modelName];
+
+    const inputCost = (inputTokens / 1_000_000) * pricing.input;
+    const outputCost = (outputTokens / 1_000_000) * pricing.output;
+
+    return inputCost + outputCost;
   }
 
   validateConfig(): boolean {
-    return false;
+    return !!this.apiKey && !!this.baseUrl;
   }
 
   getProviderName(): string {
@@ -19,6 +139,6 @@ export class OpenAIProvider implements AIProvider {
   }
 
   getModelName(): string {
-    return 'gpt-4o';
+    return this.modelName;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,267 @@
+// src/shared/services/ai/recommendation-cache.ts - exact and similarity-aware caching of AI responses
+
+import { createHash } from 'crypto';
+import { config } from '@shared/config';
+import { cacheStore, CacheStats } from '../cache';
+import { AIFeedbackContext, AIRecommendationRequest, AIResponse, AICacheMatch } from './types';
+import { distanceInMeters } from '../location/geo';
+
+interface CachedResponse {
+  response: AIResponse;
+  cachedAt: number;
+}
+
+// Compact description of a cached request, kept per geo cell for similarity lookups
+interface IndexEntry {
+  key: string;
+  latitude: number;
+  longitude: number;
+  preferences: string[];
+  timeOfDay?: AIRecommendationRequest['timeOfDay'];
+  cachedAt: number;
+}
+
+interface ScoredEntry {
+  entry: IndexEntry;
+  similarity: number;
+  distance: number;
+}
+
+const TIMES_OF_DAY = ['morning', 'afternoon', 'evening', 'night'] as const;
+const MAX_ENTRIES_PER_CELL = 25;
+
+// How much each signal contributes to the similarity score
+const WEIGHTS = {
+  proximity: 0.3,
+  preferences: 0.5,
+  timeOfDay: 0.2
+};
+
+export class RecommendationCache {
+  private readonly namespace = 'recommendations';
+  private readonly indexNamespace = 'recommendations-index';
+  private semanticHits = 0;
+
+  async get(request: AIRecommendationRequest): Promise<AIResponse | null> {
+    const key = this.generateKey(request);
+
+    const exact = await cacheStore.get<CachedResponse>(this.namespace, key);
+    if (exact) {
+      return this.toCachedResponse(exact, { key, type: 'exact', similarity: 1, distance: 0 });
+    }
+
+    if (!config.ai.semanticCache.enabled) {
+      return null;
+    }
+
+    return this.findSimilar(request);
+  }
+
+  async set(request: AIRecommendationRequest, response: AIResponse): Promise<void> {
+    const key = this.generateKey(request);
+    const cachedAt = Date.now();
+
+    // Strip per-request fields so a later hit doesn't report the original request's cache state
+    const metadata = { ...response.metadata, cached: false };
+    delete metadata.cacheMatch;
+
+    await cacheStore.set<CachedResponse>(
+      this.namespace,
+      key,
+      { response: { ...response, metadata }, cachedAt },
+      config.ai.cacheTimeout
+    );
+
+    if (config.ai.semanticCache.enabled) {
+      await this.addToIndex(request, { key, ...this.describe(request), cachedAt });
+    }
+  }
+
+  async invalidate(): Promise<number> {
+    await cacheStore.invalidate(this.indexNamespace);
+    this.semanticHits = 0;
+    return cacheStore.invalidate(this.namespace);
+  }
+
+  async getStats(): Promise<CacheStats & { semanticHits: number; similarityThreshold: number }> {
+    return {
+      ...(await cacheStore.getStats(this.namespace)),
+      semanticHits: this.semanticHits,
+      similarityThreshold: config.ai.semanticCache.threshold
+    };
+  }
+
+  private generateKey(request: AIRecommendationRequest): string {
+    // Create a stable cache key from request parameters
+    const keyData = {
+      lat: Math.round(request.latitude * 1000) / 1000, // Round to ~100m precision
+      lng: Math.round(request.longitude * 1000) / 1000,
+      mood: request.mood,
+      preferences: this.normalizePreferences(request.preferences).join(','),
+      budget: request.budget || '',
+      timeOfDay: request.timeOfDay || '',
+      duration: request.duration || 0,
+      radius: request.radius || 0,
+      dietary: [...(request.dietaryRestrictions ?? [])].sort().join(','),
+      accessibility: [...(request.accessibility ?? [])].sort().join(','),
+      feedback: this.feedbackDigest(request.feedback),
+    };
+
+    return Buffer.from(JSON.stringify(keyData)).toString('base64');
+  }
+
+  private async findSimilar(request: AIRecommendationRequest): Promise<AIResponse | null> {
+    const target = this.describe(request);
+    const { threshold, maxDistance } = config.ai.semanticCache;
+    const expiresBefore = Date.now() - config.ai.cacheTimeout * 1000;
+    const scored: ScoredEntry[] = [];
+
+    for (const cellKey of this.cellKeys(request, 1)) {
+      const entries = await cacheStore.get<IndexEntry[]>(this.indexNamespace, cellKey);
+
+      for (const entry of entries ?? []) {
+        if (entry.cachedAt <= expiresBefore) continue;
+
+        const distance = distanceInMeters(target.latitude, target.longitude, entry.latitude, entry.longitude);
+        if (distance > maxDistance) continue;
+
+        const similarity =
+          (1 - distance / maxDistance) * WEIGHTS.proximity +
+          this.preferenceSimilarity(target.preferences, entry.preferences) * WEIGHTS.preferences +
+          this.timeOfDaySimilarity(target.timeOfDay, entry.timeOfDay) * WEIGHTS.timeOfDay;
+
+        if (similarity >= threshold) {
+          scored.push({ entry, similarity, distance });
+        }
+      }
+    }
+
+    // The best match may have been evicted since it was indexed, so fall through to the next one
+    for (const { entry, similarity, distance } of scored.sort((a, b) => b.similarity - a.similarity)) {
+      const cached = await cacheStore.get<CachedResponse>(this.namespace, entry.key);
+      if (cached) {
+        this.semanticHits++;
+        console.log(`🧠 Semantic cache hit (similarity ${similarity.toFixed(2)}, ${Math.round(distance)}m away)`);
+        return this.toCachedResponse(cached, {
+          key: entry.key,
+          type: 'semantic',
+          similarity: Math.round(similarity * 1000) / 1000,
+          distance: Math.round(distance)
+        });
+      }
+    }
+
+    return null;
+  }
+
+  private async addToIndex(request: AIRecommendationRequest, entry: IndexEntry): Promise<void> {
+    const [cellKey] = this.cellKeys(request, 0);
+    if (!cellKey) return;
+
+    const existing = await cacheStore.get<IndexEntry[]>(this.indexNamespace, cellKey) ?? [];
+    const expiresBefore = Date.now() - config.ai.cacheTimeout * 1000;
+
+    const entries = [
+      entry,
+      ...existing.filter(item => item.key !== entry.key && item.cachedAt > expiresBefore)
+    ].slice(0, MAX_ENTRIES_PER_CELL);
+
+    await cacheStore.set(this.indexNamespace, cellKey, entries, config.ai.cacheTimeout);
+  }
+
+  // Cells are roughly maxDistance wide, so the 3x3 block around a point covers every entry in range
+  private cellKeys(request: AIRecommendationRequest, spread: number): string[] {
+    const cellSize = config.ai.semanticCache.maxDistance / 111320; // degrees of latitude
+    const row = Math.floor(request.latitude / cellSize);
+
+    // Only requests that could share a response are compared
+    const bucket = [
+      request.mood,
+      request.budget || '',
+      request.duration || 0,
+      request.radius || 0,
+      [...(request.dietaryRestrictions ?? [])].sort().join(','),
+      [...(request.accessibility ?? [])].sort().join(','),
+      this.feedbackDigest(request.feedback)
+    ].join(':');
+    const keys: string[] = [];
+
+    for (let rowOffset = -spread; rowOffset <= spread; rowOffset++) {
+      const cellRow = row + rowOffset;
+      // Longitude degrees shrink towards the poles, so widen the cells to keep them square
+      const rowLatitude = (cellRow + 0.5) * cellSize * Math.PI / 180;
+      const lngCellSize = cellSize / Math.max(Math.cos(rowLatitude), 0.01);
+      const column = Math.floor(request.longitude / lngCellSize);
+
+      for (let columnOffset = -spread; columnOffset <= spread; columnOffset++) {
+        keys.push(`${bucket}:${cellRow}:${column + columnOffset}`);
+      }
+    }
+
+    return keys;
+  }
+
+  // Feedback changes the prompt and the candidate places, so only requests with the same feedback share a response
+  private feedbackDigest(feedback: AIFeedbackContext | undefined): string {
+    if (!feedback) return '';
+
+    const parts = [feedback.likedCategories, feedback.dislikedCategories, feedback.suppressedPlaceIds]
+      .map(list => [...list].sort().join(','));
+    if (parts.every(part => part === '')) return '';
+
+    return createHash('sha1').update(parts.join('|')).digest('hex').slice(0, 16);
+  }
+
+  private describe(request: AIRecommendationRequest): Omit<IndexEntry, 'key' | 'cachedAt'> {
+    return {
+      latitude: request.latitude,
+      longitude: request.longitude,
+      preferences: this.normalizePreferences(request.preferences),
+      ...(request.timeOfDay && { timeOfDay: request.timeOfDay })
+    };
+  }
+
+  // "Museums ", "museum" and "MUSEUM" all count as the same preference
+  private normalizePreferences(preferences: string[] | undefined): string[] {
+    const normalized = (preferences ?? [])
+      .map(pref => pref.toLowerCase().replace(/\s+/g, ' ').trim())
+      .map(pref => (pref.length > 3 && pref.endsWith('s') && !pref.endsWith('ss') ? pref.slice(0, -1) : pref))
+      .filter(pref => pref.length > 0);
+
+    return Array.from(new Set(normalized)).sort();
+  }
+
+  private preferenceSimilarity(a: string[], b: string[]): number {
+    if (a.length === 0 && b.length === 0) return 1;
+
+    const setB = new Set(b);
+    const intersection = a.filter(pref => setB.has(pref)).length;
+    const union = new Set([...a, ...b]).size;
+
+    return intersection / union;
+  }
+
+  private timeOfDaySimilarity(
+    a: AIRecommendationRequest['timeOfDay'],
+    b: AIRecommendationRequest['timeOfDay']
+  ): number {
+    if (a === b) return 1;
+    if (!a || !b) return 0.5;
+
+    // Adjacent parts of the day still share most suitable places
+    return Math.abs(TIMES_OF_DAY.indexOf(a) - TIMES_OF_DAY.indexOf(b)) === 1 ? 0.5 : 0;
+  }
+
+  private toCachedResponse(cached: CachedResponse, match: Omit<AICacheMatch, 'cachedAt'>): AIResponse {
+    return {
+      ...cached.response,
+      metadata: {
+        ...cached.response.metadata,
+        cached: true,
+        cacheMatch: { ...match, cachedAt: new Date(cached.cachedAt).toISOString() }
+      }
+    };
+  }
+}
+
+export const recommendationCache = new RecommendationCache();
@@ -1,3 +1,5 @@
+import { LocalContext } from '../timezone/types';
+
 export interface AIRecommendationRequest {
   latitude: number;
   longitude: number;
@@ -6,9 +8,37 @@ export interface AIRecommendationRequest {
   budget?: 'low' | 'medium' | 'high';
   timeOfDay?: 'morning' | 'afternoon' | 'evening' | 'night';
   duration?: number; // hours available
+  radius?: number; // meters to search for real places around the coordinates
+  dietaryRestrictions?: string[]; // From the user's preference profile
+  accessibility?: string[]; // From the user's preference profile
+  feedback?: AIFeedbackContext; // What the user thought of earlier recommendations
+  localContext?: LocalContext; // Local date and time at the coordinates
+  candidates?: AIPlaceCandidate[]; // Real nearby places the model must choose from
+}
+
+export interface AIFeedbackContext {
+  likedCategories: string[];
+  dislikedCategories: string[];
+  suppressedPlaceIds: string[]; // Place ids in every form the location service hands out
+  suppressedPlaceNames: string[]; // For recommendations that never matched a known place
+}
+
+// A known place offered to the model so recommendations are grounded in real data
+export interface AIPlaceCandidate {
+  placeId: string;
+  name: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  distance?: number; // meters from the search center
+  address?: string;
+  rating?: number;
 }
 
 export interface AIRecommendation {
+  id?: string; // Recommendation row id once persisted to the user's history
+  placeId?: string; // Matching Place id from the location service
+  verified?: boolean; // false when the recommendation could not be matched to a known place
   name: string;
   category: string;
   description: string;
@@ -29,12 +59,33 @@ export interface AIResponse {
     responseTime: number;
     tokensUsed?: number;
     cost?: number;
-    cached?: boolean
+    cached?: boolean;
+    cacheMatch?: AICacheMatch; // Present when the response was served from cache
+    grounding?: {
+      candidates: number; // nearby places offered to the model
+      matched: number;
+      unmatched: number; // dropped or flagged, depending on config
+    };
   };
 }
 
+// Identifies the cached entry that served a request
+export interface AICacheMatch {
+  key: string;
+  type: 'exact' | 'semantic';
+  similarity: number; // 0-1, 1 for exact matches
+  distance: number; // meters between the cached request and this one
+  cachedAt: string;
+}
+
+// Events emitted while a response streams in - metadata is always last
+export type AIStreamEvent =
+  | { type: 'recommendation'; recommendation: AIRecommendation }
+  | { type: 'metadata'; metadata: AIResponse['metadata'] };
+
 export interface AIProvider {
   generateRecommendations(request: AIRecommendationRequest): Promise<AIResponse>;
+  streamRecommendations?(request: AIRecommendationRequest): AsyncGenerator<AIStreamEvent>; // Optional incremental output
   validateConfig(): boolean;
   getProviderName(): string;
   getModelName(): string;
@@ -53,4 +104,8 @@ export interface AIProviderConfig {
     apiKey: string;
     model: 'claude-3-5-sonnet' | 'claude-3-haiku';
   };
+  local?: {
+    endpoint?: string;
+    model: string;
+  };
 }
\ No newline at end of file
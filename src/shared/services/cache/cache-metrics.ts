@@ -0,0 +1,49 @@
+// src/shared/services/cache/cache-metrics.ts - per-namespace hit/miss counters
+
+import { CacheBackend, CacheStats } from './types';
+
+interface Counters {
+  hits: number;
+  misses: number;
+  errors: number;
+}
+
+export class CacheMetrics {
+  private counters: Map<string, Counters> = new Map();
+
+  recordHit(namespace: string): void {
+    this.getOrCreate(namespace).hits++;
+  }
+
+  recordMiss(namespace: string): void {
+    this.getOrCreate(namespace).misses++;
+  }
+
+  recordError(namespace: string): void {
+    this.getOrCreate(namespace).errors++;
+  }
+
+  toStats(backend: CacheBackend, namespace: string, entries: number): CacheStats {
+    const { hits, misses, errors } = this.getOrCreate(namespace);
+    const reads = hits + misses;
+
+    return {
+      backend,
+      namespace,
+      entries,
+      hits,
+      misses,
+      hitRate: reads > 0 ? Math.round((hits / reads) * 1000) / 1000 : 0,
+      errors
+    };
+  }
+
+  private getOrCreate(namespace: string): Counters {
+    let counters = this.counters.get(namespace);
+    if (!counters) {
+      counters = { hits: 0, misses: 0, errors: 0 };
+      this.counters.set(namespace, counters);
+    }
+    return counters;
+  }
+}
@@ -0,0 +1,21 @@
+import { config } from '@shared/config';
+import { CacheStore, CacheStoreConfig } from './types';
+import { MemoryCacheStore } from './memory.store';
+import { RedisCacheStore } from './redis.store';
+
+export * from './types';
+export * from './memory.store';
+export * from './redis.store';
+
+export function createCacheStore(storeConfig: CacheStoreConfig): CacheStore {
+  if (storeConfig.backend === 'redis' && storeConfig.redisUrl) {
+    console.log('🗄️ Using Redis cache store');
+    return new RedisCacheStore(storeConfig.redisUrl, storeConfig.keyPrefix);
+  }
+
+  console.log(`🗄️ Using in-memory cache store (max ${storeConfig.maxEntries} entries)`);
+  return new MemoryCacheStore(storeConfig.maxEntries);
+}
+
+// Shared by every service so one backend serves the whole process
+export const cacheStore = createCacheStore(config.cache);
@@ -0,0 +1,94 @@
+// src/shared/services/cache/memory.store.ts - in-process LRU cache
+
+import { CacheStore, CacheStats } from './types';
+import { CacheMetrics } from './cache-metrics';
+
+interface MemoryEntry {
+  value: string; // Serialized so callers never share references with the cache
+  expiresAt: number;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  readonly backend = 'memory' as const;
+  private entries: Map<string, MemoryEntry> = new Map();
+  private metrics = new CacheMetrics();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  async get<T>(namespace: string, key: string): Promise<T | null> {
+    const cacheKey = this.buildKey(namespace, key);
+    const entry = this.entries.get(cacheKey);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(cacheKey);
+      }
+      this.metrics.recordMiss(namespace);
+      return null;
+    }
+
+    // Re-insert so Map iteration order tracks recency
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, entry);
+
+    this.metrics.recordHit(namespace);
+    return JSON.parse(entry.value) as T;
+  }
+
+  async set<T>(namespace: string, key: string, value: T, ttlSeconds: number): Promise<void> {
+    const cacheKey = this.buildKey(namespace, key);
+
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, {
+      value: JSON.stringify(value),
+      expiresAt: Date.now() + ttlSeconds * 1000
+    });
+
+    // Evict least recently used entries
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.entries.delete(this.buildKey(namespace, key));
+  }
+
+  async invalidate(namespace: string): Promise<number> {
+    const prefix = this.buildKey(namespace, '');
+    let removed = 0;
+
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  async getStats(namespace: string): Promise<CacheStats> {
+    const prefix = this.buildKey(namespace, '');
+    const now = Date.now();
+    let count = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (key.startsWith(prefix) && entry.expiresAt > now) {
+        count++;
+      }
+    }
+
+    return this.metrics.toStats(this.backend, namespace, count);
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  private buildKey(namespace: string, key: string): string {
+    return `${namespace}:${key}`;
+  }
+}
@@ -0,0 +1,339 @@
+// src/shared/services/cache/redis.store.ts - cache shared across instances via any Redis-protocol server
+
+import net from 'net';
+import tls from 'tls';
+import { CacheStore, CacheStats } from './types';
+import { CacheMetrics } from './cache-metrics';
+
+type RedisReply = string | number | null | Error | RedisReply[];
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+const COMMAND_TIMEOUT_MS = 2000;
+const SCAN_BATCH_SIZE = 200;
+
+// Minimal RESP2 client - only what the cache needs, so no driver dependency is required
+class RedisConnection {
+  private socket: net.Socket | undefined;
+  private connecting: Promise<void> | undefined;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+
+  constructor(private readonly url: URL) {}
+
+  async command(args: Array<string | number>): Promise<RedisReply> {
+    if (!this.socket) {
+      this.connecting ??= this.connect().finally(() => {
+        this.connecting = undefined;
+      });
+      await this.connecting;
+    }
+
+    return this.send(args);
+  }
+
+  close(): void {
+    const socket = this.socket;
+    if (socket) {
+      this.onClose(socket, new Error('Redis connection closed'));
+      socket.end();
+    }
+  }
+
+  private async connect(): Promise<void> {
+    const host = this.url.hostname || 'localhost';
+    const port = parseInt(this.url.port || '6379', 10);
+    const socket = this.url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+
+    socket.setNoDelay(true);
+    // Never keep the process alive just for an idle cache connection
+    socket.unref();
+
+    await new Promise<void>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Redis connection timeout (${host}:${port})`));
+      }, COMMAND_TIMEOUT_MS);
+
+      socket.once(this.url.protocol === 'rediss:' ? 'secureConnect' : 'connect', () => {
+        clearTimeout(timeoutId);
+        resolve();
+      });
+      socket.once('error', error => {
+        clearTimeout(timeoutId);
+        reject(error);
+      });
+    });
+
+    socket.on('data', chunk => this.onData(socket, chunk));
+    socket.on('error', error => this.onClose(socket, error));
+    socket.on('close', () => this.onClose(socket, new Error('Redis connection closed')));
+    this.socket = socket;
+
+    // Written back to back so no other command can run before the handshake completes
+    const handshake: Array<Array<string | number>> = [];
+    const password = decodeURIComponent(this.url.password);
+    if (password) {
+      const username = decodeURIComponent(this.url.username);
+      handshake.push(username ? ['AUTH', username, password] : ['AUTH', password]);
+    }
+
+    const database = this.url.pathname.replace('/', '');
+    if (database) {
+      handshake.push(['SELECT', database]);
+    }
+
+    try {
+      await Promise.all(handshake.map(args => this.send(args)));
+    } catch (error) {
+      // Never keep a connection that failed AUTH or SELECT; the next command starts over
+      this.onClose(socket, error instanceof Error ? error : new Error(String(error)));
+      socket.destroy();
+      throw error;
+    }
+  }
+
+  private send(args: Array<string | number>): Promise<RedisReply> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new Error('Redis connection is not open'));
+    }
+
+    return new Promise<RedisReply>((resolve, reject) => {
+      // A command that never answers means the connection is unusable - drop it so the next one reconnects
+      const timeoutId = setTimeout(() => socket.destroy(new Error('Redis command timeout')), COMMAND_TIMEOUT_MS);
+
+      this.pending.push({
+        resolve: reply => {
+          clearTimeout(timeoutId);
+          if (reply instanceof Error) {
+            reject(reply);
+          } else {
+            resolve(reply);
+          }
+        },
+        reject: error => {
+          clearTimeout(timeoutId);
+          reject(error);
+        }
+      });
+
+      socket.write(this.encode(args));
+    });
+  }
+
+  private encode(args: Array<string | number>): string {
+    let payload = `*${args.length}\r\n`;
+    for (const arg of args) {
+      const value = String(arg);
+      payload += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+    }
+    return payload;
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer): void {
+    if (this.socket !== socket) return;
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length > 0) {
+      let parsed: { value: RedisReply; offset: number } | null;
+      try {
+        parsed = this.parseReply(this.buffer, 0);
+      } catch (error) {
+        // Replies can no longer be matched to commands, so fail them all and reconnect on the next one
+        this.onClose(socket, error instanceof Error ? error : new Error(String(error)));
+        socket.destroy();
+        return;
+      }
+      if (!parsed) break; // Wait for the rest of the reply
+
+      this.buffer = this.buffer.subarray(parsed.offset);
+      this.pending.shift()?.resolve(parsed.value);
+    }
+  }
+
+  private onClose(socket: net.Socket, error: Error): void {
+    // Late events from a connection that was already replaced
+    if (this.socket !== socket) return;
+
+    this.socket = undefined;
+    this.buffer = Buffer.alloc(0);
+
+    const pending = this.pending;
+    this.pending = [];
+    for (const command of pending) {
+      command.reject(error);
+    }
+  }
+
+  // Returns null when the buffer does not hold a complete reply yet
+  private parseReply(buffer: Buffer, offset: number): { value: RedisReply; offset: number } | null {
+    const lineEnd = buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return null;
+
+    const type = String.fromCharCode(buffer[offset]!);
+    const line = buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { value: line, offset: next };
+      case '-':
+        return { value: new Error(line), offset: next };
+      case ':':
+        return { value: parseInt(line, 10), offset: next };
+      case '$': {
+        const length = parseInt(line, 10);
+        if (length === -1) return { value: null, offset: next };
+        if (buffer.length < next + length + 2) return null;
+        return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+      }
+      case '*': {
+        const count = parseInt(line, 10);
+        if (count === -1) return { value: null, offset: next };
+
+        const items: RedisReply[] = [];
+        let position = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parseReply(buffer, position);
+          if (!item) return null;
+          items.push(item.value);
+          position = item.offset;
+        }
+        return { value: items, offset: position };
+      }
+      default:
+        throw new Error(`Unexpected Redis reply type '${type}'`);
+    }
+  }
+}
+
+export class RedisCacheStore implements CacheStore {
+  readonly backend = 'redis' as const;
+  private connection: RedisConnection;
+  private metrics = new CacheMetrics();
+  private unavailable = false; // Logs an outage once instead of on every request
+
+  constructor(redisUrl: string, private readonly keyPrefix: string = '') {
+    this.connection = new RedisConnection(new URL(redisUrl));
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | null> {
+    try {
+      const value = await this.execute(['GET', this.buildKey(namespace, key)]);
+      if (typeof value !== 'string') {
+        this.metrics.recordMiss(namespace);
+        return null;
+      }
+
+      this.metrics.recordHit(namespace);
+      return JSON.parse(value) as T;
+    } catch (error) {
+      // An unreachable cache should slow requests down, not fail them
+      this.handleError(namespace, error);
+      this.metrics.recordMiss(namespace);
+      return null;
+    }
+  }
+
+  async set<T>(namespace: string, key: string, value: T, ttlSeconds: number): Promise<void> {
+    try {
+      await this.execute([
+        'SET',
+        this.buildKey(namespace, key),
+        JSON.stringify(value),
+        'EX',
+        Math.max(1, Math.ceil(ttlSeconds))
+      ]);
+    } catch (error) {
+      this.handleError(namespace, error);
+    }
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    try {
+      await this.execute(['DEL', this.buildKey(namespace, key)]);
+    } catch (error) {
+      this.handleError(namespace, error);
+    }
+  }
+
+  async invalidate(namespace: string): Promise<number> {
+    let removed = 0;
+
+    try {
+      for await (const keys of this.scanNamespace(namespace)) {
+        if (keys.length > 0) {
+          removed += Number(await this.execute(['DEL', ...keys]));
+        }
+      }
+    } catch (error) {
+      this.handleError(namespace, error);
+    }
+
+    return removed;
+  }
+
+  async getStats(namespace: string): Promise<CacheStats> {
+    let entries = 0;
+
+    try {
+      for await (const keys of this.scanNamespace(namespace)) {
+        entries += keys.length;
+      }
+    } catch (error) {
+      this.handleError(namespace, error);
+    }
+
+    return this.metrics.toStats(this.backend, namespace, entries);
+  }
+
+  async close(): Promise<void> {
+    this.connection.close();
+  }
+
+  // SCAN instead of KEYS so a large keyspace never blocks the server
+  private async *scanNamespace(namespace: string): AsyncGenerator<string[]> {
+    const pattern = `${this.buildKey(namespace, '')}*`;
+    let cursor = '0';
+
+    do {
+      const reply = await this.execute(['SCAN', cursor, 'MATCH', pattern, 'COUNT', SCAN_BATCH_SIZE]);
+      if (!Array.isArray(reply) || typeof reply[0] !== 'string' || !Array.isArray(reply[1])) {
+        throw new Error('Unexpected SCAN reply');
+      }
+
+      cursor = reply[0];
+      yield reply[1].filter((key): key is string => typeof key === 'string');
+    } while (cursor !== '0');
+  }
+
+  private async execute(args: Array<string | number>): Promise<RedisReply> {
+    const reply = await this.connection.command(args);
+
+    if (this.unavailable) {
+      console.log('✅ Redis cache connection restored');
+      this.unavailable = false;
+    }
+
+    return reply;
+  }
+
+  private handleError(namespace: string, error: unknown): void {
+    this.metrics.recordError(namespace);
+
+    if (!this.unavailable) {
+      console.warn('⚠️ Redis cache unavailable, continuing without cache:', error instanceof Error ? error.message : error);
+      this.unavailable = true;
+    }
+  }
+
+  private buildKey(namespace: string, key: string): string {
+    return `${this.keyPrefix}${namespace}:${key}`;
+  }
+}
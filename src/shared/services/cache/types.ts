@@ -0,0 +1,33 @@
+export type CacheBackend = 'memory' | 'redis';
+
+export interface CacheStore {
+  readonly backend: CacheBackend;
+
+  // Returns null on a miss or when the entry has expired
+  get<T>(namespace: string, key: string): Promise<T | null>;
+  set<T>(namespace: string, key: string, value: T, ttlSeconds: number): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+
+  // Removes every entry in the namespace, returning how many were deleted
+  invalidate(namespace: string): Promise<number>;
+
+  getStats(namespace: string): Promise<CacheStats>;
+  close(): Promise<void>;
+}
+
+export interface CacheStats {
+  backend: CacheBackend;
+  namespace: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1, 0 when nothing has been read yet
+  errors: number; // backend failures treated as misses
+}
+
+export interface CacheStoreConfig {
+  backend: CacheBackend;
+  maxEntries: number; // LRU capacity of the in-memory store
+  redisUrl?: string;
+  keyPrefix: string; // Keeps keys from different apps apart on a shared Redis
+}
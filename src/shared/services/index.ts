@@ -1,4 +1,11 @@
 export { passwordService } from './password.service'
 export { jwtService } from './jwt.service'
 export { aiService } from './ai'
-export { locationService } from './location'
\ No newline at end of file
+export { locationService, providerUsageService, placeMatchService, textSearchService } from './location'
+export { recommendationHistoryService } from './recommendation-history.service'
+export { cacheStore } from './cache'
+export { usageService } from './usage.service'
+export { userPreferencesService } from './user-preferences.service'
+export { recommendationFeedbackService } from './recommendation-feedback.service'
+export { itineraryService } from './itinerary'
+export { timezoneService } from './timezone'
@@ -0,0 +1,3 @@
+export * from './types';
+export * from './planner';
+export * from './itinerary.service';
@@ -0,0 +1,328 @@
+// src/shared/services/itinerary/itinerary.service.ts - generate, store and edit day plans
+
+import { Prisma, Itinerary as ItineraryRecord } from '@prisma/client';
+import { db } from '@shared/database';
+import { AppError, NotFoundError, ValidationError } from '@shared/errors';
+import { ItineraryGenerateRequest, ItineraryListQuery } from '@shared/schemas/itinerary.schema';
+import { locationService, Place, POICategory } from '../location';
+import { formatMinutes, parseClockTime } from '../location/opening-hours';
+import { timezoneService } from '../timezone';
+import { itineraryPlanner } from './planner';
+import { Itinerary, ItineraryCandidate, ItineraryStop, PlanOptions } from './types';
+
+const CANDIDATE_LIMIT = 20;
+const DEFAULT_DURATION_HOURS = 4;
+const DEFAULT_MAX_STOPS = 6;
+const DEFAULT_START_TIME = '10:00';
+
+const TIME_OF_DAY_START: Record<string, string> = {
+  morning: '09:00',
+  afternoon: '13:00',
+  evening: '18:00',
+  night: '21:00'
+};
+
+// Practical stops nobody plans a day around, unless asked for explicitly
+const NON_VISIT_CATEGORIES = new Set<string>([
+  POICategory.BANK,
+  POICategory.ATM,
+  POICategory.PHARMACY,
+  POICategory.HOSPITAL,
+  POICategory.TOILETS,
+  POICategory.FUEL,
+  POICategory.POST_OFFICE,
+  POICategory.BUS_STATION,
+  POICategory.SUBWAY,
+  POICategory.TAXI,
+  POICategory.CAR_RENTAL,
+  POICategory.PARKING
+]);
+
+export interface ItineraryPage {
+  items: Itinerary[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export class ItineraryService {
+  private readonly defaultPageSize = 20;
+
+  async generate(userId: string, request: ItineraryGenerateRequest): Promise<Itinerary> {
+    // Dates and times are wall-clock values at the starting point
+    const local = timezoneService.getLocalContext(request.latitude, request.longitude);
+    const date = request.date ?? local.localDate;
+    const startTime = request.startTime
+      ?? TIME_OF_DAY_START[request.timeOfDay ?? '']
+      ?? (date === local.localDate ? this.nextQuarterHour(local.localTime) : DEFAULT_START_TIME);
+    const duration = request.duration ?? DEFAULT_DURATION_HOURS;
+
+    const search = await locationService.searchNearby({
+      latitude: request.latitude,
+      longitude: request.longitude,
+      mood: request.mood,
+      limit: CANDIDATE_LIMIT,
+      ...(request.radius && { radius: request.radius }),
+      ...(request.categories && { categories: request.categories.map(category => category as POICategory) })
+    }, userId);
+
+    const candidates = search.places
+      .filter(place => request.categories || !NON_VISIT_CATEGORIES.has(place.category))
+      .map(place => this.toCandidate(place));
+
+    if (candidates.length === 0) {
+      throw new AppError('No places found nearby to build an itinerary from', 404);
+    }
+
+    const options: PlanOptions = {
+      start: { latitude: request.latitude, longitude: request.longitude },
+      date: new Date(`${date}T00:00:00Z`),
+      startMinutes: parseClockTime(startTime) ?? 0,
+      durationMinutes: Math.round(duration * 60),
+      maxStops: request.maxStops ?? DEFAULT_MAX_STOPS
+    };
+
+    const { stops, unused } = itineraryPlanner.plan(candidates, options);
+    if (stops.length === 0) {
+      throw new AppError('None of the nearby places are open long enough during the requested time', 422);
+    }
+
+    const record = await db.itinerary.create({
+      userId,
+      ...(request.title && { title: request.title }),
+      mood: request.mood,
+      date: options.date,
+      startTime,
+      duration,
+      latitude: request.latitude,
+      longitude: request.longitude,
+      stops: stops as unknown as Prisma.InputJsonValue,
+      alternatives: unused as unknown as Prisma.InputJsonValue
+    });
+
+    console.log(`🗺️ Planned itinerary ${record.id} with ${stops.length} stops from ${candidates.length} candidates`);
+
+    return this.toItinerary(record);
+  }
+
+  async list(userId: string, query: ItineraryListQuery): Promise<ItineraryPage> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? this.defaultPageSize;
+
+    const [records, total] = await Promise.all([
+      db.itinerary.findByUser(userId, limit, (page - 1) * limit),
+      db.itinerary.countByUser(userId)
+    ]);
+
+    return {
+      items: records.map(record => this.toItinerary(record)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async getById(userId: string, id: string): Promise<Itinerary> {
+    return this.toItinerary(await this.findRecord(userId, id));
+  }
+
+  async reorderStops(userId: string, id: string, order: string[]): Promise<Itinerary> {
+    const record = await this.findRecord(userId, id);
+    const stops = this.readStops(record);
+
+    const currentIds = stops.map(stop => stop.placeId).sort();
+    const requestedIds = [...order].sort();
+    if (currentIds.length !== requestedIds.length || currentIds.some((placeId, index) => placeId !== requestedIds[index])) {
+      throw new ValidationError('Order must list every stop of the itinerary exactly once', [
+        { field: 'order', message: `Expected a permutation of: ${stops.map(stop => stop.placeId).join(', ')}`, value: order }
+      ]);
+    }
+
+    const reordered = order.map(placeId => stops.find(stop => stop.placeId === placeId)!);
+    return this.saveStops(record, reordered, this.readAlternatives(record));
+  }
+
+  async removeStop(userId: string, id: string, placeId: string): Promise<Itinerary> {
+    const record = await this.findRecord(userId, id);
+    const stops = this.readStops(record);
+    const removed = this.findStop(stops, placeId);
+
+    // Removed stops go back into the pool so they can be swapped in again later
+    return this.saveStops(
+      record,
+      stops.filter(stop => stop !== removed),
+      [this.toCandidate(removed), ...this.readAlternatives(record)]
+    );
+  }
+
+  async swapStop(userId: string, id: string, placeId: string, replacementPlaceId?: string): Promise<Itinerary> {
+    const record = await this.findRecord(userId, id);
+    const stops = this.readStops(record);
+    const alternatives = this.readAlternatives(record);
+    const current = this.findStop(stops, placeId);
+    const position = stops.indexOf(current);
+
+    const replacement = replacementPlaceId
+      ? alternatives.find(candidate => candidate.placeId === replacementPlaceId)
+      : this.findBestReplacement(record, stops, position, alternatives);
+
+    if (!replacement) {
+      throw new NotFoundError(replacementPlaceId ? 'Replacement place' : 'Open alternative for this stop');
+    }
+
+    const updatedStops = stops.map((stop, index) => (index === position ? replacement : stop));
+    const updatedAlternatives = [
+      this.toCandidate(current),
+      ...alternatives.filter(candidate => candidate.placeId !== replacement.placeId)
+    ];
+
+    return this.saveStops(record, updatedStops, updatedAlternatives);
+  }
+
+  // The alternative that stays open at that point of the day and adds the least walking
+  private findBestReplacement(
+    record: ItineraryRecord,
+    stops: ItineraryCandidate[],
+    position: number,
+    alternatives: ItineraryCandidate[]
+  ): ItineraryCandidate | undefined {
+    const options = this.getPlanOptions(record);
+    const previous = stops[position - 1]?.coordinates ?? options.start;
+    const next = stops[position + 1]?.coordinates;
+
+    const ranked = alternatives
+      .map(candidate => {
+        const schedule = itineraryPlanner.schedule(
+          stops.map((stop, index) => (index === position ? candidate : stop)),
+          options
+        );
+        const detour =
+          itineraryPlanner.distanceBetween(previous, candidate.coordinates) +
+          (next ? itineraryPlanner.distanceBetween(candidate.coordinates, next) : 0);
+
+        return { candidate, stop: schedule[position]!, detour };
+      })
+      .filter(({ stop }) => stop.openStatus !== 'closed' && !stop.exceedsDuration)
+      .sort((a, b) =>
+        Number(a.stop.openStatus === 'unknown') - Number(b.stop.openStatus === 'unknown') || a.detour - b.detour
+      );
+
+    return ranked[0]?.candidate;
+  }
+
+  private async saveStops(
+    record: ItineraryRecord,
+    candidates: ItineraryCandidate[],
+    alternatives: ItineraryCandidate[]
+  ): Promise<Itinerary> {
+    const stops = itineraryPlanner.schedule(candidates, this.getPlanOptions(record));
+
+    const updated = await db.itinerary.updateStops(record.id, {
+      stops: stops as unknown as Prisma.InputJsonValue,
+      alternatives: alternatives as unknown as Prisma.InputJsonValue
+    });
+
+    return this.toItinerary(updated);
+  }
+
+  private async findRecord(userId: string, id: string): Promise<ItineraryRecord> {
+    const record = await db.itinerary.findByIdForUser(id, userId);
+    if (!record) {
+      throw new NotFoundError('Itinerary');
+    }
+
+    return record;
+  }
+
+  private findStop(stops: ItineraryStop[], placeId: string): ItineraryStop {
+    const stop = stops.find(item => item.placeId === placeId);
+    if (!stop) {
+      throw new NotFoundError('Itinerary stop');
+    }
+
+    return stop;
+  }
+
+  private getPlanOptions(record: ItineraryRecord): PlanOptions {
+    return {
+      start: { latitude: record.latitude, longitude: record.longitude },
+      date: record.date,
+      startMinutes: parseClockTime(record.startTime) ?? 0,
+      durationMinutes: Math.round(record.duration * 60),
+      maxStops: DEFAULT_MAX_STOPS
+    };
+  }
+
+  private readStops(record: ItineraryRecord): ItineraryStop[] {
+    return (record.stops as unknown as ItineraryStop[] | null) ?? [];
+  }
+
+  private readAlternatives(record: ItineraryRecord): ItineraryCandidate[] {
+    return (record.alternatives as unknown as ItineraryCandidate[] | null) ?? [];
+  }
+
+  // A plan for today starts from now rather than a time that has already passed
+  private nextQuarterHour(localTime: string): string {
+    const minutes = Math.ceil((parseClockTime(localTime) ?? 0) / 15) * 15;
+    return minutes >= 24 * 60 ? '23:45' : formatMinutes(minutes);
+  }
+
+  private toCandidate(source: Place | ItineraryCandidate): ItineraryCandidate {
+    if ('placeId' in source) {
+      return {
+        placeId: source.placeId,
+        name: source.name,
+        category: source.category,
+        coordinates: source.coordinates,
+        ...(source.address && { address: source.address }),
+        ...(source.hours && { hours: source.hours })
+      };
+    }
+
+    return {
+      placeId: source.id,
+      name: source.name,
+      category: source.category,
+      coordinates: source.coordinates,
+      ...(source.address && { address: source.address }),
+      ...(source.metadata?.hours && { hours: source.metadata.hours })
+    };
+  }
+
+  private toItinerary(record: ItineraryRecord): Itinerary {
+    const stops = this.readStops(record);
+    const startMinutes = parseClockTime(record.startTime) ?? 0;
+    const lastStop = stops[stops.length - 1];
+
+    return {
+      id: record.id,
+      userId: record.userId,
+      title: record.title,
+      mood: record.mood,
+      date: record.date.toISOString().slice(0, 10),
+      startTime: record.startTime,
+      endTime: lastStop ? lastStop.departureTime : formatMinutes(startMinutes),
+      duration: record.duration,
+      start: { latitude: record.latitude, longitude: record.longitude },
+      stops,
+      alternatives: this.readAlternatives(record),
+      totals: {
+        stops: stops.length,
+        walkingMeters: stops.reduce((sum, stop) => sum + stop.leg.distanceMeters, 0),
+        walkingMinutes: stops.reduce((sum, stop) => sum + stop.leg.walkingMinutes, 0),
+        visitMinutes: stops.reduce((sum, stop) => sum + stop.visitMinutes, 0),
+        waitMinutes: stops.reduce((sum, stop) => sum + stop.waitMinutes, 0)
+      },
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    };
+  }
+}
+
+export const itineraryService = new ItineraryService();
@@ -0,0 +1,192 @@
+// src/shared/services/itinerary/planner.ts - orders places into a walkable, open-hours-aware schedule
+
+import { getOpeningIntervals, formatMinutes, OpeningInterval } from '../location/opening-hours';
+import { ItineraryCandidate, ItineraryStop, PlanOptions, StopOpenStatus, Coordinates } from './types';
+import { distanceInMeters } from '../location/geo';
+
+const WALKING_METERS_PER_MINUTE = 80; // ~4.8 km/h
+const MAX_WAIT_MINUTES = 45; // Longest we'll wait outside a place for it to open
+const MAX_STOPS_PER_CATEGORY = 2;
+const DEFAULT_VISIT_MINUTES = 45;
+
+// Typical time spent at each kind of place
+const VISIT_MINUTES: Record<string, number> = {
+  restaurant: 75,
+  cafe: 40,
+  bar: 60,
+  pub: 60,
+  fast_food: 30,
+  ice_cream: 20,
+  marketplace: 45,
+  market: 45,
+  museum: 90,
+  gallery: 60,
+  attraction: 60,
+  monument: 20,
+  castle: 90,
+  theatre: 150,
+  cinema: 150,
+  library: 45,
+  park: 45,
+  garden: 45,
+  viewpoint: 20,
+  beach: 120,
+  nature_reserve: 120,
+  spa: 120,
+  shop: 30,
+  mall: 60,
+  department_store: 45,
+  nightclub: 120,
+  casino: 90
+};
+
+interface Visit {
+  arrival: number;
+  waitMinutes: number;
+  visitMinutes: number;
+  openStatus: StopOpenStatus;
+}
+
+export class ItineraryPlanner {
+  // Greedy nearest-neighbour walk that only adds places open for the whole visit and inside the time window
+  plan(candidates: ItineraryCandidate[], options: PlanOptions): { stops: ItineraryStop[]; unused: ItineraryCandidate[] } {
+    const endMinutes = options.startMinutes + options.durationMinutes;
+    const remaining = [...candidates];
+    const selected: ItineraryCandidate[] = [];
+    const categoryCounts = new Map<string, number>();
+
+    let position = options.start;
+    let clock = options.startMinutes;
+
+    while (selected.length < options.maxStops && remaining.length > 0) {
+      let best: { index: number; score: number; departure: number } | undefined;
+
+      remaining.forEach((candidate, index) => {
+        if ((categoryCounts.get(candidate.category) ?? 0) >= MAX_STOPS_PER_CATEGORY) return;
+
+        const distance = distanceInMeters(
+          position.latitude,
+          position.longitude,
+          candidate.coordinates.latitude,
+          candidate.coordinates.longitude
+        );
+        const visit = this.scheduleVisit(candidate, options.date, clock + this.walkingMinutes(distance));
+        if (visit.openStatus === 'closed' || visit.waitMinutes > MAX_WAIT_MINUTES) return;
+
+        const departure = visit.arrival + visit.waitMinutes + visit.visitMinutes;
+        if (departure > endMinutes) return;
+
+        // Candidates arrive ranked by relevance, so earlier ones earn a small head start
+        const score =
+          this.walkingMinutes(distance) +
+          visit.waitMinutes * 0.5 +
+          (visit.openStatus === 'unknown' ? 10 : 0) +
+          (selected[selected.length - 1]?.category === candidate.category ? 30 : 0) -
+          (1 - index / remaining.length) * 15;
+
+        if (!best || score < best.score) {
+          best = { index, score, departure };
+        }
+      });
+
+      if (!best) break;
+
+      const [chosen] = remaining.splice(best.index, 1);
+      selected.push(chosen!);
+      categoryCounts.set(chosen!.category, (categoryCounts.get(chosen!.category) ?? 0) + 1);
+      position = chosen!.coordinates;
+      clock = best.departure;
+    }
+
+    return { stops: this.schedule(selected, options), unused: remaining };
+  }
+
+  // Recomputes legs and times for stops in the given order - used after every edit
+  schedule(candidates: ItineraryCandidate[], options: PlanOptions): ItineraryStop[] {
+    const endMinutes = options.startMinutes + options.durationMinutes;
+    let position = options.start;
+    let clock = options.startMinutes;
+
+    return candidates.map(candidate => {
+      const distance = distanceInMeters(
+        position.latitude,
+        position.longitude,
+        candidate.coordinates.latitude,
+        candidate.coordinates.longitude
+      );
+      const walkingMinutes = this.walkingMinutes(distance);
+      const visit = this.scheduleVisit(candidate, options.date, clock + walkingMinutes);
+      const departure = visit.arrival + visit.waitMinutes + visit.visitMinutes;
+      const hoursToday = this.getHoursText(candidate.hours, options.date);
+
+      position = candidate.coordinates;
+      clock = departure;
+
+      return {
+        placeId: candidate.placeId,
+        name: candidate.name,
+        category: candidate.category,
+        coordinates: candidate.coordinates,
+        ...(candidate.address && { address: candidate.address }),
+        ...(candidate.hours && { hours: candidate.hours }),
+        arrivalTime: formatMinutes(visit.arrival),
+        departureTime: formatMinutes(departure),
+        visitMinutes: visit.visitMinutes,
+        waitMinutes: visit.waitMinutes,
+        openStatus: visit.openStatus,
+        ...(hoursToday && { hoursToday }),
+        leg: {
+          distanceMeters: Math.round(distance),
+          walkingMinutes
+        },
+        exceedsDuration: departure > endMinutes
+      };
+    });
+  }
+
+  distanceBetween(from: Coordinates, to: Coordinates): number {
+    return distanceInMeters(from.latitude, from.longitude, to.latitude, to.longitude);
+  }
+
+  private scheduleVisit(candidate: ItineraryCandidate, date: Date, arrival: number): Visit {
+    const visitMinutes = VISIT_MINUTES[candidate.category] ?? DEFAULT_VISIT_MINUTES;
+    const intervals = getOpeningIntervals(candidate.hours, date, candidate.coordinates);
+
+    // No usable hours - assume open rather than drop the place
+    if (intervals === null) {
+      return { arrival, waitMinutes: 0, visitMinutes, openStatus: 'unknown' };
+    }
+
+    const interval = this.findInterval(intervals, arrival, visitMinutes);
+    if (!interval) {
+      return { arrival, waitMinutes: 0, visitMinutes, openStatus: 'closed' };
+    }
+
+    return {
+      arrival,
+      waitMinutes: Math.max(0, interval.open - arrival),
+      visitMinutes,
+      openStatus: 'open'
+    };
+  }
+
+  // First opening that still leaves room for the whole visit, possibly after a wait
+  private findInterval(intervals: OpeningInterval[], arrival: number, visitMinutes: number): OpeningInterval | undefined {
+    return intervals
+      .filter(interval => Math.max(arrival, interval.open) + visitMinutes <= interval.close)
+      .sort((a, b) => a.open - b.open)[0];
+  }
+
+  private getHoursText(hours: Record<string, string> | undefined, date: Date): string | undefined {
+    if (!hours) return undefined;
+
+    const dayName = date.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' }).toLowerCase();
+    return hours[dayName] ?? hours.general;
+  }
+
+  private walkingMinutes(distance: number): number {
+    return Math.ceil(distance / WALKING_METERS_PER_MINUTE);
+  }
+}
+
+export const itineraryPlanner = new ItineraryPlanner();
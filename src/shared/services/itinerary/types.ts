@@ -0,0 +1,67 @@
+// src/shared/services/itinerary/types.ts - day plans built from nearby places
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// A place that can be part of a plan, with everything needed to schedule it again later
+export interface ItineraryCandidate {
+  placeId: string;
+  name: string;
+  category: string;
+  coordinates: Coordinates;
+  address?: string;
+  hours?: Record<string, string>;
+}
+
+export type StopOpenStatus = 'open' | 'unknown' | 'closed';
+
+export interface ItineraryLeg {
+  distanceMeters: number;
+  walkingMinutes: number;
+}
+
+export interface ItineraryStop extends ItineraryCandidate {
+  arrivalTime: string; // "HH:MM" local time
+  departureTime: string;
+  visitMinutes: number;
+  waitMinutes: number;
+  openStatus: StopOpenStatus;
+  hoursToday?: string;
+  leg: ItineraryLeg; // From the previous stop, or from the start for the first one
+  exceedsDuration: boolean;
+}
+
+export interface ItineraryTotals {
+  stops: number;
+  walkingMeters: number;
+  walkingMinutes: number;
+  visitMinutes: number;
+  waitMinutes: number;
+}
+
+export interface PlanOptions {
+  start: Coordinates;
+  date: Date; // Local calendar day, read in UTC
+  startMinutes: number; // Minutes after local midnight
+  durationMinutes: number;
+  maxStops: number;
+}
+
+export interface Itinerary {
+  id: string;
+  userId: string;
+  title: string | null;
+  mood: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  duration: number;
+  start: Coordinates;
+  stops: ItineraryStop[];
+  alternatives: ItineraryCandidate[];
+  totals: ItineraryTotals;
+  createdAt: Date;
+  updatedAt: Date;
+}
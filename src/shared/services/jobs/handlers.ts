@@ -0,0 +1,19 @@
+// src/shared/services/jobs/handlers.ts - job types the worker knows how to run
+
+import { deduplicationService, locationService } from '../location';
+import { jobQueue } from './job-queue.service';
+import { JOB_TYPES, GoogleEnrichmentPayload, LocationDedupePayload, LocationRefreshPayload } from './types';
+
+export function registerJobHandlers(): void {
+  jobQueue.register<LocationRefreshPayload>(JOB_TYPES.locationRefresh, async ({ locationId, provider }) => {
+    return { ...(await locationService.refreshLocation(locationId, provider)) };
+  });
+
+  jobQueue.register<GoogleEnrichmentPayload>(JOB_TYPES.googleEnrichment, async ({ limit }) => {
+    return { ...(await locationService.enrichWithGoogle(limit)) };
+  });
+
+  jobQueue.register<LocationDedupePayload>(JOB_TYPES.locationDedupe, async (payload) => {
+    return { ...(await deduplicationService.deduplicate(payload)) };
+  });
+}
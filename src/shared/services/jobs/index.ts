@@ -0,0 +1,3 @@
+export * from './types';
+export * from './job-queue.service';
+export * from './handlers';
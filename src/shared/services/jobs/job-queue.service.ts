@@ -0,0 +1,153 @@
+// src/shared/services/jobs/job-queue.service.ts - database-backed job queue with retries and backoff
+
+import { Job, Prisma } from '@prisma/client';
+import { config } from '@shared/config';
+import { db, JobListFilter } from '@shared/database';
+import { AppError, NotFoundError } from '@shared/errors';
+import { EnqueueOptions, JobHandler } from './types';
+
+export interface JobPage {
+  items: Job[];
+  counts: Record<string, number>;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+export class JobQueueService {
+  private handlers = new Map<string, JobHandler>();
+  private readonly defaultPageSize = 20;
+
+  // Only the worker registers handlers; the API process just enqueues
+  register<TPayload>(type: string, handler: JobHandler<TPayload>): void {
+    this.handlers.set(type, handler as JobHandler);
+  }
+
+  // Returns null when equivalent work is already queued
+  async enqueue(type: string, payload: Prisma.InputJsonValue, options: EnqueueOptions = {}): Promise<Job | null> {
+    if (options.key && await db.job.findActiveByKey(type, options.key)) {
+      return null;
+    }
+
+    try {
+      return await db.job.create({
+        type,
+        payload,
+        maxAttempts: options.maxAttempts ?? config.jobs.maxAttempts,
+        ...(options.key && { key: options.key }),
+        ...(options.runAt && { runAt: options.runAt })
+      });
+    } catch (error) {
+      // Another process queued the same key since the check; the unique index on active keys kept one
+      if (options.key && isUniqueViolation(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Claims and runs one due job; false when there was nothing to do
+  async runNext(workerId: string): Promise<boolean> {
+    const types = Array.from(this.handlers.keys());
+    const lockExpiredBefore = new Date(Date.now() - config.jobs.lockTimeout);
+
+    const abandoned = await db.job.failAbandoned(types, lockExpiredBefore);
+    if (abandoned > 0) {
+      console.warn(`❌ Failed ${abandoned} abandoned job(s) that had no attempts left`);
+    }
+
+    const job = await db.job.claimNext(types, workerId, lockExpiredBefore);
+    if (!job) {
+      return false;
+    }
+
+    const handler = this.handlers.get(job.type)!;
+    const startTime = Date.now();
+
+    try {
+      const result = await handler(job.payload, job);
+      if (!await db.job.markCompleted(job.id, workerId, result ?? null)) {
+        this.warnLockLost(job);
+        return true;
+      }
+      console.log(`✅ Job ${job.type} ${job.id} completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt = job.attempts < job.maxAttempts ? new Date(Date.now() + this.getBackoff(job.attempts)) : null;
+
+      if (!await db.job.markFailed(job.id, workerId, message, retryAt)) {
+        this.warnLockLost(job);
+        return true;
+      }
+      console.warn(
+        retryAt
+          ? `⚠️ Job ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying at ${retryAt.toISOString()}: ${message}`
+          : `❌ Job ${job.type} ${job.id} failed permanently after ${job.attempts} attempts: ${message}`
+      );
+    }
+
+    return true;
+  }
+
+  async getJob(id: string): Promise<Job> {
+    const job = await db.job.findById(id);
+    if (!job) {
+      throw new NotFoundError('Job');
+    }
+    return job;
+  }
+
+  async listJobs(filter: JobListFilter, page: number = 1, limit: number = this.defaultPageSize): Promise<JobPage> {
+    const [items, total, counts] = await Promise.all([
+      db.job.list(filter, limit, (page - 1) * limit),
+      db.job.count(filter),
+      db.job.countByStatus()
+    ]);
+
+    return {
+      items,
+      counts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async retry(id: string): Promise<Job> {
+    const job = await this.getJob(id);
+    if (job.status !== 'failed') {
+      throw new AppError(`Only failed jobs can be retried, this one is ${job.status}`, 409);
+    }
+    try {
+      return await db.job.requeue(id);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new AppError('An equivalent job is already queued', 409);
+      }
+      throw error;
+    }
+  }
+
+  // The lock timed out while the handler ran, so the job now belongs to another worker
+  private warnLockLost(job: Job): void {
+    console.warn(`⚠️ Job ${job.type} ${job.id} was taken over by another worker, discarding this attempt's outcome`);
+  }
+
+  // Exponential backoff with jitter so a burst of failures doesn't retry in lockstep
+  private getBackoff(attempts: number): number {
+    const delay = Math.min(config.jobs.backoffBase * 2 ** (attempts - 1), config.jobs.backoffMax);
+    return Math.round(delay * (0.75 + Math.random() * 0.5));
+  }
+}
+
+export const jobQueue = new JobQueueService();
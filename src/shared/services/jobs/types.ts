@@ -0,0 +1,38 @@
+// src/shared/services/jobs/types.ts
+
+import { Job, Prisma } from '@prisma/client';
+
+export const JOB_TYPES = {
+  locationRefresh: 'location.refresh',
+  googleEnrichment: 'location.google-enrichment',
+  locationDedupe: 'location.dedupe'
+} as const;
+
+export type JobType = (typeof JOB_TYPES)[keyof typeof JOB_TYPES];
+
+// Whatever a handler returns is stored as the job's result; throwing schedules a retry
+export type JobHandler<TPayload = unknown> = (payload: TPayload, job: Job) => Promise<Prisma.InputJsonValue | void>;
+
+export interface EnqueueOptions {
+  key?: string; // Skip enqueueing while a job with the same type and key is pending or running
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface LocationRefreshPayload {
+  locationId: string;
+  provider: 'osm' | 'google';
+}
+
+export interface GoogleEnrichmentPayload {
+  limit?: number; // Defaults to config.location.googleEnrichment.batchSize
+}
+
+export interface LocationDedupePayload {
+  region?: {
+    latitude: number;
+    longitude: number;
+    radius: number; // meters
+  };
+  dryRun?: boolean;
+}
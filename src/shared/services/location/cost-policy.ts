@@ -0,0 +1,33 @@
+// src/shared/services/location/cost-policy.ts - how much Google a hybrid search may use
+
+import { config, GoogleCostPolicy } from '@shared/config';
+import { LocationSearchRequest } from './types';
+
+/**
+ * Policy for one search: the configured defaults, then the mood override, then the override of
+ * each searched category. With several categories the most generous one wins, so a single
+ * rating-heavy category (restaurants) is enough to bring Google in.
+ */
+export function resolveGoogleCostPolicy(request: Pick<LocationSearchRequest, 'mood' | 'categories'>): GoogleCostPolicy {
+  const { policy, moodOverrides, categoryOverrides } = config.location.googleCost;
+  const moodPolicy: GoogleCostPolicy = {
+    ...policy,
+    ...(request.mood && moodOverrides[request.mood])
+  };
+
+  const categoryPolicies = (request.categories ?? []).map(category => ({
+    ...moodPolicy,
+    ...categoryOverrides[category]
+  }));
+
+  return categoryPolicies.reduce(mostGenerous, categoryPolicies[0] ?? moodPolicy);
+}
+
+function mostGenerous(a: GoogleCostPolicy, b: GoogleCostPolicy): GoogleCostPolicy {
+  return {
+    enabled: a.enabled || b.enabled,
+    maxGoogleEnrichments: Math.max(a.maxGoogleEnrichments, b.maxGoogleEnrichments),
+    minReviewsForEnrichment: Math.min(a.minReviewsForEnrichment, b.minReviewsForEnrichment),
+    popularPlaceRadius: Math.max(a.popularPlaceRadius, b.popularPlaceRadius)
+  };
+}
@@ -0,0 +1,248 @@
+// src/shared/services/location/deduplication.service.ts - merge stored locations that are the same place
+
+import { Job, Location, Prisma } from '@prisma/client';
+import { config } from '@shared/config';
+import { db, LocationBounds } from '@shared/database';
+import { jobQueue } from '../jobs/job-queue.service';
+import { JOB_TYPES, LocationDedupePayload } from '../jobs/types';
+import { locationService } from './location.service';
+import { calculateMergeConfidence, calculateNameSimilarity, categoriesMatch } from './place-matching';
+import { POICategory } from './types';
+import { distanceInMeters } from './geo';
+
+const METERS_PER_DEGREE = 111320;
+
+type StoredLocation = Location & { _count: { recommendations: number } };
+
+export interface DedupeRegion {
+  latitude: number;
+  longitude: number;
+  radius: number; // meters
+}
+
+export interface DedupeOptions {
+  region?: DedupeRegion; // Whole table when omitted
+  dryRun?: boolean; // Count clusters without merging them
+}
+
+export interface DedupeSummary {
+  cells: number;
+  clusters: number;
+  merged: number; // Duplicate rows folded into a canonical one (or that would be, in a dry run)
+  failed: number;
+  dryRun: boolean;
+}
+
+interface Cluster {
+  members: number[];
+  osmIds: Set<string>;
+  googlePlaceIds: Set<string>;
+}
+
+/**
+ * Offline pass that finds rows describing the same place - typically one saved from OSM and one
+ * from Google - using the same name, distance and category scoring as search-time matching.
+ * Works through the table one grid cell at a time so memory stays bounded.
+ */
+export class DeduplicationService {
+  // One pass at a time: overlapping passes would race to merge the same rows
+  async queue(payload: LocationDedupePayload = {}): Promise<Job | null> {
+    return jobQueue.enqueue(JOB_TYPES.locationDedupe, { ...payload }, { key: 'dedupe', maxAttempts: 1 });
+  }
+
+  async deduplicate(options: DedupeOptions = {}): Promise<DedupeSummary> {
+    const { cellSize } = config.location.dedupe;
+    const dryRun = options.dryRun ?? false;
+    const regionBounds = options.region ? this.regionBounds(options.region) : undefined;
+    const cells = await db.location.findOccupiedCells(cellSize, regionBounds);
+    const summary: DedupeSummary = { cells: cells.length, clusters: 0, merged: 0, failed: 0, dryRun };
+
+    for (const cell of cells) {
+      // Rows are reloaded per cell, so duplicates straddling an edge that were merged already are gone
+      const rows = await db.location.findInBounds(this.cellBounds(cell.row, cell.column, cellSize));
+      const decisions = await this.loadRejectedPairs(rows);
+
+      for (const cluster of this.clusterDuplicates(rows, decisions)) {
+        summary.clusters++;
+        if (dryRun) {
+          summary.merged += cluster.length - 1;
+          continue;
+        }
+
+        try {
+          await this.mergeCluster(cluster);
+          summary.merged += cluster.length - 1;
+        } catch (error) {
+          summary.failed++;
+          console.warn(`Failed to merge duplicates of ${cluster[0]!.name}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    console.log(
+      `🧬 Deduplication${dryRun ? ' (dry run)' : ''}: ${summary.clusters} clusters, ` +
+      `${summary.merged} duplicates merged, ${summary.failed} failed across ${summary.cells} cells`
+    );
+    return summary;
+  }
+
+  /**
+   * Groups rows that score above the threshold against each other, most confident pairs first.
+   * A cluster never holds two different OSM elements or two different Google places, and never a
+   * pair an admin rejected in the match review queue.
+   */
+  private clusterDuplicates(rows: StoredLocation[], rejectedPairs: Set<string>): StoredLocation[][] {
+    const { minConfidence, maxDistance } = config.location.dedupe;
+    const pairs: Array<{ a: number; b: number; confidence: number }> = [];
+
+    // Rows come sorted by latitude, so stop looking once they are too far north
+    for (let i = 0; i < rows.length; i++) {
+      const a = rows[i]!;
+      for (let j = i + 1; j < rows.length; j++) {
+        const b = rows[j]!;
+        if ((b.latitude - a.latitude) * METERS_PER_DEGREE > maxDistance) break;
+
+        const distance = distanceInMeters(a.latitude, a.longitude, b.latitude, b.longitude);
+        if (distance > maxDistance) continue;
+
+        const confidence = calculateMergeConfidence(
+          distance,
+          calculateNameSimilarity(a.name, b.name),
+          categoriesMatch(a.category as POICategory, b.category as POICategory)
+        );
+        if (confidence >= minConfidence) {
+          pairs.push({ a: i, b: j, confidence });
+        }
+      }
+    }
+
+    const clusterOf = rows.map((_row, index) => index);
+    const clusters = new Map<number, Cluster>(rows.map((row, index) => [index, {
+      members: [index],
+      osmIds: new Set(row.osmId ? [row.osmId] : []),
+      googlePlaceIds: new Set(row.googlePlaceId ? [row.googlePlaceId] : [])
+    }]));
+
+    for (const pair of pairs.sort((x, y) => y.confidence - x.confidence)) {
+      const firstKey = clusterOf[pair.a]!;
+      const secondKey = clusterOf[pair.b]!;
+      if (firstKey === secondKey) continue;
+
+      const first = clusters.get(firstKey)!;
+      const second = clusters.get(secondKey)!;
+      if (!this.canJoin(first, second, rejectedPairs)) continue;
+
+      for (const member of second.members) {
+        clusterOf[member] = firstKey;
+        first.members.push(member);
+      }
+      second.osmIds.forEach(id => first.osmIds.add(id));
+      second.googlePlaceIds.forEach(id => first.googlePlaceIds.add(id));
+      clusters.delete(secondKey);
+    }
+
+    return Array.from(clusters.values())
+      .filter(cluster => cluster.members.length > 1)
+      .map(cluster => cluster.members.map(index => rows[index]!));
+  }
+
+  private canJoin(first: Cluster, second: Cluster, rejectedPairs: Set<string>): boolean {
+    const osmIds = new Set([...first.osmIds, ...second.osmIds]);
+    const googlePlaceIds = new Set([...first.googlePlaceIds, ...second.googlePlaceIds]);
+    if (osmIds.size > 1 || googlePlaceIds.size > 1) return false;
+
+    const [osmId] = osmIds;
+    const [googlePlaceId] = googlePlaceIds;
+    return !(osmId && googlePlaceId && rejectedPairs.has(`${osmId}|${googlePlaceId}`));
+  }
+
+  // Folds a cluster into its best row, carrying over the Google match when only a duplicate had it
+  private async mergeCluster(cluster: StoredLocation[]): Promise<void> {
+    const [canonical, ...duplicates] = [...cluster].sort((a, b) => this.compareCanonical(a, b));
+    if (!canonical) return;
+
+    let data: Prisma.LocationUpdateInput = {};
+    const googleDonor = canonical.googlePlaceId ? undefined : duplicates.find(row => row.googlePlaceId);
+    const hybrid = locationService.getHybridProvider();
+
+    if (googleDonor && hybrid) {
+      const googlePlace = hybrid.dbLocationToPlace(googleDonor);
+      googlePlace.metadata = {
+        ...googlePlace.metadata!,
+        google: googlePlace.metadata?.google ?? { placeId: googleDonor.googlePlaceId! }
+      };
+      data = hybrid.buildGoogleMatchUpdate(canonical, googlePlace).data;
+    } else {
+      const withAddress = duplicates.find(row => row.address);
+      const withDescription = duplicates.find(row => row.description);
+      data = {
+        ...(!canonical.address && withAddress && { address: withAddress.address }),
+        ...(!canonical.description && withDescription && { description: withDescription.description }),
+        ...(googleDonor && { googlePlaceId: googleDonor.googlePlaceId })
+      };
+    }
+
+    await db.location.mergeDuplicates(
+      canonical.id,
+      duplicates.map(row => ({ id: row.id, snapshot: this.toSnapshot(row) })),
+      data
+    );
+    console.log(`🧬 Merged ${duplicates.length} duplicate(s) into ${canonical.name} (${canonical.id})`);
+  }
+
+  // OSM ids stay primary (as in search-time merges), then whatever has more attached to it
+  private compareCanonical(a: StoredLocation, b: StoredLocation): number {
+    return (
+      Number(!!b.osmId) - Number(!!a.osmId) ||
+      Number(!!b.googlePlaceId) - Number(!!a.googlePlaceId) ||
+      b._count.recommendations - a._count.recommendations ||
+      Number(b.qualityScore ?? 0) - Number(a.qualityScore ?? 0) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  private async loadRejectedPairs(rows: StoredLocation[]): Promise<Set<string>> {
+    const osmIds = rows.flatMap(row => row.osmId ?? []);
+    const decisions = await db.placeMatch.findDecisions(osmIds);
+
+    return new Set(
+      decisions
+        .filter(decision => decision.status === 'rejected')
+        .map(decision => `${decision.osmId}|${decision.googlePlaceId}`)
+    );
+  }
+
+  private toSnapshot(row: StoredLocation): Prisma.InputJsonValue {
+    const location: Partial<StoredLocation> = { ...row };
+    delete location._count;
+    return JSON.parse(JSON.stringify(location)) as Prisma.InputJsonValue;
+  }
+
+  // Cell plus a margin wide enough to catch duplicates just across its edges
+  private cellBounds(row: number, column: number, cellSize: number): LocationBounds {
+    const minLat = row * cellSize;
+    const marginLat = config.location.dedupe.maxDistance / METERS_PER_DEGREE;
+    const marginLng = marginLat / Math.max(Math.cos((minLat + cellSize / 2) * Math.PI / 180), 0.01);
+
+    return {
+      minLat: minLat - marginLat,
+      maxLat: minLat + cellSize + marginLat,
+      minLng: column * cellSize - marginLng,
+      maxLng: (column + 1) * cellSize + marginLng
+    };
+  }
+
+  private regionBounds(region: DedupeRegion): LocationBounds {
+    const latDelta = region.radius / METERS_PER_DEGREE;
+    const lngDelta = region.radius / (METERS_PER_DEGREE * Math.max(Math.cos(region.latitude * Math.PI / 180), 0.01));
+
+    return {
+      minLat: region.latitude - latDelta,
+      maxLat: region.latitude + latDelta,
+      minLng: region.longitude - lngDelta,
+      maxLng: region.longitude + lngDelta
+    };
+  }
+}
+
+export const deduplicationService = new DeduplicationService();
@@ -0,0 +1,161 @@
+// src/shared/services/location/geohash.ts - geohash encoding and tile coverage for search circles
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const METERS_PER_DEGREE = 111320;
+
+export interface GeohashBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface TileCoverage {
+  precision: number;
+  geohashes: string[];
+}
+
+export function encodeGeohash(latitude: number, longitude: number, precision: number): string {
+  let minLat = -90, maxLat = 90;
+  let minLng = -180, maxLng = 180;
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true; // Bits alternate between longitude and latitude, longitude first
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (minLng + maxLng) / 2;
+      if (longitude >= mid) {
+        value = value * 2 + 1;
+        minLng = mid;
+      } else {
+        value *= 2;
+        maxLng = mid;
+      }
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      if (latitude >= mid) {
+        value = value * 2 + 1;
+        minLat = mid;
+      } else {
+        value *= 2;
+        maxLat = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+export function decodeGeohashBounds(hash: string): GeohashBounds {
+  let minLat = -90, maxLat = 90;
+  let minLng = -180, maxLng = 180;
+  let evenBit = true;
+
+  for (const char of hash) {
+    const index = BASE32.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid geohash character '${char}' in ${hash}`);
+    }
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const set = (index >> bit) & 1;
+      if (evenBit) {
+        const mid = (minLng + maxLng) / 2;
+        if (set) minLng = mid; else maxLng = mid;
+      } else {
+        const mid = (minLat + maxLat) / 2;
+        if (set) minLat = mid; else maxLat = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { minLat, maxLat, minLng, maxLng };
+}
+
+/**
+ * Geohash tiles that intersect a search circle. Starts at the given precision and gets coarser
+ * until the circle fits in `maxTiles`, so a wide search doesn't turn into dozens of provider calls.
+ */
+export function coverCircle(
+  latitude: number,
+  longitude: number,
+  radius: number,
+  precision: number,
+  maxTiles: number
+): TileCoverage {
+  for (let current = precision; current > 1; current--) {
+    const geohashes = tilesInCircle(latitude, longitude, radius, current);
+    if (geohashes.length <= maxTiles) {
+      return { precision: current, geohashes };
+    }
+  }
+
+  return { precision: 1, geohashes: tilesInCircle(latitude, longitude, radius, 1) };
+}
+
+// Circle around a tile, used to ask a provider for everything inside it
+export function tileSearchArea(hash: string): { latitude: number; longitude: number; radius: number } {
+  const bounds = decodeGeohashBounds(hash);
+  const latitude = (bounds.minLat + bounds.maxLat) / 2;
+  const longitude = (bounds.minLng + bounds.maxLng) / 2;
+
+  const halfHeight = (bounds.maxLat - bounds.minLat) / 2 * METERS_PER_DEGREE;
+  // The widest part of the tile is its edge nearest the equator
+  const widestLatitude = Math.min(Math.abs(bounds.minLat), Math.abs(bounds.maxLat));
+  const halfWidth = (bounds.maxLng - bounds.minLng) / 2 * METERS_PER_DEGREE * Math.cos(widestLatitude * Math.PI / 180);
+
+  return { latitude, longitude, radius: Math.ceil(Math.sqrt(halfHeight ** 2 + halfWidth ** 2)) };
+}
+
+function tilesInCircle(latitude: number, longitude: number, radius: number, precision: number): string[] {
+  const lngBits = Math.ceil(precision * 5 / 2);
+  const latBits = Math.floor(precision * 5 / 2);
+  const cellHeight = 180 / 2 ** latBits;
+  const cellWidth = 360 / 2 ** lngBits;
+
+  const latDelta = radius / METERS_PER_DEGREE;
+  const lngDelta = radius / (METERS_PER_DEGREE * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+
+  const minLat = Math.max(latitude - latDelta, -90);
+  const maxLat = Math.min(latitude + latDelta, 90);
+  const firstRow = Math.floor((minLat + 90) / cellHeight);
+  const lastRow = Math.min(Math.floor((maxLat + 90) / cellHeight), 2 ** latBits - 1);
+  const firstColumn = Math.floor((longitude - lngDelta + 180) / cellWidth);
+  const lastColumn = Math.floor((longitude + lngDelta + 180) / cellWidth);
+
+  const hashes = new Set<string>();
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      const cellMinLat = row * cellHeight - 90;
+      const cellMinLng = column * cellWidth - 180;
+
+      // Skip corner cells of the bounding box that the circle doesn't reach
+      const nearestLat = Math.min(Math.max(latitude, cellMinLat), cellMinLat + cellHeight);
+      const nearestLng = Math.min(Math.max(longitude, cellMinLng), cellMinLng + cellWidth);
+      if (approximateDistance(latitude, longitude, nearestLat, nearestLng) > radius) continue;
+
+      // Wrap across the antimeridian
+      const wrappedLng = ((cellMinLng + cellWidth / 2 + 540) % 360) - 180;
+      hashes.add(encodeGeohash(cellMinLat + cellHeight / 2, wrappedLng, precision));
+    }
+  }
+
+  return Array.from(hashes);
+}
+
+// Equirectangular approximation - plenty for deciding whether a tile touches a few-km circle
+function approximateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const x = (lng2 - lng1) * Math.cos(((lat1 + lat2) / 2) * Math.PI / 180);
+  const y = lat2 - lat1;
+  return Math.sqrt(x * x + y * y) * METERS_PER_DEGREE;
+}
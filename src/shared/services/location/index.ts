@@ -1,3 +1,9 @@
 export * from './types';
 export * from './location.service';
+export * from './provider-usage.service';
+export * from './place-match.service';
+export * from './deduplication.service';
+export * from './provenance';
+export * from './place-dates';
+export * from './text-search.service';
 export * from './providers';
\ No newline at end of file
@@ -1,7 +1,8 @@
 // src/shared/services/location/location.service.ts - COMPLETE HYBRID INTEGRATION
 
 import { config } from '@shared/config';
-import { AppError } from '@shared/errors';
+import { AppError, ValidationError } from '@shared/errors';
+import { Location, Prisma } from '@prisma/client';
 import { db } from '@shared/database';
 import {
   LocationProvider,
@@ -10,18 +11,38 @@ import {
   Place,
   POICategory,
   MOOD_CATEGORY_MAPPING,
-  LocationServiceConfig
+  LocationServiceConfig,
+  OpeningHoursFilter,
+  PlaceMetadata
 } from './types';
-import { OSMProvider, GooglePlacesProvider, HybridProvider } from './providers'; // ADDED HybridProvider
-
-interface CacheEntry {
-  data: LocationSearchResponse;
-  timestamp: number;
+import { OSMProvider, GooglePlacesProvider, HybridProvider, TiledLocationProvider } from './providers'; // ADDED HybridProvider
+import { cacheStore, CacheStats } from '../cache';
+import { userPreferencesService } from '../user-preferences.service';
+import { UserPreferences } from '@shared/schemas/user.schema';
+import { resolveLocalTime, isOpenAt, formatMinutes } from './opening-hours';
+import { timezoneService } from '../timezone';
+import { jobQueue } from '../jobs/job-queue.service';
+import { JOB_TYPES, GoogleEnrichmentPayload, LocationRefreshPayload } from '../jobs/types';
+import { providerUsageService } from './provider-usage.service';
+import { mergeRefreshedFields } from './provenance';
+import { revivePlaceDates } from './place-dates';
+
+// Searches filtered by opening hours fetch this many times the limit, as closed places are dropped afterwards
+const OPENING_HOURS_OVERFETCH = 3;
+
+export interface GoogleEnrichmentSummary {
+  candidates: number;
+  merged: number;
+  conflicts: number; // Borderline matches queued for review
+  noMatch: number;
+  failed: number;
+  budgetExhausted: boolean;
+  stoppedReason?: string;
 }
 
 export class LocationService {
   private providers: Map<string, LocationProvider> = new Map();
-  private cache: Map<string, CacheEntry> = new Map();
+  private readonly cacheNamespace = 'locations';
   private serviceConfig: LocationServiceConfig;
 
   constructor() {
@@ -45,7 +66,7 @@ export class LocationService {
     try {
       const osmProvider = new OSMProvider();
       if (osmProvider.validateConfig()) {
-        this.providers.set('osm', osmProvider);
+        this.providers.set('osm', new TiledLocationProvider(osmProvider));
         console.log('✅ OSM provider initialized successfully');
       }
     } catch (error) {
@@ -57,7 +78,7 @@ export class LocationService {
       if (config.apis.googlePlaces) {
         const googleProvider = new GooglePlacesProvider();
         if (googleProvider.validateConfig()) {
-          this.providers.set('google', googleProvider);
+          this.providers.set('google', new TiledLocationProvider(googleProvider));
           console.log('✅ Google Places provider initialized successfully');
         }
       } else {
@@ -100,16 +121,48 @@ export class LocationService {
     console.log(`📍 Location service initialized with providers: ${Array.from(this.providers.keys()).join(', ')}`);
   }
 
-  async searchNearby(request: LocationSearchRequest): Promise<LocationSearchResponse> {
+  async searchNearby(
+    request: LocationSearchRequest,
+    userId?: string,
+    openingHours?: OpeningHoursFilter
+  ): Promise<LocationSearchResponse> {
+    const filtered = openingHours && (openingHours.openNow || openingHours.openAt);
+    const limit = request.limit || this.serviceConfig.resultsPerCategory;
+
+    const results = await this.searchNearbyPlaces(
+      filtered ? { ...request, limit: limit * OPENING_HOURS_OVERFETCH } : request,
+      userId
+    );
+
+    // Filtered after caching so the same cached search serves every time of day
+    const response = filtered
+      ? this.filterByOpeningHours(results, request, openingHours, limit)
+      : results;
+
+    return {
+      ...response,
+      metadata: {
+        ...response.metadata,
+        localContext: timezoneService.getLocalContext(request.latitude, request.longitude, new Date(), openingHours?.timezone)
+      }
+    };
+  }
+
+  private async searchNearbyPlaces(request: LocationSearchRequest, userId?: string): Promise<LocationSearchResponse> {
+    // Only consult the profile when the caller left the choice of places open
+    const profile = userId && !request.categories && !request.mood
+      ? await userPreferencesService.findPreferences(userId)
+      : undefined;
+
     // Validate and normalize request
-    const normalizedRequest = this.normalizeRequest(request);
+    const normalizedRequest = this.normalizeRequest(request, profile);
 
     // Generate cache key
     const cacheKey = this.generateCacheKey(normalizedRequest);
 
     // Check cache first
     if (this.serviceConfig.enableCaching) {
-      const cached = this.getFromCache(cacheKey);
+      const cached = await this.getFromCache(cacheKey);
       if (cached) {
         return cached;
       }
@@ -123,7 +176,7 @@ export class LocationService {
 
         // Cache the response
         if (this.serviceConfig.enableCaching) {
-          this.setCache(cacheKey, providerResponse);
+          await this.setCache(cacheKey, providerResponse);
         }
 
         return providerResponse;
@@ -157,7 +210,7 @@ export class LocationService {
       };
 
       if (this.serviceConfig.enableCaching) {
-        this.setCache(cacheKey, response);
+        await this.setCache(cacheKey, response);
       }
 
       return response;
@@ -172,7 +225,7 @@ export class LocationService {
 
       // Cache the response
       if (this.serviceConfig.enableCaching) {
-        this.setCache(cacheKey, providerResponse);
+        await this.setCache(cacheKey, providerResponse);
       }
 
       return providerResponse;
@@ -196,11 +249,70 @@ export class LocationService {
     }
   }
 
-  private normalizeRequest(request: LocationSearchRequest): Required<LocationSearchRequest> {
-    // Apply mood-based category selection if no categories specified
+  private filterByOpeningHours(
+    response: LocationSearchResponse,
+    request: LocationSearchRequest,
+    filter: OpeningHoursFilter,
+    limit: number
+  ): LocationSearchResponse {
+    if (filter.timezone && !timezoneService.isValidTimezone(filter.timezone)) {
+      throw new ValidationError('Invalid opening hours filter', [
+        { field: 'timezone', message: 'Unknown IANA timezone', value: filter.timezone }
+      ]);
+    }
+
+    const local = resolveLocalTime(filter.openAt, request, filter.timezone);
+    if (Number.isNaN(local.minutes)) {
+      throw new ValidationError('Invalid opening hours filter', [
+        { field: 'openAt', message: 'Not a valid date-time', value: filter.openAt }
+      ]);
+    }
+
+    let excludedClosed = 0;
+    let excludedUnknown = 0;
+
+    const places = response.places.filter(place => {
+      const open = isOpenAt(place.metadata?.hours, local, place.coordinates);
+
+      if (open === null) {
+        if (filter.includeUnknown) return true;
+        excludedUnknown++;
+        return false;
+      }
+
+      if (!open) excludedClosed++;
+      return open;
+    }).slice(0, limit);
+
+    return {
+      places,
+      metadata: {
+        ...response.metadata,
+        totalResults: places.length,
+        openingHours: {
+          localDate: local.date.toISOString().slice(0, 10),
+          localTime: formatMinutes(local.minutes),
+          timezone: local.timezone,
+          utcOffsetMinutes: local.utcOffsetMinutes,
+          excludedClosed,
+          excludedUnknown
+        }
+      }
+    };
+  }
+
+  private normalizeRequest(request: LocationSearchRequest, profile?: UserPreferences): Required<LocationSearchRequest> {
+    // Fall back to the user's favourite categories and default mood when the request names neither
     let categories = request.categories;
-    if (!categories && request.mood) {
-      const moodCategories = MOOD_CATEGORY_MAPPING[request.mood];
+    if (!categories && !request.mood && profile?.favouriteCategories?.length) {
+      categories = profile.favouriteCategories.map(category => category as POICategory);
+    }
+
+    const mood = request.mood || profile?.defaultMood;
+
+    // Apply mood-based category selection if no categories specified
+    if (!categories && mood) {
+      const moodCategories = MOOD_CATEGORY_MAPPING[mood];
       categories = moodCategories ? [...moodCategories] : [];
     }
 
@@ -209,7 +321,7 @@ export class LocationService {
       longitude: request.longitude,
       radius: Math.min(request.radius || this.serviceConfig.defaultRadius, this.serviceConfig.maxRadius),
       categories: categories || Object.values(POICategory),
-      mood: request.mood || 'curious',
+      mood: mood || 'curious',
       limit: request.limit || this.serviceConfig.resultsPerCategory,
       excludeChains: request.excludeChains || false
     };
@@ -338,36 +450,24 @@ export class LocationService {
     return Buffer.from(JSON.stringify(keyData)).toString('base64');
   }
 
-  private getFromCache(key: string): LocationSearchResponse | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-
-    const isExpired = Date.now() - entry.timestamp > this.serviceConfig.cacheTimeout * 1000;
-    if (isExpired) {
-      this.cache.delete(key);
-      return null;
-    }
+  private async getFromCache(key: string): Promise<LocationSearchResponse | null> {
+    const cached = await cacheStore.get<LocationSearchResponse>(this.cacheNamespace, key);
+    if (!cached) return null;
 
-    entry.data.metadata.cached = true;
-    return entry.data;
+    return {
+      ...cached,
+      places: cached.places.map(revivePlaceDates),
+      metadata: { ...cached.metadata, cached: true }
+    };
   }
 
-  private setCache(key: string, data: LocationSearchResponse): void {
-    const clonedData = JSON.parse(JSON.stringify(data));
-    clonedData.metadata.cached = false;
-
-    this.cache.set(key, {
-      data: clonedData,
-      timestamp: Date.now()
-    });
-
-    // Simple cache cleanup
-    if (this.cache.size > 100) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
-      }
-    }
+  private async setCache(key: string, data: LocationSearchResponse): Promise<void> {
+    await cacheStore.set(
+      this.cacheNamespace,
+      key,
+      { ...data, metadata: { ...data.metadata, cached: false } },
+      this.serviceConfig.cacheTimeout
+    );
   }
 
   // Utility methods
@@ -379,40 +479,26 @@ export class LocationService {
     return this.serviceConfig.primaryProvider;
   }
 
-  clearCache(): void {
-    this.cache.clear();
+  // The hybrid provider owns OSM/Google matching, so enrichment and match review go through it
+  getHybridProvider(): HybridProvider | null {
+    const hybrid = this.providers.get('hybrid');
+    return hybrid instanceof HybridProvider ? hybrid : null;
   }
 
-  getCacheStats(): { size: number; keys: string[] } {
-    return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys())
-    };
+  async clearCache(): Promise<number> {
+    const tiles = await cacheStore.invalidate('location-tiles');
+    return tiles + await cacheStore.invalidate(this.cacheNamespace);
+  }
+
+  async getCacheStats(): Promise<CacheStats> {
+    return cacheStore.getStats(this.cacheNamespace);
   }
 
   async getPlaceDetails(id: string): Promise<Place | null> {
-    // First try database
-    const location = await db.location.findById(id);
+    // First try database, following the alias of a location merged into another one
+    const location = await db.location.findById(id) ?? await this.findMergedLocation(id);
     if (location) {
-      return {
-        id: location.id,
-        name: location.name,
-        category: location.category as POICategory,
-        subcategory: location.category,
-        coordinates: {
-          latitude: location.latitude,
-          longitude: location.longitude
-        },
-        ...(location.address && { address: location.address }),
-        ...(location.description && { description: location.description }),
-        metadata: {
-          source: location.source as any,
-          externalId: location.osmId || location.googlePlaceId || location.id,
-          lastUpdated: location.lastUpdated,
-          verified: location.verified,
-          ...(location.metadata as any)
-        }
-      };
+      return this.locationToPlace(location);
     }
 
     // Try external providers based on ID format
@@ -433,11 +519,193 @@ export class LocationService {
     return null;
   }
 
-  async refreshStaleData(): Promise<void> {
-    const staleLocations = await db.location.findStaleLocations(24);
-    console.log(`Found ${staleLocations.length} stale locations to refresh`);
+  // Queues a refresh job for every location whose provider data has gone stale; the worker runs them
+  async refreshStaleData(): Promise<{ osm: number; google: number }> {
+    const { staleAfterHours, refreshBatchSize } = config.jobs;
+    const queued = { osm: 0, google: 0 };
+
+    for (const provider of ['osm', 'google'] as const) {
+      if (!this.providers.has(provider)) continue;
+
+      const staleLocations = await db.location.findStaleLocations(staleAfterHours, provider, refreshBatchSize);
+      for (const location of staleLocations) {
+        const payload: LocationRefreshPayload = { locationId: location.id, provider };
+        const job = await jobQueue.enqueue(JOB_TYPES.locationRefresh, { ...payload }, { key: `${provider}:${location.id}` });
+        if (job) queued[provider]++;
+      }
+    }
+
+    console.log(`🔄 Queued ${queued.osm} OSM and ${queued.google} Google location refreshes`);
+    return queued;
+  }
+
+  // Re-fetches one location from a provider; throws when the provider can't be reached so the job retries
+  async refreshLocation(locationId: string, provider: 'osm' | 'google'): Promise<{ status: 'refreshed' | 'missing' | 'skipped' }> {
+    const location = await db.location.findById(locationId);
+    if (!location) {
+      return { status: 'missing' }; // Deleted since the job was queued
+    }
+
+    const externalId = provider === 'osm' ? location.osmId : location.googlePlaceId;
+    if (!externalId) {
+      return { status: 'skipped' };
+    }
+
+    const source = this.providers.get(provider);
+    if (!source) {
+      throw new Error(`Location provider '${provider}' is not configured`);
+    }
+
+    // Providers return null for both unknown ids and failed requests, so treat it as retryable
+    const place = await source.getPlaceDetails(externalId);
+    if (!place?.metadata) {
+      throw new Error(`${provider} returned no details for ${externalId}`);
+    }
+
+    await db.location.markRefreshed(location.id, provider, this.buildRefreshUpdate(location, provider, place));
+    return { status: 'refreshed' };
+  }
+
+  // A stored row in the shape providers return
+  locationToPlace(location: Location): Place {
+    // Stored metadata is JSON, so the dates it carries are strings
+    return revivePlaceDates({
+      id: location.id,
+      name: location.name,
+      category: location.category as POICategory,
+      subcategory: location.category,
+      coordinates: {
+        latitude: location.latitude,
+        longitude: location.longitude
+      },
+      ...(location.address && { address: location.address }),
+      ...(location.description && { description: location.description }),
+      metadata: {
+        source: location.source as any,
+        externalId: location.osmId || location.googlePlaceId || location.id,
+        lastUpdated: location.lastUpdated,
+        verified: location.verified,
+        ...(location.metadata as any)
+      }
+    });
+  }
+
+  // IDs removed by deduplication stay valid; the place returned carries the surviving ID
+  private async findMergedLocation(id: string) {
+    const alias = await db.location.findAlias(id);
+    return alias ? db.location.findById(alias.locationId) : null;
+  }
+
+  // Queues a Google enrichment batch unless enrichment runs inline or today's budget is spent
+  async queueGoogleEnrichment(): Promise<boolean> {
+    if (config.location.googleEnrichment.mode !== 'async' || !this.providers.has('google')) {
+      return false;
+    }
+    if (await this.getGoogleBudgetBlock()) {
+      return false;
+    }
+
+    const payload: GoogleEnrichmentPayload = {};
+    const job = await jobQueue.enqueue(JOB_TYPES.googleEnrichment, { ...payload }, { key: 'batch' });
+    return job !== null;
+  }
+
+  /**
+   * Matches OSM-only locations against Google and stores the merged places. Stops early once the
+   * daily Google call budget or the monthly spend cap is used up; the rest are picked up by a later batch.
+   */
+  async enrichWithGoogle(limit: number = config.location.googleEnrichment.batchSize): Promise<GoogleEnrichmentSummary> {
+    const hybrid = this.getHybridProvider();
+    if (!hybrid || !this.providers.has('google')) {
+      throw new Error('Google enrichment needs the hybrid and Google providers');
+    }
+
+    const { retryAfterDays } = config.location.googleEnrichment;
+    const checkedBefore = new Date(Date.now() - retryAfterDays * 24 * 60 * 60 * 1000);
+    const candidates = await db.location.findLocationsForGoogleEnrichment(limit, checkedBefore);
+    const summary: GoogleEnrichmentSummary = { candidates: candidates.length, merged: 0, conflicts: 0, noMatch: 0, failed: 0, budgetExhausted: false };
+
+    // The Google provider records each request it makes, so the checks see this batch's own calls
+    for (const location of candidates) {
+      const block = await this.getGoogleBudgetBlock();
+      if (block) {
+        summary.budgetExhausted = true;
+        summary.stoppedReason = block;
+        break;
+      }
+
+      try {
+        const result = await hybrid.enrichLocation(location);
+        if (result.status === 'merged') summary.merged++;
+        else if (result.status === 'conflict') summary.conflicts++;
+        else if (result.status === 'no-match') summary.noMatch++;
+      } catch (error) {
+        summary.failed++;
+        console.warn(`Google enrichment failed for ${location.name}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(
+      `💎 Google enrichment: ${summary.merged} merged, ${summary.conflicts} for review, ${summary.noMatch} without a match, ${summary.failed} failed` +
+      `${summary.stoppedReason ? ` (${summary.stoppedReason})` : ''}`
+    );
+    return summary;
+  }
+
+  // Why the worker may not call Google right now, or null when it may
+  private async getGoogleBudgetBlock(): Promise<string | null> {
+    const monthly = await providerUsageService.getMonthlyStatus('google');
+    if (monthly.degraded) {
+      return `monthly spend cap nearly reached ($${monthly.spent} of $${monthly.cap})`;
+    }
+
+    if (!(await providerUsageService.hasDailyBudget('google'))) {
+      return 'daily call budget used up';
+    }
+
+    return null;
+  }
+
+  // Merges re-fetched provider data into a stored location, taking each field from the most trusted source
+  private buildRefreshUpdate(location: Location, provider: 'osm' | 'google', place: Place): Prisma.LocationUpdateInput {
+    const existing = (location.metadata ?? {}) as Partial<PlaceMetadata>;
+    const fresh = place.metadata!;
+    const { values, provenance } = mergeRefreshedFields(
+      this.locationToPlace(location),
+      place,
+      provider,
+      provider === 'osm' ? 'google' : 'osm'
+    );
+    const { name, address, description, hours, phone, website, email } = values;
+    const google = provider === 'google' ? fresh.google : undefined;
 
-    // TODO: Implement background refresh logic
+    return {
+      // OSM coordinates win unless the place came from Google alone
+      ...(provider === 'osm' && location.source !== 'google' && {
+        latitude: place.coordinates.latitude,
+        longitude: place.coordinates.longitude
+      }),
+      ...(name && { name }),
+      ...(address && { address }),
+      ...(description && { description }),
+      ...(google?.rating !== undefined && { rating: google.rating }),
+      ...(google?.reviewCount !== undefined && { reviewCount: google.reviewCount }),
+      ...(google?.priceLevel !== undefined && { priceLevel: google.priceLevel }),
+      metadata: {
+        ...existing,
+        ...(provider === 'osm' && fresh.osm && { osm: fresh.osm }),
+        ...(google && { google }),
+        ...(hours && { hours }),
+        contact: {
+          ...(existing.contact ?? {}),
+          ...(phone && { phone }),
+          ...(website && { website }),
+          ...(email && { email })
+        },
+        provenance,
+        lastUpdated: new Date().toISOString()
+      } as unknown as Prisma.InputJsonValue
+    };
   }
 
   // UPDATED: Provider switching capability for testing (now includes hybrid)
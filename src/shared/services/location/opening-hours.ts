@@ -0,0 +1,214 @@
+// src/shared/services/location/opening-hours.ts - interpret PlaceMetadata.hours for a given day
+
+import {
+  parseOpeningHours,
+  evaluateOpeningHours,
+  OpeningHoursSchedule,
+  OpeningHoursContext,
+  OpeningInterval
+} from './osm-opening-hours';
+import { timezoneService } from '../timezone';
+
+export type { OpeningInterval, OpeningHoursContext };
+
+// Wall-clock time at a place
+export interface LocalTime {
+  date: Date; // Local calendar day at 00:00 UTC
+  minutes: number; // Minutes since local midnight
+  utcOffsetMinutes: number;
+  timezone: string;
+}
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_PARSED_SCHEDULES = 500;
+
+// The same few tag values repeat across most places, so parse each one once
+const parsedSchedules = new Map<string, OpeningHoursSchedule | null>();
+
+/**
+ * Opening intervals for the day of `date` (read in UTC, so pass a local calendar date).
+ * Returns [] when closed all day and null when the hours don't say.
+ */
+export function getOpeningIntervals(
+  hours: Record<string, string> | undefined,
+  date: Date,
+  context: OpeningHoursContext = {}
+): OpeningInterval[] | null {
+  if (!hours) return null;
+
+  // A parseable OSM opening_hours value knows about dates, holidays and sun times, so it wins
+  const schedule = hours.general ? getSchedule(hours.general) : null;
+  if (schedule) {
+    return evaluateOpeningHours(schedule, date, withUtcOffset(context, date));
+  }
+
+  const dayName = DAY_NAMES[date.getUTCDay()]!;
+  const dayHours = hours[dayName];
+  if (dayHours) {
+    return parseDayHours(dayHours);
+  }
+
+  return null;
+}
+
+// Sun events need the place's UTC offset; look it up when the caller only knows where the place is
+function withUtcOffset(context: OpeningHoursContext, date: Date): OpeningHoursContext {
+  if (context.utcOffsetMinutes !== undefined || context.latitude === undefined || context.longitude === undefined) {
+    return context;
+  }
+
+  const { timezone } = timezoneService.lookup(context.latitude, context.longitude);
+  const midday = new Date(date.getTime() + 12 * 60 * 60000);
+
+  return { ...context, utcOffsetMinutes: timezoneService.getUtcOffsetMinutes(timezone, midday) };
+}
+
+// Whether a place is open at a local time; null when its hours are unknown
+export function isOpenAt(
+  hours: Record<string, string> | undefined,
+  local: LocalTime,
+  coordinates: Coordinates
+): boolean | null {
+  const intervals = getOpeningIntervals(hours, local.date, {
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude,
+    utcOffsetMinutes: local.utcOffsetMinutes
+  });
+  if (intervals === null) return null;
+
+  return intervals.some(interval => interval.open <= local.minutes && local.minutes < interval.close);
+}
+
+// Local wall-clock time for an instant, in the given IANA timezone or the one at the coordinates
+export function toLocalTime(instant: Date, coordinates: Coordinates, timezone?: string): LocalTime {
+  const zone = timezone ?? timezoneService.lookup(coordinates.latitude, coordinates.longitude).timezone;
+  const utcOffsetMinutes = timezoneService.getUtcOffsetMinutes(zone, instant);
+  const shifted = new Date(instant.getTime() + utcOffsetMinutes * 60000);
+
+  return {
+    date: new Date(Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate())),
+    minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes(),
+    utcOffsetMinutes,
+    timezone: zone
+  };
+}
+
+/**
+ * Local time for an "openAt" value, or for now when it's omitted. A value with an offset or "Z"
+ * is an instant; without one it is already the wall-clock time at the place.
+ */
+export function resolveLocalTime(at: string | undefined, coordinates: Coordinates, timezone?: string): LocalTime {
+  if (!at) {
+    return toLocalTime(new Date(), coordinates, timezone);
+  }
+
+  const wallClock = at.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+  if (!wallClock) {
+    return toLocalTime(new Date(at), coordinates, timezone);
+  }
+
+  const [, year, month, day, hours, minutes] = wallClock.map(Number) as number[];
+  const wallTime = Date.UTC(year!, month! - 1, day!, hours!, minutes!);
+  // Offsets only change at DST transitions, so the offset a few hours either way is good enough here
+  const { utcOffsetMinutes, timezone: zone } = toLocalTime(new Date(wallTime), coordinates, timezone);
+
+  return {
+    date: new Date(Date.UTC(year!, month! - 1, day!)),
+    minutes: hours! * 60 + minutes!,
+    utcOffsetMinutes,
+    timezone: zone
+  };
+}
+
+function getSchedule(value: string): OpeningHoursSchedule | null {
+  if (parsedSchedules.has(value)) {
+    return parsedSchedules.get(value) ?? null;
+  }
+
+  let schedule: OpeningHoursSchedule | null = null;
+  try {
+    schedule = parseOpeningHours(value);
+  } catch {
+    // Free-text hours ("by appointment") fall through to the per-day values
+  }
+
+  if (parsedSchedules.size >= MAX_PARSED_SCHEDULES) {
+    parsedSchedules.clear();
+  }
+  parsedSchedules.set(value, schedule);
+
+  return schedule;
+}
+
+export function isOpenFor(intervals: OpeningInterval[], start: number, minutes: number): boolean {
+  return intervals.some(interval => interval.open <= start && start + minutes <= interval.close);
+}
+
+export function formatMinutes(minutes: number): string {
+  const normalized = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  const mins = normalized % 60;
+  return `${String(hours).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+export function parseClockTime(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1]!, 10);
+  const minutes = parseInt(match[2]!, 10);
+  if (hours > 24 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+// Handles both OSM per-day values ("09:00-17:00") and Google weekday text ("9:00 AM – 5:00 PM")
+function parseDayHours(value: string): OpeningInterval[] | null {
+  // Google separates times from AM/PM with narrow no-break spaces
+  const text = value.replace(/[\u202f\u00a0]/g, ' ').trim().toLowerCase();
+
+  if (text === 'closed' || text === 'off') return [];
+  if (text === 'open 24 hours' || text === '24/7' || text === '00:00-24:00') {
+    return [{ open: 0, close: MINUTES_PER_DAY }];
+  }
+
+  const intervals: OpeningInterval[] = [];
+  for (const range of text.split(',')) {
+    const [startText, endText] = range.split(/\s*[–-]\s*/);
+    if (!startText || !endText) return null;
+
+    const endSuffix = endText.match(/\b(am|pm)$/)?.[1];
+    const close = parseTime(endText);
+    // Google drops the suffix on the opening time when it matches the closing one ("1:00 – 5:00 PM")
+    let open = parseTime(startText, endSuffix);
+    if (open !== null && close !== null && open > close && !/\b(am|pm)$/.test(startText.trim())) {
+      open = parseTime(startText, 'am');
+    }
+
+    if (open === null || close === null) return null;
+    intervals.push({ open, close: close <= open ? close + MINUTES_PER_DAY : close });
+  }
+
+  return intervals;
+}
+
+function parseTime(value: string, defaultSuffix?: string): number | null {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]!, 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const suffix = match[3] ?? defaultSuffix;
+
+  if (suffix === 'pm' && hours < 12) hours += 12;
+  if (suffix === 'am' && hours === 12) hours = 0;
+  if (hours > 24 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,705 @@
+// src/shared/services/location/osm-opening-hours.ts - parser and evaluator for the OSM opening_hours grammar
+//
+// Supports the parts of https://wiki.openstreetmap.org/wiki/Key:opening_hours/specification that tags
+// use in practice: 24/7, weekday ranges and nth weekdays, months and dates, years, PH/SH, time spans
+// (including overnight, open-ended and sunrise/sunset with offsets), off/closed/unknown, comments,
+// additional rules (",") and fallback rules ("||").
+
+import { getSunEventUtcMinutes, SunEvent } from './solar';
+
+export interface OpeningInterval {
+  open: number; // Minutes since local midnight
+  close: number; // Runs past 1440 for places open overnight
+}
+
+export interface TimePoint {
+  event?: SunEvent;
+  minutes: number; // Clock time, or offset from the event
+}
+
+export interface TimeSpan {
+  from: TimePoint;
+  to: TimePoint | null; // null for open-ended spans ("18:00+")
+}
+
+export interface WeekdaySelector {
+  from: number; // 0 = Sunday, like Date.getUTCDay()
+  to: number;
+  nth?: number[]; // Occurrence within the month, negative counts from the end
+}
+
+export interface MonthDay {
+  month: number; // 1-12
+  day?: number;
+}
+
+export interface OpeningHoursRule {
+  years?: Array<{ from: number; to: number }>;
+  dates?: Array<{ from: MonthDay; to: MonthDay }>;
+  weeks?: Array<{ from: number; to: number }>;
+  weekdays: WeekdaySelector[];
+  publicHoliday: boolean;
+  schoolHoliday: boolean;
+  times: TimeSpan[];
+  state: 'open' | 'closed' | 'unknown';
+  additional: boolean; // Added with "," - extends earlier rules instead of replacing them
+  fallback: boolean; // Added with "||" - only used when no earlier rule matched
+  comment?: string;
+}
+
+export interface OpeningHoursSchedule {
+  raw: string;
+  rules: OpeningHoursRule[];
+}
+
+export interface OpeningHoursContext {
+  latitude?: number;
+  longitude?: number;
+  utcOffsetMinutes?: number; // Needed to place sun events in local time
+  publicHoliday?: boolean; // No holiday calendar is bundled, so callers say when a day is one
+}
+
+export class OpeningHoursParseError extends Error {
+  constructor(message: string, public readonly value: string) {
+    super(`Invalid opening_hours "${value}": ${message}`);
+    this.name = 'OpeningHoursParseError';
+  }
+}
+
+type Token =
+  | { type: 'always' }
+  | { type: 'comment'; value: string }
+  | { type: 'time'; value: number }
+  | { type: 'number'; value: number }
+  | { type: 'event'; value: SunEvent }
+  | { type: 'weekday'; value: number }
+  | { type: 'month'; value: number }
+  | { type: 'holiday'; value: 'PH' | 'SH' }
+  | { type: 'state'; value: OpeningHoursRule['state'] }
+  | { type: 'week' }
+  | { type: 'punct'; value: string };
+
+const MINUTES_PER_DAY = 24 * 60;
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+const WEEKDAY_PREFIXES = ['su', 'mo', 'tu', 'we', 'th', 'fr', 'sa'];
+const MONTH_PREFIXES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Used when sun events can't be computed for the place (no coordinates, polar day/night)
+const DEFAULT_SUN_EVENTS: Record<SunEvent, number> = {
+  dawn: 5 * 60 + 30,
+  sunrise: 6 * 60,
+  sunset: 18 * 60,
+  dusk: 18 * 60 + 30
+};
+
+export function parseOpeningHours(value: string): OpeningHoursSchedule {
+  const rules: OpeningHoursRule[] = [];
+
+  splitRules(value).forEach(({ text, fallback }) => {
+    const parser = new RuleParser(tokenize(text, value), value);
+    rules.push(...parser.parse(fallback));
+  });
+
+  if (rules.length === 0) {
+    throw new OpeningHoursParseError('no rules found', value);
+  }
+
+  return { raw: value, rules };
+}
+
+/**
+ * Opening intervals for a local calendar day (read in UTC), including the tail of the previous
+ * day's overnight opening. Returns null when the schedule says the state is unknown.
+ */
+export function evaluateOpeningHours(
+  schedule: OpeningHoursSchedule,
+  date: Date,
+  context: OpeningHoursContext = {}
+): OpeningInterval[] | null {
+  const today = evaluateDay(schedule, date, context);
+  if (today === null) return null;
+
+  const previousDate = new Date(date.getTime() - MINUTES_PER_DAY * 60000);
+  const previous = evaluateDay(schedule, previousDate, { ...context, publicHoliday: false }) ?? [];
+  const spill = previous
+    .filter(interval => interval.close > MINUTES_PER_DAY)
+    .map(interval => ({
+      open: Math.max(0, interval.open - MINUTES_PER_DAY),
+      close: interval.close - MINUTES_PER_DAY
+    }));
+
+  return mergeIntervals([...spill, ...today]);
+}
+
+/**
+ * Typical week as display strings per day ("09:00-17:00", "sunrise-sunset", "closed"), from the
+ * rules that only depend on the weekday. Date, month and holiday exceptions are left out.
+ */
+export function describeWeek(schedule: OpeningHoursSchedule): Record<string, string> {
+  const week: Record<string, string[]> = {};
+  let weekly = false;
+
+  for (const rule of schedule.rules) {
+    const dateSpecific = rule.years || rule.dates || rule.weeks || rule.weekdays.some(selector => selector.nth);
+    if (dateSpecific || rule.publicHoliday || rule.schoolHoliday) continue;
+
+    weekly = true;
+    for (const day of DAY_NAMES.keys()) {
+      if (rule.weekdays.length > 0 && !rule.weekdays.some(selector => inWeekdayRange(selector, day))) continue;
+      if (rule.fallback && week[DAY_NAMES[day]!]) continue;
+
+      const name = DAY_NAMES[day]!;
+      const spans = rule.times.length > 0 ? rule.times.map(formatSpan) : ['00:00-24:00'];
+      const entries =
+        rule.state === 'unknown' ? ['unknown'] :
+        rule.state === 'closed' ? (rule.times.length > 0 ? spans.map(span => `${span} off`) : ['closed']) :
+        spans;
+
+      const existing = (week[name] ?? []).filter(entry => entry !== 'closed');
+      week[name] = rule.additional || (rule.state === 'closed' && rule.times.length > 0)
+        ? [...existing, ...entries]
+        : entries;
+    }
+  }
+
+  if (!weekly) return {};
+
+  return Object.fromEntries(DAY_NAMES.map(name => [name, (week[name] ?? ['closed']).join(',')]));
+}
+
+// Holiday rules as a display string, e.g. "closed" for "PH off"
+export function describePublicHolidays(schedule: OpeningHoursSchedule): string | undefined {
+  const rule = [...schedule.rules].reverse().find(item => item.publicHoliday);
+  if (!rule) return undefined;
+
+  if (rule.state === 'closed' && rule.times.length === 0) return 'closed';
+  if (rule.state === 'unknown') return 'unknown';
+  return rule.times.length > 0 ? rule.times.map(formatSpan).join(',') : '00:00-24:00';
+}
+
+function evaluateDay(
+  schedule: OpeningHoursSchedule,
+  date: Date,
+  context: OpeningHoursContext
+): OpeningInterval[] | null {
+  let intervals: OpeningInterval[] | null = [];
+  let matched = false;
+
+  for (const rule of schedule.rules) {
+    if (rule.fallback && matched) continue;
+    if (!ruleMatches(rule, date, context)) continue;
+
+    matched = true;
+
+    if (rule.state === 'unknown') {
+      intervals = null;
+      continue;
+    }
+
+    const spans = rule.times.length > 0
+      ? rule.times.map(span => resolveSpan(span, date, context))
+      : [{ open: 0, close: MINUTES_PER_DAY }];
+
+    if (rule.state === 'closed') {
+      intervals = rule.times.length > 0 ? subtractIntervals(intervals ?? [], spans) : [];
+    } else {
+      intervals = rule.additional ? mergeIntervals([...(intervals ?? []), ...spans]) : spans;
+    }
+  }
+
+  return intervals;
+}
+
+function ruleMatches(rule: OpeningHoursRule, date: Date, context: OpeningHoursContext): boolean {
+  const year = date.getUTCFullYear();
+  const monthDay = (date.getUTCMonth() + 1) * 100 + date.getUTCDate();
+
+  if (rule.years && !rule.years.some(range => year >= range.from && year <= range.to)) {
+    return false;
+  }
+
+  if (rule.dates && !rule.dates.some(range => inDateRange(range.from, range.to, monthDay))) {
+    return false;
+  }
+
+  if (rule.weeks) {
+    const week = isoWeek(date);
+    if (!rule.weeks.some(range => week >= range.from && week <= range.to)) return false;
+  }
+
+  // School holidays need a regional calendar we don't have, so those rules never apply
+  if (rule.schoolHoliday) return false;
+
+  if (rule.weekdays.length === 0 && !rule.publicHoliday) return true;
+
+  return rule.weekdays.some(selector => weekdayMatches(selector, date)) ||
+    (rule.publicHoliday && context.publicHoliday === true);
+}
+
+function weekdayMatches(selector: WeekdaySelector, date: Date): boolean {
+  if (!inWeekdayRange(selector, date.getUTCDay())) return false;
+  if (!selector.nth) return true;
+
+  const day = date.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  const fromStart = Math.ceil(day / 7);
+  const fromEnd = -(Math.floor((daysInMonth - day) / 7) + 1);
+
+  return selector.nth.includes(fromStart) || selector.nth.includes(fromEnd);
+}
+
+function inWeekdayRange(selector: WeekdaySelector, day: number): boolean {
+  return selector.from <= selector.to
+    ? day >= selector.from && day <= selector.to
+    : day >= selector.from || day <= selector.to; // Wraps over the weekend, e.g. "Sa-Mo"
+}
+
+function inDateRange(from: MonthDay, to: MonthDay, monthDay: number): boolean {
+  const start = from.month * 100 + (from.day ?? 1);
+  const end = to.month * 100 + (to.day ?? 31);
+
+  return start <= end ? monthDay >= start && monthDay <= end : monthDay >= start || monthDay <= end;
+}
+
+function isoWeek(date: Date): number {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const dayNumber = (target.getUTCDay() + 6) % 7;
+  target.setUTCDate(target.getUTCDate() - dayNumber + 3);
+  const firstThursday = new Date(Date.UTC(target.getUTCFullYear(), 0, 4));
+
+  return 1 + Math.round(((target.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getUTCDay() + 6) % 7)) / 7);
+}
+
+function resolveSpan(span: TimeSpan, date: Date, context: OpeningHoursContext): OpeningInterval {
+  const open = resolvePoint(span.from, date, context);
+  // No closing time given - assume the place stays open until midnight
+  let close = span.to ? resolvePoint(span.to, date, context) : Math.max(open, MINUTES_PER_DAY);
+
+  if (close <= open) {
+    close += MINUTES_PER_DAY;
+  }
+
+  return { open, close };
+}
+
+function resolvePoint(point: TimePoint, date: Date, context: OpeningHoursContext): number {
+  if (!point.event) return point.minutes;
+
+  let eventMinutes = DEFAULT_SUN_EVENTS[point.event];
+  if (context.latitude !== undefined && context.longitude !== undefined) {
+    const utcMinutes = getSunEventUtcMinutes(point.event, date, context.latitude, context.longitude);
+    if (utcMinutes !== null) {
+      const offset = context.utcOffsetMinutes ?? Math.round(context.longitude / 15) * 60;
+      eventMinutes = ((utcMinutes + offset) % MINUTES_PER_DAY + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    }
+  }
+
+  return eventMinutes + point.minutes;
+}
+
+function mergeIntervals(intervals: OpeningInterval[]): OpeningInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.open - b.open);
+  const merged: OpeningInterval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.open <= last.close) {
+      last.close = Math.max(last.close, interval.close);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+}
+
+function subtractIntervals(intervals: OpeningInterval[], removed: OpeningInterval[]): OpeningInterval[] {
+  return removed.reduce<OpeningInterval[]>((remaining, cut) =>
+    remaining.flatMap(interval => {
+      if (cut.close <= interval.open || cut.open >= interval.close) return [interval];
+
+      const parts: OpeningInterval[] = [];
+      if (cut.open > interval.open) parts.push({ open: interval.open, close: cut.open });
+      if (cut.close < interval.close) parts.push({ open: cut.close, close: interval.close });
+      return parts;
+    }), intervals);
+}
+
+function formatSpan(span: TimeSpan): string {
+  const from = formatPoint(span.from);
+  return span.to ? `${from}-${formatPoint(span.to)}` : `${from}+`;
+}
+
+function formatPoint(point: TimePoint): string {
+  if (!point.event) return formatClock(point.minutes);
+  if (point.minutes === 0) return point.event;
+
+  const sign = point.minutes > 0 ? '+' : '-';
+  return `(${point.event}${sign}${formatClock(Math.abs(point.minutes))})`;
+}
+
+function formatClock(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Top-level rules are separated by ";" and "||", never inside quoted comments
+function splitRules(value: string): Array<{ text: string; fallback: boolean }> {
+  const parts: Array<{ text: string; fallback: boolean }> = [];
+  let current = '';
+  let fallback = false;
+  let quoted = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!;
+
+    if (char === '"') quoted = !quoted;
+
+    if (!quoted && (char === ';' || (char === '|' && value[i + 1] === '|'))) {
+      parts.push({ text: current, fallback });
+      fallback = fallback || char === '|';
+      current = '';
+      if (char === '|') i++;
+      continue;
+    }
+
+    current += char;
+  }
+
+  parts.push({ text: current, fallback });
+  return parts.filter(part => part.text.trim().length > 0);
+}
+
+function tokenize(text: string, raw: string): Token[] {
+  const tokens: Token[] = [];
+  let rest = text.replace(/[\u2013\u2014]/g, '-').trim();
+
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+
+    if ((match = rest.match(/^"([^"]*)"/))) {
+      tokens.push({ type: 'comment', value: match[1]! });
+    } else if ((match = rest.match(/^24\/7/))) {
+      tokens.push({ type: 'always' });
+    } else if ((match = rest.match(/^(\d{1,2}):(\d{2})/))) {
+      tokens.push({ type: 'time', value: parseInt(match[1]!, 10) * 60 + parseInt(match[2]!, 10) });
+    } else if ((match = rest.match(/^\d+/))) {
+      tokens.push({ type: 'number', value: parseInt(match[0], 10) });
+    } else if ((match = rest.match(/^(sunrise|sunset|dawn|dusk)/i))) {
+      tokens.push({ type: 'event', value: match[1]!.toLowerCase() as SunEvent });
+    } else if ((match = rest.match(/^(PH|SH)\b/))) {
+      tokens.push({ type: 'holiday', value: match[1] as 'PH' | 'SH' });
+    } else if ((match = rest.match(/^(off|closed)\b/i))) {
+      tokens.push({ type: 'state', value: 'closed' });
+    } else if ((match = rest.match(/^open\b/i))) {
+      tokens.push({ type: 'state', value: 'open' });
+    } else if ((match = rest.match(/^unknown\b/i))) {
+      tokens.push({ type: 'state', value: 'unknown' });
+    } else if ((match = rest.match(/^week\b/i))) {
+      tokens.push({ type: 'week' });
+    } else if ((match = rest.match(/^(su|mo|tu|we|th|fr|sa)[a-z]*\.?/i))) {
+      tokens.push({ type: 'weekday', value: WEEKDAY_PREFIXES.indexOf(match[1]!.toLowerCase()) });
+    } else if ((match = rest.match(/^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?/i))) {
+      tokens.push({ type: 'month', value: MONTH_PREFIXES.indexOf(match[1]!.toLowerCase()) + 1 });
+    } else if ((match = rest.match(/^[-,[\]()+:/]/))) {
+      tokens.push({ type: 'punct', value: match[0] });
+    } else {
+      throw new OpeningHoursParseError(`unexpected "${rest.slice(0, 10)}"`, raw);
+    }
+
+    rest = rest.slice(match[0].length).trimStart();
+  }
+
+  return tokens;
+}
+
+class RuleParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[], private readonly raw: string) {}
+
+  parse(fallback: boolean): OpeningHoursRule[] {
+    const rules: OpeningHoursRule[] = [];
+
+    do {
+      rules.push(this.parseRule(rules.length > 0, fallback));
+    } while (this.consumeAdditionalRuleSeparator());
+
+    if (this.position < this.tokens.length) {
+      throw new OpeningHoursParseError('unexpected trailing input', this.raw);
+    }
+
+    return rules;
+  }
+
+  private parseRule(additional: boolean, fallback: boolean): OpeningHoursRule {
+    const rule: OpeningHoursRule = {
+      weekdays: [],
+      publicHoliday: false,
+      schoolHoliday: false,
+      times: [],
+      state: 'open',
+      additional,
+      fallback
+    };
+
+    if (this.peek()?.type === 'always') {
+      this.position++;
+      rule.times.push({ from: { minutes: 0 }, to: { minutes: MINUTES_PER_DAY } });
+    } else {
+      this.parseYears(rule);
+      this.parseDates(rule);
+      this.parseWeeks(rule);
+      this.parseWeekdays(rule);
+      if (this.isPunct(':')) this.position++;
+      this.parseTimes(rule);
+    }
+
+    const state = this.peek();
+    if (state?.type === 'state') {
+      rule.state = state.value;
+      this.position++;
+    }
+
+    const comment = this.peek();
+    if (comment?.type === 'comment') {
+      rule.comment = comment.value;
+      this.position++;
+      // A comment on its own says nothing about the state
+      if (rule.times.length === 0 && rule.weekdays.length === 0 && !rule.publicHoliday && state?.type !== 'state') {
+        rule.state = 'unknown';
+      }
+    }
+
+    return rule;
+  }
+
+  private parseYears(rule: OpeningHoursRule): void {
+    while (this.peek()?.type === 'number' && this.numberValue() >= 1900) {
+      const from = this.numberValue();
+      this.position++;
+      let to = from;
+
+      if (this.isPunct('-') && this.peek(1)?.type === 'number') {
+        this.position++;
+        to = this.numberValue();
+        this.position++;
+      }
+
+      (rule.years ??= []).push({ from, to });
+      if (!this.consumeCommaBefore('number')) break;
+    }
+  }
+
+  private parseDates(rule: OpeningHoursRule): void {
+    while (this.peek()?.type === 'month') {
+      const from = this.parseMonthDay();
+      let to: MonthDay = { ...from };
+
+      if (this.isPunct('-')) {
+        const next = this.peek(1);
+        if (next?.type === 'month') {
+          this.position++;
+          to = this.parseMonthDay();
+        } else if (next?.type === 'number' && from.day !== undefined) {
+          this.position += 2;
+          to = { month: from.month, day: (next as { value: number }).value };
+        }
+      }
+
+      (rule.dates ??= []).push({ from, to });
+      if (!this.consumeCommaBefore('month')) break;
+    }
+  }
+
+  private parseMonthDay(): MonthDay {
+    const month = (this.tokens[this.position++] as { value: number }).value;
+    const next = this.peek();
+
+    // A number after a month is a day of the month unless it's the start of a time
+    if (next?.type === 'number' && next.value <= 31) {
+      this.position++;
+      return { month, day: next.value };
+    }
+
+    return { month };
+  }
+
+  private parseWeeks(rule: OpeningHoursRule): void {
+    if (this.peek()?.type !== 'week') return;
+    this.position++;
+
+    while (this.peek()?.type === 'number') {
+      const from = this.numberValue();
+      this.position++;
+      let to = from;
+
+      if (this.isPunct('-') && this.peek(1)?.type === 'number') {
+        this.position++;
+        to = this.numberValue();
+        this.position++;
+      }
+
+      (rule.weeks ??= []).push({ from, to });
+      if (!this.consumeCommaBefore('number')) break;
+    }
+  }
+
+  private parseWeekdays(rule: OpeningHoursRule): void {
+    for (;;) {
+      const token = this.peek();
+
+      if (token?.type === 'holiday') {
+        this.position++;
+        if (token.value === 'PH') rule.publicHoliday = true;
+        else rule.schoolHoliday = true;
+      } else if (token?.type === 'weekday') {
+        this.position++;
+        const selector: WeekdaySelector = { from: token.value, to: token.value };
+
+        if (this.isPunct('-') && this.peek(1)?.type === 'weekday') {
+          this.position++;
+          selector.to = (this.tokens[this.position++] as { value: number }).value;
+        }
+
+        if (this.isPunct('[')) {
+          selector.nth = this.parseNth();
+        }
+
+        rule.weekdays.push(selector);
+      } else {
+        return;
+      }
+
+      if (!this.consumeCommaBefore('weekday') && !this.consumeCommaBefore('holiday')) return;
+    }
+  }
+
+  // "[1]", "[-1]", "[1,3]" or "[1-2]"
+  private parseNth(): number[] {
+    this.position++; // [
+    const values: number[] = [];
+
+    while (!this.isPunct(']')) {
+      const negative = this.isPunct('-');
+      if (negative) this.position++;
+
+      const token = this.peek();
+      if (token?.type !== 'number') {
+        throw new OpeningHoursParseError('invalid weekday occurrence', this.raw);
+      }
+      this.position++;
+
+      const from = negative ? -token.value : token.value;
+      if (this.isPunct('-') && this.peek(1)?.type === 'number') {
+        this.position++;
+        const to = this.numberValue();
+        this.position++;
+        for (let value = from; value <= to; value++) values.push(value);
+      } else {
+        values.push(from);
+      }
+
+      if (this.isPunct(',')) this.position++;
+    }
+
+    this.position++; // ]
+    return values;
+  }
+
+  private parseTimes(rule: OpeningHoursRule): void {
+    while (this.startsTime()) {
+      const from = this.parseTimePoint();
+
+      if (this.isPunct('+')) {
+        this.position++;
+        rule.times.push({ from, to: null });
+      } else if (this.isPunct('-')) {
+        this.position++;
+        const to = this.parseTimePoint();
+        if (this.isPunct('+')) this.position++; // "22:00-03:00+" - may run later, but the given end is all we know
+        if (this.isPunct('/')) {
+          throw new OpeningHoursParseError('repeating time intervals are not supported', this.raw);
+        }
+        rule.times.push({ from, to });
+      } else {
+        throw new OpeningHoursParseError('time without a range', this.raw);
+      }
+
+      if (!(this.isPunct(',') && this.startsTime(1))) break;
+      this.position++;
+    }
+  }
+
+  private parseTimePoint(): TimePoint {
+    const token = this.peek();
+
+    if (token?.type === 'time') {
+      this.position++;
+      return { minutes: token.value };
+    }
+
+    if (token?.type === 'event') {
+      this.position++;
+      return { event: token.value, minutes: 0 };
+    }
+
+    // "(sunset+01:00)"
+    if (this.isPunct('(')) {
+      const event = this.peek(1);
+      const sign = this.peek(2);
+      const offset = this.peek(3);
+
+      if (
+        event?.type === 'event' &&
+        sign?.type === 'punct' && (sign.value === '+' || sign.value === '-') &&
+        offset?.type === 'time' &&
+        this.isPunct(')', 4)
+      ) {
+        this.position += 5;
+        return { event: event.value, minutes: sign.value === '-' ? -offset.value : offset.value };
+      }
+    }
+
+    throw new OpeningHoursParseError('expected a time', this.raw);
+  }
+
+  private startsTime(offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === 'time' || token?.type === 'event' || this.isPunct('(', offset);
+  }
+
+  // "," followed by a new selector starts an additional rule
+  private consumeAdditionalRuleSeparator(): boolean {
+    const next = this.peek(1);
+    if (!this.isPunct(',') || !next) return false;
+
+    if (['weekday', 'holiday', 'month', 'week', 'number'].includes(next.type)) {
+      this.position++;
+      return true;
+    }
+
+    return false;
+  }
+
+  private consumeCommaBefore(type: Token['type']): boolean {
+    if (this.isPunct(',') && this.peek(1)?.type === type) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private numberValue(): number {
+    return (this.tokens[this.position] as { value: number }).value;
+  }
+
+  private isPunct(value: string, offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === 'punct' && token.value === value;
+  }
+
+  private peek(offset: number = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+}
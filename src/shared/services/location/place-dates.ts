@@ -0,0 +1,30 @@
+// src/shared/services/location/place-dates.ts - restore the Date fields of places read back from JSON
+
+import { Place, PlaceProvenance } from './types';
+
+/**
+ * Places that went through the cache store or a JSON column come back with ISO strings where
+ * the Place type has Dates. Reviving them on the way out keeps `.toISOString()` callers safe.
+ */
+export function revivePlaceDates(place: Place): Place {
+  const metadata = place.metadata;
+  if (!metadata) return place;
+
+  const provenance = metadata.provenance && Object.fromEntries(
+    Object.entries(metadata.provenance).map(([field, entry]) => [field, { ...entry, fetchedAt: toDate(entry.fetchedAt) }])
+  ) as PlaceProvenance;
+
+  return {
+    ...place,
+    metadata: {
+      ...metadata,
+      lastUpdated: toDate(metadata.lastUpdated),
+      ...(provenance && { provenance })
+    }
+  };
+}
+
+function toDate(value: Date | string | undefined): Date {
+  const date = value instanceof Date ? value : new Date(value ?? Date.now());
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
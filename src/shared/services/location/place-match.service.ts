@@ -0,0 +1,174 @@
+// src/shared/services/location/place-match.service.ts - review queue for uncertain OSM/Google matches
+
+import { Location, PlaceMatch, Prisma } from '@prisma/client';
+import { db, PlaceMatchStatus } from '@shared/database';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '@shared/errors';
+import { locationService } from './location.service';
+import { HybridProvider } from './providers';
+import { Place } from './types';
+
+export interface PlaceMatchPage {
+  items: PlaceMatch[];
+  counts: Record<string, number>;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Decisions made here are remembered: an accepted pair is merged into the stored location and is
+ * merged again by every later search, a rejected pair is never matched again.
+ */
+export class PlaceMatchService {
+  private readonly defaultPageSize = 20;
+
+  async list(status: PlaceMatchStatus | undefined, page: number = 1, limit: number = this.defaultPageSize): Promise<PlaceMatchPage> {
+    const [items, total, counts] = await Promise.all([
+      db.placeMatch.list(status, limit, (page - 1) * limit),
+      db.placeMatch.count(status),
+      db.placeMatch.countByStatus()
+    ]);
+
+    return {
+      items,
+      counts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  async get(id: string): Promise<PlaceMatch> {
+    const match = await db.placeMatch.findById(id);
+    if (!match) {
+      throw new NotFoundError('Place match');
+    }
+    return match;
+  }
+
+  async accept(id: string, adminId: string): Promise<PlaceMatch> {
+    const match = await this.get(id);
+    if (match.status === 'accepted') {
+      throw new ConflictError('Place match is already accepted');
+    }
+
+    const location = await this.findOsmLocation(match);
+    await this.mergeInto(location, match.googlePlaceId, match.googleSnapshot as unknown as Place);
+
+    const decided = await db.placeMatch.decide(id, { status: 'accepted', decidedBy: adminId, locationId: location.id });
+    await db.placeMatch.rejectOtherPending(match.osmId, id, adminId);
+    console.log(`⚖️ Accepted match ${location.name} + ${match.googlePlaceId}`);
+
+    return decided;
+  }
+
+  async reject(id: string, adminId: string): Promise<PlaceMatch> {
+    const match = await this.get(id);
+    if (match.status !== 'pending') {
+      // Undoing an accepted merge would mean splitting the stored location back up
+      throw new ConflictError(`Only pending matches can be rejected, this one is ${match.status}`);
+    }
+
+    const decided = await db.placeMatch.decide(id, { status: 'rejected', decidedBy: adminId });
+
+    const location = match.locationId
+      ? await db.location.findById(match.locationId)
+      : await db.location.findByOsmId(match.osmId);
+    if (location?.mergeStatus === 'conflict' && (await db.placeMatch.countPending(match.osmId)) === 0) {
+      await db.location.updateMergeStatus(location.id, 'osm-only');
+    }
+
+    return decided;
+  }
+
+  // Pairs a stored OSM place with a Google place the matcher didn't find or scored too low
+  async link(locationId: string, googlePlaceId: string, adminId: string): Promise<PlaceMatch> {
+    const location = await db.location.findById(locationId);
+    if (!location) {
+      throw new NotFoundError('Location');
+    }
+    if (!location.osmId) {
+      throw new ValidationError('Only OSM locations can be linked to a Google place', [
+        { field: 'locationId', message: 'Location has no OSM id', value: locationId }
+      ]);
+    }
+
+    const googlePlace = await this.getHybrid().getPlaceDetails(`google_${googlePlaceId}`);
+    if (!googlePlace?.metadata?.google) {
+      throw new NotFoundError('Google place');
+    }
+
+    await this.mergeInto(location, googlePlaceId, googlePlace);
+
+    const snapshot = googlePlace as unknown as Prisma.InputJsonValue;
+    const existing = await db.placeMatch.findPair(location.osmId, googlePlaceId);
+    const match = existing
+      ? await db.placeMatch.decide(existing.id, {
+        status: 'accepted',
+        decidedBy: adminId,
+        origin: 'manual',
+        locationId: location.id,
+        googleSnapshot: snapshot
+      })
+      : await db.placeMatch.createDecided({
+        osmId: location.osmId,
+        googlePlaceId,
+        locationId: location.id,
+        osmSnapshot: this.toSnapshot(location),
+        googleSnapshot: snapshot,
+        status: 'accepted',
+        decidedBy: adminId,
+        origin: 'manual'
+      });
+
+    await db.placeMatch.rejectOtherPending(location.osmId, match.id, adminId);
+    console.log(`⚖️ Linked ${location.name} to ${googlePlaceId}`);
+
+    return match;
+  }
+
+  private async findOsmLocation(match: PlaceMatch): Promise<Location> {
+    const location = match.locationId
+      ? await db.location.findById(match.locationId)
+      : await db.location.findByOsmId(match.osmId);
+    if (!location) {
+      throw new ConflictError(`OSM place ${match.osmId} is not stored, search the area again before accepting`);
+    }
+    return location;
+  }
+
+  private async mergeInto(location: Location, googlePlaceId: string, googlePlace: Place): Promise<void> {
+    if (location.googlePlaceId && location.googlePlaceId !== googlePlaceId) {
+      throw new ConflictError(`Location is already linked to Google place ${location.googlePlaceId}`);
+    }
+
+    await this.getHybrid().applyGoogleMatch(location, googlePlace);
+  }
+
+  private getHybrid(): HybridProvider {
+    const hybrid = locationService.getHybridProvider();
+    if (!hybrid) {
+      throw new AppError('Place matching needs the hybrid location provider', 503);
+    }
+    return hybrid;
+  }
+
+  private toSnapshot(location: Location): Prisma.InputJsonValue {
+    return {
+      id: location.id,
+      name: location.name,
+      category: location.category,
+      coordinates: { latitude: location.latitude, longitude: location.longitude },
+      address: location.address,
+      metadata: location.metadata
+    };
+  }
+}
+
+export const placeMatchService = new PlaceMatchService();
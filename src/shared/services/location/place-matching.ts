@@ -0,0 +1,83 @@
+// src/shared/services/location/place-matching.ts - score whether two place records describe the same place
+
+import { POICategory } from './types';
+
+export const MAX_MATCH_DISTANCE = 200; // meters; records further apart are different places
+
+// Categories one provider may file a place under while another uses the first one
+const compatibleCategories: Partial<Record<POICategory, POICategory[]>> = {
+  [POICategory.RESTAURANT]: [POICategory.RESTAURANT, POICategory.FAST_FOOD, POICategory.CAFE],
+  [POICategory.CAFE]: [POICategory.CAFE, POICategory.RESTAURANT],
+  [POICategory.BAR]: [POICategory.BAR, POICategory.PUB, POICategory.NIGHTCLUB],
+  // Add more mappings as needed
+};
+
+export function calculateNameSimilarity(name1: string, name2: string): number {
+  // Normalize names for comparison
+  const norm1 = name1.toLowerCase().trim();
+  const norm2 = name2.toLowerCase().trim();
+
+  // Exact match
+  if (norm1 === norm2) return 1;
+
+  // Check if one contains the other (common for business names)
+  if (norm1.includes(norm2) || norm2.includes(norm1)) {
+    const longer = Math.max(norm1.length, norm2.length);
+    const shorter = Math.min(norm1.length, norm2.length);
+    return shorter / longer;
+  }
+
+  // Use Levenshtein distance for fuzzy matching
+  const distance = levenshteinDistance(norm1, norm2);
+  const maxLength = Math.max(norm1.length, norm2.length);
+  return maxLength === 0 ? 0 : 1 - (distance / maxLength);
+}
+
+export function categoriesMatch(category1: POICategory, category2: POICategory): boolean {
+  const compatible = compatibleCategories[category1];
+  return compatible ? compatible.includes(category2) : category1 === category2;
+}
+
+export function calculateMergeConfidence(distance: number, nameSimilarity: number, categoryMatch: boolean): number {
+  // Weighted confidence calculation
+  const distanceScore = Math.max(0, 1 - (distance / MAX_MATCH_DISTANCE));
+  const nameScore = nameSimilarity;
+  const categoryScore = categoryMatch ? 1 : 0.3;
+
+  // Weighted average
+  return (distanceScore * 0.4 + nameScore * 0.4 + categoryScore * 0.2);
+}
+
+function levenshteinDistance(str1: string, str2: string): number {
+  // Handle edge cases
+  if (str1.length === 0) return str2.length;
+  if (str2.length === 0) return str1.length;
+
+  // Create distance matrix with proper typing
+  const distances: number[][] = [];
+
+  // Initialize matrix
+  for (let i = 0; i <= str1.length; i++) {
+    distances[i] = [];
+    distances[i]![0] = i;
+  }
+
+  for (let j = 0; j <= str2.length; j++) {
+    distances[0]![j] = j;
+  }
+
+  // Fill matrix
+  for (let i = 1; i <= str1.length; i++) {
+    for (let j = 1; j <= str2.length; j++) {
+      const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+
+      const deletion = (distances[i - 1]?.[j] ?? 0) + 1;
+      const insertion = (distances[i]?.[j - 1] ?? 0) + 1;
+      const substitution = (distances[i - 1]?.[j - 1] ?? 0) + cost;
+
+      distances[i]![j] = Math.min(deletion, insertion, substitution);
+    }
+  }
+
+  return distances[str1.length]?.[str2.length] ?? 0;
+}
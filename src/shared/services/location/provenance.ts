@@ -0,0 +1,135 @@
+// src/shared/services/location/provenance.ts - which source a merged place takes each field from
+
+import { config, ProvenanceField, ProvenanceSource } from '@shared/config';
+import { FieldProvenance, Place, PlaceProvenance } from './types';
+
+export const PROVENANCE_FIELDS: ProvenanceField[] = ['name', 'address', 'description', 'hours', 'phone', 'website', 'email'];
+
+export interface FieldCandidate<T> {
+  value: T | undefined;
+  provenance: FieldProvenance;
+}
+
+// The category's override for the field when there is one, the configured default otherwise
+export function resolveSourcePrecedence(field: ProvenanceField, category: string): ProvenanceSource[] {
+  const { fields, categoryOverrides } = config.location.sourcePrecedence;
+  return categoryOverrides[category]?.[field] ?? fields[field];
+}
+
+/**
+ * Candidates that have a value, most trusted source first. Sources missing from the precedence
+ * list go last; candidates from the same source keep their order.
+ */
+export function rankFieldCandidates<T>(
+  field: ProvenanceField,
+  category: string,
+  candidates: FieldCandidate<T>[]
+): Array<FieldCandidate<T> & { value: T }> {
+  const precedence = resolveSourcePrecedence(field, category);
+  const rank = (candidate: FieldCandidate<T>) => {
+    const index = precedence.indexOf(candidate.provenance.source);
+    return index === -1 ? precedence.length : index;
+  };
+
+  return candidates
+    .filter((candidate): candidate is FieldCandidate<T> & { value: T } => candidate.value !== undefined && candidate.value !== '')
+    .sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Provenance of a place's field as a merge input. Places merged before keep what they recorded;
+ * anything else is attributed to the place's own source, or to `fallback` when that is 'merged'.
+ */
+export function fieldProvenance(
+  place: Place,
+  field: ProvenanceField,
+  fallback: ProvenanceSource,
+  confidence: number
+): FieldProvenance {
+  const stored = place.metadata?.provenance?.[field];
+  if (stored) return stored;
+
+  const source = place.metadata?.source;
+  return {
+    source: source && source !== 'merged' ? source : fallback,
+    fetchedAt: place.metadata?.lastUpdated ?? new Date(),
+    confidence
+  };
+}
+
+export function getFieldValue(place: Place, field: ProvenanceField): string | Record<string, string> | undefined {
+  switch (field) {
+    case 'name':
+    case 'address':
+    case 'description':
+      return place[field];
+    case 'hours':
+      return place.metadata?.hours;
+    case 'phone':
+    case 'website':
+    case 'email':
+      return place.metadata?.contact?.[field];
+  }
+}
+
+/**
+ * Per-field breakdown for the fields a place has. Single-source places are attributed whole to
+ * that source; fields of places merged before provenance was recorded are left out.
+ */
+export function describePlaceProvenance(place: Place): PlaceProvenance {
+  const provenance: PlaceProvenance = {};
+  const source = place.metadata?.source;
+
+  for (const field of PROVENANCE_FIELDS) {
+    if (getFieldValue(place, field) === undefined) continue;
+
+    const stored = place.metadata?.provenance?.[field];
+    if (stored) {
+      provenance[field] = stored;
+    } else if (source && source !== 'merged') {
+      provenance[field] = fieldProvenance(place, field, source, 1);
+    }
+  }
+
+  return provenance;
+}
+
+export type FieldValues = { [K in ProvenanceField]?: K extends 'hours' ? Record<string, string> : string };
+
+/**
+ * Field values of a stored place after `provider` returned fresh data for it. The provider's new
+ * values replace the ones it supplied before; values from other sources compete by precedence.
+ * Fields without recorded provenance are attributed to `fallback` when the place is merged.
+ */
+export function mergeRefreshedFields(
+  stored: Place,
+  fresh: Place,
+  provider: ProvenanceSource,
+  fallback: ProvenanceSource
+): { values: FieldValues; provenance: PlaceProvenance } {
+  const fetchedAt = new Date();
+  const values: FieldValues = {};
+  const provenance: PlaceProvenance = { ...stored.metadata?.provenance };
+  // Fields from the provider keep the confidence of the match that brought it in
+  const confidence = Object.values(provenance).find(entry => entry.source === provider)?.confidence ?? 1;
+
+  for (const field of PROVENANCE_FIELDS) {
+    const current = fieldProvenance(stored, field, fallback, 1);
+    const freshValue = getFieldValue(fresh, field);
+
+    const [best] = rankFieldCandidates(field, stored.category, [
+      { value: freshValue, provenance: { source: provider, fetchedAt, confidence } },
+      // The provider's own earlier value only stands when it no longer returns one
+      ...(current.source !== provider || freshValue === undefined
+        ? [{ value: getFieldValue(stored, field), provenance: current }]
+        : [])
+    ]);
+
+    if (best) {
+      (values as Record<ProvenanceField, unknown>)[field] = best.value;
+      provenance[field] = best.provenance;
+    }
+  }
+
+  return { values, provenance };
+}
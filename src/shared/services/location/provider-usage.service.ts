@@ -0,0 +1,91 @@
+// src/shared/services/location/provider-usage.service.ts - call budgets and spend for paid location APIs
+
+import { config } from '@shared/config';
+import { db } from '@shared/database';
+
+export type MeteredProvider = 'google';
+export type MeteredRequest = 'search' | 'details';
+
+export interface DailyBudgetStatus {
+  provider: MeteredProvider;
+  date: string; // UTC day the counts belong to
+  used: number;
+  budget: number;
+  remaining: number;
+}
+
+export interface MonthlySpendStatus {
+  provider: MeteredProvider;
+  month: string; // YYYY-MM, UTC
+  spent: number; // USD
+  cap: number | null; // null when uncapped
+  degradeAt: number | null; // USD after which Google is no longer called
+  degraded: boolean;
+}
+
+export class ProviderUsageService {
+  async getDailyStatus(provider: MeteredProvider): Promise<DailyBudgetStatus> {
+    const today = this.today();
+    const budget = this.getDailyBudget(provider);
+    const used = await db.providerUsage.getCalls(provider, today);
+
+    return {
+      provider,
+      date: today.toISOString().slice(0, 10),
+      used,
+      budget,
+      remaining: Math.max(budget - used, 0)
+    };
+  }
+
+  async getMonthlyStatus(provider: MeteredProvider): Promise<MonthlySpendStatus> {
+    const today = this.today();
+    const monthStart = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+    const { monthlySpendCap, degradeAt } = config.location.googleCost;
+    const spent = await db.providerUsage.getCost(provider, monthStart, today);
+    const threshold = monthlySpendCap > 0 ? monthlySpendCap * degradeAt : null;
+
+    return {
+      provider,
+      month: monthStart.toISOString().slice(0, 7),
+      spent: Math.round(spent * 100) / 100,
+      cap: monthlySpendCap > 0 ? monthlySpendCap : null,
+      degradeAt: threshold,
+      degraded: threshold !== null && spent >= threshold
+    };
+  }
+
+  async hasDailyBudget(provider: MeteredProvider): Promise<boolean> {
+    const { remaining } = await this.getDailyStatus(provider);
+    return remaining > 0;
+  }
+
+  // Counts requests that reached the API, whether or not they returned anything useful
+  async recordRequest(provider: MeteredProvider, request: MeteredRequest, count: number = 1): Promise<void> {
+    try {
+      await db.providerUsage.recordCalls(provider, this.today(), count, this.getRequestCost(request) * count);
+    } catch (error) {
+      // Losing a count is better than failing the request that was already paid for
+      console.warn(`Failed to record ${provider} usage:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  getRequestCost(request: MeteredRequest): number {
+    const { searchCost, detailsCost } = config.location.googleCost;
+    return request === 'search' ? searchCost : detailsCost;
+  }
+
+  private getDailyBudget(provider: MeteredProvider): number {
+    switch (provider) {
+      case 'google':
+        return config.location.googleEnrichment.dailyCallBudget;
+    }
+  }
+
+  private today(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+}
+
+export const providerUsageService = new ProviderUsageService();
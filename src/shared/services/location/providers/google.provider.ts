@@ -1,22 +1,27 @@
-// src/shared/services/location/providers/google.provider.ts - WORKING VERSION with Legacy API
+// src/shared/services/location/providers/google.provider.ts - Places API (New)
 
 import { config } from '@shared/config';
+import { providerUsageService, MeteredRequest } from '../provider-usage.service';
 import {
   LocationProvider,
   LocationSearchRequest,
   LocationSearchResponse,
   Place,
   POICategory,
-  PlaceMetadata
+  PlaceMetadata,
+  TextSearchRequest
 } from '../types';
+import { distanceInMeters } from '../geo';
 
 // Google Place Types to POI Category mapping
 const GOOGLE_TYPE_TO_CATEGORY: Record<string, POICategory> = {
   // Food & Dining
   restaurant: POICategory.RESTAURANT,
+  fast_food_restaurant: POICategory.FAST_FOOD,
   meal_takeaway: POICategory.FAST_FOOD,
   meal_delivery: POICategory.FAST_FOOD,
   cafe: POICategory.CAFE,
+  coffee_shop: POICategory.CAFE,
   bar: POICategory.BAR,
   night_club: POICategory.NIGHTCLUB,
 
@@ -32,6 +37,7 @@ const GOOGLE_TYPE_TO_CATEGORY: Record<string, POICategory> = {
   // Activities & Recreation
   park: POICategory.PARK,
   gym: POICategory.FITNESS_CENTRE,
+  fitness_center: POICategory.FITNESS_CENTRE,
   spa: POICategory.SPA,
   golf_course: POICategory.GOLF_COURSE,
 
@@ -57,9 +63,57 @@ const GOOGLE_TYPE_TO_CATEGORY: Record<string, POICategory> = {
   parking: POICategory.PARKING,
 };
 
+// Place fields the search results are turned into; each one is billed, so keep this to what Place uses
+const SEARCH_FIELDS = [
+  'id',
+  'displayName',
+  'formattedAddress',
+  'location',
+  'types',
+  'rating',
+  'userRatingCount',
+  'priceLevel',
+  'businessStatus'
+];
+
+// Details are fetched for single places, so they can afford contact info and hours
+const DETAILS_FIELDS = [...SEARCH_FIELDS, 'nationalPhoneNumber', 'websiteUri', 'regularOpeningHours'];
+
+const PRICE_LEVELS: Record<string, number> = {
+  PRICE_LEVEL_FREE: 0,
+  PRICE_LEVEL_INEXPENSIVE: 1,
+  PRICE_LEVEL_MODERATE: 2,
+  PRICE_LEVEL_EXPENSIVE: 3,
+  PRICE_LEVEL_VERY_EXPENSIVE: 4
+};
+
+const MAX_PAGE_SIZE = 20; // Per request, for both Nearby and Text Search
+const MAX_TEXT_SEARCH_PAGES = 3; // Text Search stops handing out page tokens after 60 results
+
+// The parts of a Places API (New) Place resource requested above
+interface GooglePlace {
+  id: string;
+  displayName?: { text: string; languageCode?: string };
+  formattedAddress?: string;
+  location?: { latitude: number; longitude: number };
+  types?: string[];
+  rating?: number;
+  userRatingCount?: number;
+  priceLevel?: string;
+  businessStatus?: string;
+  nationalPhoneNumber?: string;
+  websiteUri?: string;
+  regularOpeningHours?: { weekdayDescriptions?: string[] };
+}
+
+interface GoogleSearchResponse {
+  places?: GooglePlace[];
+  nextPageToken?: string;
+}
+
 export class GooglePlacesProvider implements LocationProvider {
   private apiKey: string;
-  private readonly baseUrl = 'https://maps.googleapis.com/maps/api/place';
+  private readonly baseUrl = config.location.googleEndpoint.replace(/\/+$/, '');
   private readonly timeout: number;
 
   constructor() {
@@ -71,38 +125,35 @@ export class GooglePlacesProvider implements LocationProvider {
     this.timeout = config.location?.timeout || 10000;
   }
 
+  // Nearby Search (New) has no page tokens, so a search returns at most 20 places
   async searchNearby(request: LocationSearchRequest): Promise<LocationSearchResponse> {
     const startTime = Date.now();
 
     try {
-      // Use Google Places API (Legacy) - simple and reliable
-      const location = `${request.latitude},${request.longitude}`;
       const radius = request.radius || 2000;
-      const type = this.mapCategoriesToGoogleType(request.categories || []);
-
-      const params = new URLSearchParams({
-        location,
-        radius: radius.toString(),
-        key: this.apiKey,
-        ...(type && { type }),
-      });
-
-      const url = `${this.baseUrl}/nearbysearch/json?${params}`;
-
-      console.log('🔍 Google Places API (Legacy) Request:', url.replace(this.apiKey, '[REDACTED]'));
-
-      const response = await this.makeRequest(url);
+      const includedTypes = this.mapCategoriesToGoogleTypes(request.categories || []);
+
+      const body = {
+        locationRestriction: {
+          circle: {
+            center: { latitude: request.latitude, longitude: request.longitude },
+            radius: Math.min(radius, 50000) // API maximum
+          }
+        },
+        maxResultCount: Math.min(request.limit || MAX_PAGE_SIZE, MAX_PAGE_SIZE),
+        ...(includedTypes.length > 0 && { includedTypes })
+      };
 
-      if (response.status !== 'OK' && response.status !== 'ZERO_RESULTS') {
-        throw new Error(`Google Places API error: ${response.status} - ${response.error_message || 'Unknown error'}`);
-      }
+      console.log('🔍 Google Places API Nearby Search:', JSON.stringify(body));
 
-      const places = this.parseGooglePlaces(
-        response.results || [],
-        request.latitude,
-        request.longitude
+      const response = await this.makeRequest<GoogleSearchResponse>(
+        '/places:searchNearby',
+        { body, fieldMask: SEARCH_FIELDS.map(field => `places.${field}`) },
+        'search'
       );
 
+      const places = this.parseGooglePlaces(response.places || [], request.latitude, request.longitude);
+
       console.log('✅ Google Places API Success:', `Found ${places.length} places`);
 
       return {
@@ -114,6 +165,8 @@ export class GooglePlacesProvider implements LocationProvider {
           searchRadius: radius,
           categoriesSearched: request.categories?.map(cat => cat.toString()) || [],
           cached: false,
+          // Google doesn't say whether more matched, so a full page is taken as cut short
+          truncated: (response.places?.length ?? 0) >= body.maxResultCount,
         },
       };
     } catch (error) {
@@ -121,51 +174,119 @@ export class GooglePlacesProvider implements LocationProvider {
     }
   }
 
-  async getPlaceDetails(placeId: string): Promise<Place | null> {
-    try {
-      const params = new URLSearchParams({
-        place_id: placeId,
-        key: this.apiKey,
-        fields: 'place_id,name,formatted_address,geometry,types,rating,user_ratings_total,price_level,business_status,formatted_phone_number,website,opening_hours'
-      });
+  /**
+   * Text Search (New), following page tokens until `limit` places are found (at most 60). Each
+   * page is a separate billed request. With coordinates, places around them rank higher.
+   */
+  async searchText(request: TextSearchRequest): Promise<LocationSearchResponse> {
+    const startTime = Date.now();
+    const limit = Math.min(request.limit || MAX_PAGE_SIZE, MAX_PAGE_SIZE * MAX_TEXT_SEARCH_PAGES);
+    const radius = request.radius || 2000;
+    const hasCenter = request.latitude !== undefined && request.longitude !== undefined;
+    // Text Search filters on a single type
+    const [includedType] = this.mapCategoriesToGoogleTypes(request.categories || []);
+
+    const body = {
+      textQuery: request.query,
+      pageSize: Math.min(limit, MAX_PAGE_SIZE),
+      ...(hasCenter && {
+        locationBias: {
+          circle: {
+            center: { latitude: request.latitude, longitude: request.longitude },
+            radius: Math.min(radius, 50000)
+          }
+        }
+      }),
+      ...(includedType && { includedType })
+    };
+    const fieldMask = [...SEARCH_FIELDS.map(field => `places.${field}`), 'nextPageToken'];
 
-      const url = `${this.baseUrl}/details/json?${params}`;
-      const response = await this.makeRequest(url);
+    try {
+      const results: GooglePlace[] = [];
+      let pageToken: string | undefined;
+
+      for (let page = 0; page < MAX_TEXT_SEARCH_PAGES && results.length < limit; page++) {
+        // Follow-up pages must repeat the original request alongside the token
+        const response = await this.makeRequest<GoogleSearchResponse>(
+          '/places:searchText',
+          { body: { ...body, ...(pageToken && { pageToken }) }, fieldMask },
+          'search'
+        );
 
-      if (response.status !== 'OK') {
-        console.warn(`Failed to get Google place details for ${placeId}: ${response.status}`);
-        return null;
+        results.push(...(response.places || []));
+        pageToken = response.nextPageToken;
+        if (!pageToken) break;
       }
 
-      if (!response.result || !response.result.geometry?.location) {
-        return null;
-      }
+      const places = (hasCenter
+        ? this.parseGooglePlaces(results, request.latitude!, request.longitude!)
+        : results.flatMap(place => this.googlePlaceToPlace(place) ?? [])
+      ).slice(0, limit);
 
-      return this.googlePlaceToPlace(response.result, 0);
+      console.log('✅ Google Places Text Search:', `Found ${places.length} places for "${request.query}"`);
+
+      return {
+        places,
+        metadata: {
+          provider: 'google',
+          responseTime: Date.now() - startTime,
+          totalResults: places.length,
+          searchRadius: hasCenter ? radius : 0,
+          categoriesSearched: request.categories?.map(cat => cat.toString()) || [],
+          cached: false,
+        },
+      };
+    } catch (error) {
+      throw new Error(`Google Places text search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getPlaceDetails(placeId: string): Promise<Place | null> {
+    try {
+      const response = await this.makeRequest<GooglePlace>(
+        `/places/${encodeURIComponent(placeId)}`,
+        { fieldMask: DETAILS_FIELDS },
+        'details'
+      );
+
+      return this.googlePlaceToPlace(response);
     } catch (error) {
       console.warn(`Failed to get Google place details for ${placeId}:`, error);
       return null;
     }
   }
 
-  private async makeRequest(url: string): Promise<any> {
+  // POSTs when there is a body, GETs otherwise; the field mask picks (and prices) the returned fields
+  private async makeRequest<T>(
+    path: string,
+    options: { body?: object; fieldMask: string[] },
+    request: MeteredRequest
+  ): Promise<T> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
     try {
-      const response = await fetch(url, {
-        method: 'GET',
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method: options.body ? 'POST' : 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Goog-Api-Key': this.apiKey,
+          'X-Goog-FieldMask': options.fieldMask.join(',')
+        },
+        ...(options.body && { body: JSON.stringify(options.body) }),
         signal: controller.signal,
       });
 
       clearTimeout(timeoutId);
+      // Anything that got an answer may be billed, so count it towards the spend cap
+      await providerUsageService.recordRequest('google', request);
 
       if (!response.ok) {
         const errorText = await response.text();
         throw new Error(`HTTP ${response.status}: ${errorText}`);
       }
 
-      return await response.json();
+      return await response.json() as T;
     } catch (error) {
       clearTimeout(timeoutId);
 
@@ -177,18 +298,13 @@ export class GooglePlacesProvider implements LocationProvider {
     }
   }
 
-  private mapCategoriesToGoogleType(categories: POICategory[]): string | undefined {
-    // For legacy API, we can only specify one type, so pick the first one
-    if (categories.length === 0) return undefined;
-
-    const firstCategory = categories[0];
-    if (!firstCategory) return undefined;
-
+  private mapCategoriesToGoogleTypes(categories: POICategory[]): string[] {
+    // Only Table A place types may be used as filters
     const categoryToGoogleType: Record<POICategory, string> = {
       [POICategory.RESTAURANT]: 'restaurant',
       [POICategory.CAFE]: 'cafe',
       [POICategory.BAR]: 'bar',
-      [POICategory.FAST_FOOD]: 'meal_takeaway',
+      [POICategory.FAST_FOOD]: 'fast_food_restaurant',
       [POICategory.MUSEUM]: 'museum',
       [POICategory.GALLERY]: 'art_gallery',
       [POICategory.ATTRACTION]: 'tourist_attraction',
@@ -202,20 +318,32 @@ export class GooglePlacesProvider implements LocationProvider {
       [POICategory.PHARMACY]: 'pharmacy',
       [POICategory.HOSPITAL]: 'hospital',
       [POICategory.FUEL]: 'gas_station',
+      [POICategory.NIGHTCLUB]: 'night_club',
+      [POICategory.CINEMA]: 'movie_theater',
+      [POICategory.LIBRARY]: 'library',
+      [POICategory.GOLF_COURSE]: 'golf_course',
+      [POICategory.DEPARTMENT_STORE]: 'department_store',
+      [POICategory.POST_OFFICE]: 'post_office',
+      [POICategory.BUS_STATION]: 'bus_station',
+      [POICategory.SUBWAY]: 'subway_station',
+      [POICategory.TAXI]: 'taxi_stand',
+      [POICategory.PARKING]: 'parking',
     } as Record<POICategory, string>;
 
-    return categoryToGoogleType[firstCategory] || 'point_of_interest';
+    // Categories without a Google type are dropped; when none map, the search isn't filtered by type
+    const types = categories.flatMap(category => categoryToGoogleType[category] ?? []);
+    return types.filter((type, index) => types.indexOf(type) === index);
   }
 
-  private parseGooglePlaces(places: any[], searchLat: number, searchLng: number): Place[] {
+  private parseGooglePlaces(places: GooglePlace[], searchLat: number, searchLng: number): Place[] {
     return places
-      .filter(place => place.geometry?.location && place.name)
+      .filter(place => place.location && place.displayName?.text)
       .map(place => {
-        const distance = this.calculateDistance(
+        const distance = distanceInMeters(
           searchLat,
           searchLng,
-          place.geometry.location.lat,
-          place.geometry.location.lng
+          place.location!.latitude,
+          place.location!.longitude
         );
         return this.googlePlaceToPlace(place, distance);
       })
@@ -223,8 +351,8 @@ export class GooglePlacesProvider implements LocationProvider {
       .sort((a, b) => (a.distance || 0) - (b.distance || 0));
   }
 
-  private googlePlaceToPlace(googlePlace: any, distance: number): Place | null {
-    if (!googlePlace.geometry?.location || !googlePlace.name) {
+  private googlePlaceToPlace(googlePlace: GooglePlace, distance?: number): Place | null {
+    if (!googlePlace.location || !googlePlace.displayName?.text) {
       return null;
     }
 
@@ -233,13 +361,13 @@ export class GooglePlacesProvider implements LocationProvider {
 
     // Build contact info - only include if values exist
     const contact: { phone?: string; website?: string; email?: string } = {};
-    if (googlePlace.formatted_phone_number) contact.phone = googlePlace.formatted_phone_number;
-    if (googlePlace.website) contact.website = googlePlace.website;
+    if (googlePlace.nationalPhoneNumber) contact.phone = googlePlace.nationalPhoneNumber;
+    if (googlePlace.websiteUri) contact.website = googlePlace.websiteUri;
 
     // Build hours - only include if values exist
     const hours: Record<string, string> = {};
-    if (googlePlace.opening_hours?.weekday_text) {
-      googlePlace.opening_hours.weekday_text.forEach((dayText: string) => {
+    if (googlePlace.regularOpeningHours?.weekdayDescriptions) {
+      googlePlace.regularOpeningHours.weekdayDescriptions.forEach((dayText: string) => {
         const [day, time] = dayText.split(': ');
         if (day && time) {
           hours[day.toLowerCase()] = time;
@@ -249,26 +377,27 @@ export class GooglePlacesProvider implements LocationProvider {
 
     // Build features
     const features: string[] = [];
-    if (googlePlace.business_status === 'OPERATIONAL') features.push('operational');
+    if (googlePlace.businessStatus === 'OPERATIONAL') features.push('operational');
 
     // Build metadata step by step to avoid undefined assignments
     const googleMetadata: { placeId: string; rating?: number; reviewCount?: number; priceLevel?: number } = {
-      placeId: googlePlace.place_id,
+      placeId: googlePlace.id,
     };
 
     if (typeof googlePlace.rating === 'number') {
       googleMetadata.rating = googlePlace.rating;
     }
-    if (typeof googlePlace.user_ratings_total === 'number') {
-      googleMetadata.reviewCount = googlePlace.user_ratings_total;
+    if (typeof googlePlace.userRatingCount === 'number') {
+      googleMetadata.reviewCount = googlePlace.userRatingCount;
     }
-    if (typeof googlePlace.price_level === 'number') {
-      googleMetadata.priceLevel = googlePlace.price_level;
+    const priceLevel = googlePlace.priceLevel && PRICE_LEVELS[googlePlace.priceLevel];
+    if (typeof priceLevel === 'number') {
+      googleMetadata.priceLevel = priceLevel;
     }
 
     const metadata: PlaceMetadata = {
       source: 'google' as const,
-      externalId: googlePlace.place_id,
+      externalId: googlePlace.id,
       lastUpdated: new Date(),
       verified: true,
       google: googleMetadata,
@@ -285,13 +414,13 @@ export class GooglePlacesProvider implements LocationProvider {
     }
 
     const place: Place = {
-      id: `google_${googlePlace.place_id}`,
-      name: googlePlace.name,
+      id: `google_${googlePlace.id}`,
+      name: googlePlace.displayName.text,
       category,
       subcategory,
       coordinates: {
-        latitude: googlePlace.geometry.location.lat,
-        longitude: googlePlace.geometry.location.lng,
+        latitude: googlePlace.location.latitude,
+        longitude: googlePlace.location.longitude,
       },
       metadata,
     };
@@ -302,14 +431,14 @@ export class GooglePlacesProvider implements LocationProvider {
     }
 
     // Add optional properties only if they exist
-    if (googlePlace.formatted_address) {
-      place.address = googlePlace.formatted_address;
+    if (googlePlace.formattedAddress) {
+      place.address = googlePlace.formattedAddress;
     }
 
     return place;
   }
 
-  private categorizeGooglePlace(place: any): POICategory {
+  private categorizeGooglePlace(place: GooglePlace): POICategory {
     if (!place.types) {
       return POICategory.ATTRACTION;
     }
@@ -326,21 +455,6 @@ export class GooglePlacesProvider implements LocationProvider {
     return POICategory.ATTRACTION;
   }
 
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    // Haversine formula
-    const R = 6371000; // Earth's radius in meters
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLng / 2) * Math.sin(dLng / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
   validateConfig(): boolean {
     return !!this.apiKey;
   }
@@ -1,16 +1,24 @@
 // src/shared/services/location/providers/hybrid.provider.ts
 
-import { config } from '@shared/config';
+import { Location, Prisma } from '@prisma/client';
+import { config, GoogleCostPolicy, ProvenanceField } from '@shared/config';
 import { db } from '@shared/database';
 import {
   LocationProvider,
   LocationSearchRequest,
   LocationSearchResponse,
   Place,
+  PlaceProvenance,
   POICategory
 } from '../types';
 import { OSMProvider } from './osm.provider';
 import { GooglePlacesProvider } from './google.provider';
+import { TiledLocationProvider } from './tiled.provider';
+import { resolveGoogleCostPolicy } from '../cost-policy';
+import { calculateMergeConfidence, calculateNameSimilarity, categoriesMatch, MAX_MATCH_DISTANCE } from '../place-matching';
+import { FieldCandidate, fieldProvenance, rankFieldCandidates } from '../provenance';
+import { providerUsageService, MonthlySpendStatus } from '../provider-usage.service';
+import { distanceInMeters } from '../geo';
 
 interface MergeCandidate {
   osmPlace: Place;
@@ -20,34 +28,35 @@ interface MergeCandidate {
   confidence: number; // 0-1 merge confidence
 }
 
-interface CostOptimizationConfig {
-  maxGoogleEnrichments: number; // Limit Google API calls per search
-  minReviewsForEnrichment: number; // Only enrich popular places
-  popularPlaceRadius: number; // Consider place popular if within this radius of city center
+interface MatchDecisions {
+  accepted: string | null; // Google place id an admin confirmed for the OSM place
+  rejected: Set<string>;
+}
+
+export interface EnrichmentResult {
+  status: 'merged' | 'conflict' | 'no-match' | 'skipped';
+  confidence?: number;
+  googlePlaceId?: string;
 }
 
 export class HybridProvider implements LocationProvider {
-  private osmProvider: OSMProvider;
-  private googleProvider: GooglePlacesProvider | null = null;
-  private costConfig: CostOptimizationConfig;
+  private osmProvider: LocationProvider;
+  private googleProvider: LocationProvider | null = null;
+  // Untiled, for looking up single places - a tile search would spend calls on the whole neighbourhood
+  private googleLookup: GooglePlacesProvider | null = null;
 
   constructor() {
-    this.osmProvider = new OSMProvider();
+    this.osmProvider = new TiledLocationProvider(new OSMProvider());
 
     // Initialize Google provider if available
     try {
       if (config.apis.googlePlaces) {
-        this.googleProvider = new GooglePlacesProvider();
+        this.googleLookup = new GooglePlacesProvider();
+        this.googleProvider = new TiledLocationProvider(this.googleLookup);
       }
     } catch (error) {
       console.warn('Google Places provider not available:', error);
     }
-
-    this.costConfig = {
-      maxGoogleEnrichments: 10, // Max 10 Google calls per search
-      minReviewsForEnrichment: 5, // Only enrich places with 5+ reviews
-      popularPlaceRadius: 5000 // 5km from search center
-    };
   }
 
   async searchNearby(request: LocationSearchRequest): Promise<LocationSearchResponse> {
@@ -57,22 +66,37 @@ export class HybridProvider implements LocationProvider {
       // Step 1: Get comprehensive results from OSM (free)
       console.log('🔍 Searching OSM for comprehensive coverage...');
       const osmResults = await this.osmProvider.searchNearby(request);
+      const { places: osmPlaces, storedEnrichments } = await this.applyStoredEnrichment(osmResults.places);
+      const enrichmentMode = config.location.googleEnrichment.mode;
 
-      // Step 2: Selectively enrich with Google data (cost-aware)
-      let enrichedPlaces = osmResults.places;
+      // Step 2: Selectively enrich with Google data (cost-aware). In async mode the worker does this
+      // in the background and the stored matches were applied above.
+      const policy = resolveGoogleCostPolicy(request);
+      let enrichedPlaces = osmPlaces;
       let googleEnrichments = 0;
+      let googleRequests = 0;
+      let monthlySpend: MonthlySpendStatus | null = null;
+      let fallbackReason: string | undefined;
+
+      // Close to the monthly cap every search degrades to OSM-only until the month rolls over. The
+      // background batches stop too, so async searches report the cap the same way.
+      if (this.googleProvider && (enrichmentMode === 'async' || this.shouldUseGoogleEnrichment(request, policy))) {
+        ({ monthlySpend, fallbackReason } = await this.checkMonthlySpend(enrichmentMode));
+      }
 
-      if (this.googleProvider && this.shouldUseGoogleEnrichment(request)) {
+      if (this.googleProvider && enrichmentMode === 'inline' && monthlySpend && !fallbackReason) {
         console.log('💎 Enriching with Google Places data...');
 
         // Get Google results for comparison and enrichment
-        const googleResults = await this.getGoogleResults(request);
+        const googleResults = await this.getGoogleResults(request, policy);
+        googleRequests = this.countGoogleRequests(googleResults);
 
         // Intelligent merging
         const mergeResults = await this.mergeProviderData(
-          osmResults.places,
+          osmPlaces,
           googleResults.places,
-          request
+          request,
+          policy
         );
 
         enrichedPlaces = mergeResults.mergedPlaces;
@@ -94,10 +118,18 @@ export class HybridProvider implements LocationProvider {
           // Enhanced metadata for cost tracking
           osmPlaces: osmResults.places.length,
           googleEnrichments,
+          googleEnrichmentMode: enrichmentMode,
+          storedEnrichments,
+          ...(fallbackReason && { fallbackReason }),
           costOptimization: {
-            maxGoogleCalls: this.costConfig.maxGoogleEnrichments,
+            maxGoogleCalls: policy.maxGoogleEnrichments,
             actualGoogleCalls: googleEnrichments,
-            costSavings: `${((this.costConfig.maxGoogleEnrichments - googleEnrichments) / this.costConfig.maxGoogleEnrichments * 100).toFixed(0)}%`
+            costSavings: policy.maxGoogleEnrichments > 0
+              ? `${((policy.maxGoogleEnrichments - googleEnrichments) / policy.maxGoogleEnrichments * 100).toFixed(0)}%`
+              : '100%',
+            googleRequests,
+            estimatedCost: googleRequests * providerUsageService.getRequestCost('search'),
+            ...(monthlySpend && { monthlySpend: { month: monthlySpend.month, spent: monthlySpend.spent, cap: monthlySpend.cap } })
           }
         }
       };
@@ -118,30 +150,67 @@ export class HybridProvider implements LocationProvider {
     }
   }
 
-  private shouldUseGoogleEnrichment(request: LocationSearchRequest): boolean {
-    // Cost optimization: Only use Google for specific scenarios
+  private shouldUseGoogleEnrichment(request: LocationSearchRequest, policy: GoogleCostPolicy): boolean {
+    // Cost optimization: Only use Google where the policy for this mood and these categories allows it
+    if (!policy.enabled || policy.maxGoogleEnrichments <= 0) {
+      console.log('💰 Skipping Google enrichment: disabled by cost policy');
+      return false;
+    }
 
     // Skip Google for large radius searches (too expensive)
-    if ((request.radius || 2000) > 5000) {
+    if ((request.radius || 2000) > policy.popularPlaceRadius) {
       console.log('💰 Skipping Google enrichment: radius too large');
       return false;
     }
 
-    // Skip Google for certain moods that don't benefit from ratings
-    if (request.mood === 'curious' && !request.categories?.includes(POICategory.RESTAURANT)) {
-      console.log('💰 Skipping Google enrichment: curiosity searches don\'t need ratings');
-      return false;
+    return true;
+  }
+
+  /**
+   * Inline enrichment fails closed: without knowing the month's spend we can't tell whether the cap
+   * still allows Google. Async searches never call Google, so a failed check only goes unreported.
+   */
+  private async checkMonthlySpend(
+    mode: 'inline' | 'async'
+  ): Promise<{ monthlySpend: MonthlySpendStatus | null; fallbackReason?: string }> {
+    try {
+      const monthlySpend = await providerUsageService.getMonthlyStatus('google');
+      if (monthlySpend.degraded) {
+        const spent = `$${monthlySpend.spent} of $${monthlySpend.cap}`;
+        console.log(`💰 Skipping Google enrichment: ${spent} monthly cap spent`);
+        return {
+          monthlySpend,
+          fallbackReason: mode === 'inline'
+            ? `Google monthly spend cap nearly reached (${spent}), serving OSM data only`
+            : `Google monthly spend cap nearly reached (${spent}), background enrichment paused`
+        };
+      }
+      return { monthlySpend };
+    } catch (error) {
+      console.warn('Failed to check Google spend:', error instanceof Error ? error.message : error);
+      return mode === 'inline'
+        ? { monthlySpend: null, fallbackReason: 'Google spend could not be checked, serving OSM data only' }
+        : { monthlySpend: null };
     }
+  }
 
-    return true;
+  // Tiles already cached cost nothing; a search that bypassed the tiles was a single request
+  private countGoogleRequests(response: LocationSearchResponse): number {
+    if (response.metadata.provider === 'google-failed') return 0;
+
+    const tiles = response.metadata.tiles;
+    if (tiles) {
+      return tiles.fetched + (tiles.supplemented ? 1 : 0);
+    }
+    return response.metadata.cached ? 0 : 1;
   }
 
-  private async getGoogleResults(request: LocationSearchRequest): Promise<LocationSearchResponse> {
+  private async getGoogleResults(request: LocationSearchRequest, policy: GoogleCostPolicy): Promise<LocationSearchResponse> {
     try {
       // Limit Google search to cost-effective categories
       const googleRequest = {
         ...request,
-        limit: this.costConfig.maxGoogleEnrichments,
+        limit: policy.maxGoogleEnrichments,
         // Focus on categories that benefit from Google data
         categories: request.categories?.filter(cat =>
           [POICategory.RESTAURANT, POICategory.CAFE, POICategory.BAR, POICategory.ATTRACTION].includes(cat)
@@ -158,25 +227,57 @@ export class HybridProvider implements LocationProvider {
   private async mergeProviderData(
     osmPlaces: Place[],
     googlePlaces: Place[],
-    request: LocationSearchRequest
+    request: LocationSearchRequest,
+    policy: GoogleCostPolicy
   ): Promise<{ mergedPlaces: Place[]; googleEnrichments: number }> {
     console.log(`🔀 Merging ${osmPlaces.length} OSM places with ${googlePlaces.length} Google places...`);
 
     const mergedPlaces: Place[] = [];
     const usedGooglePlaces = new Set<string>();
+    const { autoMergeConfidence, conflictConfidence } = config.location.mergeReview;
+    const decisions = await this.loadMatchDecisions(osmPlaces.flatMap(place => place.metadata?.osm?.id ?? []));
     let googleEnrichments = 0;
 
     // Phase 1: Enhance OSM places with Google data
     for (const osmPlace of osmPlaces) {
-      const googleMatch = this.findBestGoogleMatch(osmPlace, googlePlaces);
+      // Already matched by an earlier enrichment - don't add its Google twin as a separate place
+      const storedGoogleId = osmPlace.metadata?.source === 'merged' ? osmPlace.metadata.google?.placeId : undefined;
+      if (storedGoogleId) {
+        mergedPlaces.push(osmPlace);
+        usedGooglePlaces.add(`google_${storedGoogleId}`);
+        continue;
+      }
 
-      if (googleMatch && googleMatch.confidence > 0.7) {
-        console.log(`✅ High confidence merge: ${osmPlace.name} + ${googleMatch.googlePlace.name}`);
+      // Pairs an admin rejected never match again, and an accepted pair always does
+      const decision = osmPlace.metadata?.osm && decisions.get(osmPlace.metadata.osm.id);
+      const candidates = decision
+        ? googlePlaces.filter(place => !decision.rejected.has(place.metadata?.google?.placeId ?? ''))
+        : googlePlaces;
+      const accepted = decision?.accepted
+        ? candidates.find(place => place.metadata?.google?.placeId === decision.accepted)
+        : undefined;
 
-        const mergedPlace = this.mergePlaceData(osmPlace, googleMatch.googlePlace);
+      const googleMatch = this.findBestGoogleMatch(osmPlace, candidates);
+
+      if (accepted || (googleMatch && googleMatch.confidence > autoMergeConfidence)) {
+        const googlePlace = accepted ?? googleMatch!.googlePlace;
+        console.log(`✅ ${accepted ? 'Reviewed' : 'High confidence'} merge: ${osmPlace.name} + ${googlePlace.name}`);
+
+        // An admin-confirmed pair is as certain as a match gets
+        const mergedPlace = this.mergePlaceData(osmPlace, googlePlace, accepted ? 1 : googleMatch!.confidence);
         mergedPlaces.push(mergedPlace);
-        usedGooglePlaces.add(googleMatch.googlePlace.id);
+        usedGooglePlaces.add(googlePlace.id);
         googleEnrichments++;
+      } else if (googleMatch && osmPlace.metadata && googleMatch.confidence >= conflictConfidence) {
+        console.log(`⚖️ Match needs review: ${osmPlace.name} + ${googleMatch.googlePlace.name} (${googleMatch.confidence.toFixed(2)})`);
+        await this.recordConflict(googleMatch);
+
+        // Shown once, as the OSM place, until someone decides
+        mergedPlaces.push({
+          ...osmPlace,
+          metadata: { ...osmPlace.metadata, source: 'osm' as const, mergeStatus: 'conflict' }
+        });
+        usedGooglePlaces.add(googleMatch.googlePlace.id);
       } else {
         // Keep OSM place as-is
         mergedPlaces.push({
@@ -199,6 +300,9 @@ export class HybridProvider implements LocationProvider {
 
     // Phase 2: Add Google-only places (not matched with OSM)
     for (const googlePlace of googlePlaces) {
+      // Unmatched places only earn a spot when enough people have reviewed them
+      if ((googlePlace.metadata?.google?.reviewCount ?? 0) < policy.minReviewsForEnrichment) continue;
+
       if (!usedGooglePlaces.has(googlePlace.id)) {
         console.log(`➕ Adding Google-only place: ${googlePlace.name}`);
         mergedPlaces.push({
@@ -232,11 +336,175 @@ export class HybridProvider implements LocationProvider {
     };
   }
 
+  /**
+   * Looks a stored OSM-only location up on Google and stores the merged place when the best match
+   * is confident enough, or queues it for review when it is borderline. Costs exactly one Google
+   * call unless it returns 'skipped'.
+   */
+  async enrichLocation(location: Location): Promise<EnrichmentResult> {
+    if (!this.googleLookup) {
+      return { status: 'skipped' };
+    }
+
+    const osmPlace = this.dbLocationToPlace(location);
+    // The stored 'osm-only' status would otherwise carry over into the merged place
+    if (osmPlace.metadata) {
+      delete osmPlace.metadata.mergeStatus;
+    }
+
+    const googleResults = await this.googleLookup.searchNearby({
+      latitude: location.latitude,
+      longitude: location.longitude,
+      radius: config.location.googleEnrichment.matchRadius,
+      categories: [osmPlace.category]
+    });
+
+    const { autoMergeConfidence, conflictConfidence } = config.location.mergeReview;
+    const decision = location.osmId ? (await this.loadMatchDecisions([location.osmId])).get(location.osmId) : undefined;
+    const candidates = googleResults.places.filter(place => !decision?.rejected.has(place.metadata?.google?.placeId ?? ''));
+
+    const googleMatch = this.findBestGoogleMatch(osmPlace, candidates);
+    if (!googleMatch || googleMatch.confidence <= autoMergeConfidence) {
+      // Review needs an OSM id to key the pair by, so borderline matches of manual places are dropped
+      const conflict = googleMatch !== null && location.osmId !== null && googleMatch.confidence >= conflictConfidence;
+      if (conflict) {
+        await this.recordConflict(googleMatch, location.id);
+      }
+
+      await db.location.markGoogleChecked(location.id, conflict ? 'conflict' : undefined);
+      return { status: conflict ? 'conflict' : 'no-match', ...(googleMatch && { confidence: googleMatch.confidence }) };
+    }
+
+    const mergedPlace = await this.applyGoogleMatch(location, googleMatch.googlePlace, googleMatch.confidence);
+    const google = mergedPlace.metadata?.google;
+    console.log(`✅ Enriched ${location.name} with ${googleMatch.googlePlace.name} (${googleMatch.confidence.toFixed(2)})`);
+
+    return {
+      status: 'merged',
+      confidence: googleMatch.confidence,
+      ...(google && { googlePlaceId: google.placeId })
+    };
+  }
+
+  // Merges a Google place into a stored location and saves the result on that row
+  async applyGoogleMatch(location: Location, googlePlace: Place, matchConfidence: number = 1): Promise<Place> {
+    const { place, data } = this.buildGoogleMatchUpdate(location, googlePlace, matchConfidence);
+
+    // Update the row itself - manual locations have no OSM id for upsertLocation to find them by
+    await db.location.markRefreshed(location.id, 'google', data);
+    return place;
+  }
+
+  // The merged place and the row update that stores it, without writing anything
+  buildGoogleMatchUpdate(
+    location: Location,
+    googlePlace: Place,
+    matchConfidence: number = 1
+  ): { place: Place; data: Prisma.LocationUpdateInput } {
+    const osmPlace = this.dbLocationToPlace(location);
+    if (osmPlace.metadata) {
+      delete osmPlace.metadata.mergeStatus;
+    }
+
+    const mergedPlace = this.mergePlaceData(osmPlace, googlePlace, matchConfidence);
+    const google = mergedPlace.metadata?.google;
+
+    const data: Prisma.LocationUpdateInput = {
+      name: mergedPlace.name,
+      ...(mergedPlace.address && { address: mergedPlace.address }),
+      ...(mergedPlace.description && { description: mergedPlace.description }),
+      source: 'merged',
+      mergeStatus: 'merged',
+      googlePlaceId: google?.placeId ?? null,
+      ...(google?.rating !== undefined && { rating: google.rating }),
+      ...(google?.reviewCount !== undefined && { reviewCount: google.reviewCount }),
+      ...(google?.priceLevel !== undefined && { priceLevel: google.priceLevel }),
+      qualityScore: this.calculateQualityScore(mergedPlace),
+      metadata: mergedPlace.metadata as unknown as Prisma.InputJsonValue
+    };
+
+    return { place: mergedPlace, data };
+  }
+
+  private async loadMatchDecisions(osmIds: string[]): Promise<Map<string, MatchDecisions>> {
+    const decisions = new Map<string, MatchDecisions>();
+
+    let rows: Awaited<ReturnType<typeof db.placeMatch.findDecisions>>;
+    try {
+      rows = await db.placeMatch.findDecisions(osmIds);
+    } catch (error) {
+      console.warn('Failed to load match decisions:', error instanceof Error ? error.message : error);
+      return decisions;
+    }
+
+    for (const row of rows) {
+      const decision = decisions.get(row.osmId) ?? { accepted: null, rejected: new Set<string>() };
+      if (row.status === 'accepted') decision.accepted = row.googlePlaceId;
+      else decision.rejected.add(row.googlePlaceId);
+      decisions.set(row.osmId, decision);
+    }
+
+    return decisions;
+  }
+
+  // Keeps both sides as they were seen so a reviewer can judge the pair later
+  private async recordConflict(match: MergeCandidate, locationId?: string): Promise<void> {
+    const osmId = match.osmPlace.metadata?.osm?.id;
+    const googlePlaceId = match.googlePlace.metadata?.google?.placeId;
+    if (!osmId || !googlePlaceId) return;
+
+    try {
+      await db.placeMatch.recordCandidate({
+        osmId,
+        googlePlaceId,
+        ...(locationId && { locationId }),
+        confidence: Math.round(match.confidence * 100) / 100,
+        distance: Math.round(match.distance),
+        nameSimilarity: match.nameSimilarity,
+        osmSnapshot: match.osmPlace as unknown as Prisma.InputJsonValue,
+        googleSnapshot: match.googlePlace as unknown as Prisma.InputJsonValue
+      });
+    } catch (error) {
+      console.warn(`Failed to record match conflict for ${match.osmPlace.name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Carries Google data matched by earlier enrichments onto freshly fetched OSM places
+  private async applyStoredEnrichment(osmPlaces: Place[]): Promise<{ places: Place[]; storedEnrichments: number }> {
+    const osmIds = osmPlaces.flatMap(place => place.metadata?.osm?.id ?? []);
+
+    let stored: Location[];
+    try {
+      stored = await db.location.findManyByOsmIds(osmIds);
+    } catch (error) {
+      console.warn('Failed to load stored enrichments:', error instanceof Error ? error.message : error);
+      return { places: osmPlaces, storedEnrichments: 0 };
+    }
+
+    const enriched = new Map(
+      stored.filter(location => location.googlePlaceId).map(location => [location.osmId, location])
+    );
+    if (enriched.size === 0) {
+      return { places: osmPlaces, storedEnrichments: 0 };
+    }
+
+    let storedEnrichments = 0;
+    const places = osmPlaces.map(place => {
+      const location = place.metadata?.osm && enriched.get(place.metadata.osm.id);
+      if (!location) return place;
+
+      storedEnrichments++;
+      return this.mergePlaceData(place, this.dbLocationToPlace(location));
+    });
+
+    return { places, storedEnrichments };
+  }
+
   private findBestGoogleMatch(osmPlace: Place, googlePlaces: Place[]): MergeCandidate | null {
     let bestMatch: MergeCandidate | null = null;
 
     for (const googlePlace of googlePlaces) {
-      const distance = this.calculateDistance(
+      const distance = distanceInMeters(
         osmPlace.coordinates.latitude,
         osmPlace.coordinates.longitude,
         googlePlace.coordinates.latitude,
@@ -244,14 +512,14 @@ export class HybridProvider implements LocationProvider {
       );
 
       // Skip if too far apart (likely different places)
-      if (distance > 200) continue; // 200m threshold
+      if (distance > MAX_MATCH_DISTANCE) continue; // likely different places
 
-      const nameSimilarity = this.calculateNameSimilarity(osmPlace.name, googlePlace.name);
+      const nameSimilarity = calculateNameSimilarity(osmPlace.name, googlePlace.name);
 
       // Category compatibility check
-      const categoryMatch = this.categoriesMatch(osmPlace.category, googlePlace.category);
+      const categoryMatch = categoriesMatch(osmPlace.category, googlePlace.category);
 
-      const confidence = this.calculateMergeConfidence(distance, nameSimilarity, categoryMatch);
+      const confidence = calculateMergeConfidence(distance, nameSimilarity, categoryMatch);
 
       const candidate: MergeCandidate = {
         osmPlace,
@@ -269,18 +537,40 @@ export class HybridProvider implements LocationProvider {
     return bestMatch;
   }
 
-  private mergePlaceData(osmPlace: Place, googlePlace: Place): Place {
-    // Intelligent data merging - use best data from each source
-
+  /**
+   * Combines an OSM place (or stored location) with its Google match. Each tracked field comes from
+   * the most trusted source that has it, per config.location.sourcePrecedence, and where it came
+   * from is kept in metadata.provenance. `matchConfidence` is how sure the match is, and becomes the
+   * confidence of the fields taken from the Google side.
+   */
+  private mergePlaceData(osmPlace: Place, googlePlace: Place, matchConfidence: number = 1): Place {
     // Safely extract metadata with proper handling
     const osmMetadata = osmPlace.metadata;
     const googleMetadata = googlePlace.metadata;
+    const provenance: PlaceProvenance = {};
+
+    const pick = <T>(field: ProvenanceField, osmValue: T | undefined, googleValue: T | undefined): T | undefined => {
+      const [best] = rankFieldCandidates(field, osmPlace.category, [
+        { value: osmValue, provenance: fieldProvenance(osmPlace, field, 'osm', 1) },
+        { value: googleValue, provenance: fieldProvenance(googlePlace, field, 'google', matchConfidence) }
+      ]);
+      if (best) {
+        provenance[field] = best.provenance;
+      }
+      return best?.value;
+    };
 
     // Build contact info safely
     const mergedContact = {
       ...(osmMetadata?.contact || {}),
       ...(googleMetadata?.contact || {})
     };
+    for (const field of ['phone', 'website', 'email'] as const) {
+      const value = pick(field, osmMetadata?.contact?.[field], googleMetadata?.contact?.[field]);
+      if (value) {
+        mergedContact[field] = value;
+      }
+    }
 
     // Build features safely
     const osmFeatures = osmMetadata?.features || [];
@@ -288,9 +578,13 @@ export class HybridProvider implements LocationProvider {
     const mergedFeatures = [...osmFeatures, ...googleFeatures]
       .filter((feature, index, array) => array.indexOf(feature) === index); // deduplicate
 
+    const name = this.chooseBestName(osmPlace, googlePlace, matchConfidence);
+    provenance.name = name.provenance;
+    const hours = pick('hours', osmMetadata?.hours, googleMetadata?.hours);
+
     const mergedPlace: Place = {
       id: osmPlace.id, // Keep OSM ID as primary
-      name: this.chooseBestName(osmPlace.name, googlePlace.name),
+      name: name.value,
       category: osmPlace.category, // OSM categories are more comprehensive
       subcategory: osmPlace.subcategory,
       coordinates: osmPlace.coordinates, // OSM coordinates often more accurate
@@ -310,134 +604,38 @@ export class HybridProvider implements LocationProvider {
         ...(googleMetadata?.google && { google: googleMetadata.google }),
         // Only include contact if it has properties
         ...(Object.keys(mergedContact).length > 0 && { contact: mergedContact }),
-        // Prefer Google hours (more accurate for business hours)
-        ...(googleMetadata?.hours && { hours: googleMetadata.hours }),
-        ...(osmMetadata?.hours && !googleMetadata?.hours && { hours: osmMetadata.hours }),
+        ...(hours && { hours }),
         // Only include features if array has items
         ...(mergedFeatures.length > 0 && { features: mergedFeatures })
       }
     };
 
     // Only add optional properties if they have actual string values
-    const googleAddress = googlePlace.address;
-    const osmAddress = osmPlace.address;
-    const finalAddress = googleAddress || osmAddress;
+    const finalAddress = pick('address', osmPlace.address, googlePlace.address);
     if (finalAddress) {
       mergedPlace.address = finalAddress;
     }
 
-    const osmDescription = osmPlace.description;
-    const googleDescription = googlePlace.description;
-    const finalDescription = osmDescription || googleDescription;
+    const finalDescription = pick('description', osmPlace.description, googlePlace.description);
     if (finalDescription) {
       mergedPlace.description = finalDescription;
     }
 
+    mergedPlace.metadata!.provenance = provenance;
     return mergedPlace;
   }
 
-  private chooseBestName(osmName: string, googleName: string): string {
-    // Prefer more complete names (with more information)
-    if (googleName.length > osmName.length && googleName.includes(osmName)) {
-      return googleName;
-    }
-    if (osmName.length > googleName.length && osmName.includes(googleName)) {
-      return osmName;
-    }
-    // Default to OSM name (often more standardized)
-    return osmName;
-  }
-
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 6371000; // Earth's radius in meters
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLng / 2) * Math.sin(dLng / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
-  private calculateNameSimilarity(name1: string, name2: string): number {
-    // Normalize names for comparison
-    const norm1 = name1.toLowerCase().trim();
-    const norm2 = name2.toLowerCase().trim();
-
-    // Exact match
-    if (norm1 === norm2) return 1;
-
-    // Check if one contains the other (common for business names)
-    if (norm1.includes(norm2) || norm2.includes(norm1)) {
-      const longer = Math.max(norm1.length, norm2.length);
-      const shorter = Math.min(norm1.length, norm2.length);
-      return shorter / longer;
-    }
-
-    // Use Levenshtein distance for fuzzy matching
-    const distance = this.levenshteinDistance(norm1, norm2);
-    const maxLength = Math.max(norm1.length, norm2.length);
-    return maxLength === 0 ? 0 : 1 - (distance / maxLength);
-  }
-
-  private levenshteinDistance(str1: string, str2: string): number {
-    // Handle edge cases
-    if (str1.length === 0) return str2.length;
-    if (str2.length === 0) return str1.length;
+  // The trusted source's name, unless the other source has a more complete version of it
+  private chooseBestName(osmPlace: Place, googlePlace: Place, matchConfidence: number): FieldCandidate<string> & { value: string } {
+    const [preferred, other] = rankFieldCandidates('name', osmPlace.category, [
+      { value: osmPlace.name, provenance: fieldProvenance(osmPlace, 'name', 'osm', 1) },
+      { value: googlePlace.name, provenance: fieldProvenance(googlePlace, 'name', 'google', matchConfidence) }
+    ]);
 
-    // Create distance matrix with proper typing
-    const distances: number[][] = [];
-
-    // Initialize matrix
-    for (let i = 0; i <= str1.length; i++) {
-      distances[i] = [];
-      distances[i]![0] = i;
-    }
-
-    for (let j = 0; j <= str2.length; j++) {
-      distances[0]![j] = j;
-    }
-
-    // Fill matrix
-    for (let i = 1; i <= str1.length; i++) {
-      for (let j = 1; j <= str2.length; j++) {
-        const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
-
-        const deletion = (distances[i - 1]?.[j] ?? 0) + 1;
-        const insertion = (distances[i]?.[j - 1] ?? 0) + 1;
-        const substitution = (distances[i - 1]?.[j - 1] ?? 0) + cost;
-
-        distances[i]![j] = Math.min(deletion, insertion, substitution);
-      }
+    if (preferred && other && other.value.length > preferred.value.length && other.value.includes(preferred.value)) {
+      return other;
     }
-
-    return distances[str1.length]?.[str2.length] ?? 0;
-  }
-
-  private categoriesMatch(osmCategory: POICategory, googleCategory: POICategory): boolean {
-    // Define category compatibility mapping
-    const compatibleCategories: Record<POICategory, POICategory[]> = {
-      [POICategory.RESTAURANT]: [POICategory.RESTAURANT, POICategory.FAST_FOOD, POICategory.CAFE],
-      [POICategory.CAFE]: [POICategory.CAFE, POICategory.RESTAURANT],
-      [POICategory.BAR]: [POICategory.BAR, POICategory.PUB, POICategory.NIGHTCLUB],
-      // Add more mappings as needed
-    } as any;
-
-    const compatible = compatibleCategories[osmCategory];
-    return compatible ? compatible.includes(googleCategory) : osmCategory === googleCategory;
-  }
-
-  private calculateMergeConfidence(distance: number, nameSimilarity: number, categoryMatch: boolean): number {
-    // Weighted confidence calculation
-    const distanceScore = Math.max(0, 1 - (distance / 200)); // 200m max distance
-    const nameScore = nameSimilarity;
-    const categoryScore = categoryMatch ? 1 : 0.3;
-
-    // Weighted average
-    return (distanceScore * 0.4 + nameScore * 0.4 + categoryScore * 0.2);
+    return preferred ?? { value: osmPlace.name, provenance: fieldProvenance(osmPlace, 'name', 'osm', 1) };
   }
 
   private calculateQualityScore(place: Place): number {
@@ -536,7 +734,7 @@ export class HybridProvider implements LocationProvider {
     return null;
   }
 
-  private dbLocationToPlace(location: any): Place {
+  dbLocationToPlace(location: any): Place {
     const place: Place = {
       id: location.id,
       name: location.name,
@@ -1,3 +1,4 @@
 export * from './osm.provider';
 export * from './google.provider';
-export * from './hybrid.provider';
\ No newline at end of file
+export * from './hybrid.provider';
+export * from './tiled.provider';
\ No newline at end of file
@@ -7,8 +7,11 @@ import {
   LocationSearchResponse,
   Place,
   POICategory,
-  POI_CATEGORY_MAPPING
+  POI_CATEGORY_MAPPING,
+  TextSearchRequest
 } from '../types';
+import { parseOpeningHours, describeWeek, describePublicHolidays } from '../osm-opening-hours';
+import { distanceInMeters } from '../geo';
 
 interface OSMNode {
   type: 'node';
@@ -46,13 +49,32 @@ interface OSMResponse {
   elements: OSMElement[];
 }
 
+// One result of Nominatim's /search with format=jsonv2, addressdetails=1 and extratags=1
+interface NominatimResult {
+  osm_type: 'node' | 'way' | 'relation';
+  osm_id: number;
+  lat: string;
+  lon: string;
+  category: string; // Main tag key, e.g. 'amenity'
+  type: string; // Main tag value, e.g. 'restaurant'
+  name?: string;
+  address?: Record<string, string>;
+  extratags?: Record<string, string> | null;
+}
+
+// Nominatim also finds streets, towns and borders; text search is for places to go
+const NOMINATIM_SKIPPED_CATEGORIES = new Set(['boundary', 'highway', 'place', 'landuse', 'railway', 'waterway']);
+const NOMINATIM_MAX_RESULTS = 40;
+
 export class OSMProvider implements LocationProvider {
   private readonly endpoint: string;
   private readonly timeout: number;
   private readonly userAgent: string;
+  private readonly nominatimEndpoint: string;
 
   constructor() {
     this.endpoint = config.location.osmEndpoint;
+    this.nominatimEndpoint = config.location.nominatimEndpoint.replace(/\/+$/, '');
     this.timeout = config.location.timeout;
     this.userAgent = config.location.osmUserAgent;
   }
@@ -63,7 +85,8 @@ export class OSMProvider implements LocationProvider {
     try {
       const query = this.buildOverpassQuery(request);
       const response = await this.executeQuery(query);
-      const places = this.parseResponse(response, request);
+      const matches = this.parseResponse(response, request);
+      const places = matches.slice(0, request.limit || config.location.resultsPerCategory);
 
       return {
         places,
@@ -73,7 +96,8 @@ export class OSMProvider implements LocationProvider {
           totalResults: places.length,
           searchRadius: request.radius || config.location.defaultRadius,
           categoriesSearched: request.categories?.map(cat => cat.toString()) || [],
-          cached: false
+          cached: false,
+          truncated: matches.length > places.length
         }
       };
     } catch (error) {
@@ -81,14 +105,94 @@ export class OSMProvider implements LocationProvider {
     }
   }
 
+  /**
+   * Free-text search through Nominatim. Results near the given coordinates are preferred but not
+   * required. The public instance allows one request per second, so this is for occasional
+   * fall-through rather than bulk use.
+   */
+  async searchText(request: TextSearchRequest): Promise<LocationSearchResponse> {
+    const startTime = Date.now();
+    const limit = Math.min(request.limit || config.location.resultsPerCategory, NOMINATIM_MAX_RESULTS);
+    const radius = request.radius || config.location.defaultRadius;
+    const hasCenter = request.latitude !== undefined && request.longitude !== undefined;
+
+    const params = new URLSearchParams({
+      q: request.query,
+      format: 'jsonv2',
+      addressdetails: '1',
+      extratags: '1',
+      limit: limit.toString()
+    });
+    if (hasCenter) {
+      const latDelta = radius / 111320;
+      const lngDelta = radius / (111320 * Math.cos(request.latitude! * Math.PI / 180));
+      // left,top,right,bottom; without bounded=1 it only ranks, so far-away matches still come back
+      params.set('viewbox', [
+        request.longitude! - lngDelta,
+        request.latitude! + latDelta,
+        request.longitude! + lngDelta,
+        request.latitude! - latDelta
+      ].join(','));
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.nominatimEndpoint}/search?${params}`, {
+        headers: { 'User-Agent': this.userAgent },
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const results = await response.json() as NominatimResult[];
+      const places = results
+        .filter(result => !NOMINATIM_SKIPPED_CATEGORIES.has(result.category))
+        .map(result => {
+          const element = this.nominatimResultToElement(result);
+          const { latitude, longitude } = this.getElementCoordinates(element);
+          const distance = hasCenter ? distanceInMeters(request.latitude!, request.longitude!, latitude, longitude) : 0;
+          return this.elementToPlace(element, distance);
+        })
+        .filter((place): place is Place => place !== null)
+        .filter(place => !request.categories?.length || request.categories.includes(place.category));
+
+      return {
+        places,
+        metadata: {
+          provider: 'osm',
+          responseTime: Date.now() - startTime,
+          totalResults: places.length,
+          searchRadius: hasCenter ? radius : 0,
+          categoriesSearched: request.categories?.map(cat => cat.toString()) || [],
+          cached: false
+        }
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Nominatim search failed: Request timeout');
+      }
+      throw new Error(`Nominatim search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
   async getPlaceDetails(externalId: string): Promise<Place | null> {
     try {
+      // Stored ids ("way/123") name the element type; bare numbers could be any of them
+      const typed = externalId.match(/^(node|way|relation)\/(\d+)$/);
+      const selectors = typed
+        ? [`${typed[1]}(${typed[2]});`]
+        : [`node(${externalId});`, `way(${externalId});`, `relation(${externalId});`];
+
       const query = `
         [out:json][timeout:${Math.floor(this.timeout / 1000)}];
         (
-          node(${externalId});
-          way(${externalId});
-          relation(${externalId});
+          ${selectors.join('\n          ')}
         );
         out center meta;
       `;
@@ -215,11 +319,8 @@ export class OSMProvider implements LocationProvider {
 
     for (const element of response.elements) {
       try {
-        const place = this.elementToPlace(element, this.calculateDistance(
-          searchLat,
-          searchLng,
-          this.getElementCoordinates(element)
-        ));
+        const { latitude, longitude } = this.getElementCoordinates(element);
+        const place = this.elementToPlace(element, distanceInMeters(searchLat, searchLng, latitude, longitude));
 
         if (place) {
           places.push(place);
@@ -230,9 +331,8 @@ export class OSMProvider implements LocationProvider {
       }
     }
 
-    // Sort by distance and apply limit
-    places.sort((a, b) => (a.distance || 0) - (b.distance || 0));
-    return places.slice(0, request.limit || config.location.resultsPerCategory);
+    // Nearest first; the caller applies the limit
+    return places.sort((a, b) => (a.distance || 0) - (b.distance || 0));
   }
 
   private elementToPlace(element: OSMElement, distance: number): Place | null {
@@ -286,6 +386,32 @@ export class OSMProvider implements LocationProvider {
     return place;
   }
 
+  // Rebuilds the tags Overpass would have returned, so results are categorized the same way
+  private nominatimResultToElement(result: NominatimResult): OSMElement {
+    const address = result.address ?? {};
+    const city = address.city || address.town || address.village;
+    const tags: Record<string, string> = {
+      ...(result.extratags ?? {}),
+      [result.category]: result.type,
+      ...(result.name && { name: result.name }),
+      ...(address.house_number && { 'addr:housenumber': address.house_number }),
+      ...(address.road && { 'addr:street': address.road }),
+      ...(city && { 'addr:city': city }),
+      ...(address.postcode && { 'addr:postcode': address.postcode })
+    };
+    const lat = parseFloat(result.lat);
+    const lon = parseFloat(result.lon);
+
+    switch (result.osm_type) {
+      case 'node':
+        return { type: 'node', id: result.osm_id, lat, lon, tags };
+      case 'way':
+        return { type: 'way', id: result.osm_id, nodes: [], tags, center: { lat, lon } };
+      case 'relation':
+        return { type: 'relation', id: result.osm_id, members: [], tags, center: { lat, lon } };
+    }
+  }
+
   private extractName(element: OSMElement): string | null {
     const tags = element.tags;
     return tags.name || tags.brand || tags.operator || null;
@@ -399,11 +525,23 @@ export class OSMProvider implements LocationProvider {
     const hours: Record<string, string> = {};
 
     if (tags.opening_hours) {
-      // Simple parsing - in a real implementation, you'd use a proper opening_hours parser
+      // The raw value stays the source of truth; the per-day strings are for display
       hours.general = tags.opening_hours;
+
+      try {
+        const schedule = parseOpeningHours(tags.opening_hours);
+        Object.assign(hours, describeWeek(schedule));
+
+        const publicHolidays = describePublicHolidays(schedule);
+        if (publicHolidays) {
+          hours.public_holidays = publicHolidays;
+        }
+      } catch {
+        // Free-text values ("by appointment") are kept as they are
+      }
     }
 
-    // Individual day parsing
+    // Explicit per-day tags override the summary
     const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
     for (const day of days) {
       const tagKey = `opening_hours:${day}`;
@@ -431,23 +569,6 @@ export class OSMProvider implements LocationProvider {
     return features;
   }
 
-  private calculateDistance(lat1: number, lng1: number, coords: { latitude: number; longitude: number }): number {
-    const { latitude: lat2, longitude: lng2 } = coords;
-
-    // Haversine formula
-    const R = 6371000; // Earth's radius in meters
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLng / 2) * Math.sin(dLng / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
   validateConfig(): boolean {
     return !!(this.endpoint && this.userAgent);
   }
@@ -0,0 +1,217 @@
+// src/shared/services/location/providers/tiled.provider.ts - serve provider searches from geohash tiles
+
+import { createHash } from 'crypto';
+import { config } from '@shared/config';
+import { db } from '@shared/database';
+import {
+  LocationProvider,
+  LocationSearchRequest,
+  LocationSearchResponse,
+  Place,
+  POICategory
+} from '../types';
+import { coverCircle, encodeGeohash, tileSearchArea } from '../geohash';
+import { revivePlaceDates } from '../place-dates';
+import { cacheStore } from '../../cache';
+import { distanceInMeters } from '../geo';
+
+type TileSource = 'cache' | 'database' | 'provider';
+
+interface Tile {
+  places: Place[];
+  truncated: boolean; // The provider hit fetchLimit (or its own cap), so places may be missing
+}
+
+/**
+ * Wraps an external provider so searches are answered from per-tile results. Each tile is fetched
+ * once, kept in the cache store and the location_tiles table, and reused by every overlapping search.
+ */
+export class TiledLocationProvider implements LocationProvider {
+  private readonly cacheNamespace = 'location-tiles';
+
+  constructor(private readonly provider: LocationProvider) {}
+
+  async searchNearby(request: LocationSearchRequest): Promise<LocationSearchResponse> {
+    const settings = config.location.tiles;
+    if (!settings.enabled) {
+      return this.provider.searchNearby(request);
+    }
+
+    const startTime = Date.now();
+    const radius = request.radius || config.location.defaultRadius;
+    const categories = [...(request.categories ?? Object.values(POICategory))].sort();
+    const categoryKey = createHash('sha1').update(categories.join(',')).digest('hex').slice(0, 16);
+    const coverage = coverCircle(request.latitude, request.longitude, radius, settings.precision, settings.maxPerSearch);
+
+    // Much coarser tiles would be cut short by fetchLimit, so wide searches go straight to the provider
+    if (coverage.precision < settings.precision - 1) {
+      return this.provider.searchNearby(request);
+    }
+
+    const tiles = new Map<string, Tile>();
+    const sources: Record<TileSource, number> = { cache: 0, database: 0, provider: 0 };
+
+    for (const geohash of coverage.geohashes) {
+      const cached = await cacheStore.get<Tile>(this.cacheNamespace, this.tileKey(geohash, categoryKey));
+      // Entries cached before truncation was tracked were plain arrays; treat them as misses
+      if (cached?.places) {
+        tiles.set(geohash, { ...cached, places: cached.places.map(revivePlaceDates) });
+        sources.cache++;
+      }
+    }
+
+    // Tiles evicted from the cache (or fetched by another instance) are still in the database
+    const uncached = coverage.geohashes.filter(geohash => !tiles.has(geohash));
+    for (const stored of await this.loadStoredTiles(uncached, categoryKey)) {
+      const tile = { places: stored.places as unknown as Place[], truncated: stored.truncated };
+      tiles.set(stored.geohash, { ...tile, places: tile.places.map(revivePlaceDates) });
+      sources.database++;
+      await this.cacheTile(stored.geohash, categoryKey, tile, stored.expiresAt);
+    }
+
+    const missing = coverage.geohashes.filter(geohash => !tiles.has(geohash));
+    const fetched = await this.fetchTiles(missing, coverage.precision, categoryKey, categories);
+    for (const geohash of missing) {
+      tiles.set(geohash, fetched.get(geohash)!);
+      sources.provider++;
+    }
+
+    // A truncated tile keeps the places nearest its own center, so ones near the user can be
+    // missing however often it is refetched; a direct search around the request fills those in
+    const truncated = coverage.geohashes.filter(geohash => tiles.get(geohash)!.truncated).length;
+    const supplement = truncated > 0 ? (await this.provider.searchNearby(request)).places : [];
+
+    const places = this.collectPlaces(request, radius, [...Array.from(tiles.values(), tile => tile.places), supplement]);
+    console.log(
+      `🧩 ${this.getProviderName()}: ${coverage.geohashes.length} tiles at precision ${coverage.precision} ` +
+      `(${sources.cache} cached, ${sources.database} stored, ${sources.provider} fetched` +
+      `${truncated > 0 ? `, ${truncated} truncated and supplemented by a direct search` : ''})`
+    );
+
+    return {
+      places,
+      metadata: {
+        provider: this.getProviderName(),
+        responseTime: Date.now() - startTime,
+        totalResults: places.length,
+        searchRadius: radius,
+        categoriesSearched: categories.map(cat => cat.toString()),
+        cached: sources.provider === 0 && truncated === 0,
+        tiles: {
+          precision: coverage.precision,
+          total: coverage.geohashes.length,
+          fromCache: sources.cache,
+          fromDatabase: sources.database,
+          fetched: sources.provider,
+          truncated,
+          supplemented: truncated > 0
+        }
+      }
+    };
+  }
+
+  getPlaceDetails(externalId: string): Promise<Place | null> {
+    return this.provider.getPlaceDetails(externalId);
+  }
+
+  validateConfig(): boolean {
+    return this.provider.validateConfig();
+  }
+
+  getProviderName(): string {
+    return this.provider.getProviderName();
+  }
+
+  // A few tiles at a time, so a cold search isn't nine round trips in a row nor a burst at the provider
+  private async fetchTiles(
+    geohashes: string[],
+    precision: number,
+    categoryKey: string,
+    categories: POICategory[]
+  ): Promise<Map<string, Tile>> {
+    const fetched = new Map<string, Tile>();
+    const queue = [...geohashes];
+    const workers = Math.min(config.location.tiles.fetchConcurrency, queue.length);
+
+    await Promise.all(Array.from({ length: workers }, async () => {
+      for (let geohash = queue.shift(); geohash; geohash = queue.shift()) {
+        fetched.set(geohash, await this.fetchTile(geohash, precision, categoryKey, categories));
+      }
+    }));
+
+    return fetched;
+  }
+
+  // Asks the provider for everything around the tile and keeps only what falls inside it
+  private async fetchTile(geohash: string, precision: number, categoryKey: string, categories: POICategory[]): Promise<Tile> {
+    const { fetchLimit, ttl } = config.location.tiles;
+    const area = tileSearchArea(geohash);
+    const response = await this.provider.searchNearby({
+      ...area,
+      categories,
+      limit: fetchLimit
+    });
+
+    const tile: Tile = {
+      places: response.places.filter(place =>
+        encodeGeohash(place.coordinates.latitude, place.coordinates.longitude, precision) === geohash
+      ),
+      truncated: response.metadata.truncated ?? response.places.length >= fetchLimit
+    };
+    const expiresAt = new Date(Date.now() + ttl * 1000);
+
+    await this.cacheTile(geohash, categoryKey, tile, expiresAt);
+    try {
+      await db.locationTile.save({ provider: this.getProviderName(), geohash, categoryKey, ...tile, expiresAt });
+    } catch (error) {
+      // The tile is still cached, it just won't survive a restart
+      console.warn(`Failed to store tile ${geohash}:`, error instanceof Error ? error.message : error);
+    }
+
+    return tile;
+  }
+
+  private async loadStoredTiles(geohashes: string[], categoryKey: string) {
+    try {
+      return await db.locationTile.findFresh(this.getProviderName(), geohashes, categoryKey);
+    } catch (error) {
+      console.warn('Failed to load stored tiles:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  private async cacheTile(geohash: string, categoryKey: string, tile: Tile, expiresAt: Date): Promise<void> {
+    const ttl = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
+    if (ttl > 0) {
+      await cacheStore.set(this.cacheNamespace, this.tileKey(geohash, categoryKey), tile, ttl);
+    }
+  }
+
+  // Tiles cover a box around the circle, so trim back to the radius and measure from the real center
+  private collectPlaces(request: LocationSearchRequest, radius: number, groups: Place[][]): Place[] {
+    const seen = new Set<string>();
+    const places: Place[] = [];
+
+    for (const group of groups) {
+      for (const place of group) {
+        // Tiles stored at different times (or a supplementing search) can hold the same place
+        if (seen.has(place.id)) continue;
+
+        const { latitude, longitude } = place.coordinates;
+        const distance = distanceInMeters(request.latitude, request.longitude, latitude, longitude);
+        if (distance > radius) continue;
+
+        seen.add(place.id);
+        places.push({ ...place, distance: Math.round(distance) });
+      }
+    }
+
+    return places
+      .sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0))
+      .slice(0, request.limit || config.location.resultsPerCategory);
+  }
+
+  private tileKey(geohash: string, categoryKey: string): string {
+    return `${this.getProviderName()}:${categoryKey}:${geohash}`;
+  }
+}
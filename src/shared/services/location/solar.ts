@@ -0,0 +1,65 @@
+// src/shared/services/location/solar.ts - sunrise/sunset times for opening_hours sun events
+
+export type SunEvent = 'dawn' | 'sunrise' | 'sunset' | 'dusk';
+
+// Zenith angles in degrees: official sunrise/sunset and civil twilight
+const ZENITH = {
+  official: 90.833,
+  civil: 96
+};
+
+/**
+ * Minutes after UTC midnight of `date` at which the sun event happens at the given position.
+ * Returns null when it doesn't happen that day (polar day or night).
+ */
+export function getSunEventUtcMinutes(event: SunEvent, date: Date, latitude: number, longitude: number): number | null {
+  const rising = event === 'dawn' || event === 'sunrise';
+  const zenith = event === 'sunrise' || event === 'sunset' ? ZENITH.official : ZENITH.civil;
+
+  const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 0);
+  const dayOfYear = Math.floor((date.getTime() - startOfYear) / 86400000);
+  const lngHour = longitude / 15;
+
+  // Almanac sunrise algorithm: approximate time, then the sun's mean anomaly and true longitude
+  const t = dayOfYear + ((rising ? 6 : 18) - lngHour) / 24;
+  const meanAnomaly = 0.9856 * t - 3.289;
+  const trueLongitude = normalizeDegrees(
+    meanAnomaly + 1.916 * sinDeg(meanAnomaly) + 0.020 * sinDeg(2 * meanAnomaly) + 282.634
+  );
+
+  // Right ascension, moved into the same quadrant as the true longitude
+  let rightAscension = normalizeDegrees(Math.atan(0.91764 * tanDeg(trueLongitude)) * 180 / Math.PI);
+  rightAscension += Math.floor(trueLongitude / 90) * 90 - Math.floor(rightAscension / 90) * 90;
+  rightAscension /= 15;
+
+  const sinDeclination = 0.39782 * sinDeg(trueLongitude);
+  const cosDeclination = Math.cos(Math.asin(sinDeclination));
+
+  const cosHourAngle =
+    (cosDeg(zenith) - sinDeclination * sinDeg(latitude)) / (cosDeclination * cosDeg(latitude));
+  if (cosHourAngle > 1 || cosHourAngle < -1) {
+    return null;
+  }
+
+  const hourAngle = (rising ? 360 - Math.acos(cosHourAngle) * 180 / Math.PI : Math.acos(cosHourAngle) * 180 / Math.PI) / 15;
+  const localMeanTime = hourAngle + rightAscension - 0.06571 * t - 6.622;
+  const universalTime = ((localMeanTime - lngHour) % 24 + 24) % 24;
+
+  return Math.round(universalTime * 60);
+}
+
+function normalizeDegrees(value: number): number {
+  return ((value % 360) + 360) % 360;
+}
+
+function sinDeg(value: number): number {
+  return Math.sin(value * Math.PI / 180);
+}
+
+function cosDeg(value: number): number {
+  return Math.cos(value * Math.PI / 180);
+}
+
+function tanDeg(value: number): number {
+  return Math.tan(value * Math.PI / 180);
+}
@@ -0,0 +1,179 @@
+// src/shared/services/location/text-search.service.ts - find places by what users type
+
+import { config } from '@shared/config';
+import { db, LocationBounds } from '@shared/database';
+import { locationService } from './location.service';
+import { providerUsageService } from './provider-usage.service';
+import { GooglePlacesProvider, OSMProvider } from './providers';
+import { Place, TextSearchRequest } from './types';
+import { distanceInMeters } from './geo';
+
+const METERS_PER_DEGREE = 111320;
+const GOOGLE_PAGE_SIZE = 20; // Results per billed Text Search request
+
+export interface TextSearchResult {
+  place: Place;
+  relevance: number; // 0-1 text match
+  score: number; // Relevance blended with proximity; results are sorted by it
+}
+
+export interface TextSearchOptions {
+  fallback?: boolean; // Ask the configured provider when stored matches are thin (default true)
+}
+
+export interface TextSearchResponse {
+  results: TextSearchResult[];
+  metadata: {
+    query: string;
+    responseTime: number;
+    localResults: number;
+    externalResults: number;
+    externalProvider?: 'osm' | 'google';
+    fallbackReason?: string; // Why the provider wasn't asked (or failed) although local results were thin
+  };
+}
+
+/**
+ * Searches stored locations first and only goes to Nominatim or Google when they don't match
+ * enough, so popular queries are answered from the database once places have been saved.
+ */
+export class TextSearchService {
+  // Untiled providers; text queries don't map onto geohash tiles
+  private osmProvider: OSMProvider | null = null;
+  private googleProvider: GooglePlacesProvider | null = null;
+
+  async search(request: TextSearchRequest, options: TextSearchOptions = {}): Promise<TextSearchResponse> {
+    const startTime = Date.now();
+    const limit = request.limit ?? config.location.resultsPerCategory;
+    const radius = request.radius ?? config.location.maxRadius;
+    const center = request.latitude !== undefined && request.longitude !== undefined
+      ? { latitude: request.latitude, longitude: request.longitude }
+      : null;
+
+    // Extra candidates give distance room to reorder the best text matches
+    const matches = await db.location.searchText({
+      query: request.query,
+      ...(center && { bounds: this.boundsAround(center.latitude, center.longitude, radius) }),
+      ...(request.categories?.length && { categories: request.categories }),
+      limit: limit * 3
+    });
+
+    const results = matches.map(match =>
+      this.toResult(locationService.locationToPlace(match), match.relevance, center, radius)
+    );
+    const metadata: TextSearchResponse['metadata'] = {
+      query: request.query,
+      responseTime: 0,
+      localResults: results.length,
+      externalResults: 0
+    };
+
+    const { fallback, minLocalResults } = config.location.textSearch;
+    if (options.fallback !== false && fallback !== 'none' && results.length < Math.min(minLocalResults, limit)) {
+      const external = await this.searchProvider(fallback, { ...request, radius, limit });
+      if ('reason' in external) {
+        metadata.fallbackReason = external.reason;
+      } else {
+        const known = new Set(matches.flatMap(match => [match.osmId, match.googlePlaceId].filter(id => id !== null)));
+        const fresh = external.places.filter(place => {
+          const externalId = place.metadata?.osm?.id ?? place.metadata?.google?.placeId;
+          return !externalId || !known.has(externalId);
+        });
+
+        // Providers return their best matches first but no score, so rank stands in for relevance
+        fresh.forEach((place, index) => {
+          results.push(this.toResult(place, 1 - index / (2 * fresh.length), center, radius));
+        });
+        metadata.externalProvider = fallback;
+        metadata.externalResults = fresh.length;
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    metadata.responseTime = Date.now() - startTime;
+
+    console.log(
+      `🔎 Text search "${request.query}": ${metadata.localResults} stored` +
+      `${metadata.externalProvider ? `, ${metadata.externalResults} from ${metadata.externalProvider}` : ''}` +
+      `${metadata.fallbackReason ? ` (${metadata.fallbackReason})` : ''}`
+    );
+
+    return { results: results.slice(0, limit), metadata };
+  }
+
+  private async searchProvider(
+    provider: 'osm' | 'google',
+    request: TextSearchRequest
+  ): Promise<{ places: Place[] } | { reason: string }> {
+    try {
+      if (provider === 'osm') {
+        this.osmProvider ??= new OSMProvider();
+        return { places: (await this.osmProvider.searchText(request)).places };
+      }
+
+      if (!config.apis.googlePlaces) {
+        return { reason: 'Google Places is not configured' };
+      }
+      // Every result page is billed, so respect the same spend cap and call budget as enrichment
+      const monthly = await providerUsageService.getMonthlyStatus('google');
+      if (monthly.degraded) {
+        return { reason: `monthly Google spend cap nearly reached ($${monthly.spent} of $${monthly.cap})` };
+      }
+      const daily = await providerUsageService.getDailyStatus('google');
+      if (daily.remaining === 0) {
+        return { reason: `daily Google call budget used up (${daily.used} of ${daily.budget})` };
+      }
+
+      // Never ask for more pages than the day's budget has calls left
+      const limit = Math.min(request.limit ?? GOOGLE_PAGE_SIZE, daily.remaining * GOOGLE_PAGE_SIZE);
+
+      this.googleProvider ??= new GooglePlacesProvider();
+      return { places: (await this.googleProvider.searchText({ ...request, limit })).places };
+    } catch (error) {
+      // Stored matches are still worth returning when the provider is down
+      console.warn(`Text search fall-through to ${provider} failed:`, error instanceof Error ? error.message : error);
+      return { reason: `${provider} search failed` };
+    }
+  }
+
+  // Proximity is 1 at the center and 0.5 at the edge of the radius, so far matches still count
+  private toResult(
+    place: Place,
+    relevance: number,
+    center: { latitude: number; longitude: number } | null,
+    radius: number
+  ): TextSearchResult {
+    if (!center) {
+      return { place, relevance, score: relevance };
+    }
+
+    const distance = distanceInMeters(
+      center.latitude,
+      center.longitude,
+      place.coordinates.latitude,
+      place.coordinates.longitude
+    );
+    const proximity = radius / (radius + distance);
+    const { distanceWeight } = config.location.textSearch;
+
+    return {
+      place: { ...place, distance },
+      relevance,
+      score: relevance * (1 - distanceWeight) + proximity * distanceWeight
+    };
+  }
+
+  private boundsAround(latitude: number, longitude: number, radius: number): LocationBounds {
+    const latDelta = radius / METERS_PER_DEGREE;
+    const lngDelta = radius / (METERS_PER_DEGREE * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+
+    return {
+      minLat: latitude - latDelta,
+      maxLat: latitude + latDelta,
+      minLng: longitude - lngDelta,
+      maxLng: longitude + lngDelta
+    };
+  }
+}
+
+export const textSearchService = new TextSearchService();
@@ -1,5 +1,8 @@
 // src/shared/services/location/types.ts - ENHANCED VERSION
 
+import { ProvenanceField, ProvenanceSource } from '@shared/config';
+import { LocalContext } from '../timezone/types';
+
 export interface LocationSearchRequest {
   latitude: number;
   longitude: number;
@@ -10,7 +13,25 @@ export interface LocationSearchRequest {
   excludeChains?: boolean; // exclude chain stores/restaurants
 }
 
+// Keep only places open at a given moment, judged by the local time at the search center
+export interface OpeningHoursFilter {
+  openNow?: boolean;
+  openAt?: string; // ISO date-time; without an offset it is read as local wall-clock time
+  timezone?: string; // IANA timezone of the search area
+  includeUnknown?: boolean; // keep places whose hours aren't known
+}
+
 // Enhanced metadata interface for multi-provider support
+// Free-text place search, e.g. "blue bottle coffee"
+export interface TextSearchRequest {
+  query: string;
+  latitude?: number; // Results near here rank higher
+  longitude?: number;
+  radius?: number; // meters around latitude/longitude to prefer
+  categories?: POICategory[];
+  limit?: number;
+}
+
 export interface LocationSearchMetadata {
   provider: string;
   responseTime: number;
@@ -18,15 +39,43 @@ export interface LocationSearchMetadata {
   searchRadius: number;
   categoriesSearched: string[];
   cached?: boolean;
+  truncated?: boolean; // The provider hit its result limit, so more places may match
+  localContext?: LocalContext; // Local time at the search center
 
   // Hybrid provider specific fields
   osmPlaces?: number;
   googleEnrichments?: number;
+  googleEnrichmentMode?: 'inline' | 'async';
+  storedEnrichments?: number; // OSM places served with Google data matched by an earlier enrichment
   fallbackReason?: string;
+  openingHours?: {
+    localDate: string;
+    localTime: string;
+    timezone: string;
+    utcOffsetMinutes: number;
+    excludedClosed: number;
+    excludedUnknown: number;
+  };
+  tiles?: {
+    precision: number; // Geohash length used for this search
+    total: number;
+    fromCache: number;
+    fromDatabase: number;
+    fetched: number; // Tiles requested from the provider
+    truncated: number; // Tiles the provider cut short at its result limit
+    supplemented: boolean; // Whether a direct search filled in around truncated tiles
+  };
   costOptimization?: {
     maxGoogleCalls: number;
     actualGoogleCalls: number;
     costSavings: string;
+    googleRequests: number; // Billable Google requests this search made
+    estimatedCost: number; // USD
+    monthlySpend?: {
+      month: string;
+      spent: number; // USD
+      cap: number | null;
+    };
   };
 }
 
@@ -50,6 +99,15 @@ export interface Place {
   metadata?: PlaceMetadata;
 }
 
+// Where one field of a merged place came from
+export interface FieldProvenance {
+  source: ProvenanceSource;
+  fetchedAt: Date; // When that source last returned the value
+  confidence: number; // 0-1; below 1 when the value came from a matched record of another provider
+}
+
+export type PlaceProvenance = Partial<Record<ProvenanceField, FieldProvenance>>;
+
 export interface PlaceMetadata {
   source: 'osm' | 'google' | 'manual' | 'merged';
   externalId: string;
@@ -83,6 +141,8 @@ export interface PlaceMetadata {
 
   features?: string[]; // ["wifi", "wheelchair_accessible", "outdoor_seating"]
 
+  provenance?: PlaceProvenance; // Per-field sources, set when providers were merged
+
   // AI enhancement data
   aiContext?: {
     moodRelevance: Record<string, number>; // mood -> relevance score 0-1
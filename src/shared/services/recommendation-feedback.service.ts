@@ -0,0 +1,108 @@
+import { db } from '@shared/database'
+import { NotFoundError } from '@shared/errors'
+import { AIFeedbackContext } from './ai/types'
+
+export type FeedbackAction = 'liked' | 'dismissed' | 'visited' | 'not_open'
+
+export interface RecommendationFeedback {
+  id: string
+  recommendationId: string
+  action: FeedbackAction
+  comment: string | null
+  createdAt: Date
+}
+
+// How each action moves a category's score - positive means the user wants more of it
+const CATEGORY_WEIGHTS: Record<FeedbackAction, number> = {
+  liked: 1,
+  visited: 1,
+  dismissed: -1,
+  not_open: 0 // Says something about the place, not the user's taste
+}
+
+const NOT_OPEN_SUPPRESSION_DAYS = 7 // Closed places get another chance once hours may have changed
+const MAX_CATEGORIES = 5
+
+export class RecommendationFeedbackService {
+  async submitFeedback(
+    userId: string,
+    recommendationId: string,
+    action: FeedbackAction,
+    comment?: string
+  ): Promise<RecommendationFeedback> {
+    const recommendation = await db.recommendation.findByIdForUser(recommendationId, userId)
+    if (!recommendation) {
+      throw new NotFoundError('Recommendation')
+    }
+
+    const feedback = await db.recommendationFeedback.upsert({
+      recommendationId,
+      userId,
+      action,
+      ...(comment && { comment })
+    })
+
+    return {
+      id: feedback.id,
+      recommendationId: feedback.recommendationId,
+      action: feedback.action as FeedbackAction,
+      comment: feedback.comment,
+      createdAt: feedback.createdAt
+    }
+  }
+
+  // Summarises accumulated feedback into the context used for the next generation
+  async getFeedbackContext(userId: string): Promise<AIFeedbackContext> {
+    const empty: AIFeedbackContext = {
+      likedCategories: [],
+      dislikedCategories: [],
+      suppressedPlaceIds: [],
+      suppressedPlaceNames: []
+    }
+
+    let rows
+    try {
+      rows = await db.recommendationFeedback.findRecentForUser(userId)
+    } catch (error) {
+      console.warn(`Failed to load feedback for user ${userId}:`, error instanceof Error ? error.message : error)
+      return empty
+    }
+
+    const categoryScores = new Map<string, number>()
+    const suppressedIds = new Set<string>()
+    const suppressedNames = new Set<string>()
+    const notOpenCutoff = Date.now() - NOT_OPEN_SUPPRESSION_DAYS * 24 * 60 * 60 * 1000
+
+    for (const row of rows) {
+      const action = row.action as FeedbackAction
+      const location = row.recommendation.location
+
+      const weight = CATEGORY_WEIGHTS[action] ?? 0
+      if (weight !== 0) {
+        categoryScores.set(location.category, (categoryScores.get(location.category) ?? 0) + weight)
+      }
+
+      const suppress = action === 'dismissed' ||
+        (action === 'not_open' && row.createdAt.getTime() > notOpenCutoff)
+
+      if (suppress) {
+        // The same place reaches the AI under its database id or a provider id
+        suppressedIds.add(location.id)
+        if (location.osmId) suppressedIds.add(`osm_${location.osmId.replace('/', '_')}`)
+        if (location.googlePlaceId) suppressedIds.add(`google_${location.googlePlaceId}`)
+        suppressedNames.add(location.name.toLowerCase())
+      }
+    }
+
+    const ranked = Array.from(categoryScores.entries()).sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+
+    return {
+      likedCategories: ranked.filter(([, score]) => score > 0).slice(0, MAX_CATEGORIES).map(([category]) => category),
+      dislikedCategories: ranked.filter(([, score]) => score < 0).slice(0, MAX_CATEGORIES).map(([category]) => category),
+      suppressedPlaceIds: Array.from(suppressedIds),
+      suppressedPlaceNames: Array.from(suppressedNames)
+    }
+  }
+}
+
+export const recommendationFeedbackService = new RecommendationFeedbackService()
@@ -0,0 +1,214 @@
+import { randomUUID } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { db } from '@shared/database'
+import { NotFoundError } from '@shared/errors'
+import { AIRecommendation, AIRecommendationRequest, AIResponse } from './ai/types'
+import { encodeGeohash } from './location/geohash'
+
+const AI_KEY_PRECISION = 7 // ~150m cells
+
+// Shape of the JSON stored in Recommendation.aiContext
+export interface RecommendationAIContext {
+  generationId: string // Groups rows produced by the same AIResponse
+  rank: number
+  request: AIRecommendationRequest
+  recommendation: AIRecommendation
+  provider: string
+  model: string
+  cached: boolean
+}
+
+export interface StoredRecommendation {
+  id: string
+  createdAt: Date
+  generationId: string
+  rank: number
+  request: AIRecommendationRequest
+  recommendation: AIRecommendation
+  provider: string
+  model: string
+  location: {
+    id: string
+    name: string
+    category: string
+    latitude: number
+    longitude: number
+    address: string | null
+  }
+}
+
+export interface RecommendationHistoryQuery {
+  page?: number
+  limit?: number
+  mood?: AIRecommendationRequest['mood']
+  from?: string
+  to?: string
+}
+
+export interface RecommendationHistoryPage {
+  items: StoredRecommendation[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+type RecommendationWithLocation = Prisma.RecommendationGetPayload<{ include: { location: true } }>
+
+// AI suggestions carry no provider ID, so the name and the cell they fall in stand in for one
+export function aiLocationKey(name: string, latitude: number, longitude: number): string {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 200)
+
+  return `ai:${encodeGeohash(latitude, longitude, AI_KEY_PRECISION)}:${slug}`
+}
+
+export class RecommendationHistoryService {
+  private readonly defaultPageSize = 20
+
+  // Persist every recommendation of a generated response and return it with stored IDs attached
+  async saveGeneration(userId: string, request: AIRecommendationRequest, response: AIResponse): Promise<AIResponse> {
+    const generationId = randomUUID()
+    const recommendations: AIRecommendation[] = []
+
+    for (const [rank, recommendation] of response.recommendations.entries()) {
+      try {
+        const locationId = await this.resolveLocation(recommendation, request)
+
+        const context: RecommendationAIContext = {
+          generationId,
+          rank,
+          request,
+          recommendation,
+          provider: response.metadata.provider,
+          model: response.metadata.model,
+          cached: response.metadata.cached ?? false
+        }
+
+        const stored = await db.recommendation.create({
+          userId,
+          locationId,
+          aiContext: context as unknown as Prisma.InputJsonValue
+        })
+
+        recommendations.push({ ...recommendation, id: stored.id })
+      } catch (error) {
+        console.warn(`Failed to store recommendation ${recommendation.name}:`, error)
+        recommendations.push(recommendation)
+      }
+    }
+
+    return { ...response, recommendations }
+  }
+
+  async getHistory(userId: string, query: RecommendationHistoryQuery): Promise<RecommendationHistoryPage> {
+    const page = query.page ?? 1
+    const limit = query.limit ?? this.defaultPageSize
+
+    const { items, total } = await db.recommendation.findHistory({
+      userId,
+      page,
+      limit,
+      ...(query.mood && { mood: query.mood }),
+      ...(query.from && { from: new Date(query.from) }),
+      ...(query.to && { to: new Date(query.to) })
+    })
+
+    return {
+      items: items.map(item => this.toStoredRecommendation(item)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    }
+  }
+
+  async getById(userId: string, id: string): Promise<StoredRecommendation> {
+    const item = await db.recommendation.findByIdForUser(id, userId)
+    if (!item) {
+      throw new NotFoundError('Recommendation')
+    }
+
+    return this.toStoredRecommendation(item)
+  }
+
+  private async resolveLocation(recommendation: AIRecommendation, request: AIRecommendationRequest): Promise<string> {
+    // Grounded recommendations point at a place the location service already stored
+    if (recommendation.placeId) {
+      const known = await db.location.findByPlaceId(recommendation.placeId)
+      if (known) {
+        return known.id
+      }
+    }
+
+    // Without coordinates from the model, anchor the place at the search center
+    const coordinates = recommendation.coordinates ?? {
+      latitude: request.latitude,
+      longitude: request.longitude
+    }
+
+    // A provider row for the same place, or an AI row stored before keys existed, wins over a new key
+    const existing = await db.location.findByNameNear(
+      recommendation.name,
+      coordinates.latitude,
+      coordinates.longitude
+    )
+    if (existing) {
+      return existing.id
+    }
+
+    const aiKey = aiLocationKey(recommendation.name, coordinates.latitude, coordinates.longitude)
+    const location = await db.location.upsertLocation({
+      externalId: aiKey,
+      aiKey,
+      source: 'ai',
+      name: recommendation.name,
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+      category: recommendation.category,
+      description: recommendation.description || null,
+      metadata: {
+        source: 'ai',
+        approximateCoordinates: !recommendation.coordinates,
+        ...(recommendation.priceRange && { priceRange: recommendation.priceRange })
+      },
+      verified: false
+    })
+
+    return location.id
+  }
+
+  private toStoredRecommendation(item: RecommendationWithLocation): StoredRecommendation {
+    const context = item.aiContext as unknown as RecommendationAIContext
+
+    return {
+      id: item.id,
+      createdAt: item.createdAt,
+      generationId: context.generationId,
+      rank: context.rank,
+      request: context.request,
+      recommendation: { ...context.recommendation, id: item.id },
+      provider: context.provider,
+      model: context.model,
+      location: {
+        id: item.location.id,
+        name: item.location.name,
+        category: item.location.category,
+        latitude: item.location.latitude,
+        longitude: item.location.longitude,
+        address: item.location.address
+      }
+    }
+  }
+}
+
+export const recommendationHistoryService = new RecommendationHistoryService()
@@ -0,0 +1,115 @@
+// src/shared/services/timezone/boundary-index.ts - point-in-polygon lookup over timezone boundaries
+
+import { TimezoneFeatureCollection } from './types';
+
+type Ring = number[][]; // [lng, lat] pairs, first ring of a polygon is the outline, the rest are holes
+
+interface IndexedZone {
+  timezone: string;
+  polygons: Ring[][];
+  bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number };
+}
+
+const CELL_SIZE = 1; // degrees
+
+export class TimezoneBoundaryIndex {
+  private readonly zones: IndexedZone[] = [];
+  // Zones whose bounding box touches each 1° cell, so a lookup only tests a handful of polygons
+  private readonly cells = new Map<string, number[]>();
+
+  constructor(collection: TimezoneFeatureCollection) {
+    for (const feature of collection.features) {
+      const timezone = feature.properties.tzid ?? feature.properties.TZID;
+      if (!timezone || !feature.geometry) continue;
+
+      const polygons = feature.geometry.type === 'Polygon'
+        ? [feature.geometry.coordinates]
+        : feature.geometry.coordinates;
+
+      this.addZone({ timezone, polygons, bounds: this.getBounds(polygons) });
+    }
+  }
+
+  get size(): number {
+    return this.zones.length;
+  }
+
+  find(latitude: number, longitude: number): string | null {
+    const candidates = this.cells.get(this.cellKey(Math.floor(latitude / CELL_SIZE), Math.floor(longitude / CELL_SIZE))) ?? [];
+
+    for (const index of candidates) {
+      const zone = this.zones[index]!;
+      const { bounds } = zone;
+      if (latitude < bounds.minLat || latitude > bounds.maxLat || longitude < bounds.minLng || longitude > bounds.maxLng) {
+        continue;
+      }
+
+      if (zone.polygons.some(polygon => this.containsPoint(polygon, latitude, longitude))) {
+        return zone.timezone;
+      }
+    }
+
+    return null;
+  }
+
+  private addZone(zone: IndexedZone): void {
+    const index = this.zones.push(zone) - 1;
+    const { minLat, maxLat, minLng, maxLng } = zone.bounds;
+
+    for (let row = Math.floor(minLat / CELL_SIZE); row <= Math.floor(maxLat / CELL_SIZE); row++) {
+      for (let column = Math.floor(minLng / CELL_SIZE); column <= Math.floor(maxLng / CELL_SIZE); column++) {
+        const key = this.cellKey(row, column);
+        const cell = this.cells.get(key);
+        if (cell) {
+          cell.push(index);
+        } else {
+          this.cells.set(key, [index]);
+        }
+      }
+    }
+  }
+
+  // Inside the outline and outside every hole
+  private containsPoint(polygon: Ring[], latitude: number, longitude: number): boolean {
+    const [outline, ...holes] = polygon;
+    if (!outline || !this.ringContains(outline, latitude, longitude)) return false;
+
+    return !holes.some(hole => this.ringContains(hole, latitude, longitude));
+  }
+
+  // Ray casting along the latitude line
+  private ringContains(ring: Ring, latitude: number, longitude: number): boolean {
+    let inside = false;
+
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [lngI, latI] = ring[i] as [number, number];
+      const [lngJ, latJ] = ring[j] as [number, number];
+
+      if ((latI > latitude) !== (latJ > latitude) &&
+        longitude < ((lngJ - lngI) * (latitude - latI)) / (latJ - latI) + lngI) {
+        inside = !inside;
+      }
+    }
+
+    return inside;
+  }
+
+  private getBounds(polygons: Ring[][]): IndexedZone['bounds'] {
+    const bounds = { minLat: 90, maxLat: -90, minLng: 180, maxLng: -180 };
+
+    for (const polygon of polygons) {
+      for (const [lng, lat] of polygon[0] ?? []) {
+        bounds.minLat = Math.min(bounds.minLat, lat!);
+        bounds.maxLat = Math.max(bounds.maxLat, lat!);
+        bounds.minLng = Math.min(bounds.minLng, lng!);
+        bounds.maxLng = Math.max(bounds.maxLng, lng!);
+      }
+    }
+
+    return bounds;
+  }
+
+  private cellKey(row: number, column: number): string {
+    return `${row}:${column}`;
+  }
+}
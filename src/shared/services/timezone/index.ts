@@ -0,0 +1,3 @@
+export * from './types';
+export * from './boundary-index';
+export * from './timezone.service';
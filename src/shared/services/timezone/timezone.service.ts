@@ -0,0 +1,127 @@
+// src/shared/services/timezone/timezone.service.ts - offline timezone and local time lookup from coordinates
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { config } from '@shared/config';
+import { TimezoneBoundaryIndex } from './boundary-index';
+import { DayOfWeek, LocalContext, TimeOfDay, TimezoneFeatureCollection } from './types';
+
+const DAY_NAMES: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export class TimezoneService {
+  private index: TimezoneBoundaryIndex | null = null;
+  private loading: Promise<boolean> | null = null;
+  private readonly formatters = new Map<string, Intl.DateTimeFormat>();
+
+  /**
+   * Reads the boundary file; called once at startup because parsing it takes a while. Until it
+   * has loaded (or when it is missing) lookups use the longitude fallback.
+   */
+  load(filePath: string = config.timezone.boundariesPath): Promise<boolean> {
+    this.loading ??= this.readBoundaries(path.resolve(filePath));
+    return this.loading;
+  }
+
+  // IANA timezone at a point; falls back to the nautical zone of the longitude outside the dataset
+  lookup(latitude: number, longitude: number): { timezone: string; source: LocalContext['source'] } {
+    const timezone = this.index?.find(latitude, longitude);
+    if (timezone && this.isValidTimezone(timezone)) {
+      return { timezone, source: 'boundaries' };
+    }
+
+    // Etc/GMT names have the sign inverted: Etc/GMT-2 is two hours ahead of UTC
+    const hours = Math.max(-12, Math.min(14, Math.round(longitude / 15)));
+    return {
+      timezone: hours === 0 ? 'Etc/UTC' : `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`,
+      source: 'longitude'
+    };
+  }
+
+  getLocalContext(latitude: number, longitude: number, at: Date = new Date(), timezone?: string): LocalContext {
+    const zone = timezone
+      ? { timezone, source: 'boundaries' as const }
+      : this.lookup(latitude, longitude);
+
+    const utcOffsetMinutes = this.getUtcOffsetMinutes(zone.timezone, at);
+    const local = new Date(at.getTime() + utcOffsetMinutes * 60000);
+    const minutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+
+    return {
+      timezone: zone.timezone,
+      source: zone.source,
+      utcOffsetMinutes,
+      localDate: local.toISOString().slice(0, 10),
+      localTime: local.toISOString().slice(11, 16),
+      dayOfWeek: DAY_NAMES[local.getUTCDay()]!,
+      timeOfDay: this.getTimeOfDay(minutes)
+    };
+  }
+
+  getUtcOffsetMinutes(timezone: string, at: Date): number {
+    const parts = this.getFormatter(timezone).formatToParts(at);
+    const part = (type: string) => parseInt(parts.find(item => item.type === type)?.value ?? '0', 10);
+    const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+
+    return Math.round((wallClock - Math.floor(at.getTime() / 60000) * 60000) / 60000);
+  }
+
+  isValidTimezone(timezone: string): boolean {
+    try {
+      this.getFormatter(timezone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getStatus(): { loaded: boolean; zones: number; path: string } {
+    return {
+      loaded: !!this.index,
+      zones: this.index?.size ?? 0,
+      path: config.timezone.boundariesPath
+    };
+  }
+
+  private getTimeOfDay(minutes: number): TimeOfDay {
+    if (minutes >= 5 * 60 && minutes < 12 * 60) return 'morning';
+    if (minutes >= 12 * 60 && minutes < 17 * 60) return 'afternoon';
+    if (minutes >= 17 * 60 && minutes < 21 * 60) return 'evening';
+    return 'night';
+  }
+
+  private async readBoundaries(filePath: string): Promise<boolean> {
+    const startTime = Date.now();
+
+    try {
+      const collection = JSON.parse(await readFile(filePath, 'utf8')) as TimezoneFeatureCollection;
+      this.index = new TimezoneBoundaryIndex(collection);
+      console.log(`🕐 Loaded ${this.index.size} timezone boundaries in ${Date.now() - startTime}ms`);
+      return true;
+    } catch (error) {
+      console.warn(
+        `⚠️ Timezone boundaries unavailable at ${filePath} (run \`npm run timezones:fetch\`), using longitude-based offsets:`,
+        error instanceof Error ? error.message : error
+      );
+      return false;
+    }
+  }
+
+  private getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit'
+      });
+      this.formatters.set(timezone, formatter);
+    }
+    return formatter;
+  }
+}
+
+export const timezoneService = new TimezoneService();
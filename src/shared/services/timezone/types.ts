@@ -0,0 +1,30 @@
+// src/shared/services/timezone/types.ts
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export type DayOfWeek = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+// Local clock and calendar at a point on the map
+export interface LocalContext {
+  timezone: string; // IANA name, "Etc/GMT-2" style when no boundary matched
+  source: 'boundaries' | 'longitude';
+  utcOffsetMinutes: number;
+  localDate: string; // "YYYY-MM-DD"
+  localTime: string; // "HH:MM"
+  dayOfWeek: DayOfWeek;
+  timeOfDay: TimeOfDay;
+}
+
+// Subset of GeoJSON used by timezone boundary files
+export interface TimezoneFeature {
+  type: 'Feature';
+  properties: { tzid?: string; TZID?: string };
+  geometry:
+    | { type: 'Polygon'; coordinates: number[][][] }
+    | { type: 'MultiPolygon'; coordinates: number[][][][] };
+}
+
+export interface TimezoneFeatureCollection {
+  type: 'FeatureCollection';
+  features: TimezoneFeature[];
+}
@@ -0,0 +1,176 @@
+import { config, UsageLimits, UsageTier } from '@shared/config'
+import { db, UsageTotals } from '@shared/database'
+import { RateLimitError } from '@shared/errors'
+import { AIResponse } from './ai/types'
+
+export interface UsagePeriod {
+  start: string // First UTC day of the period
+  resetsAt: string
+  used: UsageTotals
+  limits: {
+    tokens: number | null // null when unlimited
+    cost: number | null
+  }
+  remaining: {
+    tokens: number | null
+    cost: number | null
+  }
+}
+
+export interface UsageSummary {
+  tier: UsageTier
+  enforced: boolean
+  today: UsagePeriod
+  month: UsagePeriod
+  daily: Array<UsageTotals & { date: string }>
+}
+
+// Usage booked for a generation in flight, corrected once its real usage is known
+export interface UsageReservation {
+  userId: string
+  date: Date // UTC day the booking was made on - a generation that crosses midnight settles there
+  tokensUsed: number
+  cost: number
+  settled: boolean
+}
+
+export class UsageService {
+  /**
+   * Books an estimated generation against the user's budget before the provider is called.
+   * Throws RateLimitError once any daily or monthly budget of the user's tier is used up, counting
+   * generations still in flight, so parallel requests can't all start on the same stale totals.
+   * A budget can still be overshot by the last generation's difference from the estimate.
+   */
+  async reserve(userId: string): Promise<UsageReservation> {
+    const { today, monthStart, tomorrow, nextMonth } = this.getPeriodBoundaries()
+    const reservation: UsageReservation = {
+      userId,
+      date: today,
+      tokensUsed: config.usage.enabled ? config.usage.reservation.tokens : 0,
+      cost: config.usage.enabled ? config.usage.reservation.cost : 0,
+      settled: false
+    }
+
+    // Unenforced budgets still keep the ledger, but a ledger hiccup shouldn't block the generation
+    if (!config.usage.enabled) {
+      await this.adjust(reservation, 0, 0, 1)
+      return reservation
+    }
+
+    const { tier, limits } = await this.getTierLimits(userId)
+
+    await db.aiUsage.reserve(reservation, monthStart, (daily, monthly) => {
+      const exceeded = [
+        { used: daily.tokensUsed, limit: limits.dailyTokens, label: 'daily token', resetsAt: tomorrow },
+        { used: daily.cost, limit: limits.dailyCost, label: 'daily cost', resetsAt: tomorrow },
+        { used: monthly.tokensUsed, limit: limits.monthlyTokens, label: 'monthly token', resetsAt: nextMonth },
+        { used: monthly.cost, limit: limits.monthlyCost, label: 'monthly cost', resetsAt: nextMonth }
+      ].find(check => check.limit > 0 && check.used >= check.limit)
+
+      if (exceeded) {
+        throw new RateLimitError(
+          `AI ${exceeded.label} budget for the ${tier} tier is exhausted, resets at ${exceeded.resetsAt.toISOString()}`
+        )
+      }
+    })
+
+    return reservation
+  }
+
+  // Replaces the estimate with what the generation used; cached responses count as requests but cost nothing
+  async settle(reservation: UsageReservation, metadata: AIResponse['metadata']): Promise<void> {
+    if (reservation.settled) return
+    reservation.settled = true
+
+    const tokensUsed = metadata.cached ? 0 : metadata.tokensUsed ?? 0
+    const cost = metadata.cached ? 0 : metadata.cost ?? 0
+
+    await this.adjust(reservation, tokensUsed - reservation.tokensUsed, cost - reservation.cost, 0)
+  }
+
+  // Takes back the booking of a generation that failed; does nothing once it has been settled
+  async release(reservation: UsageReservation): Promise<void> {
+    if (reservation.settled) return
+    reservation.settled = true
+
+    await this.adjust(reservation, -reservation.tokensUsed, -reservation.cost, -1)
+  }
+
+  async getUsage(userId: string): Promise<UsageSummary> {
+    const { tier, limits } = await this.getTierLimits(userId)
+    const { today, monthStart, tomorrow, nextMonth } = this.getPeriodBoundaries()
+
+    const [daily, monthly, rows] = await Promise.all([
+      db.aiUsage.getTotals(userId, today, today),
+      db.aiUsage.getTotals(userId, monthStart, today),
+      db.aiUsage.findDaily(userId, monthStart, today)
+    ])
+
+    return {
+      tier,
+      enforced: config.usage.enabled,
+      today: this.buildPeriod(today, tomorrow, daily, limits.dailyTokens, limits.dailyCost),
+      month: this.buildPeriod(monthStart, nextMonth, monthly, limits.monthlyTokens, limits.monthlyCost),
+      daily: rows.map(row => ({
+        date: this.formatDate(row.date),
+        requests: row.requests,
+        tokensUsed: row.tokensUsed,
+        cost: Number(row.cost)
+      }))
+    }
+  }
+
+  private async adjust(reservation: UsageReservation, tokensUsed: number, cost: number, requests: number): Promise<void> {
+    try {
+      await db.aiUsage.adjust({ userId: reservation.userId, date: reservation.date, tokensUsed, cost }, requests)
+    } catch (error) {
+      // The user already has their recommendations - a ledger hiccup shouldn't take them away
+      console.warn(`Failed to record AI usage for user ${reservation.userId}:`, error)
+    }
+  }
+
+  private async getTierLimits(userId: string): Promise<{ tier: UsageTier; limits: UsageLimits }> {
+    const user = await db.user.findById(userId)
+    // Unknown tiers get the most restrictive limits
+    const tier: UsageTier = user?.tier === 'pro' ? 'pro' : 'free'
+
+    return { tier, limits: config.usage.tiers[tier] }
+  }
+
+  private buildPeriod(start: Date, resetsAt: Date, used: UsageTotals, tokenLimit: number, costLimit: number): UsagePeriod {
+    return {
+      start: this.formatDate(start),
+      resetsAt: resetsAt.toISOString(),
+      used,
+      limits: {
+        tokens: tokenLimit > 0 ? tokenLimit : null,
+        cost: costLimit > 0 ? costLimit : null
+      },
+      remaining: {
+        tokens: tokenLimit > 0 ? Math.max(tokenLimit - used.tokensUsed, 0) : null,
+        cost: costLimit > 0 ? Math.max(Math.round((costLimit - used.cost) * 1e6) / 1e6, 0) : null
+      }
+    }
+  }
+
+  // Budgets reset at midnight UTC
+  private getPeriodBoundaries() {
+    const now = new Date()
+    const year = now.getUTCFullYear()
+    const month = now.getUTCMonth()
+    const day = now.getUTCDate()
+
+    return {
+      today: new Date(Date.UTC(year, month, day)),
+      tomorrow: new Date(Date.UTC(year, month, day + 1)),
+      monthStart: new Date(Date.UTC(year, month, 1)),
+      nextMonth: new Date(Date.UTC(year, month + 1, 1))
+    }
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10)
+  }
+}
+
+export const usageService = new UsageService()
@@ -0,0 +1,50 @@
+import { TypeCompiler } from '@sinclair/typebox/compiler'
+import { Prisma } from '@prisma/client'
+import { db } from '@shared/database'
+import { NotFoundError } from '@shared/errors'
+import { UserPreferences, UserPreferencesSchema } from '@shared/schemas/user.schema'
+
+const preferencesValidator = TypeCompiler.Compile(UserPreferencesSchema)
+
+export class UserPreferencesService {
+  async getPreferences(userId: string): Promise<UserPreferences> {
+    const user = await db.user.findById(userId)
+    if (!user) {
+      throw new NotFoundError('User')
+    }
+
+    return this.parse(user.preferences)
+  }
+
+  // Replaces the stored profile - fields left out of the update are cleared
+  async updatePreferences(userId: string, preferences: UserPreferences): Promise<UserPreferences> {
+    const user = await db.user.updatePreferences(userId, preferences as Prisma.InputJsonValue)
+    return this.parse(user.preferences)
+  }
+
+  // Lookups for recommendations and searches never fail the request itself
+  async findPreferences(userId: string): Promise<UserPreferences> {
+    try {
+      return await this.getPreferences(userId)
+    } catch (error) {
+      console.warn(`Failed to load preferences for user ${userId}:`, error instanceof Error ? error.message : error)
+      return {}
+    }
+  }
+
+  private parse(value: Prisma.JsonValue | null): UserPreferences {
+    if (value === null || value === undefined) {
+      return {}
+    }
+
+    // The column predates the schema, so anything that doesn't match is ignored rather than trusted
+    if (!preferencesValidator.Check(value)) {
+      console.warn('Ignoring stored preferences that do not match the preferences schema')
+      return {}
+    }
+
+    return value
+  }
+}
+
+export const userPreferencesService = new UserPreferencesService()
@@ -0,0 +1,73 @@
+import { hostname } from 'os';
+import { config } from '@shared/config';
+import { db } from '@shared/database';
+import { locationService } from '@shared/services/location';
+import { jobQueue, registerJobHandlers } from '@shared/services/jobs';
+
+const FINISHED_JOB_RETENTION_DAYS = 7;
+
+const workerId = `${hostname()}:${process.pid}`;
+let running = true;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Queues refreshes for stale places and Google enrichment, and clears out data nobody needs any more
+const runMaintenance = async (): Promise<void> => {
+  try {
+    await locationService.refreshStaleData();
+    if (await locationService.queueGoogleEnrichment()) {
+      console.log('💎 Queued a Google enrichment batch');
+    }
+
+    const expiredTiles = await db.locationTile.deleteExpired();
+    const oldJobs = await db.job.deleteFinishedBefore(
+      new Date(Date.now() - FINISHED_JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    );
+    console.log(`🧹 Removed ${expiredTiles} expired tiles and ${oldJobs} finished jobs`);
+  } catch (error) {
+    console.error('Maintenance sweep failed:', error);
+  }
+};
+
+const start = async (): Promise<void> => {
+  registerJobHandlers();
+  console.log(`👷 Worker ${workerId} started (poll every ${config.jobs.pollInterval}ms)`);
+
+  let nextSweep = 0;
+
+  while (running) {
+    if (Date.now() >= nextSweep) {
+      nextSweep = Date.now() + config.jobs.sweepInterval;
+      await runMaintenance();
+    }
+
+    let ran = false;
+    try {
+      ran = await jobQueue.runNext(workerId);
+    } catch (error) {
+      // Usually the database being unreachable - back off and try again
+      console.error('Failed to claim a job:', error);
+    }
+
+    // Keep draining while there is work, otherwise wait for more
+    if (!ran) {
+      await sleep(config.jobs.pollInterval);
+    }
+  }
+
+  await db.disconnect();
+  console.log(`👷 Worker ${workerId} stopped`);
+};
+
+// Let the current job finish before exiting
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`👷 Received ${signal}, finishing current job...`);
+    running = false;
+  });
+}
+
+start().catch(error => {
+  console.error('Worker failed:', error);
+  process.exit(1);
+});
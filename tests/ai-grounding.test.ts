@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '@shared/config';
+import { aiService, locationService, timezoneService } from '@shared/services';
+import { AIProvider, AIRecommendation, AIRecommendationRequest, AIResponse } from '@shared/services/ai';
+import { LocationSearchRequest, OpeningHoursFilter, Place, POICategory } from '@shared/services/location';
+
+const center = { latitude: 48.8606, longitude: 2.3376 };
+
+function place(id: string, name: string, extra: Partial<Place> = {}): Place {
+  return {
+    id,
+    name,
+    category: POICategory.MUSEUM,
+    subcategory: 'museum',
+    coordinates: { latitude: center.latitude + 0.001, longitude: center.longitude },
+    distance: 111,
+    metadata: { source: 'osm', externalId: id, lastUpdated: new Date(), verified: true },
+    ...extra
+  };
+}
+
+function recommendation(name: string, extra: Partial<AIRecommendation> = {}): AIRecommendation {
+  return { name, category: 'cultural', description: `${name} is worth a visit.`, reasoning: 'Fits a curious mood.', ...extra };
+}
+
+describe('AIService grounding', () => {
+  const ai = config.ai;
+  const original = { timeout: ai.timeout, caching: ai.enableCaching, maxRetries: ai.maxRetries, unmatched: ai.unmatchedRecommendations };
+  const providers = (aiService as unknown as { providers: Map<string, AIProvider> }).providers;
+  const originalProvider = providers.get(ai.provider)!;
+  let nearby: Place[];
+  let searches: Array<{ request: LocationSearchRequest; filters: OpeningHoursFilter | undefined }>;
+  let prompts: AIRecommendationRequest[];
+  let reply: AIRecommendation[];
+
+  beforeEach(() => {
+    // The provider timeout timer outlives each call, so keep it short enough not to hold the test run open
+    Object.assign(ai, { timeout: 200, enableCaching: false, maxRetries: 1, unmatchedRecommendations: 'drop' });
+    nearby = [];
+    searches = [];
+    prompts = [];
+    reply = [];
+    mock.method(locationService, 'searchNearby', async (request: LocationSearchRequest, _userId?: string, filters?: OpeningHoursFilter) => {
+      searches.push({ request, filters });
+      return { places: nearby, metadata: { provider: 'hybrid', responseTime: 1, totalResults: nearby.length, searchRadius: 2000, categoriesSearched: [] } };
+    });
+    mock.method(console, 'log', () => {});
+    providers.set(ai.provider, {
+      generateRecommendations: async (request: AIRecommendationRequest): Promise<AIResponse> => {
+        prompts.push(request);
+        return { recommendations: reply, metadata: { provider: 'fake', model: 'fake-1', responseTime: 1 } };
+      },
+      validateConfig: () => true,
+      getProviderName: () => 'fake',
+      getModelName: () => 'fake-1'
+    });
+  });
+
+  afterEach(() => {
+    Object.assign(ai, {
+      timeout: original.timeout,
+      enableCaching: original.caching,
+      maxRetries: original.maxRetries,
+      unmatchedRecommendations: original.unmatched
+    });
+    providers.set(ai.provider, originalProvider);
+    mock.restoreAll();
+  });
+
+  it('offers the model the nearby places, minus the ones the user dismissed', async () => {
+    nearby = [
+      place('osm_way_1', 'Musée du Louvre', { address: 'Rue de Rivoli', metadata: { source: 'google', externalId: 'g1', lastUpdated: new Date(), verified: true, google: { placeId: 'g1', rating: 4.7 } } }),
+      place('osm_way_2', 'Musée de l\'Orangerie')
+    ];
+
+    await aiService.generateRecommendations({
+      ...center,
+      mood: 'curious',
+      radius: 800,
+      feedback: { likedCategories: [], dislikedCategories: [], suppressedPlaceIds: ['osm_way_2'], suppressedPlaceNames: [] }
+    });
+
+    assert.equal(searches[0]!.request.radius, 800);
+    assert.deepEqual(prompts[0]!.candidates, [{
+      placeId: 'osm_way_1',
+      name: 'Musée du Louvre',
+      category: POICategory.MUSEUM,
+      latitude: center.latitude + 0.001,
+      longitude: center.longitude,
+      distance: 111,
+      address: 'Rue de Rivoli',
+      rating: 4.7
+    }]);
+  });
+
+  it('asks only for places open now when the user is going now', async () => {
+    const now = timezoneService.getLocalContext(center.latitude, center.longitude).timeOfDay;
+    const later = (['morning', 'afternoon', 'evening', 'night'] as const).find(timeOfDay => timeOfDay !== now)!;
+
+    await aiService.generateRecommendations({ ...center, mood: 'curious' });
+    await aiService.generateRecommendations({ ...center, mood: 'curious', timeOfDay: later });
+
+    assert.equal(searches[0]!.filters?.openNow, true);
+    assert.equal(searches[1]!.filters, undefined);
+  });
+
+  it('snaps recommendations to the candidate they name, by id or by name', async () => {
+    nearby = [place('osm_way_1', 'Musée du Louvre'), place('osm_way_3', 'Centre Pompidou')];
+    reply = [
+      recommendation('The Louvre', { placeId: 'osm_way_1', coordinates: { latitude: 0, longitude: 0 } }),
+      recommendation('centre  pompidou!')
+    ];
+
+    const response = await aiService.generateRecommendations({ ...center, mood: 'curious' });
+
+    assert.deepEqual(response.recommendations.map(rec => [rec.placeId, rec.name, rec.verified]), [
+      ['osm_way_1', 'Musée du Louvre', true],
+      ['osm_way_3', 'Centre Pompidou', true]
+    ]);
+    assert.deepEqual(response.recommendations[0]!.coordinates, { latitude: center.latitude + 0.001, longitude: center.longitude });
+    assert.deepEqual(response.metadata.grounding, { candidates: 2, matched: 2, unmatched: 0 });
+  });
+
+  it('drops recommendations that match no candidate, or flags them when configured to', async () => {
+    nearby = [place('osm_way_1', 'Musée du Louvre')];
+    reply = [recommendation('Musée du Louvre'), recommendation('Atlantis', { placeId: 'osm_way_404', coordinates: { latitude: 1, longitude: 1 } })];
+
+    const dropped = await aiService.generateRecommendations({ ...center, mood: 'curious' });
+    ai.unmatchedRecommendations = 'flag';
+    const flagged = await aiService.generateRecommendations({ ...center, mood: 'curious' });
+
+    assert.deepEqual(dropped.recommendations.map(rec => rec.name), ['Musée du Louvre']);
+    assert.deepEqual(dropped.metadata.grounding, { candidates: 1, matched: 1, unmatched: 1 });
+    assert.deepEqual(flagged.recommendations[1], { ...recommendation('Atlantis'), verified: false });
+    assert.deepEqual(flagged.metadata.grounding, { candidates: 1, matched: 1, unmatched: 1 });
+  });
+
+  it('keeps everything unverified when nearby places cannot be loaded', async () => {
+    mock.method(locationService, 'searchNearby', async () => {
+      throw new Error('Overpass is down');
+    });
+    mock.method(console, 'warn', () => {});
+    reply = [recommendation('Musée du Louvre')];
+
+    const response = await aiService.generateRecommendations({ ...center, mood: 'curious' });
+
+    assert.deepEqual(prompts[0]!.candidates, []);
+    assert.deepEqual(response.recommendations, [{ ...recommendation('Musée du Louvre'), verified: false }]);
+    assert.deepEqual(response.metadata.grounding, { candidates: 0, matched: 0, unmatched: 1 });
+  });
+});
@@ -0,0 +1,102 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '@shared/config';
+import { AIRecommendationRequest, ClaudeProvider } from '@shared/services/ai';
+import { HttpStub, StubReply } from './helpers/http-stub';
+
+const request: AIRecommendationRequest = { latitude: 48.8606, longitude: 2.3376, mood: 'hungry' };
+
+const recommendation = {
+  name: 'Marché des Enfants Rouges',
+  category: 'restaurant',
+  description: 'The oldest covered market in Paris.',
+  reasoning: 'Lots of small stalls to graze on.'
+};
+
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown };
+
+function message(content: ContentBlock[], inputTokens: number, outputTokens: number, stopReason = 'tool_use'): StubReply {
+  return {
+    body: {
+      id: 'msg_1',
+      model: 'claude-3-haiku-20240307',
+      content,
+      stop_reason: stopReason,
+      usage: { input_tokens: inputTokens, output_tokens: outputTokens }
+    }
+  };
+}
+
+describe('ClaudeProvider', () => {
+  const stub = new HttpStub();
+  const originalKey = config.apis.anthropic;
+  let provider: ClaudeProvider;
+
+  before(async () => {
+    config.apis.anthropic = 'test-key';
+    provider = new ClaudeProvider('claude-3-haiku', await stub.start());
+  });
+
+  after(async () => {
+    config.apis.anthropic = originalKey;
+    await stub.stop();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+  });
+
+  it('forces the submit_recommendations tool and reads its input', async () => {
+    stub.reply(message([
+      { type: 'text', text: 'Here are some ideas.' },
+      { type: 'tool_use', id: 'toolu_1', name: 'submit_recommendations', input: { recommendations: [recommendation] } }
+    ], 900, 200));
+
+    const response = await provider.generateRecommendations(request);
+
+    assert.deepEqual(response.recommendations, [recommendation]);
+
+    const sent = stub.requests[0]!;
+    const body = sent.body as { model: string; tool_choice: unknown; tools: Array<{ name: string }> };
+    assert.equal(sent.path, '/v1/messages');
+    assert.equal(sent.headers['x-api-key'], 'test-key');
+    assert.equal(sent.headers['anthropic-version'], '2023-06-01');
+    assert.equal(body.model, 'claude-3-haiku-20240307');
+    assert.deepEqual(body.tool_choice, { type: 'tool', name: 'submit_recommendations' });
+    assert.deepEqual(body.tools.map(tool => tool.name), ['submit_recommendations']);
+  });
+
+  it('reports token usage and cost from the usage block', async () => {
+    stub.reply(message([
+      { type: 'tool_use', id: 'toolu_1', name: 'submit_recommendations', input: { recommendations: [recommendation] } }
+    ], 900, 200));
+
+    const { metadata } = await provider.generateRecommendations(request);
+
+    assert.equal(metadata.provider, 'claude');
+    assert.equal(metadata.model, 'claude-3-haiku');
+    assert.equal(metadata.tokensUsed, 1100);
+    // claude-3-haiku: $0.25 per 1M input tokens, $1.25 per 1M output tokens
+    assert.ok(Math.abs(metadata.cost! - (900 * 0.25 + 200 * 1.25) / 1_000_000) < 1e-12);
+  });
+
+  it('falls back to JSON written as text when there is no tool_use block', async () => {
+    stub.reply(message([{ type: 'text', text: JSON.stringify({ recommendations: [recommendation] }) }], 900, 200, 'end_turn'));
+
+    const response = await provider.generateRecommendations(request);
+
+    assert.deepEqual(response.recommendations, [recommendation]);
+  });
+
+  it('fails with the stop reason when the reply has neither tool_use nor text', async () => {
+    stub.reply(message([], 900, 0, 'max_tokens'));
+
+    await assert.rejects(
+      provider.generateRecommendations(request),
+      /Claude API error: No recommendations returned \(stop reason: max_tokens\)/
+    );
+    assert.equal(stub.requests.length, 1);
+  });
+});
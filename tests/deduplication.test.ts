@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Location, LocationAlias, Prisma, PrismaClient } from '@prisma/client';
+import { config } from '@shared/config';
+import { db, LocationBounds, LocationRepository } from '@shared/database';
+import { locationService } from '@shared/services';
+import { deduplicationService } from '@shared/services/location';
+import { storedLocation } from './helpers/locations';
+
+interface Moveable {
+  id: string;
+  locationId: string | null;
+}
+
+type InFilter = { where: { locationId: { in: string[] } }; data: { locationId: string } };
+
+// Re-points rows of a table the way updateMany({ where: { locationId: { in } } }) does
+function moveTo(rows: Iterable<Moveable>, { where, data }: InFilter) {
+  let count = 0;
+  for (const row of rows) {
+    if (row.locationId && where.locationId.in.includes(row.locationId)) {
+      row.locationId = data.locationId;
+      count++;
+    }
+  }
+  return { count };
+}
+
+// Enough of PrismaClient for LocationRepository's lookups and mergeDuplicates transaction
+class InMemoryLocationStore {
+  readonly locations = new Map<string, Location>();
+  readonly recommendations: Moveable[] = [];
+  readonly placeMatches: Moveable[] = [];
+  readonly aliases = new Map<string, LocationAlias>();
+
+  location = {
+    findUnique: async ({ where }: { where: { id: string } }) => this.locations.get(where.id) ?? null,
+    update: async ({ where, data }: { where: { id: string }; data: Prisma.LocationUpdateInput }) =>
+      Object.assign(this.locations.get(where.id)!, data),
+    deleteMany: async ({ where }: { where: { id: { in: string[] } } }) => {
+      for (const id of where.id.in) this.locations.delete(id);
+      return { count: where.id.in.length };
+    },
+    findMany: async ({ where }: { where: { latitude: { gte: number; lte: number }; longitude: { gte: number; lte: number } } }) =>
+      [...this.locations.values()]
+        .filter(row =>
+          row.latitude >= where.latitude.gte && row.latitude <= where.latitude.lte &&
+          row.longitude >= where.longitude.gte && row.longitude <= where.longitude.lte)
+        .sort((a, b) => a.latitude - b.latitude)
+        .map(row => ({ ...row, _count: { recommendations: this.recommendations.filter(rec => rec.locationId === row.id).length } }))
+  };
+
+  recommendation = { updateMany: async (args: InFilter) => moveTo(this.recommendations, args) };
+
+  placeMatch = { updateMany: async (args: InFilter) => moveTo(this.placeMatches, args) };
+
+  locationAlias = {
+    findUnique: async ({ where }: { where: { id: string } }) => this.aliases.get(where.id) ?? null,
+    updateMany: async (args: InFilter) => moveTo(this.aliases.values(), args),
+    createMany: async ({ data }: { data: Array<{ id: string; locationId: string; snapshot: Prisma.InputJsonValue }> }) => {
+      for (const alias of data) {
+        this.aliases.set(alias.id, { ...alias, snapshot: alias.snapshot as Prisma.JsonValue, createdAt: new Date() });
+      }
+      return { count: data.length };
+    }
+  };
+
+  $transaction = (operations: Promise<unknown>[]) => Promise.all(operations);
+
+  add(...locations: Location[]) {
+    for (const location of locations) this.locations.set(location.id, location);
+  }
+
+  // What findOccupiedCells' GROUP BY over the grid returns
+  occupiedCells(cellSize: number, bounds?: LocationBounds) {
+    const cells = new Map<string, { row: number; column: number }>();
+    for (const row of this.locations.values()) {
+      if (bounds && (row.latitude < bounds.minLat || row.latitude > bounds.maxLat)) continue;
+      const cell = { row: Math.floor(row.latitude / cellSize), column: Math.floor(row.longitude / cellSize) };
+      cells.set(`${cell.row}:${cell.column}`, cell);
+    }
+    return [...cells.values()];
+  }
+}
+
+describe('location deduplication', () => {
+  const originalLocations = db.location;
+  const originalPlaceMatch = db.placeMatch;
+  let store: InMemoryLocationStore;
+  let rejected: Array<{ osmId: string; googlePlaceId: string; status: string }>;
+  let osmRow: Location;
+  let googleRow: Location;
+
+  beforeEach(() => {
+    store = new InMemoryLocationStore();
+    rejected = [];
+    const repository = new LocationRepository(store as unknown as PrismaClient);
+    mock.method(repository, 'findOccupiedCells', async (cellSize: number, bounds?: LocationBounds) => store.occupiedCells(cellSize, bounds));
+    (db as unknown as { location: unknown }).location = repository;
+    (db as unknown as { placeMatch: unknown }).placeMatch = {
+      findDecisions: async (osmIds: string[]) => rejected.filter(row => osmIds.includes(row.osmId))
+    };
+    mock.method(console, 'log', () => {});
+
+    osmRow = storedLocation({
+      id: 'loc_osm',
+      name: 'Musée Rodin',
+      osmId: 'node/1',
+      latitude: 48.855,
+      longitude: 2.316,
+      metadata: { osm: { id: 'node/1', type: 'node', tags: { tourism: 'museum' } } }
+    });
+    googleRow = storedLocation({
+      id: 'loc_google',
+      name: 'Musée Rodin',
+      source: 'google',
+      googlePlaceId: 'g1',
+      latitude: 48.8551,
+      longitude: 2.3161,
+      address: '77 Rue de Varenne, Paris',
+      createdAt: new Date('2025-05-01T00:00:00.000Z'),
+      metadata: { google: { placeId: 'g1', rating: 4.6, reviewCount: 1200 } }
+    });
+    store.add(osmRow, googleRow);
+  });
+
+  afterEach(() => {
+    (db as unknown as { location: typeof originalLocations }).location = originalLocations;
+    (db as unknown as { placeMatch: typeof originalPlaceMatch }).placeMatch = originalPlaceMatch;
+    mock.restoreAll();
+  });
+
+  it('folds the Google row into the OSM row and moves everything attached to it', async () => {
+    store.recommendations.push({ id: 'rec_1', locationId: 'loc_google' }, { id: 'rec_2', locationId: 'loc_osm' });
+    store.placeMatches.push({ id: 'match_1', locationId: 'loc_google' });
+
+    const summary = await deduplicationService.deduplicate();
+
+    assert.deepEqual(summary, { cells: 1, clusters: 1, merged: 1, failed: 0, dryRun: false });
+    assert.deepEqual([...store.locations.keys()], ['loc_osm']);
+    assert.equal(osmRow.googlePlaceId, 'g1');
+    assert.equal(osmRow.source, 'merged');
+    assert.equal(osmRow.address, '77 Rue de Varenne, Paris');
+    assert.deepEqual(store.recommendations.map(rec => rec.locationId), ['loc_osm', 'loc_osm']);
+    assert.equal(store.placeMatches[0]!.locationId, 'loc_osm');
+
+    const alias = store.aliases.get('loc_google')!;
+    assert.equal(alias.locationId, 'loc_osm');
+    assert.equal((alias.snapshot as { googlePlaceId: string }).googlePlaceId, 'g1');
+  });
+
+  it('resolves merged-away ids, including aliases from earlier merges, to the surviving place', async () => {
+    store.aliases.set('loc_older', { id: 'loc_older', locationId: 'loc_google', snapshot: null, createdAt: new Date() });
+
+    await deduplicationService.deduplicate();
+
+    assert.equal(store.aliases.get('loc_older')!.locationId, 'loc_osm');
+    assert.equal((await locationService.getPlaceDetails('loc_google'))?.id, 'loc_osm');
+    assert.equal((await locationService.getPlaceDetails('loc_older'))?.id, 'loc_osm');
+    assert.equal(await locationService.getPlaceDetails('loc_unknown'), null);
+  });
+
+  it('keeps apart pairs a reviewer rejected and two different OSM elements', async () => {
+    rejected = [{ osmId: 'node/1', googlePlaceId: 'g1', status: 'rejected' }];
+    const rejectedPass = await deduplicationService.deduplicate();
+
+    store.locations.delete('loc_google');
+    store.add(storedLocation({ id: 'loc_osm_2', name: 'Musée Rodin', osmId: 'node/2', latitude: 48.8550, longitude: 2.3162 }));
+    const twinPass = await deduplicationService.deduplicate();
+
+    assert.equal(rejectedPass.clusters, 0);
+    assert.equal(twinPass.clusters, 0);
+    assert.deepEqual([...store.locations.keys()], ['loc_osm', 'loc_osm_2']);
+    assert.equal(store.aliases.size, 0);
+  });
+
+  it('only counts what it would merge in a dry run', async () => {
+    const summary = await deduplicationService.deduplicate({ dryRun: true });
+
+    assert.equal(summary.merged, 1);
+    assert.equal(store.locations.size, 2);
+    assert.equal(osmRow.googlePlaceId, null);
+  });
+
+  it('limits a pass to the requested region', async () => {
+    const { cellSize } = config.location.dedupe;
+    const findOccupiedCells = mock.method(db.location, 'findOccupiedCells');
+
+    const summary = await deduplicationService.deduplicate({ region: { latitude: 40.7128, longitude: -74.006, radius: 500 } });
+
+    assert.equal(findOccupiedCells.mock.calls[0]!.arguments[0], cellSize);
+    assert.equal(summary.cells, 0);
+    assert.equal(store.locations.size, 2);
+  });
+});
@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Location, Prisma } from '@prisma/client';
+import { config } from '@shared/config';
+import { db, PlaceMatchCandidateData } from '@shared/database';
+import { locationService } from '@shared/services';
+import {
+  HybridProvider,
+  LocationProvider,
+  LocationSearchRequest,
+  MonthlySpendStatus,
+  Place,
+  POICategory,
+  providerUsageService
+} from '@shared/services/location';
+import { distanceInMeters } from '@shared/services/location/geo';
+import { storedLocation } from './helpers/locations';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function osmLocation(id: string, name: string, extra: Partial<Location> = {}): Location {
+  const osmId = `node/${id}`;
+  return storedLocation({
+    id,
+    name,
+    osmId,
+    metadata: { osm: { id: osmId, type: 'node', tags: { tourism: 'museum' } } },
+    ...extra
+  });
+}
+
+function googlePlace(placeId: string, name: string, latitude: number, longitude: number): Place {
+  return {
+    id: `google_${placeId}`,
+    name,
+    category: POICategory.MUSEUM,
+    subcategory: 'museum',
+    coordinates: { latitude, longitude },
+    metadata: {
+      source: 'google',
+      externalId: placeId,
+      lastUpdated: new Date(),
+      verified: true,
+      google: { placeId, rating: 4.6, reviewCount: 1200 }
+    }
+  };
+}
+
+// Stands in for LocationRepository, applying updates to the rows the way Prisma's update would
+class InMemoryLocations {
+  readonly rows = new Map<string, Location>();
+  queries: Array<{ limit: number; checkedBefore: Date | undefined }> = [];
+
+  add(...locations: Location[]) {
+    for (const location of locations) this.rows.set(location.id, location);
+  }
+
+  async findLocationsForGoogleEnrichment(limit: number, checkedBefore?: Date) {
+    this.queries.push({ limit, checkedBefore });
+    return [...this.rows.values()]
+      .filter(row => row.googlePlaceId === null)
+      .filter(row => !checkedBefore || !row.googleLastUpdated || row.googleLastUpdated < checkedBefore)
+      .slice(0, limit);
+  }
+
+  async markGoogleChecked(id: string, mergeStatus?: string) {
+    return Object.assign(this.rows.get(id)!, { googleLastUpdated: new Date(), ...(mergeStatus && { mergeStatus }) });
+  }
+
+  async markRefreshed(id: string, _provider: 'google', data: Prisma.LocationUpdateInput) {
+    return Object.assign(this.rows.get(id)!, data, { googleLastUpdated: new Date() });
+  }
+}
+
+describe('LocationService.enrichWithGoogle', () => {
+  const enrichment = config.location.googleEnrichment;
+  const original = { ...enrichment };
+  const providers = (locationService as unknown as { providers: Map<string, LocationProvider> }).providers;
+  const originalProviders = new Map(providers);
+  const originalLocations = db.location;
+  const originalPlaceMatch = db.placeMatch;
+  let locations: InMemoryLocations;
+  let google: Place[];
+  let lookups: LocationSearchRequest[];
+  let failingLookups: Set<number>;
+  let dailyCalls: number;
+  let conflicts: PlaceMatchCandidateData[];
+  let rejected: Array<{ osmId: string; googlePlaceId: string; status: string }>;
+
+  beforeEach(() => {
+    Object.assign(enrichment, { dailyCallBudget: 100, retryAfterDays: 30, matchRadius: 200 });
+    locations = new InMemoryLocations();
+    google = [];
+    lookups = [];
+    failingLookups = new Set();
+    dailyCalls = 100;
+    conflicts = [];
+    rejected = [];
+
+    const hybrid = new HybridProvider();
+    // Looks in the Google pool around each place, the way a nearby search would
+    (hybrid as unknown as { googleLookup: LocationProvider }).googleLookup = {
+      searchNearby: async (request: LocationSearchRequest) => {
+        lookups.push(request);
+        if (failingLookups.has(lookups.length)) throw new Error('Google Places returned 503');
+
+        const places = google.filter(place =>
+          distanceInMeters(request.latitude, request.longitude, place.coordinates.latitude, place.coordinates.longitude) <= request.radius!
+        );
+        return { places, metadata: { provider: 'google', responseTime: 1, totalResults: places.length, searchRadius: request.radius!, categoriesSearched: [] } };
+      }
+    } as unknown as LocationProvider;
+    providers.set('hybrid', hybrid);
+    providers.set('google', {} as LocationProvider);
+
+    (db as unknown as { location: unknown }).location = locations;
+    (db as unknown as { placeMatch: unknown }).placeMatch = {
+      findDecisions: async (osmIds: string[]) => rejected.filter(row => osmIds.includes(row.osmId)),
+      recordCandidate: async (data: PlaceMatchCandidateData) => {
+        conflicts.push(data);
+      }
+    };
+    mock.method(providerUsageService, 'getMonthlyStatus', async (): Promise<MonthlySpendStatus> =>
+      ({ provider: 'google', month: '2025-06', spent: 20, cap: 200, degradeAt: 180, degraded: false }));
+    mock.method(providerUsageService, 'hasDailyBudget', async () => lookups.length < dailyCalls);
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    Object.assign(enrichment, original);
+    providers.clear();
+    for (const [name, provider] of originalProviders) providers.set(name, provider);
+    (db as unknown as { location: typeof originalLocations }).location = originalLocations;
+    (db as unknown as { placeMatch: typeof originalPlaceMatch }).placeMatch = originalPlaceMatch;
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  it('merges confident matches into the stored row and marks places without one as checked', async () => {
+    const rodin = osmLocation('1', 'Musée Rodin', { latitude: 48.855, longitude: 2.316 });
+    const orangerie = osmLocation('2', 'Musée de l\'Orangerie', { latitude: 48.8638, longitude: 2.3226 });
+    locations.add(rodin, orangerie);
+    google = [googlePlace('g1', 'Musée Rodin', 48.8551, 2.316)];
+
+    const summary = await locationService.enrichWithGoogle(10);
+
+    assert.deepEqual(summary, { candidates: 2, merged: 1, conflicts: 0, noMatch: 1, failed: 0, budgetExhausted: false });
+    assert.deepEqual(lookups[0], { latitude: 48.855, longitude: 2.316, radius: 200, categories: [POICategory.MUSEUM] });
+    assert.equal(rodin.source, 'merged');
+    assert.equal(rodin.googlePlaceId, 'g1');
+    assert.equal(Number(rodin.rating), 4.6);
+    assert.equal(orangerie.googlePlaceId, null);
+    assert.ok(orangerie.googleLastUpdated);
+  });
+
+  it('only looks up again places whose last check is older than the retry window', async () => {
+    const now = new Date('2025-06-15T12:00:00Z');
+    mock.timers.enable({ apis: ['Date'], now });
+    locations.add(
+      osmLocation('1', 'Never checked'),
+      osmLocation('2', 'Checked last week', { googleLastUpdated: new Date(now.getTime() - 7 * DAY) }),
+      osmLocation('3', 'Checked in April', { googleLastUpdated: new Date(now.getTime() - 60 * DAY) })
+    );
+
+    const summary = await locationService.enrichWithGoogle(5);
+
+    assert.deepEqual(locations.queries, [{ limit: 5, checkedBefore: new Date(now.getTime() - 30 * DAY) }]);
+    assert.equal(summary.candidates, 2);
+    assert.equal(lookups.length, 2);
+  });
+
+  it('queues borderline matches for review and leaves out pairs a reviewer rejected', async () => {
+    const rodin = osmLocation('1', 'Musée Rodin', { latitude: 48.855, longitude: 2.316 });
+    const orsay = osmLocation('2', 'Musée d\'Orsay', { latitude: 48.86, longitude: 2.3266 });
+    locations.add(rodin, orsay);
+    google = [
+      googlePlace('g1', 'Musée Rodin', 48.85644, 2.316), // ~160m away, just under the auto-merge confidence
+      googlePlace('g2', 'Musée d\'Orsay', 48.8601, 2.3266)
+    ];
+    rejected = [{ osmId: 'node/2', googlePlaceId: 'g2', status: 'rejected' }];
+
+    const summary = await locationService.enrichWithGoogle(10);
+
+    assert.equal(summary.conflicts, 1);
+    assert.equal(summary.noMatch, 1);
+    assert.equal(summary.merged, 0);
+    assert.deepEqual(conflicts.map(conflict => [conflict.osmId, conflict.googlePlaceId, conflict.locationId]), [['node/1', 'g1', '1']]);
+    assert.equal(rodin.mergeStatus, 'conflict');
+    assert.equal(rodin.googlePlaceId, null);
+    assert.equal(orsay.googlePlaceId, null);
+  });
+
+  it('stops the batch once the daily call budget is used up', async () => {
+    dailyCalls = 2;
+    locations.add(osmLocation('1', 'A'), osmLocation('2', 'B'), osmLocation('3', 'C'));
+
+    const summary = await locationService.enrichWithGoogle(10);
+
+    assert.equal(lookups.length, 2);
+    assert.equal(summary.noMatch, 2);
+    assert.equal(summary.budgetExhausted, true);
+    assert.equal(summary.stoppedReason, 'daily call budget used up');
+    assert.equal(locations.rows.get('3')!.googleLastUpdated, null);
+  });
+
+  it('does not start while the monthly spend cap is nearly reached', async () => {
+    mock.method(providerUsageService, 'getMonthlyStatus', async (): Promise<MonthlySpendStatus> =>
+      ({ provider: 'google', month: '2025-06', spent: 190, cap: 200, degradeAt: 180, degraded: true }));
+    locations.add(osmLocation('1', 'A'));
+
+    const summary = await locationService.enrichWithGoogle(10);
+
+    assert.equal(lookups.length, 0);
+    assert.equal(summary.stoppedReason, 'monthly spend cap nearly reached ($190 of $200)');
+  });
+
+  it('counts a failed lookup and carries on with the rest of the batch', async () => {
+    mock.method(console, 'warn', () => {});
+    failingLookups.add(1);
+    locations.add(osmLocation('1', 'A'), osmLocation('2', 'B'));
+
+    const summary = await locationService.enrichWithGoogle(10);
+
+    assert.equal(summary.failed, 1);
+    assert.equal(summary.noMatch, 1);
+    assert.equal(locations.rows.get('1')!.googleLastUpdated, null);
+  });
+});
@@ -0,0 +1,163 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '@shared/config';
+import { GooglePlacesProvider, POICategory, providerUsageService } from '@shared/services/location';
+import { HttpStub } from './helpers/http-stub';
+
+const louvre = {
+  id: 'ChIJD3uTd9hx5kcR1IQvGfr8dbk',
+  displayName: { text: 'Musée du Louvre', languageCode: 'fr' },
+  formattedAddress: '75001 Paris, France',
+  location: { latitude: 48.8606, longitude: 2.3376 },
+  types: ['museum', 'tourist_attraction', 'point_of_interest'],
+  rating: 4.7,
+  userRatingCount: 320000,
+  priceLevel: 'PRICE_LEVEL_MODERATE',
+  businessStatus: 'OPERATIONAL'
+};
+
+function textPage(count: number, offset: number, nextPageToken?: string) {
+  const places = Array.from({ length: count }, (_, index) => ({
+    ...louvre,
+    id: `place_${offset + index}`,
+    displayName: { text: `Museum ${offset + index}` }
+  }));
+  return { body: { places, ...(nextPageToken && { nextPageToken }) } };
+}
+
+describe('GooglePlacesProvider', () => {
+  const stub = new HttpStub();
+  const original = { key: config.apis.googlePlaces, endpoint: config.location.googleEndpoint };
+  let provider: GooglePlacesProvider;
+  let metered: string[];
+
+  before(async () => {
+    config.apis.googlePlaces = 'test-key';
+    config.location.googleEndpoint = `${await stub.start()}/v1/`;
+    provider = new GooglePlacesProvider();
+  });
+
+  after(async () => {
+    config.apis.googlePlaces = original.key;
+    config.location.googleEndpoint = original.endpoint;
+    await stub.stop();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    metered = [];
+    mock.method(providerUsageService, 'recordRequest', async (_provider: string, request: string) => {
+      metered.push(request);
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('sends a nearby search with the API key and a field mask limited to what Place uses', async () => {
+    stub.reply({ body: { places: [louvre] } });
+
+    const response = await provider.searchNearby({
+      latitude: 48.8584,
+      longitude: 2.2945,
+      radius: 5000,
+      categories: [POICategory.MUSEUM, POICategory.GALLERY]
+    });
+
+    const sent = stub.requests[0]!;
+    assert.equal(sent.method, 'POST');
+    assert.equal(sent.path, '/v1/places:searchNearby');
+    assert.equal(sent.headers['x-goog-api-key'], 'test-key');
+    assert.equal(
+      sent.headers['x-goog-fieldmask'],
+      'places.id,places.displayName,places.formattedAddress,places.location,places.types,' +
+      'places.rating,places.userRatingCount,places.priceLevel,places.businessStatus'
+    );
+    assert.deepEqual(sent.body, {
+      locationRestriction: { circle: { center: { latitude: 48.8584, longitude: 2.2945 }, radius: 5000 } },
+      maxResultCount: 20,
+      includedTypes: ['museum', 'art_gallery']
+    });
+    assert.equal(response.places.length, 1);
+    assert.equal(response.metadata.truncated, false);
+    assert.deepEqual(metered, ['search']);
+  });
+
+  it('maps a Places API (New) place onto Place and PlaceMetadata', async () => {
+    stub.reply({ body: { places: [louvre] } });
+
+    const [place] = (await provider.searchNearby({ latitude: 48.8584, longitude: 2.2945 })).places;
+
+    assert.ok(place);
+    assert.equal(place.id, 'google_ChIJD3uTd9hx5kcR1IQvGfr8dbk');
+    assert.equal(place.name, 'Musée du Louvre');
+    assert.equal(place.category, POICategory.MUSEUM);
+    assert.equal(place.subcategory, 'museum');
+    assert.equal(place.address, '75001 Paris, France');
+    assert.deepEqual(place.coordinates, { latitude: 48.8606, longitude: 2.3376 });
+    assert.ok(place.distance! > 3000 && place.distance! < 3500);
+    assert.equal(place.metadata?.source, 'google');
+    assert.equal(place.metadata?.externalId, louvre.id);
+    assert.equal(place.metadata?.verified, true);
+    assert.deepEqual(place.metadata?.google, { placeId: louvre.id, rating: 4.7, reviewCount: 320000, priceLevel: 2 });
+    assert.deepEqual(place.metadata?.features, ['operational']);
+  });
+
+  it('follows nextPageToken for text searches, repeating the query on each page', async () => {
+    stub.reply(textPage(20, 0, 'token-2'), textPage(20, 20, 'token-3'));
+
+    const response = await provider.searchText({ query: 'museum', limit: 25, latitude: 48.8584, longitude: 2.2945 });
+
+    assert.equal(response.places.length, 25);
+    assert.equal(stub.requests.length, 2);
+    assert.deepEqual(metered, ['search', 'search']);
+
+    const [first, second] = stub.requests.map(request => request.body as Record<string, unknown>);
+    assert.equal(first!.textQuery, 'museum');
+    assert.equal(first!.pageSize, 20);
+    assert.equal(first!.pageToken, undefined);
+    assert.equal(second!.textQuery, 'museum');
+    assert.equal(second!.pageToken, 'token-2');
+    assert.match(stub.requests[0]!.headers['x-goog-fieldmask'] as string, /,nextPageToken$/);
+  });
+
+  it('stops paging when Google hands out no further token', async () => {
+    stub.reply(textPage(20, 0, 'token-2'), textPage(5, 20));
+
+    const response = await provider.searchText({ query: 'museum', limit: 60 });
+
+    assert.equal(response.places.length, 25);
+    assert.equal(stub.requests.length, 2);
+  });
+
+  it('fetches details with contact and opening hours fields', async () => {
+    stub.reply({
+      body: {
+        ...louvre,
+        nationalPhoneNumber: '01 40 20 50 50',
+        websiteUri: 'https://www.louvre.fr/',
+        regularOpeningHours: { weekdayDescriptions: ['Monday: 9:00 AM – 6:00 PM', 'Tuesday: Closed'] }
+      }
+    });
+
+    const place = await provider.getPlaceDetails(louvre.id);
+
+    const sent = stub.requests[0]!;
+    assert.equal(sent.method, 'GET');
+    assert.equal(sent.path, `/v1/places/${louvre.id}`);
+    assert.match(sent.headers['x-goog-fieldmask'] as string, /^id,displayName,.*,nationalPhoneNumber,websiteUri,regularOpeningHours$/);
+    assert.deepEqual(place?.metadata?.contact, { phone: '01 40 20 50 50', website: 'https://www.louvre.fr/' });
+    assert.deepEqual(place?.metadata?.hours, { monday: '9:00 AM – 6:00 PM', tuesday: 'Closed' });
+    assert.deepEqual(metered, ['details']);
+  });
+
+  it('surfaces API errors with their status', async () => {
+    stub.reply({ status: 403, body: { error: { status: 'PERMISSION_DENIED' } } });
+
+    await assert.rejects(
+      provider.searchNearby({ latitude: 48.8584, longitude: 2.2945 }),
+      /Google Places search failed: HTTP 403: .*PERMISSION_DENIED/
+    );
+  });
+});
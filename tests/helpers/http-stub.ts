@@ -0,0 +1,68 @@
+// tests/helpers/http-stub.ts - local HTTP server standing in for the external APIs providers call
+
+import http from 'node:http';
+import net from 'node:net';
+
+export interface StubRequest {
+  method: string;
+  path: string; // Including the query string
+  headers: http.IncomingHttpHeaders;
+  body: unknown; // Parsed JSON, or undefined for an empty body
+}
+
+export interface StubReply {
+  status?: number;
+  body: unknown;
+}
+
+// Returning null leaves the request hanging, to exercise client timeouts
+export type StubHandler = (request: StubRequest) => StubReply | null;
+
+// Answers each request with the next queued handler, and records what it was sent
+export class HttpStub {
+  readonly requests: StubRequest[] = [];
+  private handlers: StubHandler[] = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as net.AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  reply(...handlers: Array<StubHandler | StubReply>): void {
+    this.handlers.push(...handlers.map(handler => typeof handler === 'function' ? handler : () => handler));
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.handlers = [];
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      const request: StubRequest = {
+        method: req.method ?? 'GET',
+        path: req.url ?? '/',
+        headers: req.headers,
+        body: text ? JSON.parse(text) : undefined
+      };
+      this.requests.push(request);
+
+      const handler = this.handlers.shift();
+      const reply = handler ? handler(request) : { status: 500, body: { error: 'No stubbed reply left' } };
+      if (!reply) return;
+
+      res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+      res.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body));
+    });
+  }
+}
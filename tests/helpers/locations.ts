@@ -0,0 +1,29 @@
+// tests/helpers/locations.ts - stored Location rows for the in-memory repository stand-ins
+
+import { Location, Prisma } from '@prisma/client';
+
+export function storedLocation(overrides: Partial<Location> & Pick<Location, 'id' | 'name'>): Location {
+  return {
+    latitude: 48.8566,
+    longitude: 2.3522,
+    category: 'museum',
+    createdAt: new Date('2025-06-01T00:00:00.000Z'),
+    source: 'osm',
+    osmId: null,
+    googlePlaceId: null,
+    aiKey: null,
+    osmLastUpdated: null,
+    googleLastUpdated: null,
+    lastUpdated: new Date('2025-06-01T00:00:00.000Z'),
+    rating: null,
+    reviewCount: null,
+    priceLevel: null,
+    verified: false,
+    address: null,
+    description: null,
+    metadata: null as unknown as Prisma.JsonValue,
+    qualityScore: null,
+    mergeStatus: null,
+    ...overrides
+  };
+}
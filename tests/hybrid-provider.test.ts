@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '@shared/config';
+import { db } from '@shared/database';
+import {
+  HybridProvider,
+  LocationProvider,
+  LocationSearchResponse,
+  MonthlySpendStatus,
+  POICategory,
+  providerUsageService
+} from '@shared/services/location';
+
+const osmResponse: LocationSearchResponse = {
+  places: [{
+    id: 'osm_node_1',
+    name: 'Musée Rodin',
+    category: POICategory.MUSEUM,
+    subcategory: 'museum',
+    coordinates: { latitude: 48.855, longitude: 2.316 },
+    metadata: {
+      source: 'osm',
+      externalId: 'node/1',
+      lastUpdated: new Date(),
+      verified: false,
+      osm: { id: 'node/1', type: 'node', tags: { tourism: 'museum' } }
+    }
+  }],
+  metadata: { provider: 'osm', responseTime: 1, totalResults: 1, searchRadius: 1000, categoriesSearched: ['museum'] }
+};
+
+function monthlyStatus(degraded: boolean): MonthlySpendStatus {
+  return { provider: 'google', month: '2025-06', spent: degraded ? 190 : 20, cap: 200, degradeAt: 180, degraded };
+}
+
+describe('HybridProvider monthly spend cap', () => {
+  const enrichment = config.location.googleEnrichment;
+  const originalMode = enrichment.mode;
+  const originalLocations = db.location;
+  let provider: HybridProvider;
+  let googleCalls: number;
+
+  beforeEach(() => {
+    googleCalls = 0;
+    provider = new HybridProvider();
+    const internals = provider as unknown as {
+      osmProvider: LocationProvider;
+      googleProvider: LocationProvider;
+      storeMergedResults: () => Promise<void>;
+    };
+    internals.osmProvider = { searchNearby: async () => osmResponse } as unknown as LocationProvider;
+    internals.googleProvider = {
+      searchNearby: async () => {
+        googleCalls++;
+        return { ...osmResponse, places: [] };
+      }
+    } as unknown as LocationProvider;
+    internals.storeMergedResults = async () => {};
+    (db as unknown as { location: unknown }).location = { findManyByOsmIds: async () => [] };
+  });
+
+  afterEach(() => {
+    enrichment.mode = originalMode;
+    (db as unknown as { location: typeof originalLocations }).location = originalLocations;
+    mock.restoreAll();
+  });
+
+  const search = () => provider.searchNearby({ latitude: 48.855, longitude: 2.316, radius: 1000, categories: [POICategory.MUSEUM] });
+
+  it('reports the cap in async mode, where background enrichment pauses', async () => {
+    enrichment.mode = 'async';
+    mock.method(providerUsageService, 'getMonthlyStatus', async () => monthlyStatus(true));
+
+    const response = await search();
+
+    assert.match(response.metadata.fallbackReason ?? '', /background enrichment paused/);
+    assert.equal(response.places.length, 1);
+    assert.equal(googleCalls, 0);
+  });
+
+  it('leaves async searches unflagged below the cap', async () => {
+    enrichment.mode = 'async';
+    mock.method(providerUsageService, 'getMonthlyStatus', async () => monthlyStatus(false));
+
+    const response = await search();
+
+    assert.equal(response.metadata.fallbackReason, undefined);
+    assert.equal(googleCalls, 0);
+  });
+
+  it('skips Google and reports the cap in inline mode', async () => {
+    enrichment.mode = 'inline';
+    mock.method(providerUsageService, 'getMonthlyStatus', async () => monthlyStatus(true));
+
+    const response = await search();
+
+    assert.match(response.metadata.fallbackReason ?? '', /serving OSM data only/);
+    assert.equal(googleCalls, 0);
+  });
+});
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Itinerary as ItineraryRecord, Prisma } from '@prisma/client';
+import { db } from '@shared/database';
+import { NotFoundError, ValidationError } from '@shared/errors';
+import { ItineraryCandidate, itineraryPlanner, itineraryService, PlanOptions } from '@shared/services/itinerary';
+
+const start = { latitude: 48.8606, longitude: 2.3376 };
+
+// Roughly 111m per 0.001 degrees of latitude, so 0.0035 is a 5 minute walk
+function place(placeId: string, category: string, north: number, general?: string): ItineraryCandidate {
+  return {
+    placeId,
+    name: `Place ${placeId}`,
+    category,
+    coordinates: { latitude: start.latitude + north, longitude: start.longitude },
+    ...(general && { hours: { general } })
+  };
+}
+
+const options: PlanOptions = {
+  start,
+  date: new Date('2025-06-02T00:00:00Z'), // A Monday
+  startMinutes: 10 * 60,
+  durationMinutes: 4 * 60,
+  maxStops: 6
+};
+
+describe('ItineraryPlanner.plan', () => {
+  it('walks to the nearest place first even when a farther one ranks higher', () => {
+    const far = place('far', 'museum', 0.014);
+    const near = place('near', 'cafe', 0.0035);
+
+    const { stops, unused } = itineraryPlanner.plan([far, near], options);
+
+    assert.deepEqual(stops.map(stop => stop.placeId), ['near', 'far']);
+    assert.deepEqual(unused, []);
+    assert.equal(stops[0]!.leg.walkingMinutes, 5);
+    assert.equal(stops[0]!.arrivalTime, '10:05');
+    assert.equal(stops[0]!.departureTime, '10:45');
+    assert.equal(stops[1]!.leg.walkingMinutes, 15);
+    assert.equal(stops[1]!.arrivalTime, '11:00');
+    assert.equal(stops[0]!.openStatus, 'unknown');
+  });
+
+  it('skips places that are closed or would mean a long wait, but waits a little for one that opens soon', () => {
+    const closed = place('closed', 'museum', 0.0035, 'Tu-Su 10:00-18:00');
+    const late = place('late', 'gallery', 0.0035, 'Mo-Su 13:00-18:00');
+    const soon = place('soon', 'cafe', 0.0035, 'Mo-Su 10:30-18:00');
+
+    const { stops, unused } = itineraryPlanner.plan([closed, late, soon], options);
+
+    assert.deepEqual(stops.map(stop => stop.placeId), ['soon']);
+    assert.equal(stops[0]!.openStatus, 'open');
+    assert.equal(stops[0]!.waitMinutes, 25);
+    assert.equal(stops[0]!.departureTime, '11:10');
+    assert.deepEqual(unused.map(candidate => candidate.placeId), ['closed', 'late']);
+  });
+
+  it('leaves out places whose visit would run past the end of the plan', () => {
+    const cafe = place('cafe', 'cafe', 0.0035);
+    const museum = place('museum', 'museum', 0.004);
+
+    const { stops, unused } = itineraryPlanner.plan([museum, cafe], { ...options, durationMinutes: 60 });
+
+    assert.deepEqual(stops.map(stop => stop.placeId), ['cafe']);
+    assert.deepEqual(unused.map(candidate => candidate.placeId), ['museum']);
+    assert.equal(stops[0]!.exceedsDuration, false);
+  });
+
+  it('stops at the requested number of stops', () => {
+    const candidates = [place('a', 'cafe', 0.001), place('b', 'park', 0.002), place('c', 'gallery', 0.003)];
+
+    const { stops, unused } = itineraryPlanner.plan(candidates, { ...options, maxStops: 2 });
+
+    assert.equal(stops.length, 2);
+    assert.equal(unused.length, 1);
+  });
+});
+
+// Stands in for ItineraryRepository with a single stored plan
+class InMemoryItineraries {
+  record!: ItineraryRecord;
+
+  async findByIdForUser(id: string, userId: string) {
+    return this.record.id === id && this.record.userId === userId ? this.record : null;
+  }
+
+  async updateStops(id: string, data: { stops: Prisma.InputJsonValue; alternatives: Prisma.InputJsonValue }) {
+    assert.equal(id, this.record.id);
+    this.record = {
+      ...this.record,
+      stops: data.stops as Prisma.JsonValue,
+      alternatives: data.alternatives as Prisma.JsonValue,
+      updatedAt: new Date()
+    };
+    return this.record;
+  }
+}
+
+describe('ItineraryService stop edits', () => {
+  const originalItineraries = db.itinerary;
+  let itineraries: InMemoryItineraries;
+
+  const cafe = place('cafe', 'cafe', 0.0035);
+  const park = place('park', 'park', 0.007);
+  const gallery = place('gallery', 'gallery', 0.0105);
+
+  function store(stops: ItineraryCandidate[], alternatives: ItineraryCandidate[]): void {
+    itineraries.record = {
+      id: 'itinerary-1',
+      userId: 'user-1',
+      title: null,
+      mood: 'curious',
+      date: options.date,
+      startTime: '10:00',
+      duration: 4,
+      latitude: start.latitude,
+      longitude: start.longitude,
+      stops: itineraryPlanner.schedule(stops, options) as unknown as Prisma.JsonValue,
+      alternatives: alternatives as unknown as Prisma.JsonValue,
+      createdAt: new Date('2025-06-01T00:00:00Z'),
+      updatedAt: new Date('2025-06-01T00:00:00Z')
+    };
+  }
+
+  beforeEach(() => {
+    itineraries = new InMemoryItineraries();
+    (db as unknown as { itinerary: unknown }).itinerary = itineraries;
+    store([cafe, park, gallery], []);
+  });
+
+  afterEach(() => {
+    (db as unknown as { itinerary: typeof originalItineraries }).itinerary = originalItineraries;
+  });
+
+  it('only shows a plan to the user who owns it', async () => {
+    await assert.rejects(itineraryService.getById('user-2', 'itinerary-1'), NotFoundError);
+    assert.equal((await itineraryService.getById('user-1', 'itinerary-1')).stops.length, 3);
+  });
+
+  it('reorders stops and recomputes every leg and time', async () => {
+    const itinerary = await itineraryService.reorderStops('user-1', 'itinerary-1', ['gallery', 'cafe', 'park']);
+
+    assert.deepEqual(itinerary.stops.map(stop => stop.placeId), ['gallery', 'cafe', 'park']);
+    assert.equal(itinerary.stops[0]!.leg.walkingMinutes, 15);
+    assert.equal(itinerary.stops[0]!.arrivalTime, '10:15');
+    assert.equal(itinerary.stops[1]!.leg.walkingMinutes, 10);
+    assert.equal(itinerary.totals.walkingMinutes, 15 + 10 + 5);
+  });
+
+  it('rejects an order that is not a permutation of the stops', async () => {
+    await assert.rejects(itineraryService.reorderStops('user-1', 'itinerary-1', ['gallery', 'cafe']), ValidationError);
+    await assert.rejects(itineraryService.reorderStops('user-1', 'itinerary-1', ['gallery', 'cafe', 'cafe']), ValidationError);
+  });
+
+  it('removes a stop, reschedules the rest and offers it as an alternative', async () => {
+    const itinerary = await itineraryService.removeStop('user-1', 'itinerary-1', 'park');
+
+    assert.deepEqual(itinerary.stops.map(stop => stop.placeId), ['cafe', 'gallery']);
+    assert.equal(itinerary.stops[1]!.leg.walkingMinutes, 10);
+    assert.deepEqual(itinerary.alternatives, [park]);
+    await assert.rejects(itineraryService.removeStop('user-1', 'itinerary-1', 'park'), NotFoundError);
+  });
+
+  it('swaps in the named alternative and returns the old stop to the pool', async () => {
+    const bakery = place('bakery', 'bakery', 0.02);
+    store([cafe, park], [bakery]);
+
+    const itinerary = await itineraryService.swapStop('user-1', 'itinerary-1', 'park', 'bakery');
+
+    assert.deepEqual(itinerary.stops.map(stop => stop.placeId), ['cafe', 'bakery']);
+    assert.deepEqual(itinerary.alternatives, [park]);
+  });
+
+  it('picks the open alternative with the shortest detour when none is named', async () => {
+    const closed = place('closed', 'museum', 0.0036, 'Tu-Su 10:00-18:00');
+    const detour = place('detour', 'garden', 0.03);
+    const onTheWay = place('on-the-way', 'garden', 0.007, 'Mo-Su 09:00-18:00');
+    store([cafe, park, gallery], [closed, detour, onTheWay]);
+
+    const itinerary = await itineraryService.swapStop('user-1', 'itinerary-1', 'park');
+
+    assert.deepEqual(itinerary.stops.map(stop => stop.placeId), ['cafe', 'on-the-way', 'gallery']);
+    assert.deepEqual(itinerary.alternatives.map(candidate => candidate.placeId), ['park', 'closed', 'detour']);
+  });
+
+  it('fails when no alternative can take the stop\'s place', async () => {
+    store([cafe, park], [place('closed', 'museum', 0.007, 'Tu-Su 10:00-18:00')]);
+
+    await assert.rejects(itineraryService.swapStop('user-1', 'itinerary-1', 'park'), NotFoundError);
+  });
+});
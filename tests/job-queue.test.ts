@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Job, Prisma } from '@prisma/client';
+import { config } from '@shared/config';
+import { db } from '@shared/database';
+import { AppError } from '@shared/errors';
+import { JobQueueService } from '@shared/services/jobs/job-queue.service';
+
+// Mirrors the locking rules of JobRepository's SQL over an in-memory table
+class InMemoryJobs {
+  readonly rows = new Map<string, Job>();
+  private nextId = 1;
+
+  async create(data: { type: string; key?: string; payload: Prisma.InputJsonValue; maxAttempts: number }) {
+    if (data.key) this.assertNoActive(data.type, data.key);
+
+    const now = new Date();
+    const job: Job = {
+      id: `job_${this.nextId++}`,
+      type: data.type,
+      key: data.key ?? null,
+      payload: data.payload as Prisma.JsonValue,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: data.maxAttempts,
+      runAt: now,
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+      result: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null
+    };
+    this.rows.set(job.id, job);
+    return job;
+  }
+
+  async findById(id: string) {
+    return this.rows.get(id) ?? null;
+  }
+
+  // Always misses, as if another process enqueued between this check and the insert
+  async findActiveByKey() {
+    return null;
+  }
+
+  async requeue(id: string) {
+    const job = this.rows.get(id)!;
+    if (job.key) this.assertNoActive(job.type, job.key);
+
+    return Object.assign(job, { status: 'pending', attempts: 0, runAt: new Date(), completedAt: null });
+  }
+
+  async failAbandoned(types: string[], lockExpiredBefore: Date) {
+    let count = 0;
+    for (const job of this.rows.values()) {
+      if (types.includes(job.type) && this.isAbandoned(job, lockExpiredBefore) && job.attempts >= job.maxAttempts) {
+        Object.assign(job, { status: 'failed', lockedAt: null, lockedBy: null, completedAt: new Date() });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async claimNext(types: string[], workerId: string, lockExpiredBefore: Date) {
+    const job = Array.from(this.rows.values()).find(row =>
+      types.includes(row.type) && (
+        (row.status === 'pending' && row.runAt <= new Date()) ||
+        (this.isAbandoned(row, lockExpiredBefore) && row.attempts < row.maxAttempts)
+      )
+    );
+    if (!job) return null;
+
+    Object.assign(job, { status: 'running', lockedAt: new Date(), lockedBy: workerId, attempts: job.attempts + 1 });
+    return { ...job };
+  }
+
+  async markCompleted(id: string, workerId: string, result: Prisma.InputJsonValue | null) {
+    return this.finish(id, workerId, { status: 'completed', result: result as Prisma.JsonValue, completedAt: new Date() });
+  }
+
+  async markFailed(id: string, workerId: string, error: string, retryAt: Date | null) {
+    return this.finish(id, workerId, {
+      status: retryAt ? 'pending' : 'failed',
+      lastError: error,
+      ...(retryAt ? { runAt: retryAt } : { completedAt: new Date() })
+    });
+  }
+
+  private finish(id: string, workerId: string, changes: Partial<Job>): boolean {
+    const job = this.rows.get(id);
+    if (!job || job.status !== 'running' || job.lockedBy !== workerId) return false;
+
+    Object.assign(job, changes, { lockedAt: null, lockedBy: null });
+    return true;
+  }
+
+  // The partial unique index on (type, key) for pending and running jobs
+  private assertNoActive(type: string, key: string): void {
+    const active = Array.from(this.rows.values()).some(row =>
+      row.type === type && row.key === key && (row.status === 'pending' || row.status === 'running')
+    );
+    if (active) {
+      throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`type`,`key`)', {
+        code: 'P2002',
+        clientVersion: Prisma.prismaVersion.client
+      });
+    }
+  }
+
+  private isAbandoned(job: Job, lockExpiredBefore: Date): boolean {
+    return job.status === 'running' && !!job.lockedAt && job.lockedAt < lockExpiredBefore;
+  }
+}
+
+describe('JobQueueService', () => {
+  const originalJobs = db.job;
+  let jobs: InMemoryJobs;
+  let queue: JobQueueService;
+
+  beforeEach(() => {
+    jobs = new InMemoryJobs();
+    (db as unknown as { job: InMemoryJobs }).job = jobs;
+    queue = new JobQueueService();
+  });
+
+  afterEach(() => {
+    (db as unknown as { job: typeof originalJobs }).job = originalJobs;
+  });
+
+  // Makes the lock of a running job look older than the lock timeout
+  const expireLock = (job: Job) => {
+    jobs.rows.get(job.id)!.lockedAt = new Date(Date.now() - config.jobs.lockTimeout - 1000);
+  };
+
+  it('claims a due job, runs its handler and records the result', async () => {
+    const seen: unknown[] = [];
+    queue.register<{ placeId: string }>('test.job', async payload => {
+      seen.push(payload);
+      return { refreshed: 1 };
+    });
+    const job = (await queue.enqueue('test.job', { placeId: 'p1' }))!;
+
+    assert.equal(await queue.runNext('worker-a'), true);
+    assert.equal(await queue.runNext('worker-a'), false);
+
+    const stored = jobs.rows.get(job.id)!;
+    assert.deepEqual(seen, [{ placeId: 'p1' }]);
+    assert.equal(stored.status, 'completed');
+    assert.equal(stored.attempts, 1);
+    assert.deepEqual(stored.result, { refreshed: 1 });
+    assert.equal(stored.lockedBy, null);
+  });
+
+  it('retries failures with backoff until attempts run out', async () => {
+    queue.register('test.job', async () => {
+      throw new Error('provider down');
+    });
+    const job = (await queue.enqueue('test.job', {}, { maxAttempts: 2 }))!;
+
+    await queue.runNext('worker-a');
+    const afterFirst = jobs.rows.get(job.id)!;
+    assert.equal(afterFirst.status, 'pending');
+    assert.ok(afterFirst.runAt > new Date());
+
+    afterFirst.runAt = new Date();
+    await queue.runNext('worker-a');
+    assert.equal(jobs.rows.get(job.id)!.status, 'failed');
+    assert.equal(jobs.rows.get(job.id)!.lastError, 'provider down');
+  });
+
+  it('discards the outcome of a worker whose lock was taken over', async () => {
+    const job = (await queue.enqueue('test.job', {}))!;
+    let release: () => void = () => {};
+    let calls = 0;
+    queue.register('test.job', async () => {
+      calls++;
+      if (calls === 1) {
+        // The first worker stalls until the second has taken the job over and finished it
+        await new Promise<void>(resolve => { release = resolve; });
+        return { by: 'worker-a' };
+      }
+      return { by: 'worker-b' };
+    });
+
+    const first = queue.runNext('worker-a');
+    await new Promise(resolve => setImmediate(resolve));
+    expireLock(job);
+
+    assert.equal(await queue.runNext('worker-b'), true);
+    release();
+    await first;
+
+    const stored = jobs.rows.get(job.id)!;
+    assert.equal(stored.status, 'completed');
+    assert.deepEqual(stored.result, { by: 'worker-b' });
+    assert.equal(stored.attempts, 2);
+  });
+
+  it('fails an abandoned job instead of reclaiming it past maxAttempts', async () => {
+    queue.register('test.job', async () => ({}));
+    const job = (await queue.enqueue('test.job', {}, { maxAttempts: 1 }))!;
+    await jobs.claimNext(['test.job'], 'worker-a', new Date(0));
+    expireLock(job);
+
+    assert.equal(await queue.runNext('worker-b'), false);
+
+    const stored = jobs.rows.get(job.id)!;
+    assert.equal(stored.status, 'failed');
+    assert.equal(stored.attempts, 1);
+  });
+
+  it('keeps a single active job per key when two enqueues race', async () => {
+    const [first, second] = await Promise.all([
+      queue.enqueue('test.job', { placeId: 'p1' }, { key: 'p1' }),
+      queue.enqueue('test.job', { placeId: 'p1' }, { key: 'p1' })
+    ]);
+
+    assert.ok(first);
+    assert.equal(second, null);
+    assert.equal(jobs.rows.size, 1);
+
+    // Once the first has finished, the key can be queued again
+    queue.register('test.job', async () => ({}));
+    await queue.runNext('worker-a');
+    assert.ok(await queue.enqueue('test.job', { placeId: 'p1' }, { key: 'p1' }));
+  });
+
+  it('refuses to retry a failed job while an equivalent one is queued', async () => {
+    queue.register('test.job', async () => {
+      throw new Error('provider down');
+    });
+    const failed = (await queue.enqueue('test.job', {}, { key: 'p1', maxAttempts: 1 }))!;
+    await queue.runNext('worker-a');
+    await queue.enqueue('test.job', {}, { key: 'p1' });
+
+    await assert.rejects(queue.retry(failed.id), (error: AppError) => error.statusCode === 409);
+  });
+});
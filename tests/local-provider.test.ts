@@ -0,0 +1,162 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '@shared/database';
+import { AIPlaceCandidate, AIRecommendationRequest, LocalProvider } from '@shared/services/ai';
+import { POICategory } from '@shared/services/location';
+import { HttpStub } from './helpers/http-stub';
+
+const center = { latitude: 48.8606, longitude: 2.3376 };
+
+function candidate(name: string, category: POICategory, extra: Partial<AIPlaceCandidate> = {}): AIPlaceCandidate {
+  return { placeId: `place_${name.toLowerCase().replace(/\W+/g, '_')}`, name, category, ...center, distance: 500, ...extra };
+}
+
+function request(candidates: AIPlaceCandidate[], extra: Partial<AIRecommendationRequest> = {}): AIRecommendationRequest {
+  return { ...center, mood: 'curious', radius: 1000, candidates, ...extra };
+}
+
+describe('LocalProvider deterministic ranking', () => {
+  const provider = new LocalProvider();
+
+  async function rank(candidates: AIPlaceCandidate[], extra: Partial<AIRecommendationRequest> = {}): Promise<string[]> {
+    const response = await provider.generateRecommendations(request(candidates, extra));
+    return response.recommendations.map(rec => rec.name);
+  }
+
+  it('puts the categories that best fit the mood first and leaves out utilities', async () => {
+    const names = await rank([
+      candidate('Café de Flore', POICategory.CAFE),
+      candidate('ATM Rivoli', POICategory.ATM),
+      candidate('Musée du Louvre', POICategory.MUSEUM)
+    ]);
+
+    assert.deepEqual(names, ['Musée du Louvre', 'Café de Flore']);
+  });
+
+  it('prefers closer and better rated places within a category', async () => {
+    assert.deepEqual(await rank([
+      candidate('Galerie Far', POICategory.GALLERY, { distance: 900 }),
+      candidate('Galerie Near', POICategory.GALLERY, { distance: 100 })
+    ]), ['Galerie Near', 'Galerie Far']);
+
+    assert.deepEqual(await rank([
+      candidate('Galerie Average', POICategory.GALLERY, { rating: 3 }),
+      candidate('Galerie Loved', POICategory.GALLERY, { rating: 4.8 })
+    ]), ['Galerie Loved', 'Galerie Average']);
+  });
+
+  it('lifts places matching a stated preference and says why', async () => {
+    const response = await provider.generateRecommendations(request([
+      candidate('Musée Rodin', POICategory.MUSEUM),
+      candidate('Musée Zadkine', POICategory.MUSEUM)
+    ], { preferences: ['Zadkine'] }));
+
+    assert.deepEqual(response.recommendations.map(rec => rec.name), ['Musée Zadkine', 'Musée Rodin']);
+    assert.match(response.recommendations[0]!.reasoning, /matches your interest in zadkine/);
+  });
+
+  it('plays down outdoor places at night and pricey ones on a low budget', async () => {
+    const outdoors = [candidate('Viewpoint', POICategory.VIEWPOINT), candidate('Café', POICategory.CAFE)];
+    assert.deepEqual(await rank(outdoors, { timeOfDay: 'afternoon' }), ['Viewpoint', 'Café']);
+    assert.deepEqual(await rank(outdoors, { timeOfDay: 'night' }), ['Café', 'Viewpoint']);
+
+    const unwinding = [candidate('Spa', POICategory.SPA), candidate('Park', POICategory.PARK)];
+    assert.deepEqual(await rank(unwinding, { mood: 'relaxed' }), ['Spa', 'Park']);
+    assert.deepEqual(await rank(unwinding, { mood: 'relaxed', budget: 'low' }), ['Park', 'Spa']);
+  });
+
+  it('keeps the list varied and short', async () => {
+    const categories = [POICategory.MUSEUM, POICategory.GALLERY, POICategory.ATTRACTION, POICategory.MONUMENT];
+    const candidates = categories.flatMap(category => [1, 2, 3].map(index => candidate(`${category} ${index}`, category)));
+
+    const response = await provider.generateRecommendations(request(candidates));
+
+    assert.equal(response.recommendations.length, 7);
+    for (const category of categories) {
+      assert.ok(response.recommendations.filter(rec => rec.category === category).length <= 2);
+    }
+    assert.equal(response.metadata.model, 'deterministic');
+    assert.equal(response.metadata.cost, 0);
+  });
+
+  it('describes each place from what is known about it', async () => {
+    const response = await provider.generateRecommendations(request([
+      candidate('Musée du Louvre', POICategory.MUSEUM, { address: 'Rue de Rivoli', rating: 4.7, distance: 240.6 })
+    ]));
+
+    assert.deepEqual(response.recommendations[0], {
+      placeId: 'place_mus_e_du_louvre',
+      name: 'Musée du Louvre',
+      category: POICategory.MUSEUM,
+      description: 'Museum at Rue de Rivoli.',
+      reasoning: 'A museum 241m away that suits a curious mood, rated 4.7/5.',
+      estimatedDuration: '1-2 hours',
+      priceRange: '$$',
+      coordinates: center
+    });
+  });
+
+  it('loads stored places around the user when no candidates are passed in', async () => {
+    const originalLocations = db.location;
+    const searches: Array<{ categories?: string[] }> = [];
+    (db as unknown as { location: unknown }).location = {
+      findNearby: async (params: { categories?: string[] }) => {
+        searches.push(params);
+        return [{ id: 'loc_1', name: 'Musée Picasso', category: 'museum', ...center, distance: 300, address: null, rating: '4.5' }];
+      }
+    };
+
+    try {
+      const response = await provider.generateRecommendations({ ...center, mood: 'curious' });
+
+      assert.deepEqual(searches[0]!.categories?.slice(0, 2), [POICategory.MUSEUM, POICategory.GALLERY]);
+      assert.equal(response.recommendations[0]!.placeId, 'loc_1');
+      assert.match(response.recommendations[0]!.reasoning, /rated 4.5\/5/);
+    } finally {
+      (db as unknown as { location: typeof originalLocations }).location = originalLocations;
+    }
+  });
+});
+
+describe('LocalProvider with a local model', () => {
+  const stub = new HttpStub();
+  let provider: LocalProvider;
+
+  before(async () => {
+    provider = new LocalProvider(`${await stub.start()}/v1/`, 'llama3.1');
+  });
+
+  after(async () => {
+    await stub.stop();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('uses the model\'s recommendations when it answers', async () => {
+    const louvre = { name: 'Musée du Louvre', category: 'cultural', description: 'Art museum.', reasoning: 'Curious mood.' };
+    stub.reply({ body: { choices: [{ message: { content: JSON.stringify({ recommendations: [louvre] }) } }] } });
+
+    const response = await provider.generateRecommendations(request([candidate('Musée du Louvre', POICategory.MUSEUM)]));
+
+    assert.equal(stub.requests[0]!.path, '/v1/chat/completions');
+    assert.equal((stub.requests[0]!.body as { model: string }).model, 'llama3.1');
+    assert.deepEqual(response.recommendations, [louvre]);
+    assert.equal(response.metadata.model, 'llama3.1');
+  });
+
+  it('falls back to the deterministic ranking when the model fails', async () => {
+    mock.method(console, 'warn', () => {});
+    stub.reply({ status: 500, body: { error: 'model not loaded' } });
+
+    const response = await provider.generateRecommendations(request([candidate('Musée du Louvre', POICategory.MUSEUM)]));
+
+    assert.equal(response.metadata.model, 'deterministic');
+    assert.deepEqual(response.recommendations.map(rec => rec.placeId), ['place_mus_e_du_louvre']);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { locationService, LocationSearchResponse, Place, POICategory } from '@shared/services/location';
+
+const lastUpdated = new Date('2025-06-01T12:00:00.000Z');
+const fetchedAt = new Date('2025-05-30T08:00:00.000Z');
+
+function providerResponse(): LocationSearchResponse {
+  const place: Place = {
+    id: 'osm_node_1',
+    name: 'Café de Flore',
+    category: POICategory.CAFE,
+    subcategory: 'cafe',
+    coordinates: { latitude: 48.854, longitude: 2.333 },
+    metadata: {
+      source: 'merged',
+      externalId: 'node/1',
+      lastUpdated,
+      verified: false,
+      provenance: { hours: { source: 'google', fetchedAt, confidence: 0.9 } }
+    }
+  };
+
+  return {
+    places: [place],
+    metadata: {
+      provider: 'hybrid',
+      responseTime: 5,
+      totalResults: 1,
+      searchRadius: 1000,
+      categoriesSearched: ['cafe']
+    }
+  };
+}
+
+describe('location search cache', () => {
+  afterEach(async () => {
+    await locationService.clearCache();
+  });
+
+  it('returns Date fields on a cache hit', async () => {
+    let providerCalls = 0;
+    const service = locationService as unknown as { searchProviders: () => Promise<LocationSearchResponse> };
+    service.searchProviders = async () => {
+      providerCalls++;
+      return providerResponse();
+    };
+
+    const request = { latitude: 48.854, longitude: 2.333, radius: 1000, categories: [POICategory.CAFE] };
+    const first = await locationService.searchNearby(request);
+    const second = await locationService.searchNearby(request);
+
+    assert.equal(providerCalls, 1);
+    assert.equal(first.metadata.cached, undefined);
+    assert.equal(second.metadata.cached, true);
+
+    const place = second.places[0]!;
+    assert.ok(place.metadata?.lastUpdated instanceof Date);
+    assert.equal(place.metadata.lastUpdated.toISOString(), lastUpdated.toISOString());
+    assert.ok(place.metadata.provenance?.hours?.fetchedAt instanceof Date);
+    assert.equal(place.metadata.provenance.hours.fetchedAt.toISOString(), fetchedAt.toISOString());
+  });
+
+});
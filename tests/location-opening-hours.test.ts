@@ -0,0 +1,75 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  locationService,
+  LocationSearchRequest,
+  LocationSearchResponse,
+  Place,
+  POICategory
+} from '@shared/services/location';
+
+// Every third place is open at lunchtime; the others only open for breakfast
+function cafes(count: number): Place[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `osm_node_${index}`,
+    name: `Café ${index}`,
+    category: POICategory.CAFE,
+    subcategory: 'cafe',
+    coordinates: { latitude: 48.854, longitude: 2.333 + index * 0.0001 },
+    distance: index * 10,
+    metadata: {
+      source: 'osm',
+      externalId: `node/${index}`,
+      lastUpdated: new Date(),
+      verified: false,
+      hours: { general: index % 3 === 0 ? 'Mo-Su 08:00-18:00' : 'Mo-Su 07:00-10:00' }
+    }
+  }));
+}
+
+describe('location search opening hours filter', () => {
+  afterEach(async () => {
+    await locationService.clearCache();
+  });
+
+  function stubProviders(): number[] {
+    const limits: number[] = [];
+    const service = locationService as unknown as {
+      searchProviders: (request: Required<LocationSearchRequest>) => Promise<LocationSearchResponse>;
+    };
+    service.searchProviders = async request => {
+      limits.push(request.limit);
+      const places = cafes(60).slice(0, request.limit);
+      return {
+        places,
+        metadata: { provider: 'hybrid', responseTime: 1, totalResults: places.length, searchRadius: 1000, categoriesSearched: ['cafe'] }
+      };
+    };
+    return limits;
+  }
+
+  const request = { latitude: 48.854, longitude: 2.333, radius: 1000, categories: [POICategory.CAFE], limit: 5 };
+
+  it('over-fetches so the open places still fill the requested limit', async () => {
+    const limits = stubProviders();
+
+    const response = await locationService.searchNearby(request, undefined, {
+      openAt: '2025-06-02T12:00',
+      timezone: 'Europe/Paris'
+    });
+
+    assert.deepEqual(limits, [15]);
+    assert.deepEqual(response.places.map(place => place.id), ['osm_node_0', 'osm_node_3', 'osm_node_6', 'osm_node_9', 'osm_node_12']);
+    assert.equal(response.metadata.totalResults, 5);
+    assert.equal(response.metadata.openingHours?.excludedClosed, 10);
+  });
+
+  it('leaves the limit alone when no opening hours filter is asked for', async () => {
+    const limits = stubProviders();
+
+    const response = await locationService.searchNearby(request);
+
+    assert.deepEqual(limits, [5]);
+    assert.equal(response.places.length, 5);
+  });
+});
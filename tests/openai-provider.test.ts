@@ -0,0 +1,111 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '@shared/config';
+import { AIRecommendationRequest, OpenAIProvider, parseMetrics } from '@shared/services/ai';
+import { HttpStub, StubReply } from './helpers/http-stub';
+
+const request: AIRecommendationRequest = { latitude: 48.8606, longitude: 2.3376, mood: 'curious' };
+
+const recommendation = {
+  name: 'Musée du Louvre',
+  category: 'cultural',
+  description: 'The largest art museum in the world.',
+  reasoning: 'A must for a curious mood.'
+};
+
+function completion(content: string, promptTokens: number, completionTokens: number): StubReply {
+  return {
+    body: {
+      model: 'gpt-4o-mini-2024-07-18',
+      choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+    }
+  };
+}
+
+describe('OpenAIProvider', () => {
+  const stub = new HttpStub();
+  const originalKey = config.apis.openai;
+  const originalTimeout = config.ai.timeout;
+  let provider: OpenAIProvider;
+
+  before(async () => {
+    config.apis.openai = 'test-key';
+    provider = new OpenAIProvider('gpt-4o-mini', `${await stub.start()}/v1/`);
+  });
+
+  after(async () => {
+    config.apis.openai = originalKey;
+    await stub.stop();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    parseMetrics.reset();
+  });
+
+  afterEach(() => {
+    config.ai.timeout = originalTimeout;
+  });
+
+  it('asks for JSON mode and parses the recommendations out of the completion', async () => {
+    stub.reply(completion(JSON.stringify({ recommendations: [recommendation] }), 1200, 300));
+
+    const response = await provider.generateRecommendations(request);
+
+    assert.deepEqual(response.recommendations, [recommendation]);
+    assert.equal(stub.requests.length, 1);
+
+    const sent = stub.requests[0]!;
+    const body = sent.body as { model: string; response_format: unknown; messages: Array<{ role: string; content: string }> };
+    assert.equal(sent.path, '/v1/chat/completions');
+    assert.equal(sent.headers.authorization, 'Bearer test-key');
+    assert.equal(body.model, 'gpt-4o-mini');
+    assert.deepEqual(body.response_format, { type: 'json_object' });
+    assert.match(body.messages[1]!.content, /MOOD: curious/);
+  });
+
+  it('spends one repair round-trip on unusable output', async () => {
+    stub.reply(
+      completion('{"recommendations": [{"name": "Louvre"}]}', 1000, 50),
+      completion(JSON.stringify({ recommendations: [recommendation] }), 1100, 250)
+    );
+
+    const response = await provider.generateRecommendations(request);
+
+    assert.deepEqual(response.recommendations, [recommendation]);
+    assert.equal(stub.requests.length, 2);
+    const repair = stub.requests[1]!.body as { messages: Array<{ content: string }> };
+    assert.match(repair.messages[1]!.content, /could not be used/);
+    assert.equal(parseMetrics.getStats().openai?.repairAttempts, 1);
+    assert.equal(parseMetrics.getStats().openai?.repairSuccesses, 1);
+  });
+
+  it('adds up tokens and cost across the original and repair calls', async () => {
+    stub.reply(
+      completion('not json at all', 1000, 50),
+      completion(JSON.stringify({ recommendations: [recommendation] }), 1100, 250)
+    );
+
+    const { metadata } = await provider.generateRecommendations(request);
+
+    assert.equal(metadata.provider, 'openai');
+    assert.equal(metadata.model, 'gpt-4o-mini');
+    assert.equal(metadata.tokensUsed, 2400);
+    // gpt-4o-mini: $0.15 per 1M input tokens, $0.60 per 1M output tokens
+    assert.ok(Math.abs(metadata.cost! - (2100 * 0.15 + 300 * 0.6) / 1_000_000) < 1e-12);
+  });
+
+  it('reports API errors with their status', async () => {
+    stub.reply({ status: 429, body: { error: { message: 'Rate limit reached' } } });
+
+    await assert.rejects(provider.generateRecommendations(request), /OpenAI API error: HTTP 429: .*Rate limit reached/);
+  });
+
+  it('gives up on a stalled request after the configured timeout', async () => {
+    config.ai.timeout = 50;
+    stub.reply(() => null);
+
+    await assert.rejects(provider.generateRecommendations(request), /OpenAI API error: Request timeout/);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  describePublicHolidays,
+  describeWeek,
+  evaluateOpeningHours,
+  OpeningHoursParseError,
+  parseOpeningHours
+} from '@shared/services/location/osm-opening-hours';
+
+// Local calendar days, read in UTC like the evaluator does. 2 June 2025 is a Monday.
+const MONDAY = new Date(Date.UTC(2025, 5, 2));
+const SATURDAY = new Date(Date.UTC(2025, 5, 7));
+const SUNDAY = new Date(Date.UTC(2025, 5, 8));
+
+const at = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+function intervals(value: string, date: Date, publicHoliday = false) {
+  return evaluateOpeningHours(parseOpeningHours(value), date, { publicHoliday });
+}
+
+describe('OSM opening_hours', () => {
+  it('opens on the listed weekdays and stays closed on the rest', () => {
+    const value = 'Mo-Fr 09:00-12:00,13:30-18:00; Sa 10:00-14:00';
+
+    assert.deepEqual(intervals(value, MONDAY), [
+      { open: at(9), close: at(12) },
+      { open: at(13, 30), close: at(18) }
+    ]);
+    assert.deepEqual(intervals(value, SATURDAY), [{ open: at(10), close: at(14) }]);
+    assert.deepEqual(intervals(value, SUNDAY), []);
+  });
+
+  it('carries overnight openings into the next morning', () => {
+    const value = 'Fr-Sa 22:00-03:00';
+
+    assert.deepEqual(intervals(value, SATURDAY), [
+      { open: 0, close: at(3) },
+      { open: at(22), close: at(27) }
+    ]);
+    assert.deepEqual(intervals(value, SUNDAY), [{ open: 0, close: at(3) }]);
+  });
+
+  it('closes on public holidays only when the caller says the day is one', () => {
+    const value = 'Mo-Su 10:00-18:00; PH off';
+
+    assert.deepEqual(intervals(value, MONDAY), [{ open: at(10), close: at(18) }]);
+    assert.deepEqual(intervals(value, MONDAY, true), []);
+  });
+
+  it('uses a fallback rule only when no earlier rule matched', () => {
+    const value = 'Mo-Fr 08:00-20:00 || "by appointment"';
+
+    assert.deepEqual(intervals(value, MONDAY), [{ open: at(8), close: at(20) }]);
+    assert.equal(intervals(value, SUNDAY), null);
+  });
+
+  it('cuts "off" times out of an earlier opening', () => {
+    assert.deepEqual(intervals('Mo-Fr 09:00-18:00; Mo 12:00-14:00 off', MONDAY), [
+      { open: at(9), close: at(12) },
+      { open: at(14), close: at(18) }
+    ]);
+  });
+
+  it('matches the nth weekday of the month', () => {
+    const value = 'Sa[1] 09:00-13:00';
+
+    assert.deepEqual(intervals(value, SATURDAY), [{ open: at(9), close: at(13) }]);
+    assert.deepEqual(intervals(value, new Date(Date.UTC(2025, 5, 14))), []);
+  });
+
+  it('treats 24/7 as always open', () => {
+    assert.deepEqual(intervals('24/7', SUNDAY), [{ open: 0, close: at(24) }]);
+  });
+
+  it('rejects values it cannot read', () => {
+    assert.throws(() => parseOpeningHours('whenever we feel like it'), OpeningHoursParseError);
+    assert.throws(() => parseOpeningHours(''), OpeningHoursParseError);
+  });
+
+  it('describes the typical week and holidays for display', () => {
+    const schedule = parseOpeningHours('Mo-Fr 09:00-18:00; Sa 10:00-14:00; PH off');
+
+    assert.deepEqual(describeWeek(schedule), {
+      sunday: 'closed',
+      monday: '09:00-18:00',
+      tuesday: '09:00-18:00',
+      wednesday: '09:00-18:00',
+      thursday: '09:00-18:00',
+      friday: '09:00-18:00',
+      saturday: '10:00-14:00'
+    });
+    assert.equal(describePublicHolidays(schedule), 'closed');
+  });
+});
@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Location, PlaceMatch, Prisma } from '@prisma/client';
+import { db, PlaceMatchCandidateData, PlaceMatchDecisionData } from '@shared/database';
+import { ConflictError, NotFoundError, ValidationError } from '@shared/errors';
+import { locationService, placeMatchService } from '@shared/services';
+import { HybridProvider, LocationProvider, Place, POICategory } from '@shared/services/location';
+import { storedLocation } from './helpers/locations';
+
+function googlePlace(placeId: string, name: string): Place {
+  return {
+    id: `google_${placeId}`,
+    name,
+    category: POICategory.MUSEUM,
+    subcategory: 'museum',
+    coordinates: { latitude: 48.8551, longitude: 2.316 },
+    address: '77 Rue de Varenne, Paris',
+    metadata: {
+      source: 'google',
+      externalId: placeId,
+      lastUpdated: new Date(),
+      verified: true,
+      google: { placeId, rating: 4.6, reviewCount: 1200 }
+    }
+  };
+}
+
+function pendingMatch(id: string, osmId: string, googlePlaceId: string, extra: Partial<PlaceMatch> = {}): PlaceMatch {
+  return {
+    id,
+    locationId: null,
+    osmId,
+    googlePlaceId,
+    status: 'pending',
+    origin: 'auto',
+    confidence: new Prisma.Decimal(0.55),
+    distance: 120,
+    nameSimilarity: 0.8,
+    osmSnapshot: {},
+    googleSnapshot: googlePlace(googlePlaceId, 'Musée Rodin') as unknown as Prisma.JsonValue,
+    decidedBy: null,
+    decidedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...extra
+  };
+}
+
+// Stands in for PlaceMatchRepository, keyed on the (osmId, googlePlaceId) pair like its unique index
+class InMemoryPlaceMatches {
+  readonly rows = new Map<string, PlaceMatch>();
+
+  add(...matches: PlaceMatch[]) {
+    for (const match of matches) this.rows.set(match.id, match);
+  }
+
+  async findById(id: string) {
+    return this.rows.get(id) ?? null;
+  }
+
+  async findPair(osmId: string, googlePlaceId: string) {
+    return [...this.rows.values()].find(row => row.osmId === osmId && row.googlePlaceId === googlePlaceId) ?? null;
+  }
+
+  async decide(id: string, data: PlaceMatchDecisionData) {
+    return Object.assign(this.rows.get(id)!, {
+      status: data.status,
+      decidedBy: data.decidedBy,
+      decidedAt: new Date(),
+      ...(data.origin && { origin: data.origin }),
+      ...(data.locationId !== undefined && { locationId: data.locationId }),
+      ...(data.googleSnapshot !== undefined && { googleSnapshot: data.googleSnapshot as Prisma.JsonValue })
+    });
+  }
+
+  async createDecided(data: Omit<PlaceMatchCandidateData, 'confidence' | 'distance' | 'nameSimilarity'> & PlaceMatchDecisionData) {
+    const match = pendingMatch(`match_${this.rows.size + 1}`, data.osmId, data.googlePlaceId, {
+      locationId: data.locationId ?? null,
+      status: data.status,
+      origin: data.origin ?? 'manual',
+      confidence: null,
+      distance: null,
+      nameSimilarity: null,
+      osmSnapshot: data.osmSnapshot as Prisma.JsonValue,
+      googleSnapshot: data.googleSnapshot as Prisma.JsonValue,
+      decidedBy: data.decidedBy,
+      decidedAt: new Date()
+    });
+    this.rows.set(match.id, match);
+    return match;
+  }
+
+  async rejectOtherPending(osmId: string, acceptedId: string, decidedBy: string) {
+    let count = 0;
+    for (const row of this.rows.values()) {
+      if (row.osmId === osmId && row.status === 'pending' && row.id !== acceptedId) {
+        Object.assign(row, { status: 'rejected', decidedBy, decidedAt: new Date() });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async countPending(osmId: string) {
+    return [...this.rows.values()].filter(row => row.osmId === osmId && row.status === 'pending').length;
+  }
+}
+
+// Just the LocationRepository methods the review queue and HybridProvider.applyGoogleMatch use
+class InMemoryLocations {
+  readonly rows = new Map<string, Location>();
+  refreshed: Array<{ id: string; data: Prisma.LocationUpdateInput }> = [];
+
+  add(...locations: Location[]) {
+    for (const location of locations) this.rows.set(location.id, location);
+  }
+
+  async findById(id: string) {
+    return this.rows.get(id) ?? null;
+  }
+
+  async findByOsmId(osmId: string) {
+    return [...this.rows.values()].find(row => row.osmId === osmId) ?? null;
+  }
+
+  async updateMergeStatus(id: string, mergeStatus: string) {
+    return Object.assign(this.rows.get(id)!, { mergeStatus });
+  }
+
+  async markRefreshed(id: string, _provider: 'google', data: Prisma.LocationUpdateInput) {
+    this.refreshed.push({ id, data });
+    return Object.assign(this.rows.get(id)!, data);
+  }
+}
+
+describe('PlaceMatchService', () => {
+  const providers = (locationService as unknown as { providers: Map<string, LocationProvider> }).providers;
+  const originalHybrid = providers.get('hybrid');
+  const originalLocations = db.location;
+  const originalPlaceMatch = db.placeMatch;
+  let matches: InMemoryPlaceMatches;
+  let locations: InMemoryLocations;
+  let hybrid: HybridProvider;
+  let rodin: Location;
+
+  beforeEach(() => {
+    matches = new InMemoryPlaceMatches();
+    locations = new InMemoryLocations();
+    hybrid = new HybridProvider();
+    providers.set('hybrid', hybrid);
+    (db as unknown as { placeMatch: unknown }).placeMatch = matches;
+    (db as unknown as { location: unknown }).location = locations;
+    mock.method(console, 'log', () => {});
+
+    rodin = storedLocation({
+      id: 'loc_rodin',
+      name: 'Musée Rodin',
+      osmId: 'node/1',
+      latitude: 48.855,
+      longitude: 2.316,
+      mergeStatus: 'conflict',
+      metadata: { osm: { id: 'node/1', type: 'node', tags: { tourism: 'museum' } } }
+    });
+    locations.add(rodin);
+  });
+
+  afterEach(() => {
+    if (originalHybrid) providers.set('hybrid', originalHybrid);
+    else providers.delete('hybrid');
+    (db as unknown as { location: typeof originalLocations }).location = originalLocations;
+    (db as unknown as { placeMatch: typeof originalPlaceMatch }).placeMatch = originalPlaceMatch;
+    mock.restoreAll();
+  });
+
+  describe('accept', () => {
+    it('merges the Google snapshot into the stored place and settles the other candidates', async () => {
+      matches.add(
+        pendingMatch('m1', 'node/1', 'g1'),
+        pendingMatch('m2', 'node/1', 'g2'),
+        pendingMatch('m3', 'node/9', 'g3')
+      );
+
+      const accepted = await placeMatchService.accept('m1', 'admin-1');
+
+      assert.equal(accepted.status, 'accepted');
+      assert.equal(accepted.decidedBy, 'admin-1');
+      assert.equal(accepted.locationId, 'loc_rodin');
+      assert.equal(rodin.googlePlaceId, 'g1');
+      assert.equal(rodin.source, 'merged');
+      assert.equal(rodin.mergeStatus, 'merged');
+      assert.equal(matches.rows.get('m2')!.status, 'rejected');
+      assert.equal(matches.rows.get('m3')!.status, 'pending');
+    });
+
+    it('refuses when the OSM place is not stored or already has another Google match', async () => {
+      matches.add(pendingMatch('m1', 'node/404', 'g1'), pendingMatch('m2', 'node/1', 'g2'));
+      rodin.googlePlaceId = 'g1';
+
+      await assert.rejects(placeMatchService.accept('m1', 'admin-1'), ConflictError);
+      await assert.rejects(placeMatchService.accept('m2', 'admin-1'), /already linked to Google place g1/);
+
+      assert.equal(matches.rows.get('m2')!.status, 'pending');
+      assert.equal(locations.refreshed.length, 0);
+    });
+
+    it('does not accept a pair twice', async () => {
+      matches.add(pendingMatch('m1', 'node/1', 'g1', { status: 'accepted' }));
+
+      await assert.rejects(placeMatchService.accept('m1', 'admin-1'), ConflictError);
+      await assert.rejects(placeMatchService.accept('missing', 'admin-1'), NotFoundError);
+    });
+  });
+
+  describe('reject', () => {
+    it('returns the place to osm-only once no candidate is left to review', async () => {
+      matches.add(pendingMatch('m1', 'node/1', 'g1'), pendingMatch('m2', 'node/1', 'g2', { locationId: 'loc_rodin' }));
+
+      await placeMatchService.reject('m1', 'admin-1');
+      assert.equal(rodin.mergeStatus, 'conflict');
+
+      const rejected = await placeMatchService.reject('m2', 'admin-1');
+      assert.equal(rejected.status, 'rejected');
+      assert.equal(rodin.mergeStatus, 'osm-only');
+    });
+
+    it('only rejects pending pairs', async () => {
+      matches.add(pendingMatch('m1', 'node/1', 'g1', { status: 'accepted' }));
+
+      await assert.rejects(placeMatchService.reject('m1', 'admin-1'), /Only pending matches can be rejected, this one is accepted/);
+    });
+  });
+
+  describe('link', () => {
+    it('fetches the Google place and records the pair as a manual, accepted match', async () => {
+      const details = mock.method(hybrid, 'getPlaceDetails', async () => googlePlace('g7', 'Musée Rodin'));
+      matches.add(pendingMatch('m1', 'node/1', 'g1'));
+
+      const linked = await placeMatchService.link('loc_rodin', 'g7', 'admin-1');
+
+      assert.deepEqual(details.mock.calls[0]!.arguments, ['google_g7']);
+      assert.equal(linked.status, 'accepted');
+      assert.equal(linked.origin, 'manual');
+      assert.equal(linked.locationId, 'loc_rodin');
+      assert.equal((linked.osmSnapshot as { name: string }).name, 'Musée Rodin');
+      assert.equal(rodin.googlePlaceId, 'g7');
+      assert.equal(matches.rows.get('m1')!.status, 'rejected');
+    });
+
+    it('decides an existing candidate for the same pair instead of adding another', async () => {
+      mock.method(hybrid, 'getPlaceDetails', async () => googlePlace('g1', 'Musée Rodin'));
+      matches.add(pendingMatch('m1', 'node/1', 'g1'));
+
+      const linked = await placeMatchService.link('loc_rodin', 'g1', 'admin-1');
+
+      assert.equal(linked.id, 'm1');
+      assert.equal(linked.origin, 'manual');
+      assert.equal(matches.rows.size, 1);
+    });
+
+    it('checks the location and the Google place before linking', async () => {
+      mock.method(hybrid, 'getPlaceDetails', async () => null);
+      locations.add(storedLocation({ id: 'loc_manual', name: 'Atelier' }));
+
+      await assert.rejects(placeMatchService.link('loc_missing', 'g1', 'admin-1'), NotFoundError);
+      await assert.rejects(placeMatchService.link('loc_manual', 'g1', 'admin-1'), ValidationError);
+      await assert.rejects(placeMatchService.link('loc_rodin', 'g404', 'admin-1'), /Google place not found/);
+      assert.equal(matches.rows.size, 0);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseMetrics } from '@shared/services/ai';
+import {
+  parseRecommendations,
+  parseWithRepair,
+  RecommendationParseError,
+  RecommendationStreamParser,
+  validateRecommendation
+} from '@shared/services/ai/prompt';
+
+const louvre = {
+  name: 'Musée du Louvre',
+  category: 'cultural',
+  description: 'The largest art museum in the world.',
+  reasoning: 'A must for a curious mood.'
+};
+const orsay = { ...louvre, name: "Musée d'Orsay" };
+
+describe('validateRecommendation', () => {
+  it('keeps only the fields the model may set and trims the name', () => {
+    assert.deepEqual(
+      validateRecommendation({ ...louvre, name: '  Musée du Louvre ', verified: true, coordinates: { latitude: 0, longitude: 0 }, priceRange: '$$' }),
+      { ...louvre, priceRange: '$$' }
+    );
+  });
+
+  it('rejects items missing required fields, with the wrong types or a blank name', () => {
+    assert.equal(validateRecommendation({ name: 'Louvre', category: 'cultural' }), null);
+    assert.equal(validateRecommendation({ ...louvre, description: 42 }), null);
+    assert.equal(validateRecommendation({ ...louvre, name: '   ' }), null);
+    assert.equal(validateRecommendation('Louvre'), null);
+  });
+});
+
+describe('parseRecommendations', () => {
+  it('drops individual invalid items and counts them', () => {
+    const output = '```json\n' + JSON.stringify({ recommendations: [louvre, { name: 'Half a place' }, orsay] }) + '\n```';
+
+    const result = parseRecommendations(output);
+
+    assert.deepEqual(result.recommendations, [louvre, orsay]);
+    assert.equal(result.dropped, 1);
+  });
+
+  it('fails when nothing in the output is usable', () => {
+    assert.throws(() => parseRecommendations('Sorry, I cannot help with that.'), RecommendationParseError);
+    assert.throws(() => parseRecommendations('{"places": []}'), /missing recommendations array/);
+    assert.throws(() => parseRecommendations('{"recommendations": [{"name": "Louvre"}]}'), /None of the 1 recommendations/);
+  });
+});
+
+describe('parseWithRepair', () => {
+  beforeEach(() => {
+    parseMetrics.reset();
+  });
+
+  it('uses valid output as is and counts accepted and dropped items', async () => {
+    let repairs = 0;
+    const output = JSON.stringify({ recommendations: [louvre, { name: 'Half a place' }] });
+
+    const recommendations = await parseWithRepair('test', output, async () => {
+      repairs++;
+      return '';
+    });
+
+    assert.deepEqual(recommendations, [louvre]);
+    assert.equal(repairs, 0);
+    assert.deepEqual(parseMetrics.getStats().test, {
+      responses: 1, itemsAccepted: 1, itemsDropped: 1, repairAttempts: 0, repairSuccesses: 0, failures: 0
+    });
+  });
+
+  it('sends the problem back to the model once and uses the repaired output', async () => {
+    const prompts: string[] = [];
+
+    const recommendations = await parseWithRepair('test', 'Here you go: {"recommendations": "soon"}', async prompt => {
+      prompts.push(prompt);
+      return JSON.stringify({ recommendations: [orsay] });
+    });
+
+    assert.deepEqual(recommendations, [orsay]);
+    assert.equal(prompts.length, 1);
+    assert.match(prompts[0]!, /missing recommendations array/);
+    assert.match(prompts[0]!, /Here you go/);
+    assert.deepEqual(parseMetrics.getStats().test, {
+      responses: 1, itemsAccepted: 1, itemsDropped: 0, repairAttempts: 1, repairSuccesses: 1, failures: 0
+    });
+  });
+
+  it('counts a failure when the repaired output is still unusable', async () => {
+    await assert.rejects(
+      parseWithRepair('test', 'not json', async () => 'still not json'),
+      RecommendationParseError
+    );
+
+    assert.deepEqual(parseMetrics.getStats().test, {
+      responses: 0, itemsAccepted: 0, itemsDropped: 0, repairAttempts: 1, repairSuccesses: 0, failures: 1
+    });
+  });
+});
+
+describe('RecommendationStreamParser', () => {
+  // Feeds the text a few characters at a time, the way a model streams it
+  function stream(text: string, chunkSize = 7) {
+    const parser = new RecommendationStreamParser();
+    const names: string[] = [];
+    for (let i = 0; i < text.length; i += chunkSize) {
+      names.push(...parser.push(text.slice(i, i + chunkSize)).map(rec => rec.name));
+    }
+    return { names, dropped: parser.dropped };
+  }
+
+  it('emits each recommendation as soon as its object closes', () => {
+    const parser = new RecommendationStreamParser();
+    const text = JSON.stringify({ recommendations: [louvre, orsay] });
+    const split = text.indexOf(orsay.name) - 10;
+
+    assert.deepEqual(parser.push(text.slice(0, split)).map(rec => rec.name), [louvre.name]);
+    assert.deepEqual(parser.push(text.slice(split)).map(rec => rec.name), [orsay.name]);
+  });
+
+  it('ignores objects in other top-level arrays', () => {
+    const text = JSON.stringify({
+      notes: [{ name: 'Not a recommendation', category: 'x', description: 'x', reasoning: 'x' }],
+      recommendations: [louvre],
+      alternatives: [orsay]
+    });
+
+    assert.deepEqual(stream(text), { names: [louvre.name], dropped: 0 });
+  });
+
+  it('reads keys containing escapes and braces inside strings', () => {
+    const tricky = { ...louvre, description: 'Braces { and ] inside "quotes"' };
+    const text = `{"summary \\"first\\"": "a [list]", "recommendations": [${JSON.stringify(tricky)}]}`;
+
+    assert.deepEqual(stream(text, 3), { names: [louvre.name], dropped: 0 });
+  });
+
+  it('counts items that fail validation without stopping the stream', () => {
+    const text = JSON.stringify({ recommendations: [{ name: 'Half a place' }, orsay] });
+
+    assert.deepEqual(stream(text), { names: [orsay.name], dropped: 1 });
+  });
+});
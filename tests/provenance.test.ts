@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Location } from '@prisma/client';
+import { config } from '@shared/config';
+import { HybridProvider, Place, PlaceMetadata, POICategory } from '@shared/services/location';
+import { mergeRefreshedFields, rankFieldCandidates, resolveSourcePrecedence } from '@shared/services/location/provenance';
+import { storedLocation } from './helpers/locations';
+
+const fetchedAt = new Date('2025-06-01T00:00:00.000Z');
+const osmHours = { monday: '10:00-18:00' };
+const googleHours = { monday: '09:30-17:45' };
+
+function osmRow(category: POICategory, extra: Partial<Location> = {}): Location {
+  return storedLocation({
+    id: 'loc_1',
+    name: 'Le Procope',
+    category,
+    osmId: 'node/1',
+    address: '13 Rue de l\'Ancienne Comédie',
+    description: 'Café founded in 1686.',
+    metadata: {
+      osm: { id: 'node/1', type: 'node', tags: {} },
+      hours: osmHours,
+      contact: { phone: '+33 1 00 00 00 00', website: 'https://osm.example' }
+    },
+    ...extra
+  });
+}
+
+function googlePlace(category: POICategory, metadata: Partial<PlaceMetadata> = {}): Place {
+  return {
+    id: 'google_g1',
+    name: 'Le Procope',
+    category,
+    subcategory: category,
+    coordinates: { latitude: 48.8531, longitude: 2.3388 },
+    address: '13 Rue de l\'Ancienne Comédie, 75006 Paris, France',
+    description: 'Historic restaurant.',
+    metadata: {
+      source: 'google',
+      externalId: 'g1',
+      lastUpdated: fetchedAt,
+      verified: true,
+      google: { placeId: 'g1', rating: 4.2 },
+      hours: googleHours,
+      contact: { phone: '+33 1 40 46 79 00' },
+      ...metadata
+    }
+  };
+}
+
+describe('source precedence', () => {
+  const precedence = config.location.sourcePrecedence;
+  const originalOverrides = precedence.categoryOverrides;
+
+  beforeEach(() => {
+    precedence.categoryOverrides = { ...originalOverrides, restaurant: { website: ['osm'] } };
+  });
+
+  afterEach(() => {
+    precedence.categoryOverrides = originalOverrides;
+  });
+
+  it('takes a category override for the one field it names and the defaults for the rest', () => {
+    assert.deepEqual(resolveSourcePrecedence('hours', 'cafe'), ['manual', 'google', 'osm']);
+    assert.deepEqual(resolveSourcePrecedence('hours', 'museum'), ['manual', 'osm', 'google']);
+    assert.deepEqual(resolveSourcePrecedence('website', 'restaurant'), ['osm']);
+    assert.deepEqual(resolveSourcePrecedence('phone', 'restaurant'), ['manual', 'google', 'osm']);
+  });
+
+  it('ranks candidates with a value by precedence, unlisted sources last', () => {
+    const candidate = (value: string | undefined, source: 'osm' | 'google' | 'manual') =>
+      ({ value, provenance: { source, fetchedAt, confidence: 1 } });
+
+    const name = rankFieldCandidates('name', 'cafe', [candidate('B', 'google'), candidate('', 'manual'), candidate('A', 'osm')]);
+    const website = rankFieldCandidates('website', 'restaurant', [candidate('g', 'google'), candidate(undefined, 'osm'), candidate('m', 'manual')]);
+
+    assert.deepEqual(name.map(entry => entry.value), ['A', 'B']);
+    assert.deepEqual(website.map(entry => entry.value), ['g', 'm']);
+  });
+});
+
+describe('HybridProvider merges by field', () => {
+  const provider = new HybridProvider();
+
+  it('takes each field from its most trusted source and records where it came from', () => {
+    const { place } = provider.buildGoogleMatchUpdate(osmRow(POICategory.RESTAURANT), googlePlace(POICategory.RESTAURANT), 0.8);
+    const provenance = place.metadata!.provenance!;
+
+    assert.equal(place.description, 'Café founded in 1686.');
+    assert.equal(place.address, '13 Rue de l\'Ancienne Comédie, 75006 Paris, France');
+    assert.deepEqual(place.metadata!.hours, googleHours);
+    assert.deepEqual(place.metadata!.contact, { phone: '+33 1 40 46 79 00', website: 'https://osm.example' });
+    assert.equal(provenance.description!.source, 'osm');
+    assert.deepEqual(provenance.hours, { source: 'google', fetchedAt, confidence: 0.8 });
+    assert.equal(provenance.website!.source, 'osm');
+  });
+
+  it('keeps OSM opening hours for museums', () => {
+    const { place } = provider.buildGoogleMatchUpdate(osmRow(POICategory.MUSEUM), googlePlace(POICategory.MUSEUM), 0.8);
+
+    assert.deepEqual(place.metadata!.hours, osmHours);
+    assert.equal(place.metadata!.provenance!.hours!.source, 'osm');
+  });
+
+  it('lets a manual edit win over both providers', () => {
+    const location = osmRow(POICategory.RESTAURANT);
+    const metadata = location.metadata as Record<string, unknown>;
+    metadata.contact = { phone: '+33 6 12 34 56 78' };
+    metadata.provenance = { phone: { source: 'manual', fetchedAt, confidence: 1 } };
+
+    const { place } = provider.buildGoogleMatchUpdate(location, googlePlace(POICategory.RESTAURANT), 0.8);
+
+    assert.equal(place.metadata!.contact!.phone, '+33 6 12 34 56 78');
+    assert.equal(place.metadata!.provenance!.phone!.source, 'manual');
+  });
+});
+
+describe('mergeRefreshedFields', () => {
+  const provider = new HybridProvider();
+
+  function mergedPlace(category: POICategory): Place {
+    return provider.buildGoogleMatchUpdate(osmRow(category), googlePlace(category), 0.8).place;
+  }
+
+  it('replaces the values a provider supplied before with what it returns now', () => {
+    const fresh = googlePlace(POICategory.RESTAURANT, { contact: { phone: '+33 1 99 99 99 99' } });
+
+    const { values, provenance } = mergeRefreshedFields(mergedPlace(POICategory.RESTAURANT), fresh, 'google', 'osm');
+
+    assert.equal(values.phone, '+33 1 99 99 99 99');
+    assert.equal(provenance.phone!.confidence, 0.8);
+    assert.ok(provenance.phone!.fetchedAt > fetchedAt);
+    assert.equal(values.description, 'Café founded in 1686.');
+    assert.equal(provenance.description!.source, 'osm');
+  });
+
+  it('keeps a provider\'s earlier value when it stops returning one', () => {
+    const fresh = googlePlace(POICategory.RESTAURANT);
+    delete fresh.metadata!.hours;
+
+    const { values, provenance } = mergeRefreshedFields(mergedPlace(POICategory.RESTAURANT), fresh, 'google', 'osm');
+
+    assert.deepEqual(values.hours, googleHours);
+    assert.deepEqual(provenance.hours, { source: 'google', fetchedAt, confidence: 0.8 });
+  });
+
+  it('does not let refreshed Google hours replace OSM hours of a museum', () => {
+    const fresh = googlePlace(POICategory.MUSEUM, { hours: { monday: '08:00-20:00' } });
+
+    const { values, provenance } = mergeRefreshedFields(mergedPlace(POICategory.MUSEUM), fresh, 'google', 'osm');
+
+    assert.deepEqual(values.hours, osmHours);
+    assert.equal(provenance.hours!.source, 'osm');
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIFeedbackContext, AIRecommendationRequest, AIResponse } from '@shared/services/ai';
+import { recommendationCache } from '@shared/services/ai/recommendation-cache';
+
+const request: AIRecommendationRequest = {
+  latitude: 48.8566,
+  longitude: 2.3522,
+  mood: 'curious',
+  preferences: ['museums']
+};
+
+const response: AIResponse = {
+  recommendations: [],
+  metadata: { provider: 'local', model: 'test', responseTime: 1 }
+};
+
+function feedback(overrides: Partial<AIFeedbackContext> = {}): AIFeedbackContext {
+  return { likedCategories: [], dislikedCategories: [], suppressedPlaceIds: [], suppressedPlaceNames: [], ...overrides };
+}
+
+describe('RecommendationCache', () => {
+  afterEach(async () => {
+    await recommendationCache.invalidate();
+  });
+
+  it('serves an exact hit only to requests with the same feedback', async () => {
+    await recommendationCache.set({ ...request, feedback: feedback({ dislikedCategories: ['museum'] }) }, response);
+
+    const same = await recommendationCache.get({ ...request, feedback: feedback({ dislikedCategories: ['museum'] }) });
+    assert.equal(same?.metadata.cacheMatch?.type, 'exact');
+
+    assert.equal(await recommendationCache.get(request), null);
+    assert.equal(await recommendationCache.get({ ...request, feedback: feedback({ likedCategories: ['museum'] }) }), null);
+    assert.equal(await recommendationCache.get({ ...request, feedback: feedback({ suppressedPlaceIds: ['osm_node_1'] }) }), null);
+  });
+
+  it('does not reuse a nearby response generated for different feedback', async () => {
+    const nearby = { ...request, latitude: request.latitude + 0.002 };
+    await recommendationCache.set({ ...request, feedback: feedback({ suppressedPlaceIds: ['osm_node_1'] }) }, response);
+
+    assert.equal(await recommendationCache.get(nearby), null);
+    const similar = await recommendationCache.get({ ...nearby, feedback: feedback({ suppressedPlaceIds: ['osm_node_1'] }) });
+    assert.equal(similar?.metadata.cacheMatch?.type, 'semantic');
+  });
+
+  it('shares entries between users without feedback', async () => {
+    await recommendationCache.set(request, response);
+
+    const hit = await recommendationCache.get({ ...request, feedback: feedback({ suppressedPlaceNames: ['closed café'] }) });
+    assert.equal(hit?.metadata.cacheMatch?.type, 'exact');
+  });
+});
@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Location, PrismaClient, Recommendation } from '@prisma/client';
+import { CreateLocationData, db, RecommendationRepository } from '@shared/database';
+import { NotFoundError } from '@shared/errors';
+import { AIRecommendation, AIRecommendationRequest, AIResponse } from '@shared/services/ai';
+import { aiLocationKey, recommendationHistoryService } from '@shared/services/recommendation-history.service';
+import { storedLocation } from './helpers/locations';
+
+const request: AIRecommendationRequest = { latitude: 48.8606, longitude: 2.3376, mood: 'curious' };
+
+function recommendation(name: string, extra: Partial<AIRecommendation> = {}): AIRecommendation {
+  return { name, category: 'cultural', description: `${name} is worth a visit.`, reasoning: 'Fits a curious mood.', ...extra };
+}
+
+function response(...recommendations: AIRecommendation[]): AIResponse {
+  return { recommendations, metadata: { provider: 'openai', model: 'gpt-4o-mini', responseTime: 10 } };
+}
+
+// Stands in for LocationRepository; upserts on the AI key the way its unique index does
+class InMemoryLocations {
+  readonly rows = new Map<string, Location>();
+  nameMatches = new Map<string, Location>();
+  upserts = 0;
+
+  async findByPlaceId(placeId: string) {
+    return this.rows.get(placeId) ?? null;
+  }
+
+  async findByNameNear(name: string) {
+    return this.nameMatches.get(name) ?? null;
+  }
+
+  async upsertLocation(data: CreateLocationData) {
+    this.upserts++;
+    const existing = [...this.rows.values()].find(row => row.aiKey === data.aiKey);
+    if (existing) return existing;
+
+    const row = storedLocation({
+      id: `loc_${this.rows.size + 1}`,
+      name: data.name,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      category: data.category,
+      source: data.source,
+      aiKey: data.aiKey ?? null,
+      metadata: data.metadata
+    });
+    this.rows.set(row.id, row);
+    return row;
+  }
+}
+
+// Enough of PrismaClient for RecommendationRepository, with Prisma's filter semantics for the history query
+class InMemoryRecommendationTable {
+  readonly rows: Array<Recommendation & { location: Location }> = [];
+
+  constructor(private readonly locations: Map<string, Location>) {}
+
+  async create({ data }: { data: { userId: string; locationId: string; aiContext: unknown } }) {
+    const row = {
+      id: `rec_${this.rows.length + 1}`,
+      userId: data.userId,
+      locationId: data.locationId,
+      aiContext: data.aiContext as Recommendation['aiContext'],
+      createdAt: new Date(),
+      location: this.locations.get(data.locationId)!
+    };
+    this.rows.push(row);
+    return row;
+  }
+
+  async findFirst({ where }: { where: { id: string; userId: string } }) {
+    return this.rows.find(row => row.id === where.id && row.userId === where.userId) ?? null;
+  }
+
+  async findMany(args: { where: HistoryWhere; skip: number; take: number }) {
+    return this.filter(args.where)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(args.skip, args.skip + args.take);
+  }
+
+  async count({ where }: { where: HistoryWhere }) {
+    return this.filter(where).length;
+  }
+
+  private filter(where: HistoryWhere) {
+    return this.rows.filter(row => {
+      if (row.userId !== where.userId) return false;
+      if (where.aiContext) {
+        const value = where.aiContext.path.reduce<unknown>((node, key) => (node as Record<string, unknown>)?.[key], row.aiContext);
+        if (value !== where.aiContext.equals) return false;
+      }
+      if (where.createdAt?.gte && row.createdAt < where.createdAt.gte) return false;
+      if (where.createdAt?.lte && row.createdAt > where.createdAt.lte) return false;
+      return true;
+    });
+  }
+}
+
+interface HistoryWhere {
+  userId: string;
+  aiContext?: { path: string[]; equals: unknown };
+  createdAt?: { gte?: Date; lte?: Date };
+}
+
+describe('RecommendationHistoryService', () => {
+  const originalLocations = db.location;
+  const originalRecommendations = db.recommendation;
+  let locations: InMemoryLocations;
+  let table: InMemoryRecommendationTable;
+
+  beforeEach(() => {
+    locations = new InMemoryLocations();
+    table = new InMemoryRecommendationTable(locations.rows);
+    const prisma = { recommendation: table, $transaction: (operations: Promise<unknown>[]) => Promise.all(operations) };
+    (db as unknown as { location: unknown }).location = locations;
+    (db as unknown as { recommendation: unknown }).recommendation = new RecommendationRepository(prisma as unknown as PrismaClient);
+  });
+
+  afterEach(() => {
+    (db as unknown as { location: typeof originalLocations }).location = originalLocations;
+    (db as unknown as { recommendation: typeof originalRecommendations }).recommendation = originalRecommendations;
+    mock.restoreAll();
+  });
+
+  describe('saveGeneration', () => {
+    it('stores each recommendation against its place and returns the stored ids', async () => {
+      const louvre = storedLocation({ id: 'loc_louvre', name: 'Musée du Louvre', osmId: 'way/1' });
+      locations.rows.set(louvre.id, louvre);
+
+      const saved = await recommendationHistoryService.saveGeneration('user-1', request, response(
+        recommendation('Musée du Louvre', { placeId: 'loc_louvre' }),
+        recommendation('Le Petit Café', { coordinates: { latitude: 48.8612, longitude: 2.3390 } })
+      ));
+
+      assert.deepEqual(saved.recommendations.map(rec => rec.id), ['rec_1', 'rec_2']);
+      assert.equal(table.rows[0]!.locationId, 'loc_louvre');
+
+      const created = table.rows[1]!.location;
+      assert.equal(created.source, 'ai');
+      assert.equal(created.aiKey, aiLocationKey('Le Petit Café', 48.8612, 2.3390));
+      assert.equal((created.metadata as { approximateCoordinates: boolean }).approximateCoordinates, false);
+
+      const context = table.rows[1]!.aiContext as { generationId: string; rank: number; request: unknown; provider: string };
+      assert.equal(context.rank, 1);
+      assert.deepEqual(context.request, request);
+      assert.equal(context.provider, 'openai');
+      assert.equal(context.generationId, (table.rows[0]!.aiContext as { generationId: string }).generationId);
+    });
+
+    it('lands the same ungrounded suggestion from concurrent saves on one location', async () => {
+      const suggestion = recommendation('Le Petit Café');
+
+      await Promise.all([
+        recommendationHistoryService.saveGeneration('user-1', request, response(suggestion)),
+        recommendationHistoryService.saveGeneration('user-2', request, response(suggestion))
+      ]);
+
+      assert.equal(locations.upserts, 2);
+      assert.equal(locations.rows.size, 1);
+      assert.equal(table.rows[0]!.locationId, table.rows[1]!.locationId);
+    });
+
+    it('reuses a stored place with the same name nearby instead of keying a new one', async () => {
+      const cafe = storedLocation({ id: 'loc_cafe', name: 'Le Petit Café', source: 'google' });
+      locations.nameMatches.set(cafe.name, cafe);
+      locations.rows.set(cafe.id, cafe);
+
+      await recommendationHistoryService.saveGeneration('user-1', request, response(recommendation('Le Petit Café')));
+
+      assert.equal(locations.upserts, 0);
+      assert.equal(table.rows[0]!.locationId, 'loc_cafe');
+    });
+
+    it('still returns a recommendation that could not be stored, without an id', async () => {
+      mock.method(console, 'warn', () => {});
+      locations.upsertLocation = async () => {
+        throw new Error('connection lost');
+      };
+
+      const saved = await recommendationHistoryService.saveGeneration('user-1', request, response(recommendation('Le Petit Café')));
+
+      assert.equal(saved.recommendations[0]!.id, undefined);
+      assert.equal(table.rows.length, 0);
+    });
+  });
+
+  describe('aiLocationKey', () => {
+    it('ignores case and accents, and tells apart places in different cells', () => {
+      const key = aiLocationKey('Musée d\'Orsay', 48.86, 2.3266);
+
+      assert.match(key, /^ai:[0-9a-z]{7}:musee-d-orsay$/);
+      assert.equal(aiLocationKey('  MUSEE D\'ORSAY ', 48.86, 2.3266), key);
+      assert.notEqual(aiLocationKey('Musée d\'Orsay', 48.87, 2.3266), key);
+    });
+  });
+
+  describe('history', () => {
+    async function seed(userId: string, mood: AIRecommendationRequest['mood'], createdAt: string, name = 'Louvre') {
+      const location = storedLocation({ id: `loc_${name}`, name });
+      locations.rows.set(location.id, location);
+      const row = await table.create({
+        data: { userId, locationId: location.id, aiContext: { generationId: 'g', rank: 0, request: { ...request, mood }, recommendation: recommendation(name), provider: 'openai', model: 'gpt-4o-mini', cached: false } }
+      });
+      row.createdAt = new Date(createdAt);
+      return row;
+    }
+
+    it('filters by the mood of the original request and by date, newest first', async () => {
+      await seed('user-1', 'curious', '2025-06-01T10:00:00Z', 'A');
+      await seed('user-1', 'hungry', '2025-06-02T10:00:00Z', 'B');
+      await seed('user-1', 'curious', '2025-06-03T10:00:00Z', 'C');
+      await seed('user-1', 'curious', '2025-06-05T10:00:00Z', 'D');
+      await seed('user-2', 'curious', '2025-06-03T10:00:00Z', 'E');
+
+      const curious = await recommendationHistoryService.getHistory('user-1', { mood: 'curious' });
+      const window = await recommendationHistoryService.getHistory('user-1', { from: '2025-06-02T00:00:00Z', to: '2025-06-04T00:00:00Z' });
+
+      assert.deepEqual(curious.items.map(item => item.location.name), ['D', 'C', 'A']);
+      assert.deepEqual(window.items.map(item => item.location.name), ['C', 'B']);
+    });
+
+    it('pages through the results', async () => {
+      for (const [index, name] of ['A', 'B', 'C'].entries()) {
+        await seed('user-1', 'curious', `2025-06-0${index + 1}T10:00:00Z`, name);
+      }
+
+      const page = await recommendationHistoryService.getHistory('user-1', { page: 2, limit: 2 });
+
+      assert.deepEqual(page.items.map(item => item.location.name), ['A']);
+      assert.deepEqual(page.pagination, { page: 2, limit: 2, total: 3, totalPages: 2 });
+    });
+
+    it('returns a single recommendation only to the user it was made for', async () => {
+      const row = await seed('user-1', 'curious', '2025-06-01T10:00:00Z');
+
+      const stored = await recommendationHistoryService.getById('user-1', row.id);
+
+      assert.equal(stored.recommendation.id, row.id);
+      assert.equal(stored.location.id, 'loc_Louvre');
+      await assert.rejects(recommendationHistoryService.getById('user-2', row.id), NotFoundError);
+    });
+  });
+});
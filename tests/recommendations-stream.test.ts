@@ -0,0 +1,185 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Fastify, { FastifyInstance } from 'fastify';
+import { config } from '@shared/config';
+import { db } from '@shared/database';
+import { registerErrorHandler } from '@shared/errors';
+import {
+  aiService,
+  jwtService,
+  locationService,
+  recommendationFeedbackService,
+  recommendationHistoryService,
+  usageService,
+  userPreferencesService
+} from '@shared/services';
+import { AIProvider, AIRecommendation, AIResponse, AIStreamEvent } from '@shared/services/ai';
+import recommendationsRoutes from '../src/features/recommendations/recommendations.routes';
+
+const body = { latitude: 48.8606, longitude: 2.3376, mood: 'curious' };
+
+function recommendation(name: string): AIRecommendation {
+  return { name, category: 'cultural', description: `${name} is worth a visit.`, reasoning: 'Fits a curious mood.' };
+}
+
+const metadata: AIResponse['metadata'] = { provider: 'fake', model: 'fake-1', responseTime: 10, tokensUsed: 300, cost: 0.001 };
+
+interface SentEvent {
+  event: string;
+  data: Record<string, unknown>;
+}
+
+function parseEvents(payload: string): SentEvent[] {
+  return payload.split('\n\n').filter(Boolean).map(block => {
+    const [eventLine, dataLine] = block.split('\n');
+    return { event: eventLine!.replace('event: ', ''), data: JSON.parse(dataLine!.replace('data: ', '')) };
+  });
+}
+
+const never = () => new Promise<never>(() => {});
+
+describe('POST /api/recommendations/stream', () => {
+  const ai = config.ai;
+  const original = { timeout: ai.timeout, caching: ai.enableCaching, maxRetries: ai.maxRetries };
+  const providers = (aiService as unknown as { providers: Map<string, AIProvider> }).providers;
+  const originalProvider = providers.get(ai.provider)!;
+  const originalUsers = db.user;
+  let app: FastifyInstance;
+  let token: string;
+  let saved: AIResponse[];
+
+  // Stands in for the configured provider; leaving out `stream` makes it a non-streaming provider
+  function useProvider(generate: () => Promise<AIResponse>, stream?: () => AsyncGenerator<AIStreamEvent>): void {
+    providers.set(ai.provider, {
+      generateRecommendations: generate,
+      ...(stream && { streamRecommendations: stream }),
+      validateConfig: () => true,
+      getProviderName: () => 'fake',
+      getModelName: () => 'fake-1'
+    });
+  }
+
+  const post = async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/recommendations/stream',
+      headers: { authorization: `Bearer ${token}` },
+      payload: body
+    });
+    return { response, events: parseEvents(response.payload) };
+  };
+
+  before(async () => {
+    app = Fastify({ logger: false });
+    registerErrorHandler(app);
+    await app.register(recommendationsRoutes);
+    token = jwtService.generateAccessToken({ userId: 'user-1', email: 'traveller@example.com' });
+  });
+
+  after(async () => {
+    providers.set(ai.provider, originalProvider);
+    await app.close();
+  });
+
+  beforeEach(() => {
+    ai.enableCaching = false;
+    ai.maxRetries = 1;
+    saved = [];
+    (db as unknown as { user: unknown }).user = {
+      findById: async (id: string) => ({ id, email: 'traveller@example.com' })
+    };
+    mock.method(usageService, 'reserve', async () => ({ userId: 'user-1', date: new Date(), tokensUsed: 0, cost: 0, settled: false }));
+    mock.method(usageService, 'settle', async () => {});
+    mock.method(usageService, 'release', async () => {});
+    mock.method(userPreferencesService, 'findPreferences', async () => ({}));
+    mock.method(recommendationFeedbackService, 'getFeedbackContext', async () => undefined);
+    mock.method(locationService, 'searchNearby', async () => ({
+      places: [],
+      metadata: { provider: 'hybrid', responseTime: 1, totalResults: 0, searchRadius: 2000, categoriesSearched: [] }
+    }));
+    mock.method(recommendationHistoryService, 'saveGeneration', async (_userId: string, _request: unknown, response: AIResponse) => {
+      saved.push(response);
+      return { ...response, recommendations: response.recommendations.map((rec, index) => ({ ...rec, id: `rec-${index + 1}` })) };
+    });
+  });
+
+  afterEach(() => {
+    Object.assign(ai, { timeout: original.timeout, enableCaching: original.caching, maxRetries: original.maxRetries });
+    (db as unknown as { user: typeof originalUsers }).user = originalUsers;
+    mock.restoreAll();
+  });
+
+  it('sends each recommendation as it arrives, then the metadata with the stored ids', async () => {
+    useProvider(never, async function* () {
+      yield { type: 'recommendation', recommendation: recommendation('Louvre') };
+      yield { type: 'recommendation', recommendation: recommendation("Musée d'Orsay") };
+      yield { type: 'metadata', metadata };
+    });
+
+    const { response, events } = await post();
+
+    assert.equal(response.statusCode, 200);
+    assert.match(response.headers['content-type'] as string, /^text\/event-stream/);
+    assert.deepEqual(events.map(event => event.event), ['recommendation', 'recommendation', 'metadata']);
+    assert.equal(events[0]!.data.name, 'Louvre');
+    assert.equal(events[1]!.data.name, "Musée d'Orsay");
+    assert.equal(events[2]!.data.provider, 'fake');
+    assert.deepEqual(events[2]!.data.recommendationIds, ['rec-1', 'rec-2']);
+    assert.deepEqual(events[2]!.data.grounding, { candidates: 0, matched: 0, unmatched: 2 });
+    assert.deepEqual(saved[0]!.recommendations.map(rec => rec.name), ['Louvre', "Musée d'Orsay"]);
+  });
+
+  it('ends with an error event when the stream breaks after partial output', async () => {
+    useProvider(never, async function* () {
+      yield { type: 'recommendation', recommendation: recommendation('Louvre') };
+      throw new Error('Connection reset');
+    });
+
+    const { events } = await post();
+
+    assert.deepEqual(events.map(event => event.event), ['recommendation', 'error']);
+    assert.equal(events[1]!.data.message, 'Failed to generate recommendations');
+    assert.equal(saved.length, 0);
+  });
+
+  it('gives up on a stream that stalls for longer than the AI timeout', async () => {
+    ai.timeout = 50;
+    useProvider(never, async function* () {
+      yield { type: 'recommendation', recommendation: recommendation('Louvre') };
+      await never();
+    });
+
+    const { events } = await post();
+
+    assert.deepEqual(events.map(event => event.event), ['recommendation', 'error']);
+  });
+
+  it('falls back to standard generation when the stream stalls before any output', async () => {
+    ai.timeout = 50;
+    useProvider(
+      async () => ({ recommendations: [recommendation('Louvre')], metadata }),
+      async function* () {
+        await never();
+      }
+    );
+
+    const { events } = await post();
+
+    assert.deepEqual(events.map(event => event.event), ['recommendation', 'metadata']);
+    assert.equal(events[0]!.data.name, 'Louvre');
+  });
+
+  it('replays a generated response for providers that cannot stream', async () => {
+    useProvider(async () => ({
+      recommendations: [recommendation('Louvre'), recommendation('Centre Pompidou')],
+      metadata
+    }));
+
+    const { events } = await post();
+
+    assert.deepEqual(events.map(event => event.event), ['recommendation', 'recommendation', 'metadata']);
+    assert.deepEqual(events.slice(0, 2).map(event => event.data.name), ['Louvre', 'Centre Pompidou']);
+    assert.equal(events[2]!.data.tokensUsed, 300);
+    assert.deepEqual(events[2]!.data.recommendationIds, ['rec-1', 'rec-2']);
+  });
+});
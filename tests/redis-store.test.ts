@@ -0,0 +1,133 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { RedisCacheStore } from '@shared/services/cache';
+
+type Reply = (args: string[]) => string;
+
+// Speaks just enough RESP2 to stand in for a Redis server
+class FakeRedisServer {
+  readonly data = new Map<string, string>();
+  readonly commands: string[][] = [];
+  connections = 0;
+  override: Reply | undefined;
+  private sockets = new Set<net.Socket>();
+  private server = net.createServer(socket => this.accept(socket));
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as net.AddressInfo;
+    return `redis://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private accept(socket: net.Socket): void {
+    this.connections++;
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    let buffer = '';
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let parsed: { args: string[]; rest: string } | null;
+      while ((parsed = this.parseCommand(buffer))) {
+        buffer = parsed.rest;
+        this.commands.push(parsed.args);
+        socket.write((this.override ?? this.reply.bind(this))(parsed.args));
+      }
+    });
+    socket.on('error', () => {});
+  }
+
+  private reply(args: string[]): string {
+    const [command, key, value] = args;
+    switch (command) {
+      case 'SET':
+        this.data.set(key!, value!);
+        return '+OK\r\n';
+      case 'GET': {
+        const stored = this.data.get(key!);
+        return stored === undefined ? '$-1\r\n' : `$${Buffer.byteLength(stored)}\r\n${stored}\r\n`;
+      }
+      default:
+        return '+OK\r\n';
+    }
+  }
+
+  private parseCommand(buffer: string): { args: string[]; rest: string } | null {
+    const lines = buffer.split('\r\n');
+    const count = parseInt(lines[0]?.slice(1) ?? '', 10);
+    if (Number.isNaN(count) || lines.length < 1 + count * 2 + 1) return null;
+
+    const args: string[] = [];
+    for (let i = 0; i < count; i++) {
+      args.push(lines[2 + i * 2]!);
+    }
+    return { args, rest: lines.slice(1 + count * 2).join('\r\n') };
+  }
+}
+
+describe('RedisCacheStore', () => {
+  const server = new FakeRedisServer();
+  let url: string;
+
+  before(async () => {
+    url = await server.start();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.override = undefined;
+    server.data.clear();
+    server.commands.length = 0;
+  });
+
+  it('round-trips JSON values under the key prefix', async () => {
+    const store = new RedisCacheStore(url, 'app:');
+
+    await store.set('places', 'paris', { name: 'Louvre', rating: 4.7 }, 60);
+
+    assert.deepEqual(await store.get('places', 'paris'), { name: 'Louvre', rating: 4.7 });
+    assert.equal(await store.get('places', 'london'), null);
+    assert.deepEqual(server.commands[0], ['SET', 'app:places:paris', '{"name":"Louvre","rating":4.7}', 'EX', '60']);
+    await store.close();
+  });
+
+  it('treats an unparseable reply as a miss and reconnects for the next command', async () => {
+    const store = new RedisCacheStore(url);
+    server.data.set('places:paris', '"cached"');
+    const connections = server.connections;
+
+    server.override = () => '?unexpected\r\n';
+    assert.equal(await store.get('places', 'paris'), null);
+
+    server.override = undefined;
+    assert.equal(await store.get('places', 'paris'), 'cached');
+    assert.equal(server.connections, connections + 2);
+    await store.close();
+  });
+
+  it('drops a connection whose AUTH failed instead of using it unauthenticated', async () => {
+    const store = new RedisCacheStore(url.replace('redis://', 'redis://:secret@'));
+    const connections = server.connections;
+
+    server.override = args => args[0] === 'AUTH' ? '-WRONGPASS invalid password\r\n' : '+OK\r\n';
+    assert.equal(await store.get('places', 'paris'), null);
+    // The GET never reached the server on the rejected connection
+    assert.deepEqual(server.commands.map(args => args[0]), ['AUTH']);
+
+    server.override = undefined;
+    server.data.set('places:paris', '1');
+    assert.equal(await store.get('places', 'paris'), 1);
+    assert.deepEqual(server.commands.map(args => args[0]), ['AUTH', 'AUTH', 'GET']);
+    assert.equal(server.connections, connections + 2);
+    await store.close();
+  });
+});
@@ -0,0 +1,11 @@
+// tests/setup.ts - environment every test runs with, loaded before any module reads config
+
+process.env.NODE_ENV ??= 'test';
+process.env.JWT_SECRET ??= 'test-secret';
+process.env.AI_PROVIDER ??= 'local';
+process.env.CACHE_BACKEND ??= 'memory';
+
+// The test runner reads results from the stdout of each test file, and log lines written there can
+// corrupt them on Node 20; app logs go to stderr instead
+console.log = console.error;
+console.info = console.error;
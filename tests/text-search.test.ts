@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '@shared/config';
+import { db } from '@shared/database';
+import type { LocationTextMatch } from '@shared/database/repositories/location.repository';
+import {
+  LocationSearchResponse,
+  Place,
+  POICategory,
+  providerUsageService,
+  textSearchService,
+  TextSearchRequest
+} from '@shared/services/location';
+import { storedLocation } from './helpers/locations';
+
+const center = { latitude: 48.8606, longitude: 2.3376 };
+
+function match(id: string, relevance: number, latitude = center.latitude, extra: Partial<LocationTextMatch> = {}): LocationTextMatch {
+  return { ...storedLocation({ id, name: `Museum ${id}`, latitude, longitude: center.longitude, ...extra }), relevance };
+}
+
+function externalPlace(id: string, osmId: string): Place {
+  return {
+    id: `osm_${osmId.replace('/', '_')}`,
+    name: `Museum ${id}`,
+    category: POICategory.MUSEUM,
+    subcategory: 'museum',
+    coordinates: center,
+    metadata: { source: 'osm', externalId: osmId, lastUpdated: new Date(), verified: false, osm: { id: osmId, type: 'node', tags: {} } }
+  };
+}
+
+function providerResponse(places: Place[]): LocationSearchResponse {
+  return { places, metadata: { provider: 'test', responseTime: 1, totalResults: places.length, searchRadius: 0, categoriesSearched: [] } };
+}
+
+describe('TextSearchService', () => {
+  const textSearch = config.location.textSearch;
+  const original = { ...textSearch, googleKey: config.apis.googlePlaces };
+  const originalLocations = db.location;
+  const providers = textSearchService as unknown as {
+    osmProvider: { searchText: (request: TextSearchRequest) => Promise<LocationSearchResponse> } | null;
+    googleProvider: { searchText: (request: TextSearchRequest) => Promise<LocationSearchResponse> } | null;
+  };
+  let stored: LocationTextMatch[];
+  let osmRequests: TextSearchRequest[];
+  let googleRequests: TextSearchRequest[];
+  let external: Place[];
+  let remainingCalls: number;
+
+  beforeEach(() => {
+    Object.assign(textSearch, { fallback: 'osm', minLocalResults: 3, distanceWeight: 0.3 });
+    config.apis.googlePlaces = 'test-key';
+    stored = [];
+    external = [];
+    osmRequests = [];
+    googleRequests = [];
+    remainingCalls = 100;
+
+    (db as unknown as { location: unknown }).location = { searchText: async () => stored };
+    providers.osmProvider = {
+      searchText: async request => {
+        osmRequests.push(request);
+        return providerResponse(external);
+      }
+    };
+    providers.googleProvider = {
+      searchText: async request => {
+        googleRequests.push(request);
+        return providerResponse(external);
+      }
+    };
+    mock.method(providerUsageService, 'getMonthlyStatus', async () => ({
+      provider: 'google', month: '2025-06', spent: 10, cap: 200, degradeAt: 180, degraded: false
+    }));
+    mock.method(providerUsageService, 'getDailyStatus', async () => ({
+      provider: 'google', date: '2025-06-02', used: 100 - remainingCalls, budget: 100, remaining: remainingCalls
+    }));
+  });
+
+  afterEach(() => {
+    const { googleKey, ...settings } = original;
+    Object.assign(textSearch, settings);
+    config.apis.googlePlaces = googleKey;
+    (db as unknown as { location: typeof originalLocations }).location = originalLocations;
+    providers.osmProvider = null;
+    providers.googleProvider = null;
+    mock.restoreAll();
+  });
+
+  it('answers from stored locations alone when they match enough', async () => {
+    stored = [match('a', 0.9), match('b', 0.8), match('c', 0.7)];
+
+    const response = await textSearchService.search({ query: 'museum', limit: 10 });
+
+    assert.equal(osmRequests.length, 0);
+    assert.equal(response.metadata.localResults, 3);
+    assert.equal(response.metadata.externalProvider, undefined);
+  });
+
+  it('falls through to the provider when stored matches are thin, skipping places already stored', async () => {
+    stored = [match('a', 0.9, center.latitude, { osmId: 'node/1' })];
+    external = [externalPlace('a', 'node/1'), externalPlace('d', 'node/4'), externalPlace('e', 'node/5')];
+
+    const response = await textSearchService.search({ query: 'museum', limit: 10 });
+
+    assert.equal(osmRequests.length, 1);
+    assert.equal(response.metadata.externalProvider, 'osm');
+    assert.equal(response.metadata.externalResults, 2);
+    assert.deepEqual(response.results.map(result => result.place.id).sort(), ['a', 'osm_node_4', 'osm_node_5']);
+  });
+
+  it('leaves the provider alone when the caller turns the fallback off', async () => {
+    const response = await textSearchService.search({ query: 'museum' }, { fallback: false });
+
+    assert.equal(osmRequests.length, 0);
+    assert.equal(response.metadata.fallbackReason, undefined);
+  });
+
+  it('does not call Google once the daily call budget is used up', async () => {
+    textSearch.fallback = 'google';
+    remainingCalls = 0;
+
+    const response = await textSearchService.search({ query: 'museum', limit: 10 });
+
+    assert.equal(googleRequests.length, 0);
+    assert.match(response.metadata.fallbackReason ?? '', /daily Google call budget used up \(100 of 100\)/);
+  });
+
+  it('asks Google for no more pages than the daily budget has calls left', async () => {
+    textSearch.fallback = 'google';
+    remainingCalls = 1;
+
+    await textSearchService.search({ query: 'museum', limit: 50 });
+
+    assert.equal(googleRequests.length, 1);
+    assert.equal(googleRequests[0]!.limit, 20);
+  });
+
+  it('ranks by relevance blended with distance when the search has a center', async () => {
+    const edge = center.latitude + 1000 / 111320; // 1km north, at the edge of the radius
+    stored = [match('far', 0.9, edge), match('near', 0.8)];
+
+    const nearby = await textSearchService.search({ query: 'museum', ...center, radius: 1000 }, { fallback: false });
+    const anywhere = await textSearchService.search({ query: 'museum' }, { fallback: false });
+
+    assert.deepEqual(nearby.results.map(result => result.place.id), ['near', 'far']);
+    assert.ok(Math.abs(nearby.results[1]!.score - (0.9 * 0.7 + 0.5 * 0.3)) < 0.001);
+    assert.deepEqual(anywhere.results.map(result => result.place.id), ['far', 'near']);
+  });
+});
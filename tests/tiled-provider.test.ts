@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '@shared/config';
+import { db } from '@shared/database';
+import type { SaveTileData } from '@shared/database/repositories/location-tile.repository';
+import { cacheStore } from '@shared/services/cache';
+import {
+  LocationProvider,
+  LocationSearchRequest,
+  LocationSearchResponse,
+  Place,
+  POICategory,
+  TiledLocationProvider
+} from '@shared/services/location';
+
+function museum(id: string, latitude: number, longitude: number): Place {
+  return {
+    id,
+    name: `Museum ${id}`,
+    category: POICategory.MUSEUM,
+    subcategory: 'museum',
+    coordinates: { latitude, longitude },
+    metadata: { source: 'osm', externalId: id, lastUpdated: new Date(), verified: false }
+  };
+}
+
+// Answers each search with its center point, after a short delay so overlapping calls can be seen
+class FakeProvider implements LocationProvider {
+  tileSearches: LocationSearchRequest[] = [];
+  directSearches: LocationSearchRequest[] = [];
+  inFlight = 0;
+  maxInFlight = 0;
+  truncated = false;
+  nearby: Place[] = [];
+
+  async searchNearby(request: LocationSearchRequest): Promise<LocationSearchResponse> {
+    const isTile = request.limit === config.location.tiles.fetchLimit;
+    (isTile ? this.tileSearches : this.directSearches).push(request);
+
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    this.inFlight--;
+
+    const places = isTile
+      ? [museum(`tile_${this.tileSearches.length}`, request.latitude, request.longitude)]
+      : this.nearby;
+    return {
+      places,
+      metadata: {
+        provider: 'fake',
+        responseTime: 5,
+        totalResults: places.length,
+        searchRadius: request.radius ?? 0,
+        categoriesSearched: ['museum'],
+        truncated: isTile && this.truncated
+      }
+    };
+  }
+
+  async getPlaceDetails(): Promise<Place | null> {
+    return null;
+  }
+
+  validateConfig(): boolean {
+    return true;
+  }
+
+  getProviderName(): string {
+    return 'fake';
+  }
+}
+
+describe('TiledLocationProvider', () => {
+  const tiles = config.location.tiles;
+  const original = { enabled: tiles.enabled, fetchConcurrency: tiles.fetchConcurrency };
+  const originalTiles = db.locationTile;
+  let provider: FakeProvider;
+  let saved: SaveTileData[];
+
+  beforeEach(async () => {
+    tiles.enabled = true;
+    tiles.fetchConcurrency = 2;
+    provider = new FakeProvider();
+    saved = [];
+    (db as unknown as { locationTile: unknown }).locationTile = {
+      findFresh: async () => [],
+      save: async (data: SaveTileData) => {
+        saved.push(data);
+      }
+    };
+    await cacheStore.invalidate('location-tiles');
+  });
+
+  afterEach(() => {
+    Object.assign(tiles, original);
+    (db as unknown as { locationTile: typeof originalTiles }).locationTile = originalTiles;
+  });
+
+  const search = () => new TiledLocationProvider(provider).searchNearby({
+    latitude: 48.8606,
+    longitude: 2.3376,
+    radius: 1000,
+    categories: [POICategory.MUSEUM]
+  });
+
+  it('fetches a cold search\'s tiles a few at a time', async () => {
+    const response = await search();
+
+    assert.ok(provider.tileSearches.length > 2);
+    assert.equal(provider.maxInFlight, 2);
+    assert.equal(response.metadata.tiles?.fetched, provider.tileSearches.length);
+    assert.equal(saved.length, provider.tileSearches.length);
+    assert.ok(saved.every(tile => !tile.truncated));
+    assert.equal(provider.directSearches.length, 0);
+  });
+
+  it('marks truncated tiles and fills in around them with a direct search', async () => {
+    provider.truncated = true;
+    provider.nearby = [museum('louvre', 48.8606, 2.3376)];
+
+    const first = await search();
+
+    assert.ok(saved.length > 0 && saved.every(tile => tile.truncated));
+    assert.equal(provider.directSearches.length, 1);
+    assert.equal(first.metadata.tiles?.supplemented, true);
+    assert.equal(first.places[0]?.id, 'louvre');
+
+    // Served from the cached tiles, which still need the direct search
+    const tileSearches = provider.tileSearches.length;
+    const second = await search();
+
+    assert.equal(provider.tileSearches.length, tileSearches);
+    assert.equal(provider.directSearches.length, 2);
+    assert.equal(second.metadata.tiles?.truncated, second.metadata.tiles?.total);
+    assert.equal(second.metadata.cached, false);
+  });
+});
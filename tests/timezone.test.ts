@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TimezoneService } from '@shared/services/timezone';
+
+const FIXTURE = 'tests/fixtures/timezones.geojson';
+const PARIS = { latitude: 48.8566, longitude: 2.3522 };
+
+describe('TimezoneService', () => {
+  it('falls back to the longitude zone until boundaries are loaded', () => {
+    const service = new TimezoneService();
+
+    assert.deepEqual(service.lookup(PARIS.latitude, PARIS.longitude), { timezone: 'Etc/UTC', source: 'longitude' });
+    assert.equal(service.getStatus().loaded, false);
+  });
+
+  it('resolves real zones with daylight saving time once loaded', async () => {
+    const service = new TimezoneService();
+    assert.equal(await service.load(FIXTURE), true);
+
+    assert.deepEqual(service.lookup(PARIS.latitude, PARIS.longitude), { timezone: 'Europe/Paris', source: 'boundaries' });
+    assert.equal(service.lookup(51.5074, -0.1278).timezone, 'Europe/London');
+
+    const summer = service.getLocalContext(PARIS.latitude, PARIS.longitude, new Date('2025-07-01T10:00:00Z'));
+    assert.equal(summer.utcOffsetMinutes, 120);
+    assert.equal(summer.localTime, '12:00');
+    assert.equal(summer.timeOfDay, 'afternoon');
+
+    const winter = service.getLocalContext(PARIS.latitude, PARIS.longitude, new Date('2025-01-15T10:00:00Z'));
+    assert.equal(winter.utcOffsetMinutes, 60);
+    assert.equal(service.getStatus().zones, 2);
+  });
+
+  it('reports a missing boundary file instead of throwing', async () => {
+    const service = new TimezoneService();
+
+    assert.equal(await service.load('tests/fixtures/missing.geojson'), false);
+    assert.equal(service.lookup(PARIS.latitude, PARIS.longitude).source, 'longitude');
+  });
+});
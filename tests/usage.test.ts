@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '@shared/config';
+import { db, RecordUsageData, UsageTotals } from '@shared/database';
+import { RateLimitError } from '@shared/errors';
+import { usageService } from '@shared/services';
+import { AIResponse } from '@shared/services/ai';
+
+interface LedgerRow {
+  date: Date;
+  requests: number;
+  tokensUsed: number;
+  cost: number;
+}
+
+// Stands in for AIUsageRepository; reservations queue behind one another like the advisory lock makes them
+class InMemoryUsage {
+  readonly rows = new Map<string, LedgerRow>();
+  private lock: Promise<unknown> = Promise.resolve();
+
+  async reserve(data: RecordUsageData, monthStart: Date, check: (daily: UsageTotals, monthly: UsageTotals) => void) {
+    const run = this.lock.then(async () => {
+      const daily = await this.getTotals(data.userId, data.date, data.date);
+      const monthly = await this.getTotals(data.userId, monthStart, data.date);
+      check(daily, monthly);
+      await this.adjust(data, 1);
+    });
+    this.lock = run.catch(() => {});
+    return run;
+  }
+
+  async adjust(data: RecordUsageData, requests: number) {
+    const key = data.date.toISOString().slice(0, 10);
+    const row = this.rows.get(key) ?? { date: data.date, requests: 0, tokensUsed: 0, cost: 0 };
+    this.rows.set(key, {
+      ...row,
+      requests: row.requests + requests,
+      tokensUsed: row.tokensUsed + data.tokensUsed,
+      cost: Math.round((row.cost + data.cost) * 1e6) / 1e6
+    });
+  }
+
+  async getTotals(userId: string, from: Date, to: Date): Promise<UsageTotals> {
+    return (await this.findDaily(userId, from, to)).reduce(
+      (totals, row) => ({
+        requests: totals.requests + row.requests,
+        tokensUsed: totals.tokensUsed + row.tokensUsed,
+        cost: totals.cost + row.cost
+      }),
+      { requests: 0, tokensUsed: 0, cost: 0 }
+    );
+  }
+
+  async findDaily(_userId: string, from: Date, to: Date) {
+    return [...this.rows.values()]
+      .filter(row => row.date >= from && row.date <= to)
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  row(date: string): LedgerRow | undefined {
+    return this.rows.get(date);
+  }
+}
+
+function metadata(extra: Partial<AIResponse['metadata']> = {}): AIResponse['metadata'] {
+  return { provider: 'openai', model: 'gpt-4o-mini', responseTime: 10, tokensUsed: 1200, cost: 0.0012, ...extra };
+}
+
+describe('UsageService', () => {
+  const usage = config.usage;
+  const original = { enabled: usage.enabled, free: { ...usage.tiers.free }, reservation: { ...usage.reservation } };
+  const originalUsage = db.aiUsage;
+  const originalUsers = db.user;
+  let ledger: InMemoryUsage;
+
+  beforeEach(() => {
+    usage.enabled = true;
+    Object.assign(usage.tiers.free, { dailyTokens: 5000, monthlyTokens: 0, dailyCost: 0, monthlyCost: 0 });
+    Object.assign(usage.reservation, { tokens: 3000, cost: 0.003 });
+    ledger = new InMemoryUsage();
+    (db as unknown as { aiUsage: unknown }).aiUsage = ledger;
+    (db as unknown as { user: unknown }).user = { findById: async (id: string) => ({ id, tier: 'free' }) };
+    mock.timers.enable({ apis: ['Date'], now: new Date('2025-04-30T23:50:00Z') });
+  });
+
+  afterEach(() => {
+    usage.enabled = original.enabled;
+    Object.assign(usage.tiers.free, original.free);
+    Object.assign(usage.reservation, original.reservation);
+    (db as unknown as { aiUsage: typeof originalUsage }).aiUsage = originalUsage;
+    (db as unknown as { user: typeof originalUsers }).user = originalUsers;
+    mock.timers.reset();
+  });
+
+  it('books the estimate up front and refuses once the booked usage reaches the budget', async () => {
+    await usageService.reserve('user-1');
+    await usageService.reserve('user-1');
+
+    assert.deepEqual(ledger.row('2025-04-30'), { date: new Date('2025-04-30T00:00:00Z'), requests: 2, tokensUsed: 6000, cost: 0.006 });
+    await assert.rejects(usageService.reserve('user-1'), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.message, 'AI daily token budget for the free tier is exhausted, resets at 2025-05-01T00:00:00.000Z');
+      return true;
+    });
+  });
+
+  it('lets only one of two parallel generations start on the last of the budget', async () => {
+    usage.tiers.free.dailyTokens = 3000;
+
+    const results = await Promise.allSettled([usageService.reserve('user-1'), usageService.reserve('user-1')]);
+
+    assert.deepEqual(results.map(result => result.status).sort(), ['fulfilled', 'rejected']);
+    assert.equal(ledger.row('2025-04-30')!.requests, 1);
+  });
+
+  it('settles a reservation to the real usage, and cached responses to nothing', async () => {
+    const generated = await usageService.reserve('user-1');
+    const cached = await usageService.reserve('user-1');
+
+    await usageService.settle(generated, metadata());
+    await usageService.settle(cached, metadata({ cached: true }));
+    await usageService.settle(cached, metadata());
+
+    assert.deepEqual(ledger.row('2025-04-30'), { date: new Date('2025-04-30T00:00:00Z'), requests: 2, tokensUsed: 1200, cost: 0.0012 });
+  });
+
+  it('takes back the booking of a failed generation but not of a settled one', async () => {
+    const failed = await usageService.reserve('user-1');
+    const succeeded = await usageService.reserve('user-1');
+    await usageService.settle(succeeded, metadata());
+
+    await usageService.release(failed);
+    await usageService.release(succeeded);
+
+    assert.deepEqual(ledger.row('2025-04-30'), { date: new Date('2025-04-30T00:00:00Z'), requests: 1, tokensUsed: 1200, cost: 0.0012 });
+  });
+
+  it('settles a generation that runs past midnight on the day it started', async () => {
+    const reservation = await usageService.reserve('user-1');
+    mock.timers.setTime(new Date('2025-05-01T00:05:00Z').getTime());
+
+    await usageService.settle(reservation, metadata());
+
+    assert.equal(ledger.row('2025-04-30')!.tokensUsed, 1200);
+    assert.equal(ledger.row('2025-05-01'), undefined);
+  });
+
+  it('keeps the ledger without enforcing anything when limits are off', async () => {
+    usage.enabled = false;
+    usage.tiers.free.dailyTokens = 1;
+    await ledger.adjust({ userId: 'user-1', date: new Date('2025-04-30T00:00:00Z'), tokensUsed: 10, cost: 0 }, 1);
+
+    const reservation = await usageService.reserve('user-1');
+    await usageService.settle(reservation, metadata());
+
+    assert.deepEqual(ledger.row('2025-04-30'), { date: new Date('2025-04-30T00:00:00Z'), requests: 2, tokensUsed: 1210, cost: 0.0012 });
+  });
+
+  it('reports usage over UTC days and calendar months', async () => {
+    mock.timers.setTime(new Date('2025-05-01T03:00:00Z').getTime()); // Still April 30 in New York
+    const day = (date: string) => ({ userId: 'user-1', date: new Date(`${date}T00:00:00Z`), cost: 0.001 });
+    await ledger.adjust({ ...day('2025-04-30'), tokensUsed: 4000 }, 2);
+    await ledger.adjust({ ...day('2025-05-01'), tokensUsed: 700 }, 1);
+
+    const summary = await usageService.getUsage('user-1');
+
+    assert.equal(summary.today.start, '2025-05-01');
+    assert.equal(summary.today.resetsAt, '2025-05-02T00:00:00.000Z');
+    assert.deepEqual(summary.today.used, { requests: 1, tokensUsed: 700, cost: 0.001 });
+    assert.equal(summary.today.remaining.tokens, 4300);
+    assert.equal(summary.month.start, '2025-05-01');
+    assert.equal(summary.month.resetsAt, '2025-06-01T00:00:00.000Z');
+    assert.equal(summary.month.used.tokensUsed, 700);
+    assert.deepEqual(summary.daily.map(row => row.date), ['2025-05-01']);
+  });
+});
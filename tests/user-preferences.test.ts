@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '@shared/config';
+import { db } from '@shared/database';
+import { aiService, locationService, recommendationFeedbackService } from '@shared/services';
+import { AIFeedbackContext, AIProvider, AIRecommendationRequest } from '@shared/services/ai';
+import { LocationSearchRequest, LocationSearchResponse, MOOD_CATEGORY_MAPPING, POICategory } from '@shared/services/location';
+
+const center = { latitude: 48.8606, longitude: 2.3376 };
+
+const emptySearch: LocationSearchResponse = {
+  places: [],
+  metadata: { provider: 'hybrid', responseTime: 1, totalResults: 0, searchRadius: 1000, categoriesSearched: [] }
+};
+
+describe('user preference profiles', () => {
+  const originalUsers = db.user;
+  let stored: unknown;
+  let lookups: number;
+
+  beforeEach(() => {
+    stored = null;
+    lookups = 0;
+    (db as unknown as { user: unknown }).user = {
+      findById: async (id: string) => {
+        lookups++;
+        return { id, email: 'traveller@example.com', preferences: stored };
+      }
+    };
+  });
+
+  afterEach(() => {
+    (db as unknown as { user: typeof originalUsers }).user = originalUsers;
+    mock.restoreAll();
+  });
+
+  describe('in location searches', () => {
+    const service = locationService as unknown as {
+      searchProviders: (request: Required<LocationSearchRequest>) => Promise<LocationSearchResponse>;
+    };
+    const originalSearch = service.searchProviders;
+    let searched: Array<Required<LocationSearchRequest>>;
+
+    beforeEach(() => {
+      searched = [];
+      service.searchProviders = async request => {
+        searched.push(request);
+        return emptySearch;
+      };
+    });
+
+    afterEach(async () => {
+      service.searchProviders = originalSearch;
+      await locationService.clearCache();
+    });
+
+    it('searches the favourite categories when the request names neither categories nor mood', async () => {
+      stored = { favouriteCategories: ['museum', 'gallery'], defaultMood: 'hungry' };
+
+      await locationService.searchNearby(center, 'user-1');
+
+      assert.deepEqual(searched[0]!.categories, [POICategory.GALLERY, POICategory.MUSEUM]);
+      assert.equal(searched[0]!.mood, 'hungry');
+    });
+
+    it('falls back to the categories of the default mood', async () => {
+      stored = { defaultMood: 'relaxed' };
+
+      await locationService.searchNearby(center, 'user-1');
+
+      assert.deepEqual(searched[0]!.categories, [...MOOD_CATEGORY_MAPPING.relaxed!].sort());
+      assert.equal(searched[0]!.mood, 'relaxed');
+    });
+
+    it('leaves the profile alone when the request already says what to look for', async () => {
+      stored = { favouriteCategories: ['museum'], defaultMood: 'relaxed' };
+
+      await locationService.searchNearby({ ...center, mood: 'hungry' }, 'user-1');
+      await locationService.searchNearby({ ...center, categories: [POICategory.PARK] }, 'user-1');
+
+      assert.equal(lookups, 0);
+      assert.deepEqual(searched[0]!.categories, [...MOOD_CATEGORY_MAPPING.hungry!].sort());
+      assert.deepEqual(searched[1]!.categories, [POICategory.PARK]);
+    });
+
+    it('searches everything when there is no usable profile', async () => {
+      mock.method(console, 'warn', () => {});
+      stored = { favouriteCategories: 'museum' }; // Fails the schema, so it is ignored
+
+      await locationService.searchNearby(center, 'user-1');
+
+      assert.equal(lookups, 1);
+      assert.deepEqual(searched[0]!.categories, Object.values(POICategory).sort());
+      assert.equal(searched[0]!.mood, 'curious');
+    });
+  });
+
+  describe('in AI requests', () => {
+    const ai = config.ai;
+    const original = { timeout: ai.timeout, caching: ai.enableCaching, maxRetries: ai.maxRetries };
+    const providers = (aiService as unknown as { providers: Map<string, AIProvider> }).providers;
+    const originalProvider = providers.get(ai.provider)!;
+    const feedback: AIFeedbackContext = {
+      likedCategories: ['museum'],
+      dislikedCategories: [],
+      suppressedPlaceIds: [],
+      suppressedPlaceNames: []
+    };
+    let prompts: AIRecommendationRequest[];
+
+    beforeEach(() => {
+      // The provider timeout timer outlives each call, so keep it short enough not to hold the test run open
+      Object.assign(ai, { timeout: 200, enableCaching: false, maxRetries: 1 });
+      prompts = [];
+      mock.method(locationService, 'searchNearby', async () => emptySearch);
+      mock.method(recommendationFeedbackService, 'getFeedbackContext', async () => feedback);
+      providers.set(ai.provider, {
+        generateRecommendations: async (request: AIRecommendationRequest) => {
+          prompts.push(request);
+          return { recommendations: [], metadata: { provider: 'fake', model: 'fake-1', responseTime: 1 } };
+        },
+        validateConfig: () => true,
+        getProviderName: () => 'fake',
+        getModelName: () => 'fake-1'
+      });
+    });
+
+    afterEach(() => {
+      Object.assign(ai, { timeout: original.timeout, enableCaching: original.caching, maxRetries: original.maxRetries });
+      providers.set(ai.provider, originalProvider);
+    });
+
+    it('merges favourite categories into the preferences and fills in what the request left out', async () => {
+      stored = {
+        favouriteCategories: ['ice_cream', 'museum'],
+        budget: 'low',
+        dietaryRestrictions: ['vegan'],
+        accessibility: ['step_free']
+      };
+
+      await aiService.generateRecommendations({ ...center, mood: 'curious', preferences: ['museum', 'jazz'] }, 'user-1');
+
+      const prompt = prompts[0]!;
+      assert.deepEqual(prompt.preferences, ['museum', 'jazz', 'ice cream']);
+      assert.equal(prompt.budget, 'low');
+      assert.deepEqual(prompt.dietaryRestrictions, ['vegan']);
+      assert.deepEqual(prompt.accessibility, ['step_free']);
+      assert.deepEqual(prompt.feedback, feedback);
+    });
+
+    it('keeps the budget the request asked for', async () => {
+      stored = { budget: 'low' };
+
+      await aiService.generateRecommendations({ ...center, mood: 'curious', budget: 'high' }, 'user-1');
+
+      assert.equal(prompts[0]!.budget, 'high');
+      assert.equal(prompts[0]!.preferences, undefined);
+    });
+
+    it('uses the request as is for anonymous callers', async () => {
+      stored = { budget: 'low', dietaryRestrictions: ['vegan'] };
+
+      await aiService.generateRecommendations({ ...center, mood: 'curious' });
+
+      assert.equal(lookups, 0);
+      assert.equal(prompts[0]!.budget, undefined);
+      assert.equal(prompts[0]!.feedback, undefined);
+    });
+  });
+});